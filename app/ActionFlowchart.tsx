@@ -1,5 +1,22 @@
 "use client";
 
+import { useEffect, useMemo, useState } from "react";
+
+export type ActionFlowchartNode = {
+  id: string;
+  kind: "action" | "check" | "outcome";
+  text: string;
+  detail?: string;
+};
+
+export type ActionFlowchartEdge = {
+  from: string;
+  to: string;
+  kind: "next" | "yes" | "no";
+  label?: string;
+};
+
+// Linear step of the v14.5 plans, still found in older conversations.
 export type ActionFlowchartStep = {
   action: string;
   control: string;
@@ -10,19 +27,25 @@ export type ActionFlowchartStep = {
 export type ActionFlowchartData = {
   title: string;
   start: string;
-  steps: ActionFlowchartStep[];
-  outcome: string;
+  entry?: string;
+  nodes?: ActionFlowchartNode[];
+  edges?: ActionFlowchartEdge[];
+  steps?: ActionFlowchartStep[];
+  outcome?: string;
   caution: string;
   clarification_required?: boolean;
   clarification_question?: string;
   clarification_options?: string[];
 };
 
-// Kept for backwards-compatible imports in the v14.5 page. The visual plan is
-// intentionally no longer interactive in v14.5.1.
-export type ActionFlowchartStepStatus = "pending" | "ok" | "retry";
+// "done" for an action, the answer given for a check.
+export type ActionFlowchartNodeStatus = "done" | "yes" | "no";
+export type ActionFlowchartVisit = { node: string; status: ActionFlowchartNodeStatus };
+
 export type ActionFlowchartProgress = {
-  statuses: ActionFlowchartStepStatus[];
+  current: string;
+  path: ActionFlowchartVisit[];
+  statuses: Record<string, ActionFlowchartNodeStatus>;
   completed_count: number;
   retry_count: number;
   step_count: number;
@@ -40,97 +63,379 @@ type ActionFlowchartProps = {
   onProgress?: (progress: ActionFlowchartProgress) => void;
 };
 
-function FlowConnector() {
-  return <div className="v144-flow-connector" aria-hidden="true" />;
+type FlowGraph = { entry: string; nodes: ActionFlowchartNode[]; edges: ActionFlowchartEdge[] };
+
+const STORAGE_PREFIX = "ernesto-flow-progress:";
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+
+const REVISION_ERRORS: Record<string, string> = {
+  photo_too_large: "Photo trop lourde (2 Mo maximum).",
+  unsupported_photo: "Ce fichier n’est pas une photo.",
+  revision_limit_reached: "Ce plan a déjà été adapté de nombreuses fois : reprenez la situation avec Ernesto dans une nouvelle question.",
+};
+
+// A v14.5 step becomes action → check; "no" goes through the correction and
+// back to the same check, "yes" to the next step.
+function linearGraph(data: ActionFlowchartData): FlowGraph {
+  const steps = (data.steps ?? []).slice(0, 5);
+  const nodes: ActionFlowchartNode[] = [];
+  const edges: ActionFlowchartEdge[] = [];
+  steps.forEach((step, index) => {
+    nodes.push({ id: `a${index + 1}`, kind: "action", text: step.action });
+    nodes.push({ id: `c${index + 1}`, kind: "check", text: step.control });
+    nodes.push({ id: `f${index + 1}`, kind: "action", text: step.if_not });
+    edges.push({ from: `a${index + 1}`, to: `c${index + 1}`, kind: "next" });
+    edges.push({ from: `c${index + 1}`, to: index + 1 < steps.length ? `a${index + 2}` : "end", kind: "yes", label: step.if_ok });
+    edges.push({ from: `c${index + 1}`, to: `f${index + 1}`, kind: "no" });
+    edges.push({ from: `f${index + 1}`, to: `c${index + 1}`, kind: "next" });
+  });
+  nodes.push({ id: "end", kind: "outcome", text: data.outcome || "Résultat attendu" });
+  return { entry: "a1", nodes, edges };
+}
+
+export function flowchartGraph(data: ActionFlowchartData): FlowGraph | null {
+  if (Array.isArray(data.nodes) && data.nodes.length) {
+    const entry = data.entry && data.nodes.some((node) => node.id === data.entry) ? data.entry : data.nodes[0].id;
+    return { entry, nodes: data.nodes, edges: Array.isArray(data.edges) ? data.edges : [] };
+  }
+  return Array.isArray(data.steps) && data.steps.length ? linearGraph(data) : null;
+}
+
+// Actions and checks, one line each, for the history sent back to the tutor.
+export function flowchartOutline(data: ActionFlowchartData) {
+  const graph = flowchartGraph(data);
+  if (!graph) return [];
+  return graph.nodes
+    .filter((node) => node.kind !== "outcome")
+    .map((node) => (node.kind === "check" ? `contrôle : ${node.text}` : node.text))
+    .slice(0, 12);
+}
+
+function progressOf(graph: FlowGraph, current: string, path: ActionFlowchartVisit[]): ActionFlowchartProgress {
+  const statuses: Record<string, ActionFlowchartNodeStatus> = {};
+  path.forEach((visit) => {
+    statuses[visit.node] = visit.status;
+  });
+  return {
+    current,
+    path,
+    statuses,
+    completed_count: Object.values(statuses).filter((status) => status !== "no").length,
+    retry_count: path.filter((visit) => visit.status === "no").length,
+    step_count: graph.nodes.filter((node) => node.kind !== "outcome").length,
+  };
+}
+
+function isRevisedPlan(value: unknown): value is ActionFlowchartData {
+  return Boolean(value) && typeof value === "object" && Array.isArray((value as ActionFlowchartData).nodes);
+}
+
+function validPath(graph: FlowGraph, value: unknown): ActionFlowchartVisit[] | null {
+  if (!Array.isArray(value)) return null;
+  const path = value.filter(
+    (visit): visit is ActionFlowchartVisit =>
+      Boolean(visit) &&
+      graph.nodes.some((node) => node.id === visit.node) &&
+      ["done", "yes", "no"].includes(visit.status)
+  );
+  return path.length === value.length ? path : null;
 }
 
-export function ActionFlowchart({ data }: ActionFlowchartProps) {
-  const steps = Array.isArray(data.steps) ? data.steps.slice(0, 5) : [];
-  if (!steps.length) return null;
+export function ActionFlowchart({ data, progressKey, remoteProgress, onClarify, onProgress }: ActionFlowchartProps) {
+  // A guided run may replace the plan of the message with a revised one.
+  const [revised, setRevised] = useState<ActionFlowchartData | null>(null);
+  const plan = revised ?? data;
+  const graph = useMemo(() => flowchartGraph(plan), [plan]);
+  const [current, setCurrent] = useState(graph?.entry ?? "");
+  const [path, setPath] = useState<ActionFlowchartVisit[]>([]);
+  const [treeOpen, setTreeOpen] = useState(false);
+  const [retryNode, setRetryNode] = useState("");
+  const [observation, setObservation] = useState("");
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [revising, setRevising] = useState(false);
+  const [revisionNote, setRevisionNote] = useState("");
+  const [revisionError, setRevisionError] = useState("");
+  const remoteToken = remoteProgress?.accessToken;
+  const remoteProjectId = remoteProgress?.projectId;
+  const remoteMessageId = remoteProgress?.messageId;
+
+  // Local progress first, then the server's copy when it exists. Either may
+  // carry a revised plan, which the path is then checked against.
+  useEffect(() => {
+    const restore = (value: { current?: unknown; path?: unknown; plan?: unknown } | null) => {
+      const restoredPlan = isRevisedPlan(value?.plan) ? value.plan : null;
+      const restoredGraph = flowchartGraph(restoredPlan ?? data);
+      if (!restoredGraph) return;
+      const restored = validPath(restoredGraph, value?.path);
+      if (!restored || typeof value?.current !== "string" || !restoredGraph.nodes.some((node) => node.id === value.current)) return;
+      setRevised(restoredPlan);
+      setPath(restored);
+      setCurrent(value.current);
+    };
+    if (progressKey) {
+      try {
+        restore(JSON.parse(window.localStorage.getItem(`${STORAGE_PREFIX}${progressKey}`) || "null"));
+      } catch {
+        // A corrupted local copy only loses the local progress.
+      }
+    }
+    if (!remoteToken || !remoteProjectId || !remoteMessageId) return;
+    const params = new URLSearchParams({ projectId: remoteProjectId, messageId: remoteMessageId });
+    let cancelled = false;
+    fetch(`/api/action-plan-progress?${params}`, { headers: { Authorization: `Bearer ${remoteToken}` } })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (!cancelled && result?.progress) {
+          restore({ current: result.progress.current_node, path: result.progress.path, plan: result.progress.plan });
+        }
+      })
+      .catch(() => {
+        // The local copy stays in use.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [data, progressKey, remoteToken, remoteProjectId, remoteMessageId]);
+
+  if (!graph) return null;
+  const flow = graph;
+  const nodeById = new Map(flow.nodes.map((node) => [node.id, node]));
+  const node = nodeById.get(current) ?? nodeById.get(flow.entry);
+  if (!node) return null;
+  const outgoing = (id: string, kind: ActionFlowchartEdge["kind"]) =>
+    flow.edges.find((edge) => edge.from === id && edge.kind === kind);
+
+  function record(nextCurrent: string, nextPath: ActionFlowchartVisit[], nextPlan = revised) {
+    setRevised(nextPlan);
+    setCurrent(nextCurrent);
+    setPath(nextPath);
+    const progress = progressOf(flowchartGraph(nextPlan ?? data) ?? flow, nextCurrent, nextPath);
+    if (progressKey) {
+      try {
+        window.localStorage.setItem(
+          `${STORAGE_PREFIX}${progressKey}`,
+          JSON.stringify({ current: nextCurrent, path: nextPath, plan: nextPlan })
+        );
+      } catch {
+        // Private browsing: progress is only kept for this view.
+      }
+    }
+    onProgress?.(progress);
+  }
 
-  const clarificationOptions = Array.isArray(data.clarification_options)
-    ? data.clarification_options
+  function answer(status: ActionFlowchartNodeStatus) {
+    if (!node) return;
+    const edge = outgoing(node.id, status === "done" ? "next" : status);
+    if (!edge) return;
+    record(edge.to, [...path, { node: node.id, status }]);
+    // A failed control can be sent to Ernesto, which then rewrites what follows.
+    setRetryNode(status === "no" && remoteToken ? node.id : "");
+    setRevisionError("");
+  }
+
+  function back() {
+    const previous = path[path.length - 1];
+    if (previous) record(previous.node, path.slice(0, -1));
+    setRetryNode("");
+  }
+
+  async function reviseBranch() {
+    if (!remoteToken || !remoteProjectId || !remoteMessageId || !retryNode) return;
+    if (photo && photo.size > MAX_PHOTO_BYTES) {
+      setRevisionError(REVISION_ERRORS.photo_too_large);
+      return;
+    }
+    const form = new FormData();
+    form.append("projectId", remoteProjectId);
+    form.append("messageId", remoteMessageId);
+    form.append("node", retryNode);
+    form.append("observation", observation);
+    form.append("path", JSON.stringify(path));
+    // Plans of older conversations are sent in their converted, branching form.
+    form.append("flowchart", JSON.stringify({ ...plan, entry: flow.entry, nodes: flow.nodes, edges: flow.edges }));
+    if (photo) form.append("photo", photo);
+    setRevising(true);
+    setRevisionError("");
+    try {
+      const response = await fetch("/api/action-plan-revision", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${remoteToken}` },
+        body: form,
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !isRevisedPlan(result?.flowchart)) throw new Error(result?.error || "revision_unavailable");
+      record(result.progress.current_node, validPath(flowchartGraph(result.flowchart) ?? flow, result.progress.path) ?? [], result.flowchart);
+      setRevisionNote(String(result.answer || ""));
+      setRetryNode("");
+      setObservation("");
+      setPhoto(null);
+    } catch (err: unknown) {
+      const code = err instanceof Error ? err.message : "";
+      setRevisionError(REVISION_ERRORS[code] || "La suite n’a pas pu être adaptée ; le plan prévu reste valable.");
+    } finally {
+      setRevising(false);
+    }
+  }
+
+  const clarificationOptions = Array.isArray(plan.clarification_options)
+    ? plan.clarification_options
         .map((option) => String(option || "").trim())
         .filter(Boolean)
         .slice(0, 3)
     : [];
-  const hasClarification = Boolean(
-    data.clarification_required && data.clarification_question?.trim()
-  );
+  const hasClarification = Boolean(plan.clarification_required && plan.clarification_question?.trim());
+  const answerLabel: Record<ActionFlowchartNodeStatus, string> = { done: "fait", yes: "oui", no: "non" };
 
   return (
-    <section className="v144-flowchart" aria-label={`Plan d’action : ${data.title || "Plan d’action"}`}>
+    <section className="v144-flowchart" aria-label={`Plan d’action : ${plan.title || "Plan d’action"}`}>
       <div className="v144-flowchart-kicker">Plan d’action</div>
-      <h3 className="v144-flowchart-title">{data.title || "Plan d’action"}</h3>
+      <h3 className="v144-flowchart-title">{plan.title || "Plan d’action"}</h3>
 
       {hasClarification ? (
         <div className="v145-flow-clarification">
           <span className="v145-flow-clarification-label">À confirmer</span>
-          <strong>{data.clarification_question}</strong>
-          {clarificationOptions.length ? (
-            <div className="v145-flow-clarification-waiting">
-              Repères possibles : {clarificationOptions.join(" · ")}. Le parcours ci-dessous reste une base prudente à ajuster avec cette information.
-            </div>
-          ) : (
-            <div className="v145-flow-clarification-waiting">
-              Le parcours ci-dessous reste une base prudente à ajuster lorsque cette information sera connue.
+          <strong>{plan.clarification_question}</strong>
+          {clarificationOptions.length && onClarify ? (
+            <div className="v146-flow-answers">
+              {clarificationOptions.map((option) => (
+                <button type="button" key={option} onClick={() => onClarify(option)}>
+                  {option}
+                </button>
+              ))}
             </div>
-          )}
+          ) : null}
+          <div className="v145-flow-clarification-waiting">
+            Le parcours ci-dessous reste une base prudente à ajuster avec cette information.
+          </div>
         </div>
       ) : null}
 
       <div className="v144-flowchart-track">
         <div className="v144-flow-node v144-flow-node--terminal">
           <span className="v144-flow-node-label">Point de départ</span>
-          <span>{data.start}</span>
+          <span>{plan.start}</span>
         </div>
 
-        {steps.map((step, index) => (
-          <div className="v144-flow-step" key={`${index}-${step.action}`}>
-            <FlowConnector />
+        {path.length ? (
+          <ol className="v146-flow-path" aria-label="Parcours suivi">
+            {path.map((visit, index) => (
+              <li key={`${index}-${visit.node}`} className={`v146-flow-path--${visit.status}`}>
+                <span>{nodeById.get(visit.node)?.text}</span>
+                <b>{answerLabel[visit.status]}</b>
+              </li>
+            ))}
+          </ol>
+        ) : null}
 
-            <div className="v144-flow-node v144-flow-node--action">
-              <span className="v144-flow-step-number">{index + 1}</span>
-              <span>{step.action}</span>
-            </div>
+        <div className="v144-flow-connector" aria-hidden="true" />
 
-            <FlowConnector />
+        <div
+          className={`v144-flow-node ${
+            node.kind === "check"
+              ? "v144-flow-node--decision"
+              : node.kind === "outcome"
+                ? "v144-flow-node--terminal v144-flow-node--outcome"
+                : "v144-flow-node--action"
+          } v146-flow-current`}
+          aria-live="polite"
+        >
+          {node.kind === "check" ? <span className="v144-flow-decision-mark" aria-hidden="true">?</span> : null}
+          <span>
+            <span className="v144-flow-node-label">
+              {node.kind === "check" ? "Vérifier" : node.kind === "outcome" ? "Résultat" : "Faire"}
+            </span>
+            {node.text}
+            {node.detail ? <span className="v146-flow-detail">{node.detail}</span> : null}
+          </span>
+        </div>
 
-            <div className="v144-flow-node v144-flow-node--decision">
-              <span className="v144-flow-decision-mark" aria-hidden="true">?</span>
-              <span>
-                <span className="v144-flow-node-label">Vérifier</span>
-                {step.control}
-              </span>
-            </div>
+        <div className="v146-flow-answers">
+          {node.kind === "action" ? (
+            <button type="button" onClick={() => answer("done")}>C’est fait</button>
+          ) : null}
+          {node.kind === "check" ? (
+            <>
+              <button type="button" className="v146-flow-yes" onClick={() => answer("yes")}>
+                Oui{outgoing(node.id, "yes")?.label ? ` · ${outgoing(node.id, "yes")?.label}` : ""}
+              </button>
+              <button type="button" className="v146-flow-no" onClick={() => answer("no")}>
+                Non{outgoing(node.id, "no")?.label ? ` · ${outgoing(node.id, "no")?.label}` : ""}
+              </button>
+            </>
+          ) : null}
+          {path.length ? (
+            <button type="button" className="v146-flow-secondary" onClick={back}>Étape précédente</button>
+          ) : null}
+          {path.length ? (
+            <button type="button" className="v146-flow-secondary" onClick={() => record(flow.entry, [])}>Recommencer</button>
+          ) : null}
+        </div>
 
-            <div className="v144-flow-branches">
-              <div className="v144-flow-branch v144-flow-branch--ok">
-                <span className="v144-flow-branch-label">
-                  Si oui · {index === steps.length - 1 ? "résultat" : "continuer"}
-                </span>
-                <span>{step.if_ok}</span>
-              </div>
-              <div className="v144-flow-branch v144-flow-branch--retry">
-                <span className="v144-flow-branch-label">Sinon · ajuster puis vérifier</span>
-                <span>{step.if_not}</span>
-              </div>
+        {retryNode ? (
+          <div className="v145-flow-clarification v146-flow-revision">
+            <span className="v145-flow-clarification-label">À reprendre</span>
+            <strong>Ernesto peut adapter la suite à ce que vous observez.</strong>
+            <textarea
+              placeholder="Ce que vous observez (facultatif)"
+              aria-label="Observation"
+              maxLength={800}
+              value={observation}
+              onChange={(e) => setObservation(e.target.value)}
+            />
+            <input
+              type="file"
+              accept="image/*"
+              aria-label="Photo de l’état actuel"
+              onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+            />
+            {revisionError ? <div className="v145-dossier-summary-error">{revisionError}</div> : null}
+            <div className="v146-flow-answers">
+              <button type="button" disabled={revising} onClick={() => void reviseBranch()}>
+                {revising ? "Ernesto adapte la suite…" : "Adapter la suite"}
+              </button>
+              <button type="button" className="v146-flow-secondary" disabled={revising} onClick={() => setRetryNode("")}>
+                Suivre le plan prévu
+              </button>
             </div>
           </div>
-        ))}
+        ) : null}
 
-        <FlowConnector />
-
-        <div className="v144-flow-node v144-flow-node--terminal v144-flow-node--outcome">
-          <span className="v144-flow-node-label">Résultat attendu</span>
-          <span>{data.outcome}</span>
-        </div>
+        {revisionNote ? (
+          <div className="v146-flow-detail" role="status">
+            Suite adaptée : {revisionNote}
+          </div>
+        ) : null}
       </div>
 
-      {data.caution ? (
+      <button type="button" className="v146-inline-link" onClick={() => setTreeOpen((open) => !open)} aria-expanded={treeOpen}>
+        {treeOpen ? "Masquer l’arbre complet" : "Voir l’arbre complet"}
+      </button>
+      {treeOpen ? (
+        <ul className="v146-flow-tree">
+          {flow.nodes.map((item) => {
+            const status = path.filter((visit) => visit.node === item.id).pop()?.status;
+            return (
+              <li key={item.id} className={item.id === node.id ? "current" : undefined}>
+                <b>{item.kind === "check" ? "Vérifier : " : item.kind === "outcome" ? "Résultat : " : ""}{item.text}</b>
+                {status ? <span className={`v146-flow-path--${status}`}> ({answerLabel[status]})</span> : null}
+                {flow.edges
+                  .filter((edge) => edge.from === item.id)
+                  .map((edge) => (
+                    <div key={`${edge.kind}-${edge.to}`}>
+                      {edge.kind === "yes" ? "Si oui" : edge.kind === "no" ? "Si non" : "Puis"} → {nodeById.get(edge.to)?.text}
+                      {edge.label ? ` (${edge.label})` : ""}
+                    </div>
+                  ))}
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+
+      {plan.caution ? (
         <div className="v144-flowchart-caution">
           <strong>Point de vigilance</strong>
-          <span>{data.caution}</span>
+          <span>{plan.caution}</span>
         </div>
       ) : null}
     </section>
@@ -0,0 +1,267 @@
+"use client";
+
+import Image from "next/image";
+import { useCallback, useEffect, useState, type ReactNode } from "react";
+
+export type BakeLogRow = {
+  id: number;
+  baked_at: string;
+  label: string;
+  flour: string;
+  hydration: number | null;
+  dough_temp: number | null;
+  cold_hours: number | null;
+  oven_type: string;
+  oven_temp: number | null;
+  bake_seconds: number | null;
+  rating: number;
+  outcome: string;
+  note: string;
+  photo_before_url: string | null;
+  photo_after_url: string | null;
+};
+
+export type BakeTrendChart = {
+  type: "scatter";
+  title: string;
+  description: string;
+  data: unknown;
+};
+
+type BakeJournalPanelProps = {
+  accessToken: string;
+  projectId: string;
+  projectTitle: string;
+  onClose: () => void;
+  renderChart: (chart: BakeTrendChart) => ReactNode;
+};
+
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+
+const EMPTY_FORM = {
+  baked_at: "",
+  label: "",
+  flour: "",
+  hydration: "",
+  salt: "",
+  yeast_type: "",
+  yeast_percent: "",
+  ball_weight: "",
+  room_temp: "",
+  dough_temp: "",
+  bulk_hours: "",
+  cold_hours: "",
+  proof_hours: "",
+  oven_type: "",
+  oven_temp: "",
+  bake_seconds: "",
+  rating: "3",
+  outcome: "",
+  note: "",
+};
+
+function formatDay(iso: string) {
+  return new Date(iso).toLocaleDateString("fr-FR", { weekday: "short", day: "numeric", month: "short" });
+}
+
+export function BakeJournalPanel({ accessToken, projectId, projectTitle, onClose, renderChart }: BakeJournalPanelProps) {
+  const [entries, setEntries] = useState<BakeLogRow[]>([]);
+  const [charts, setCharts] = useState<BakeTrendChart[]>([]);
+  const [chartIndex, setChartIndex] = useState(0);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [photos, setPhotos] = useState<{ before: File | null; after: File | null }>({ before: null, after: null });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  // Changing the key empties the file inputs once an entry is saved.
+  const [saved, setSaved] = useState(0);
+
+  const request = useCallback(
+    async (url: string, init: RequestInit = {}) => {
+      const response = await fetch(url, { ...init, headers: { Authorization: `Bearer ${accessToken}` } });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result?.error || "bake_journal_unavailable");
+      return result;
+    },
+    [accessToken]
+  );
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setLoading(true);
+    setError("");
+    try {
+      await task();
+    } catch (err: unknown) {
+      setError(err instanceof Error && err.message ? `Action impossible (${err.message}).` : "Action impossible.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const load = useCallback(async () => {
+    const result = await request(`/api/bake-logs?projectId=${encodeURIComponent(projectId)}`);
+    setEntries((result.entries || []) as BakeLogRow[]);
+    setCharts((result.charts || []) as BakeTrendChart[]);
+  }, [projectId, request]);
+
+  useEffect(() => {
+    void run(load);
+  }, [load, run]);
+
+  function saveEntry() {
+    if ((photos.before?.size ?? 0) > MAX_PHOTO_BYTES || (photos.after?.size ?? 0) > MAX_PHOTO_BYTES) {
+      setError("Photo trop lourde (2 Mo maximum).");
+      return;
+    }
+    void run(async () => {
+      const body = new FormData();
+      body.append("projectId", projectId);
+      Object.entries(form).forEach(([key, value]) => body.append(key, value));
+      // datetime-local has no time zone: it is the user's local time.
+      if (form.baked_at) body.set("baked_at", new Date(form.baked_at).toISOString());
+      if (photos.before) body.append("photo_before", photos.before);
+      if (photos.after) body.append("photo_after", photos.after);
+      const result = await request("/api/bake-logs", { method: "POST", body });
+      setNotice(result.photos_stored === false ? "Cuisson enregistrée, mais une photo n’a pas pu être conservée." : "Cuisson enregistrée.");
+      setForm(EMPTY_FORM);
+      setPhotos({ before: null, after: null });
+      setSaved((count) => count + 1);
+      await load();
+    });
+  }
+
+  function deleteEntry(id: number) {
+    void run(async () => {
+      await request(`/api/bake-logs?id=${id}`, { method: "DELETE" });
+      await load();
+    });
+  }
+
+  const field = (key: keyof typeof EMPTY_FORM, placeholder: string) => (
+    <input
+      placeholder={placeholder}
+      aria-label={placeholder}
+      inputMode="decimal"
+      value={form[key]}
+      onChange={(e) => setForm((p) => ({ ...p, [key]: e.target.value }))}
+    />
+  );
+  const chart = charts[Math.min(chartIndex, charts.length - 1)];
+
+  return (
+    <section className="v145-dossier-summary v146-bake-journal" aria-label="Journal de cuisson">
+      <div className="v145-dossier-summary-header">
+        <div>
+          <div className="v145-dossier-summary-kicker">{projectTitle}</div>
+          <h2>Journal de cuisson</h2>
+        </div>
+        <button type="button" className="v145-dossier-summary-close" onClick={onClose} aria-label="Fermer le journal de cuisson">
+          ×
+        </button>
+      </div>
+
+      {error ? <div className="v145-dossier-summary-error">{error}</div> : null}
+
+      <div className="v145-dossier-summary-grid">
+        <div className="v145-dossier-summary-main">
+          <span className="v145-dossier-summary-label">Nouvelle cuisson</span>
+          <div className="v146-panel-fields">
+            <input
+              type="datetime-local"
+              aria-label="Date de la cuisson"
+              value={form.baked_at}
+              onChange={(e) => setForm((p) => ({ ...p, baked_at: e.target.value }))}
+            />
+            <input placeholder="Essai (ex. hydratation +2 %)" value={form.label} onChange={(e) => setForm((p) => ({ ...p, label: e.target.value }))} />
+            <input placeholder="Farine" value={form.flour} onChange={(e) => setForm((p) => ({ ...p, flour: e.target.value }))} />
+          </div>
+          <div className="v146-panel-fields">
+            {field("hydration", "Hydratation %")}
+            {field("salt", "Sel %")}
+            <select aria-label="Ferment" value={form.yeast_type} onChange={(e) => setForm((p) => ({ ...p, yeast_type: e.target.value }))}>
+              <option value="">Ferment</option>
+              <option value="fresh">Levure fraîche</option>
+              <option value="dry">Levure sèche</option>
+              <option value="levain">Levain</option>
+              <option value="none">Aucun</option>
+            </select>
+            {field("yeast_percent", "Ferment %")}
+            {field("ball_weight", "Pâton (g)")}
+          </div>
+          <div className="v146-panel-fields">
+            {field("room_temp", "Fournil °C")}
+            {field("dough_temp", "Pâte °C")}
+            {field("bulk_hours", "Pointage (h)")}
+            {field("cold_hours", "Froid (h)")}
+            {field("proof_hours", "Apprêt (h)")}
+          </div>
+          <div className="v146-panel-fields">
+            <input placeholder="Four (bois, gaz…)" value={form.oven_type} onChange={(e) => setForm((p) => ({ ...p, oven_type: e.target.value }))} />
+            {field("oven_temp", "Four °C")}
+            {field("bake_seconds", "Cuisson (s)")}
+            <select aria-label="Note" value={form.rating} onChange={(e) => setForm((p) => ({ ...p, rating: e.target.value }))}>
+              {[1, 2, 3, 4, 5].map((value) => (
+                <option key={value} value={String(value)}>{value}/5</option>
+              ))}
+            </select>
+          </div>
+          <div className="v146-panel-fields">
+            <input placeholder="Résultat observé" value={form.outcome} onChange={(e) => setForm((p) => ({ ...p, outcome: e.target.value }))} />
+            <input placeholder="Note libre" value={form.note} onChange={(e) => setForm((p) => ({ ...p, note: e.target.value }))} />
+          </div>
+          <div className="v146-panel-fields">
+            <label>
+              Photo avant{" "}
+              <input key={saved} type="file" accept="image/*" onChange={(e) => setPhotos((p) => ({ ...p, before: e.target.files?.[0] ?? null }))} />
+            </label>
+            <label>
+              Photo après{" "}
+              <input key={saved} type="file" accept="image/*" onChange={(e) => setPhotos((p) => ({ ...p, after: e.target.files?.[0] ?? null }))} />
+            </label>
+          </div>
+          <div className="v145-dossier-summary-actions">
+            <button type="button" disabled={loading} onClick={saveEntry}>Enregistrer la cuisson</button>
+          </div>
+          {notice ? <p>{notice}</p> : null}
+        </div>
+
+        <div className="v145-dossier-summary-next">
+          <span className="v145-dossier-summary-label">Cuissons du dossier</span>
+          {entries.length ? (
+            <ul className="v146-panel-list">
+              {entries.map((entry) => (
+                <li key={entry.id}>
+                  <b>{formatDay(entry.baked_at)}</b> — {entry.rating}/5{entry.label ? ` · ${entry.label}` : ""}
+                  {entry.hydration !== null ? ` · ${entry.hydration} %` : ""}
+                  {entry.oven_temp !== null ? ` · ${entry.oven_temp} °C` : ""}
+                  {entry.outcome ? <div>{entry.outcome}</div> : null}
+                  {entry.photo_before_url || entry.photo_after_url ? (
+                    <div className="v146-bake-photos">
+                      {entry.photo_before_url ? <Image src={entry.photo_before_url} alt={`Avant — ${formatDay(entry.baked_at)}`} width={72} height={72} unoptimized /> : null}
+                      {entry.photo_after_url ? <Image src={entry.photo_after_url} alt={`Après — ${formatDay(entry.baked_at)}`} width={72} height={72} unoptimized /> : null}
+                    </div>
+                  ) : null}
+                  <button type="button" className="v146-inline-link" onClick={() => deleteEntry(entry.id)}>retirer</button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p>Aucune cuisson enregistrée dans ce dossier.</p>
+          )}
+        </div>
+      </div>
+
+      {charts.length ? (
+        <div className="v145-dossier-summary-main">
+          <span className="v145-dossier-summary-label">Tendances</span>
+          <select aria-label="Paramètre de la tendance" value={chartIndex} onChange={(e) => setChartIndex(Number(e.target.value))}>
+            {charts.map((item, index) => (
+              <option key={item.title} value={index}>{item.title}</option>
+            ))}
+          </select>
+          {chart ? renderChart(chart) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+}
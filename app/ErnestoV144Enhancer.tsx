@@ -108,34 +108,6 @@ function mergeRemoteProjects(memories: MemoryRow[], userId: string) {
   return true;
 }
 
-function recentDossierContext(project: LocalProject | null) {
-  if (!project) return "";
-  const recent = Array.isArray(project.chat) ? project.chat.slice(-6) : [];
-  if (!recent.length) return "";
-  return recent
-    .map((item) => {
-      const label = item.role === "user" ? "Utilisateur" : "Ernesto";
-      return `${label}: ${normalizeText(item.text).slice(0, 1100)}`;
-    })
-    .join("\n");
-}
-
-function durableMemoryContext(memory?: MemoryRow) {
-  if (!memory) return "";
-  const parts: string[] = [];
-  if (memory.summary) parts.push(`Synthèse durable : ${normalizeText(memory.summary)}`);
-  if (Array.isArray(memory.facts) && memory.facts.length) {
-    const facts = memory.facts
-      .slice(0, 10)
-      .map((item) => normalizeText(item?.fact))
-      .filter(Boolean)
-      .map((fact) => `- ${fact}`)
-      .join("\n");
-    if (facts) parts.push(`Repères durables :\n${facts}`);
-  }
-  return parts.join("\n");
-}
-
 function readPendingFollowup(): PendingFollowup | null {
   try {
     const raw = window.sessionStorage.getItem(PENDING_FOLLOWUP_KEY);
@@ -148,34 +120,14 @@ function readPendingFollowup(): PendingFollowup | null {
   }
 }
 
-function augmentContext(
-  existing: string,
-  memoryCache: Map<string, MemoryRow>,
-  pending: PendingFollowup | null
-) {
-  const project = findActiveProject();
+// Recent exchanges travel as structured `history`, the dossier as
+// `projectTitle` / `projectObjective` and its durable memory is loaded
+// server-side from `projectId`; only a pending follow-up is added here.
+function augmentContext(existing: string, pending: PendingFollowup | null) {
   const blocks: string[] = [];
 
   if (existing.trim()) blocks.push(existing.trim());
 
-  if (project) {
-    const memory = memoryCache.get(project.id);
-    const recent = recentDossierContext(project);
-    const durable = durableMemoryContext(memory);
-    const dossierParts = [
-      `Dossier actif : ${project.title}`,
-      project.objective ? `Objectif du dossier : ${normalizeText(project.objective)}` : "",
-      durable,
-      recent ? `Échanges récents utiles :\n${recent}` : "",
-    ].filter(Boolean);
-
-    if (dossierParts.length) {
-      blocks.push(
-        `CONTEXTE INTERNE DU DOSSIER — utilise-le pour assurer la continuité, sans annoncer que tu consultes une mémoire :\n${dossierParts.join("\n")}`
-      );
-    }
-  }
-
   if (pending) {
     blocks.push(
       `SUIVI INTERNE — l'utilisateur demande ${pending.kind === "analyse" ? "d'approfondir" : "de transformer en plan d'action"} la réponse précédente. Ne recopie pas cette réponse, utilise-la comme point de départ :\n${pending.answer.slice(0, 10000)}`
@@ -186,11 +138,7 @@ function augmentContext(
   return blocks.join("\n\n");
 }
 
-function cloneAndAugmentRequest(
-  input: RequestInfo | URL,
-  init: RequestInit | undefined,
-  memoryCache: Map<string, MemoryRow>
-) {
+function cloneAndAugmentRequest(input: RequestInfo | URL, init: RequestInit | undefined) {
   if (!init?.body) return { input, init };
   const pending = readPendingFollowup();
 
@@ -198,7 +146,7 @@ function cloneAndAugmentRequest(
     const copy = new FormData();
     init.body.forEach((value, key) => copy.append(key, value));
     const existing = String(copy.get("contextText") || "");
-    copy.set("contextText", augmentContext(existing, memoryCache, pending));
+    copy.set("contextText", augmentContext(existing, pending));
     if (pending?.kind === "action") copy.set("presentation", "flowchart");
     return { input, init: { ...init, body: copy } };
   }
@@ -206,7 +154,7 @@ function cloneAndAugmentRequest(
   if (typeof init.body === "string") {
     try {
       const parsed = JSON.parse(init.body);
-      parsed.contextText = augmentContext(String(parsed.contextText || ""), memoryCache, pending);
+      parsed.contextText = augmentContext(String(parsed.contextText || ""), pending);
       if (pending?.kind === "action") parsed.presentation = "flowchart";
       return { input, init: { ...init, body: JSON.stringify(parsed) } };
     } catch {
@@ -256,13 +204,13 @@ function queueFollowup(kind: "analyse" | "action", answer: string) {
 
 function findMessageMetadata(project: LocalProject | null, answer: string) {
   if (!project || !Array.isArray(project.chat)) {
-    return { question: "", mode: null as string | null, ragUsed: null as number | null };
+    return { question: "", mode: null as string | null, ragUsed: null as number | null, messageId: null as string | null };
   }
   const normalizedAnswer = normalizeText(answer);
   const index = project.chat.findIndex(
     (item) => item.role === "ernesto" && normalizeText(item.text) === normalizedAnswer
   );
-  if (index < 0) return { question: "", mode: null, ragUsed: null };
+  if (index < 0) return { question: "", mode: null, ragUsed: null, messageId: null };
   const message = project.chat[index];
   let question = "";
   for (let i = index - 1; i >= 0; i -= 1) {
@@ -274,7 +222,7 @@ function findMessageMetadata(project: LocalProject | null, answer: string) {
   const rawMode = normalizeText(message.mode).toUpperCase();
   const mode = rawMode === "ECOLE" || rawMode === "ANALYSE" ? "ANALYSE" : rawMode ? "ACTION" : null;
   const ragUsed = Number(message.rag?.used);
-  return { question, mode, ragUsed: Number.isFinite(ragUsed) ? ragUsed : null };
+  return { question, mode, ragUsed: Number.isFinite(ragUsed) ? ragUsed : null, messageId: message.id ?? null };
 }
 
 function feedbackQueue() {
@@ -475,6 +423,7 @@ export default function ErnestoV144Enhancer() {
         rating: 1,
         reason: null,
         ragUsed: meta.ragUsed,
+        messageId: meta.messageId,
       };
     }
 
@@ -544,7 +493,7 @@ export default function ErnestoV144Enhancer() {
 
       if (!target.includes("/api/tutor")) return originalFetch(input, init);
 
-      const augmented = cloneAndAugmentRequest(input, init, memoryCache);
+      const augmented = cloneAndAugmentRequest(input, init);
       const response = await originalFetch(augmented.input, augmented.init);
       if (response.ok) {
         window.setTimeout(() => scheduleSync(400), 850);
@@ -0,0 +1,257 @@
+"use client";
+
+import { useCallback, useEffect, useState, type ReactNode } from "react";
+
+export type IngredientPriceRow = {
+  name: string;
+  unit: "kg" | "l" | "piece";
+  price: number;
+};
+
+export type MenuItemRow = {
+  id: number;
+  name: string;
+  sale_price: number;
+  vat_rate: number;
+  ball_weight: number;
+  dough: Array<{ ingredient: string; quantity: number }>;
+  toppings: Array<{ ingredient: string; quantity: number }>;
+};
+
+export type FoodCostChart = {
+  type: "bar" | "table";
+  title: string;
+  description: string;
+  data: unknown;
+};
+
+type FoodCostPanelProps = {
+  accessToken: string;
+  onClose: () => void;
+  renderChart: (chart: FoodCostChart, index: number) => ReactNode;
+};
+
+const UNIT_LABELS: Record<IngredientPriceRow["unit"], string> = { kg: "€/kg", l: "€/L", piece: "€/pièce" };
+const EMPTY_ITEM = { id: 0, name: "", sale_price: "", vat_rate: "10", ball_weight: "", dough: "", toppings: "" };
+
+// One "ingrédient ; quantité" per line, the format of the recipe text areas.
+function parseLines(text: string) {
+  return text
+    .split("\n")
+    .map((line) => line.split(/[;:]/))
+    .map(([ingredient, quantity]) => ({
+      ingredient: String(ingredient || "").trim(),
+      quantity: Number(String(quantity || "").replace(",", ".").trim()),
+    }))
+    .filter((line) => line.ingredient && Number.isFinite(line.quantity) && line.quantity > 0);
+}
+
+function formatLines(lines: MenuItemRow["dough"]) {
+  return lines.map((line) => `${line.ingredient} ; ${line.quantity}`).join("\n");
+}
+
+export function FoodCostPanel({ accessToken, onClose, renderChart }: FoodCostPanelProps) {
+  const [prices, setPrices] = useState<IngredientPriceRow[]>([]);
+  const [items, setItems] = useState<MenuItemRow[]>([]);
+  const [priceForm, setPriceForm] = useState({ name: "", unit: "kg" as IngredientPriceRow["unit"], price: "" });
+  const [itemForm, setItemForm] = useState(EMPTY_ITEM);
+  const [charts, setCharts] = useState<FoodCostChart[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const request = useCallback(
+    async (url: string, init: RequestInit = {}) => {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          ...(init.body ? { "Content-Type": "application/json" } : {}),
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result?.error || "food_cost_unavailable");
+      return result;
+    },
+    [accessToken]
+  );
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setLoading(true);
+    setError("");
+    try {
+      await task();
+    } catch (err: unknown) {
+      setError(err instanceof Error && err.message ? `Action impossible (${err.message}).` : "Action impossible.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void run(async () => {
+      const result = await request("/api/food-cost");
+      setPrices((result.prices || []) as IngredientPriceRow[]);
+      setItems((result.items || []) as MenuItemRow[]);
+    });
+  }, [request, run]);
+
+  function savePrice() {
+    void run(async () => {
+      const result = await request("/api/food-cost", { method: "POST", body: JSON.stringify({ prices: [priceForm] }) });
+      const saved = (result.prices || []) as IngredientPriceRow[];
+      setPrices((prev) =>
+        [...prev.filter((price) => !saved.some((row) => row.name === price.name)), ...saved].sort((a, b) =>
+          a.name.localeCompare(b.name, "fr")
+        )
+      );
+      setPriceForm({ name: "", unit: priceForm.unit, price: "" });
+    });
+  }
+
+  function deletePrice(name: string) {
+    void run(async () => {
+      await request(`/api/food-cost?ingredient=${encodeURIComponent(name)}`, { method: "DELETE" });
+      setPrices((prev) => prev.filter((price) => price.name !== name));
+    });
+  }
+
+  function saveItem() {
+    void run(async () => {
+      const result = await request("/api/food-cost", {
+        method: "POST",
+        body: JSON.stringify({
+          item: {
+            id: itemForm.id || undefined,
+            name: itemForm.name,
+            sale_price: itemForm.sale_price,
+            vat_rate: itemForm.vat_rate,
+            ball_weight: itemForm.ball_weight,
+            dough: parseLines(itemForm.dough),
+            toppings: parseLines(itemForm.toppings),
+          },
+        }),
+      });
+      const saved = result.item as MenuItemRow;
+      setItems((prev) => [...prev.filter((item) => item.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name, "fr")));
+      setItemForm(EMPTY_ITEM);
+    });
+  }
+
+  function editItem(item: MenuItemRow) {
+    setItemForm({
+      id: item.id,
+      name: item.name,
+      sale_price: String(item.sale_price),
+      vat_rate: String(item.vat_rate),
+      ball_weight: String(item.ball_weight),
+      dough: formatLines(item.dough),
+      toppings: formatLines(item.toppings),
+    });
+  }
+
+  function deleteItem(id: number) {
+    void run(async () => {
+      await request(`/api/food-cost?itemId=${id}`, { method: "DELETE" });
+      setItems((prev) => prev.filter((item) => item.id !== id));
+    });
+  }
+
+  function calculate(item: MenuItemRow) {
+    void run(async () => {
+      const result = await request("/api/food-cost/calculate", {
+        method: "POST",
+        body: JSON.stringify({ menu_item: item.name }),
+      });
+      setCharts((result.charts || []) as FoodCostChart[]);
+      setMissing((result.result?.missing_prices || []) as string[]);
+    });
+  }
+
+  return (
+    <section className="v145-dossier-summary v146-food-cost" aria-label="Coûts et marges">
+      <div className="v145-dossier-summary-header">
+        <div>
+          <div className="v145-dossier-summary-kicker">Gestion</div>
+          <h2>Coûts & marges</h2>
+        </div>
+        <button type="button" className="v145-dossier-summary-close" onClick={onClose} aria-label="Fermer les coûts et marges">
+          ×
+        </button>
+      </div>
+
+      {error ? <div className="v145-dossier-summary-error">{error}</div> : null}
+
+      <div className="v145-dossier-summary-grid">
+        <div className="v145-dossier-summary-main">
+          <span className="v145-dossier-summary-label">Prix des ingrédients (HT)</span>
+          {prices.length ? (
+            <ul className="v146-panel-list">
+              {prices.map((price) => (
+                <li key={price.name}>
+                  <b>{price.name}</b> — {price.price} {UNIT_LABELS[price.unit]}{" "}
+                  <button type="button" className="v146-inline-link" onClick={() => deletePrice(price.name)}>retirer</button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p>Aucun prix enregistré.</p>
+          )}
+          <div className="v146-panel-fields">
+            <input placeholder="Ingrédient" value={priceForm.name} onChange={(e) => setPriceForm((p) => ({ ...p, name: e.target.value }))} />
+            <select aria-label="Unité" value={priceForm.unit} onChange={(e) => setPriceForm((p) => ({ ...p, unit: e.target.value as IngredientPriceRow["unit"] }))}>
+              <option value="kg">€/kg</option>
+              <option value="l">€/L</option>
+              <option value="piece">€/pièce</option>
+            </select>
+            <input placeholder="Prix" inputMode="decimal" value={priceForm.price} onChange={(e) => setPriceForm((p) => ({ ...p, price: e.target.value }))} />
+          </div>
+          <div className="v145-dossier-summary-actions">
+            <button type="button" disabled={loading || !priceForm.name || !priceForm.price} onClick={savePrice}>Enregistrer le prix</button>
+          </div>
+        </div>
+
+        <div className="v145-dossier-summary-next">
+          <span className="v145-dossier-summary-label">Pizzas de la carte</span>
+          {items.length ? (
+            <ul className="v146-panel-list">
+              {items.map((item) => (
+                <li key={item.id}>
+                  <b>{item.name}</b> — {item.sale_price} € TTC{" "}
+                  <button type="button" className="v146-inline-link" onClick={() => calculate(item)}>calculer</button>{" "}
+                  <button type="button" className="v146-inline-link" onClick={() => editItem(item)}>modifier</button>{" "}
+                  <button type="button" className="v146-inline-link" onClick={() => deleteItem(item.id)}>retirer</button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p>Aucune pizza enregistrée.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="v145-dossier-summary-main">
+        <span className="v145-dossier-summary-label">{itemForm.id ? "Modifier la pizza" : "Nouvelle pizza"}</span>
+        <div className="v146-panel-fields">
+          <input placeholder="Nom" value={itemForm.name} onChange={(e) => setItemForm((p) => ({ ...p, name: e.target.value }))} />
+          <input placeholder="Prix TTC (€)" inputMode="decimal" value={itemForm.sale_price} onChange={(e) => setItemForm((p) => ({ ...p, sale_price: e.target.value }))} />
+          <input placeholder="TVA %" inputMode="decimal" value={itemForm.vat_rate} onChange={(e) => setItemForm((p) => ({ ...p, vat_rate: e.target.value }))} />
+          <input placeholder="Pâton (g)" inputMode="decimal" value={itemForm.ball_weight} onChange={(e) => setItemForm((p) => ({ ...p, ball_weight: e.target.value }))} />
+        </div>
+        <div className="v146-panel-fields">
+          <textarea placeholder={"Pâte, pour une fournée :\nFarine ; 1000\nEau ; 650\nSel ; 28"} rows={4} value={itemForm.dough} onChange={(e) => setItemForm((p) => ({ ...p, dough: e.target.value }))} />
+          <textarea placeholder={"Garniture, par pizza :\nTomate ; 80\nMozzarella ; 100"} rows={4} value={itemForm.toppings} onChange={(e) => setItemForm((p) => ({ ...p, toppings: e.target.value }))} />
+        </div>
+        <div className="v145-dossier-summary-actions">
+          <button type="button" disabled={loading || !itemForm.name} onClick={saveItem}>Enregistrer la pizza</button>
+          {itemForm.id ? <button type="button" onClick={() => setItemForm(EMPTY_ITEM)}>Annuler</button> : null}
+        </div>
+      </div>
+
+      {missing.length ? (
+        <div className="v145-dossier-summary-error">Prix manquant : {missing.join(", ")}. Le coût affiché est sous-estimé.</div>
+      ) : null}
+      {charts.length ? <div style={{ display: "grid", gap: 12 }}>{charts.map(renderChart)}</div> : null}
+    </section>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+export type LevainStarter = {
+  id: number;
+  name: string;
+  hydration: number;
+  flour: string;
+  storage_temp: number;
+  notes: string;
+  schedule: LevainScheduleData | null;
+  updated_at: string;
+};
+
+export type LevainLogEntry = {
+  id: number;
+  kind: "feeding" | "observation";
+  logged_at: string;
+  seed_g: number | null;
+  flour_g: number | null;
+  water_g: number | null;
+  temperature: number | null;
+  rise_percent: number | null;
+  hours_to_peak: number | null;
+  smell: string;
+  acidity: string | null;
+  note: string;
+};
+
+export type LevainScheduleData = {
+  target_peak_at: string;
+  feedings: Array<{ at: string; seed_g: number; flour_g: number; water_g: number; ratio: string; hours_to_peak: number }>;
+  reminders: Array<{ at: string; label: string }>;
+  late: boolean;
+  notes: string[];
+};
+
+type LevainPanelProps = {
+  accessToken: string;
+  onClose: () => void;
+};
+
+const EMPTY_STARTER = { name: "", hydration: "100", flour: "", storage_temp: "4" };
+const EMPTY_LOG = {
+  kind: "feeding" as "feeding" | "observation",
+  seed_g: "",
+  flour_g: "",
+  water_g: "",
+  temperature: "",
+  hours_to_peak: "",
+  rise_percent: "",
+  smell: "",
+  acidity: "",
+  note: "",
+};
+
+function formatWhen(iso: string) {
+  return new Date(iso).toLocaleString("fr-FR", { weekday: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function describeLog(entry: LevainLogEntry) {
+  const parts =
+    entry.kind === "feeding"
+      ? [`${entry.seed_g ?? "?"} g + ${entry.flour_g ?? "?"} g farine + ${entry.water_g ?? "?"} g eau`]
+      : [];
+  if (entry.temperature !== null) parts.push(`${entry.temperature} °C`);
+  if (entry.hours_to_peak !== null) parts.push(`pic en ${entry.hours_to_peak} h`);
+  if (entry.rise_percent !== null) parts.push(`montée ${entry.rise_percent} %`);
+  if (entry.smell) parts.push(entry.smell);
+  if (entry.acidity) parts.push(`acidité ${entry.acidity}`);
+  if (entry.note) parts.push(entry.note);
+  return parts.join(" · ");
+}
+
+export function LevainPanel({ accessToken, onClose }: LevainPanelProps) {
+  const [starters, setStarters] = useState<LevainStarter[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [logs, setLogs] = useState<LevainLogEntry[]>([]);
+  const [starterForm, setStarterForm] = useState(EMPTY_STARTER);
+  const [logForm, setLogForm] = useState(EMPTY_LOG);
+  const [scheduleForm, setScheduleForm] = useState({ target_peak_at: "", feeding_temp: "24", levain_grams: "200", ratio: "2" });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const selected = starters.find((starter) => starter.id === selectedId) ?? null;
+
+  const request = useCallback(
+    async (url: string, init: RequestInit = {}) => {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          ...(init.body ? { "Content-Type": "application/json" } : {}),
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result?.error || "levain_unavailable");
+      return result;
+    },
+    [accessToken]
+  );
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setLoading(true);
+    setError("");
+    try {
+      await task();
+    } catch (err: unknown) {
+      setError(err instanceof Error && err.message ? `Action impossible (${err.message}).` : "Action impossible.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void run(async () => {
+      const result = await request("/api/levain");
+      const list = (result.starters || []) as LevainStarter[];
+      setStarters(list);
+      setSelectedId((current) => current ?? list[0]?.id ?? null);
+    });
+  }, [request, run]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setLogs([]);
+      return;
+    }
+    void run(async () => {
+      const result = await request(`/api/levain?starterId=${selectedId}`);
+      setLogs((result.logs || []) as LevainLogEntry[]);
+    });
+  }, [selectedId, request, run]);
+
+  function saveStarter() {
+    void run(async () => {
+      const result = await request("/api/levain", { method: "POST", body: JSON.stringify(starterForm) });
+      const starter = result.starter as LevainStarter;
+      setStarters((prev) => [starter, ...prev.filter((item) => item.id !== starter.id)]);
+      setSelectedId(starter.id);
+      setStarterForm(EMPTY_STARTER);
+    });
+  }
+
+  function addLog() {
+    if (!selected) return;
+    void run(async () => {
+      const result = await request("/api/levain/log", {
+        method: "POST",
+        body: JSON.stringify({ ...logForm, starterId: selected.id }),
+      });
+      setLogs((prev) => [result.log as LevainLogEntry, ...prev]);
+      setLogForm({ ...EMPTY_LOG, kind: logForm.kind });
+    });
+  }
+
+  function planSchedule() {
+    if (!selected || !scheduleForm.target_peak_at) return;
+    void run(async () => {
+      const result = await request("/api/levain/schedule", {
+        method: "POST",
+        body: JSON.stringify({
+          ...scheduleForm,
+          target_peak_at: new Date(scheduleForm.target_peak_at).toISOString(),
+          starterId: selected.id,
+        }),
+      });
+      const schedule = result.schedule as LevainScheduleData;
+      setStarters((prev) => prev.map((item) => (item.id === selected.id ? { ...item, schedule } : item)));
+    });
+  }
+
+  const now = Date.now();
+  const reminders = selected?.schedule?.reminders ?? [];
+  const nextReminder = reminders.find((reminder) => new Date(reminder.at).getTime() >= now) ?? null;
+
+  return (
+    <section className="v145-dossier-summary v146-levain" aria-label="Mon levain">
+      <div className="v145-dossier-summary-header">
+        <div>
+          <div className="v145-dossier-summary-kicker">Suivi du levain</div>
+          <h2>Mon levain</h2>
+        </div>
+        <button type="button" className="v145-dossier-summary-close" onClick={onClose} aria-label="Fermer le suivi du levain">
+          ×
+        </button>
+      </div>
+
+      {error ? <div className="v145-dossier-summary-error">{error}</div> : null}
+
+      {starters.length ? (
+        <div className="v146-panel-tabs">
+          {starters.map((starter) => (
+            <button
+              key={starter.id}
+              type="button"
+              className={starter.id === selectedId ? "active" : ""}
+              onClick={() => setSelectedId(starter.id)}
+            >
+              {starter.name} · {starter.hydration} %
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="v145-dossier-summary-state">
+          Enregistrez votre levain : Ernesto lira son journal pour diagnostiquer un levain trop acide ou trop faible.
+        </div>
+      )}
+
+      <div className="v145-dossier-summary-main">
+        <span className="v145-dossier-summary-label">Nouveau levain</span>
+        <div className="v146-panel-fields">
+          <input placeholder="Nom" value={starterForm.name} onChange={(e) => setStarterForm((p) => ({ ...p, name: e.target.value }))} />
+          <input placeholder="Hydratation %" inputMode="decimal" value={starterForm.hydration} onChange={(e) => setStarterForm((p) => ({ ...p, hydration: e.target.value }))} />
+          <input placeholder="Farine" value={starterForm.flour} onChange={(e) => setStarterForm((p) => ({ ...p, flour: e.target.value }))} />
+          <input placeholder="Conservation °C" inputMode="decimal" value={starterForm.storage_temp} onChange={(e) => setStarterForm((p) => ({ ...p, storage_temp: e.target.value }))} />
+        </div>
+        <div className="v145-dossier-summary-actions">
+          <button type="button" disabled={loading} onClick={saveStarter}>Enregistrer</button>
+        </div>
+      </div>
+
+      {selected ? (
+        <>
+          <div className="v145-dossier-summary-grid">
+            <div className="v145-dossier-summary-main">
+              <span className="v145-dossier-summary-label">Planifier les rafraîchis</span>
+              <div className="v146-panel-fields">
+                <input type="datetime-local" aria-label="Pic visé" value={scheduleForm.target_peak_at} onChange={(e) => setScheduleForm((p) => ({ ...p, target_peak_at: e.target.value }))} />
+                <input placeholder="Température °C" inputMode="decimal" value={scheduleForm.feeding_temp} onChange={(e) => setScheduleForm((p) => ({ ...p, feeding_temp: e.target.value }))} />
+                <input placeholder="Levain voulu (g)" inputMode="decimal" value={scheduleForm.levain_grams} onChange={(e) => setScheduleForm((p) => ({ ...p, levain_grams: e.target.value }))} />
+                <input placeholder="Farine par part de levain" inputMode="decimal" value={scheduleForm.ratio} onChange={(e) => setScheduleForm((p) => ({ ...p, ratio: e.target.value }))} />
+              </div>
+              <div className="v145-dossier-summary-actions">
+                <button type="button" disabled={loading || !scheduleForm.target_peak_at} onClick={planSchedule}>Calculer le planning</button>
+              </div>
+              {reminders.length ? (
+                <ul className="v146-panel-list">
+                  {reminders.map((reminder) => (
+                    <li key={reminder.at + reminder.label} className={reminder === nextReminder ? "next" : ""}>
+                      <b>{formatWhen(reminder.at)}</b> — {reminder.label}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+              {selected.schedule?.notes?.length ? <p>{selected.schedule.notes.join(" ")}</p> : null}
+            </div>
+
+            <div className="v145-dossier-summary-next">
+              <span className="v145-dossier-summary-label">Prochain rappel</span>
+              <strong>{nextReminder ? `${formatWhen(nextReminder.at)} — ${nextReminder.label}` : "Aucun rappel à venir."}</strong>
+            </div>
+          </div>
+
+          <div className="v145-dossier-summary-main">
+            <span className="v145-dossier-summary-label">Noter dans le journal</span>
+            <div className="v146-panel-tabs">
+              <button type="button" className={logForm.kind === "feeding" ? "active" : ""} onClick={() => setLogForm((p) => ({ ...p, kind: "feeding" }))}>Rafraîchi</button>
+              <button type="button" className={logForm.kind === "observation" ? "active" : ""} onClick={() => setLogForm((p) => ({ ...p, kind: "observation" }))}>Observation</button>
+            </div>
+            <div className="v146-panel-fields">
+              {logForm.kind === "feeding" ? (
+                <>
+                  <input placeholder="Levain (g)" inputMode="decimal" value={logForm.seed_g} onChange={(e) => setLogForm((p) => ({ ...p, seed_g: e.target.value }))} />
+                  <input placeholder="Farine (g)" inputMode="decimal" value={logForm.flour_g} onChange={(e) => setLogForm((p) => ({ ...p, flour_g: e.target.value }))} />
+                  <input placeholder="Eau (g)" inputMode="decimal" value={logForm.water_g} onChange={(e) => setLogForm((p) => ({ ...p, water_g: e.target.value }))} />
+                </>
+              ) : (
+                <>
+                  <input placeholder="Montée %" inputMode="decimal" value={logForm.rise_percent} onChange={(e) => setLogForm((p) => ({ ...p, rise_percent: e.target.value }))} />
+                  <input placeholder="Odeur" value={logForm.smell} onChange={(e) => setLogForm((p) => ({ ...p, smell: e.target.value }))} />
+                  <select aria-label="Acidité" value={logForm.acidity} onChange={(e) => setLogForm((p) => ({ ...p, acidity: e.target.value }))}>
+                    <option value="">Acidité</option>
+                    <option value="faible">Faible</option>
+                    <option value="moyenne">Moyenne</option>
+                    <option value="forte">Forte</option>
+                  </select>
+                </>
+              )}
+              <input placeholder="Température °C" inputMode="decimal" value={logForm.temperature} onChange={(e) => setLogForm((p) => ({ ...p, temperature: e.target.value }))} />
+              <input placeholder="Pic après (h)" inputMode="decimal" value={logForm.hours_to_peak} onChange={(e) => setLogForm((p) => ({ ...p, hours_to_peak: e.target.value }))} />
+              <input placeholder="Note" value={logForm.note} onChange={(e) => setLogForm((p) => ({ ...p, note: e.target.value }))} />
+            </div>
+            <div className="v145-dossier-summary-actions">
+              <button type="button" disabled={loading} onClick={addLog}>Ajouter</button>
+            </div>
+          </div>
+
+          {logs.length ? (
+            <div className="v145-dossier-questions">
+              <span className="v145-dossier-summary-label">Journal</span>
+              <ul>
+                {logs.slice(0, 12).map((entry) => (
+                  <li key={entry.id}>
+                    <b>{formatWhen(entry.logged_at)}</b> {entry.kind === "feeding" ? "Rafraîchi" : "Observation"} — {describeLog(entry)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import Image from "next/image";
+import { useCallback, useEffect, useState } from "react";
+
+export type ArchivedPhotoRow = {
+  id: number;
+  width: number;
+  height: number;
+  source: "tutor" | "journal" | "upload";
+  label: string;
+  created_at: string;
+  url: string | null;
+  thumb_url: string | null;
+};
+
+// One stored diagnosis, only what the evolution table shows.
+type DiagnosisHistoryRow = {
+  id: number;
+  created_at: string;
+  thumb_url: string | null;
+  diagnosis: { features: Array<{ feature: string; label: string; visible: boolean; level_label: string; confidence: number }> };
+};
+
+type PhotoArchivePanelProps = {
+  accessToken: string;
+  projectId: string;
+  projectTitle: string;
+  comparePhotoId: number | null;
+  onCompare: (photo: ArchivedPhotoRow | null) => void;
+  onClose: () => void;
+};
+
+const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+
+const SOURCE_LABELS: Record<ArchivedPhotoRow["source"], string> = {
+  tutor: "Question",
+  journal: "Journal",
+  upload: "Ajout",
+};
+
+function formatDay(iso: string) {
+  return new Date(iso).toLocaleDateString("fr-FR", { day: "numeric", month: "short", year: "numeric" });
+}
+
+export function PhotoArchivePanel({
+  accessToken,
+  projectId,
+  projectTitle,
+  comparePhotoId,
+  onCompare,
+  onClose,
+}: PhotoArchivePanelProps) {
+  const [photos, setPhotos] = useState<ArchivedPhotoRow[]>([]);
+  const [diagnoses, setDiagnoses] = useState<DiagnosisHistoryRow[]>([]);
+  const [label, setLabel] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  // Changing the key empties the file input once a photo is added.
+  const [added, setAdded] = useState(0);
+
+  const request = useCallback(
+    async (url: string, init: RequestInit = {}) => {
+      const response = await fetch(url, { ...init, headers: { Authorization: `Bearer ${accessToken}` } });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result?.error || "photo_archive_unavailable");
+      return result;
+    },
+    [accessToken]
+  );
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setLoading(true);
+    setError("");
+    try {
+      await task();
+    } catch (err: unknown) {
+      setError(err instanceof Error && err.message ? `Action impossible (${err.message}).` : "Action impossible.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const load = useCallback(async () => {
+    const [result, history] = await Promise.all([
+      request(`/api/photos?projectId=${encodeURIComponent(projectId)}`),
+      request(`/api/photo-diagnoses?projectId=${encodeURIComponent(projectId)}`),
+    ]);
+    setPhotos((result.photos || []) as ArchivedPhotoRow[]);
+    setDiagnoses((history.diagnoses || []) as DiagnosisHistoryRow[]);
+  }, [projectId, request]);
+
+  useEffect(() => {
+    void run(load);
+  }, [load, run]);
+
+  function addPhoto() {
+    if (!file) return;
+    if (file.size > MAX_PHOTO_BYTES) {
+      setError("Photo trop lourde (8 Mo maximum).");
+      return;
+    }
+    void run(async () => {
+      const body = new FormData();
+      body.append("projectId", projectId);
+      body.append("label", label);
+      body.append("photo", file);
+      await request("/api/photos", { method: "POST", body });
+      setLabel("");
+      setFile(null);
+      setAdded((count) => count + 1);
+      await load();
+    });
+  }
+
+  function deletePhoto(id: number) {
+    void run(async () => {
+      await request(`/api/photos?id=${id}`, { method: "DELETE" });
+      if (id === comparePhotoId) onCompare(null);
+      await load();
+    });
+  }
+
+  return (
+    <section className="v145-dossier-summary v146-photo-archive" aria-label="Photos du dossier">
+      <div className="v145-dossier-summary-header">
+        <div>
+          <div className="v145-dossier-summary-kicker">{projectTitle}</div>
+          <h2>Photos du dossier</h2>
+        </div>
+        <button type="button" className="v145-dossier-summary-close" onClick={onClose} aria-label="Fermer les photos du dossier">
+          ×
+        </button>
+      </div>
+
+      {error ? <div className="v145-dossier-summary-error">{error}</div> : null}
+
+      <div className="v145-dossier-summary-main">
+        <span className="v145-dossier-summary-label">Ajouter une photo</span>
+        <div className="v146-panel-fields">
+          <input placeholder="Légende (ex. pâton après 24 h)" value={label} onChange={(e) => setLabel(e.target.value)} />
+          <input key={added} type="file" accept="image/*" aria-label="Photo" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+        </div>
+        <div className="v145-dossier-summary-actions">
+          <button type="button" disabled={loading || !file} onClick={addPhoto}>Archiver la photo</button>
+        </div>
+        <p>Choisissez une photo ci-dessous comme « avant » : la prochaine photo envoyée à Ernesto lui sera comparée.</p>
+      </div>
+
+      {photos.length ? (
+        <ul className="v146-photo-grid">
+          {photos.map((photo) => (
+            <li key={photo.id} className={photo.id === comparePhotoId ? "active" : ""}>
+              {photo.thumb_url ? (
+                <a href={photo.url ?? photo.thumb_url} target="_blank" rel="noreferrer">
+                  <Image
+                    src={photo.thumb_url}
+                    alt={photo.label || `Photo du ${formatDay(photo.created_at)}`}
+                    width={320}
+                    height={320}
+                    unoptimized
+                  />
+                </a>
+              ) : null}
+              <div>
+                <b>{formatDay(photo.created_at)}</b> · {SOURCE_LABELS[photo.source]}
+              </div>
+              {photo.label ? <div className="v146-photo-label">{photo.label}</div> : null}
+              <button
+                type="button"
+                className="v146-inline-link"
+                onClick={() => onCompare(photo.id === comparePhotoId ? null : photo)}
+              >
+                {photo.id === comparePhotoId ? "ne plus comparer" : "comparer"}
+              </button>{" "}
+              <button type="button" className="v146-inline-link" onClick={() => deletePhoto(photo.id)}>retirer</button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p>Aucune photo archivée dans ce dossier. Les photos envoyées à Ernesto depuis ce dossier y sont ajoutées.</p>
+      )}
+
+      {diagnoses.length ? (
+        <div className="v145-dossier-summary-main">
+          <span className="v145-dossier-summary-label">Évolution des diagnostics</span>
+          <div className="v146-diagnosis-history">
+            <table className="v146-diagnosis-table">
+              <thead>
+                <tr>
+                  <th>Caractéristique</th>
+                  {diagnoses.map((row) => (
+                    <th key={row.id}>
+                      {row.thumb_url ? <Image src={row.thumb_url} alt="" width={48} height={48} unoptimized /> : null}
+                      {formatDay(row.created_at)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {diagnoses[0].diagnosis.features.map((feature) => (
+                  <tr key={feature.feature}>
+                    <td>{feature.label}</td>
+                    {diagnoses.map((row) => {
+                      const reading = row.diagnosis.features.find((item) => item.feature === feature.feature);
+                      return (
+                        <td key={row.id} className={reading?.visible ? "" : "muted"}>
+                          {reading?.visible ? `${reading.level_label} (${Math.round(reading.confidence * 100)} %)` : "—"}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+export type DiagnosisFeatureData = {
+  feature: string;
+  label: string;
+  visible: boolean;
+  level: number | null;
+  level_label: string;
+  confidence: number;
+  observation: string;
+};
+
+export type FeatureComparisonData = {
+  feature: string;
+  label: string;
+  before_label: string;
+  after_label: string;
+  delta: number | null;
+  comparable: boolean;
+};
+
+export type PhotoDiagnosisData = {
+  id: number | null;
+  diagnosis: {
+    summary: string;
+    image_quality: "good" | "limited" | "unusable";
+    features: DiagnosisFeatureData[];
+    causes: Array<{ cause: string; plausibility: number; evidence: string; features: string[] }>;
+    controls: Array<{ control: string; expected: string; cause: string }>;
+  };
+  comparison: { previous_id: number; previous_at: string; features: FeatureComparisonData[] } | null;
+};
+
+const QUALITY_LABELS: Record<PhotoDiagnosisData["diagnosis"]["image_quality"], string> = {
+  good: "Photo exploitable",
+  limited: "Photo limitée : lecture prudente",
+  unusable: "Photo difficilement exploitable",
+};
+
+function percent(value: number) {
+  return `${Math.round(value * 100)} %`;
+}
+
+function trend(comparison: FeatureComparisonData) {
+  if (!comparison.comparable || comparison.delta === null) return "non comparable";
+  if (comparison.delta === 0) return "=";
+  return comparison.delta > 0 ? `▲ ${comparison.delta}` : `▼ ${Math.abs(comparison.delta)}`;
+}
+
+export function PhotoDiagnosisPanel({ data }: { data: PhotoDiagnosisData }) {
+  const { diagnosis, comparison } = data;
+  const labels = new Map(diagnosis.features.map((feature) => [feature.feature, feature.label]));
+
+  return (
+    <section className="v146-diagnosis" aria-label="Diagnostic visuel">
+      <div className="v146-diagnosis-header">
+        <b>Diagnostic visuel</b>
+        <span className={`v146-diagnosis-quality ${diagnosis.image_quality}`}>{QUALITY_LABELS[diagnosis.image_quality]}</span>
+      </div>
+      {diagnosis.summary ? <p>{diagnosis.summary}</p> : null}
+
+      <table className="v146-diagnosis-table">
+        <thead>
+          <tr>
+            <th>Caractéristique</th>
+            <th>Lecture</th>
+            <th>Confiance</th>
+            {comparison ? <th>Depuis le {new Date(comparison.previous_at).toLocaleDateString("fr-FR")}</th> : null}
+          </tr>
+        </thead>
+        <tbody>
+          {diagnosis.features.map((feature) => {
+            const compared = comparison?.features.find((item) => item.feature === feature.feature);
+            return (
+              <tr key={feature.feature} className={feature.visible ? "" : "muted"}>
+                <td>
+                  {feature.label}
+                  {feature.observation ? <div className="v146-diagnosis-note">{feature.observation}</div> : null}
+                </td>
+                <td>{feature.level_label}</td>
+                <td>
+                  {feature.visible ? (
+                    <span className="v146-diagnosis-bar" aria-label={`Confiance ${percent(feature.confidence)}`}>
+                      <span style={{ width: percent(feature.confidence) }} />
+                    </span>
+                  ) : (
+                    "—"
+                  )}
+                </td>
+                {comparison ? (
+                  <td title={compared ? `${compared.before_label} → ${compared.after_label}` : undefined}>
+                    {compared ? trend(compared) : "—"}
+                  </td>
+                ) : null}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {diagnosis.causes.length ? (
+        <>
+          <span className="v145-dossier-summary-label">Causes possibles</span>
+          <ol className="v146-panel-list">
+            {diagnosis.causes.map((cause) => (
+              <li key={cause.cause}>
+                <b>{cause.cause}</b> — {percent(cause.plausibility)}
+                {cause.evidence ? <div>{cause.evidence}</div> : null}
+                {cause.features.length ? (
+                  <div className="v146-diagnosis-note">{cause.features.map((key) => labels.get(key) ?? key).join(", ")}</div>
+                ) : null}
+              </li>
+            ))}
+          </ol>
+        </>
+      ) : null}
+
+      {diagnosis.controls.length ? (
+        <>
+          <span className="v145-dossier-summary-label">Contrôles à faire</span>
+          <ul className="v146-panel-list">
+            {diagnosis.controls.map((control) => (
+              <li key={control.control}>
+                {control.control}
+                {control.expected ? <div className="v146-diagnosis-note">{control.expected}</div> : null}
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : null}
+    </section>
+  );
+}
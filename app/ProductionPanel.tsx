@@ -0,0 +1,343 @@
+"use client";
+
+import { useCallback, useEffect, useState, type ReactNode } from "react";
+
+export type ProductionStepRow = {
+  id: string;
+  batch: number | null;
+  kind: string;
+  label: string;
+  start: number;
+  end: number;
+  start_clock: string;
+  end_clock: string;
+  note: string;
+};
+
+export type ProductionPlanRow = {
+  id: number;
+  title: string;
+  service_date: string | null;
+  updated_at: string;
+  plan?: {
+    service_time: string;
+    pizzas: number;
+    balls: number;
+    total_dough: number;
+    batches: Array<{ index: number; balls: number }>;
+    steps: ProductionStepRow[];
+    oven: { pizzas_per_hour: number; bottleneck: boolean };
+    warnings: string[];
+    notes: string[];
+  };
+};
+
+export type ProductionChart = {
+  type: "timeline";
+  title: string;
+  description: string;
+  data: unknown;
+};
+
+type ProductionPanelProps = {
+  accessToken: string;
+  onClose: () => void;
+  onExplain: (plan: NonNullable<ProductionPlanRow["plan"]>) => void;
+  renderChart: (chart: ProductionChart) => ReactNode;
+};
+
+const EMPTY_FORM = {
+  title: "",
+  service_date: "",
+  service_time: "19:00",
+  service_hours: "3",
+  covers: "",
+  ball_weight: "260",
+  hydration: "65",
+  salt: "2.8",
+  yeast_type: "fresh",
+  yeast_percent: "0.1",
+  levain_percent: "",
+  mixer_capacity_kg: "25",
+  bulk_hours: "2",
+  cold_retard_hours: "24",
+  tempering_hours: "3",
+  oven_capacity: "",
+  bake_minutes: "1.5",
+};
+
+type StepEdit = { time_start: string; time_end: string; note: string };
+
+// Steps are edited as local times; the day ("J-1", "J"…) stays the one the
+// planner chose, which covers moving a step within its day.
+function clockParts(clock: string) {
+  const match = /^J([+-]\d+)? (\d{2}:\d{2})$/.exec(clock);
+  return { day: match?.[1] ? Number(match[1]) : 0, time: match?.[2] || "00:00" };
+}
+
+function clockOffset(serviceTime: string, day: number, time: string) {
+  const minutes = (value: string) => {
+    const [hours, mins] = value.split(":").map(Number);
+    return hours * 60 + mins;
+  };
+  return day * 1440 + minutes(time) - minutes(serviceTime);
+}
+
+export function ProductionPanel({ accessToken, onClose, onExplain, renderChart }: ProductionPanelProps) {
+  const [plans, setPlans] = useState<ProductionPlanRow[]>([]);
+  const [current, setCurrent] = useState<ProductionPlanRow | null>(null);
+  const [chart, setChart] = useState<ProductionChart | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [edits, setEdits] = useState<Record<string, StepEdit>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const request = useCallback(
+    async (url: string, init: RequestInit = {}) => {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          ...(init.body ? { "Content-Type": "application/json" } : {}),
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result?.error || "production_plans_unavailable");
+      return result;
+    },
+    [accessToken]
+  );
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setLoading(true);
+    setError("");
+    try {
+      await task();
+    } catch (err: unknown) {
+      setError(err instanceof Error && err.message ? `Action impossible (${err.message}).` : "Action impossible.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void run(async () => {
+      const result = await request("/api/production-plans");
+      setPlans((result.plans || []) as ProductionPlanRow[]);
+    });
+  }, [request, run]);
+
+  function show(result: { plan: ProductionPlanRow; chart: ProductionChart }) {
+    setCurrent(result.plan);
+    setChart(result.chart);
+    setEdits({});
+    setPlans((prev) => [result.plan, ...prev.filter((plan) => plan.id !== result.plan.id)]);
+  }
+
+  function createPlan() {
+    void run(async () => {
+      const { title, service_date, ...input } = form;
+      show(await request("/api/production-plans", { method: "POST", body: JSON.stringify({ title, service_date, input }) }));
+    });
+  }
+
+  function openPlan(id: number) {
+    void run(async () => {
+      const result = await request(`/api/production-plans?id=${id}`);
+      setCurrent(result.plan as ProductionPlanRow);
+      setChart(result.chart as ProductionChart);
+      setEdits({});
+    });
+  }
+
+  function deletePlan(id: number) {
+    void run(async () => {
+      await request(`/api/production-plans?id=${id}`, { method: "DELETE" });
+      setPlans((prev) => prev.filter((plan) => plan.id !== id));
+      if (current?.id === id) {
+        setCurrent(null);
+        setChart(null);
+      }
+    });
+  }
+
+  function editStep(step: ProductionStepRow, patch: Partial<StepEdit>) {
+    setEdits((prev) => ({
+      ...prev,
+      [step.id]: {
+        ...(prev[step.id] ?? {
+          time_start: clockParts(step.start_clock).time,
+          time_end: clockParts(step.end_clock).time,
+          note: step.note,
+        }),
+        ...patch,
+      },
+    }));
+  }
+
+  function saveEdits() {
+    const plan = current?.plan;
+    if (!current || !plan) return;
+    const steps = plan.steps
+      .filter((step) => edits[step.id])
+      .map((step) => ({
+        id: step.id,
+        start: clockOffset(plan.service_time, clockParts(step.start_clock).day, edits[step.id].time_start),
+        end: clockOffset(plan.service_time, clockParts(step.end_clock).day, edits[step.id].time_end),
+        note: edits[step.id].note,
+      }));
+    void run(async () => {
+      show(await request("/api/production-plans", { method: "PUT", body: JSON.stringify({ id: current.id, steps }) }));
+    });
+  }
+
+  // The export needs the bearer token, so it goes through fetch rather than a link.
+  function exportCsv() {
+    if (!current) return;
+    void run(async () => {
+      const response = await fetch(`/api/production-plans?id=${current.id}&format=csv`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!response.ok) throw new Error("production_plans_unavailable");
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `production-${current.service_date || current.id}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  }
+
+  const field = (key: keyof typeof EMPTY_FORM, placeholder: string, type = "text") => (
+    <input
+      type={type}
+      placeholder={placeholder}
+      aria-label={placeholder}
+      inputMode={type === "text" ? "decimal" : undefined}
+      value={form[key]}
+      onChange={(e) => setForm((p) => ({ ...p, [key]: e.target.value }))}
+    />
+  );
+  const plan = current?.plan;
+
+  return (
+    <section className="v145-dossier-summary v146-production" aria-label="Plan de production">
+      <div className="v145-dossier-summary-header">
+        <div>
+          <div className="v145-dossier-summary-kicker">Gestion</div>
+          <h2>Production</h2>
+        </div>
+        <button type="button" className="v145-dossier-summary-close" onClick={onClose} aria-label="Fermer le plan de production">
+          ×
+        </button>
+      </div>
+
+      {error ? <div className="v145-dossier-summary-error">{error}</div> : null}
+
+      <div className="v145-dossier-summary-grid">
+        <div className="v145-dossier-summary-main">
+          <span className="v145-dossier-summary-label">Nouveau service</span>
+          <div className="v146-panel-fields">
+            <input placeholder="Nom du plan" value={form.title} onChange={(e) => setForm((p) => ({ ...p, title: e.target.value }))} />
+            {field("service_date", "Date du service", "date")}
+            {field("service_time", "Heure du service", "time")}
+            {field("service_hours", "Durée du service (h)")}
+            {field("covers", "Couverts")}
+          </div>
+          <div className="v146-panel-fields">
+            {field("ball_weight", "Pâton (g)")}
+            {field("hydration", "Hydratation %")}
+            {field("salt", "Sel %")}
+            <select aria-label="Ferment" value={form.yeast_type} onChange={(e) => setForm((p) => ({ ...p, yeast_type: e.target.value }))}>
+              <option value="fresh">Levure fraîche</option>
+              <option value="dry">Levure sèche</option>
+              <option value="levain">Levain</option>
+            </select>
+            {form.yeast_type === "levain" ? field("levain_percent", "Levain %") : field("yeast_percent", "Levure %")}
+          </div>
+          <div className="v146-panel-fields">
+            {field("mixer_capacity_kg", "Pétrin (kg)")}
+            {field("bulk_hours", "Pointage (h)")}
+            {field("cold_retard_hours", "Froid pâtons (h)")}
+            {field("tempering_hours", "Remise en T° (h)")}
+            {field("oven_capacity", "Pizzas par fournée de four")}
+            {field("bake_minutes", "Cuisson (min)")}
+          </div>
+          <div className="v145-dossier-summary-actions">
+            <button type="button" disabled={loading || !form.covers || !form.oven_capacity} onClick={createPlan}>
+              Calculer et enregistrer
+            </button>
+          </div>
+        </div>
+
+        <div className="v145-dossier-summary-next">
+          <span className="v145-dossier-summary-label">Plans enregistrés</span>
+          {plans.length ? (
+            <ul className="v146-panel-list">
+              {plans.map((item) => (
+                <li key={item.id}>
+                  <b>{item.title}</b>{item.service_date ? ` — ${item.service_date}` : ""}{" "}
+                  <button type="button" className="v146-inline-link" onClick={() => openPlan(item.id)}>ouvrir</button>{" "}
+                  <button type="button" className="v146-inline-link" onClick={() => deletePlan(item.id)}>retirer</button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p>Aucun plan enregistré.</p>
+          )}
+        </div>
+      </div>
+
+      {current && plan ? (
+        <div className="v145-dossier-summary-main">
+          <span className="v145-dossier-summary-label">{current.title}</span>
+          <p>
+            {plan.pizzas} pizzas, {plan.balls} pâtons, {Math.round(plan.total_dough / 100) / 10} kg de pâte en{" "}
+            {plan.batches.length} fournée{plan.batches.length > 1 ? "s" : ""} ; four : {plan.oven.pizzas_per_hour} pizzas/h.
+          </p>
+          {plan.warnings.length ? <div className="v145-dossier-summary-error">{plan.warnings.join(" ")}</div> : null}
+          <ul className="v146-panel-list">
+            {plan.steps.map((step) => {
+              const edit = edits[step.id];
+              return (
+                <li key={step.id}>
+                  <b>{step.label}</b>{" "}
+                  <span>{clockParts(step.start_clock).day === 0 ? "J" : step.start_clock.split(" ")[0]}</span>{" "}
+                  <input
+                    type="time"
+                    aria-label={`Début — ${step.label}`}
+                    value={edit?.time_start ?? clockParts(step.start_clock).time}
+                    onChange={(e) => editStep(step, { time_start: e.target.value })}
+                  />{" "}
+                  →{" "}
+                  <input
+                    type="time"
+                    aria-label={`Fin — ${step.label}`}
+                    value={edit?.time_end ?? clockParts(step.end_clock).time}
+                    onChange={(e) => editStep(step, { time_end: e.target.value })}
+                  />{" "}
+                  <input
+                    placeholder="Note"
+                    aria-label={`Note — ${step.label}`}
+                    value={edit?.note ?? step.note}
+                    onChange={(e) => editStep(step, { note: e.target.value })}
+                  />
+                </li>
+              );
+            })}
+          </ul>
+          {plan.notes.length ? <p>{plan.notes.join(" ")}</p> : null}
+          <div className="v145-dossier-summary-actions">
+            <button type="button" disabled={loading || !Object.keys(edits).length} onClick={saveEdits}>
+              Enregistrer les modifications
+            </button>
+            <button type="button" disabled={loading} onClick={exportCsv}>Exporter (CSV)</button>
+            <button type="button" onClick={() => onExplain(plan)}>Demander à Ernesto d’expliquer</button>
+          </div>
+        </div>
+      ) : null}
+
+      {chart ? renderChart(chart) : null}
+    </section>
+  );
+}
@@ -19,8 +19,48 @@ type Stats = {
     free_queries_used: number;
     updated_at?: string | null;
   }>;
+  usage_available?: boolean;
+  usage_cost_30d?: number;
+  usage_tokens_30d?: number;
+  usage_by_day?: Array<{
+    day: string;
+    requests: number;
+    calls: number;
+    input_tokens: number;
+    output_tokens: number;
+    cost_usd: number;
+    avg_latency_ms: number;
+    errors: number;
+  }>;
+  usage_by_user?: Array<{
+    user_id: string | null;
+    email: string | null;
+    requests: number;
+    calls: number;
+    input_tokens: number;
+    output_tokens: number;
+    cost_usd: number;
+  }>;
+  scope_available?: boolean;
+  scope_by_label?: Array<{
+    label: ScopeLabel;
+    questions: number;
+    short_circuited: number;
+  }>;
+  scope_recent?: Array<{
+    id: number;
+    question: string;
+    label: ScopeLabel;
+    confidence: number;
+    reason?: string | null;
+    source: string;
+    action: "answer" | "refuse" | "safety";
+    created_at: string;
+  }>;
 };
 
+type ScopeLabel = "technique" | "business" | "out_of_scope" | "food_safety" | "prompt_injection";
+
 type KnowledgeDocument = {
   id: number;
   title: string;
@@ -30,6 +70,76 @@ type KnowledgeDocument = {
   chunks: number;
 };
 
+type CitationPassage = {
+  ref: number;
+  document_id: string;
+  chunk_indexes: number[];
+  score: number;
+};
+
+type AnswerCitation = {
+  id: string;
+  message_id?: number | null;
+  project_id?: string | null;
+  mode?: string | null;
+  question: string;
+  answer_excerpt: string;
+  passages: CitationPassage[];
+  sections: Array<{ heading: string; passages: number[]; unsupported_figures: string[] }>;
+  unsupported_figures: number;
+  model?: string | null;
+  created_at?: string | null;
+};
+
+type PromptDefinition = {
+  name: string;
+  label: string;
+  variables: string[];
+  required: string[];
+  body: string;
+};
+
+type PromptVersion = {
+  id: number;
+  name: string;
+  version: number;
+  label: string;
+  body: string;
+  weight: number;
+  status: "draft" | "active" | "retired";
+  created_at?: string | null;
+};
+
+type PromptPerformance = {
+  prompt_variant: string;
+  answers: number;
+  useful: number;
+  not_useful: number;
+  last_answer_at?: string | null;
+};
+
+const PROMPT_STATUS_LABELS: Record<PromptVersion["status"], string> = {
+  draft: "Brouillon",
+  active: "Actif",
+  retired: "Retiré",
+};
+
+const PROMPT_WEIGHTS = [0, 5, 10, 20, 25, 50, 75, 100];
+
+const SCOPE_LABELS: Record<ScopeLabel, string> = {
+  technique: "Technique",
+  business: "Gestion et organisation",
+  out_of_scope: "Hors périmètre",
+  food_safety: "Sécurité alimentaire",
+  prompt_injection: "Tentative de détournement",
+};
+
+const SCOPE_ACTIONS: Record<"answer" | "refuse" | "safety", string> = {
+  answer: "Répondue",
+  refuse: "Refusée",
+  safety: "Réponse sécurité",
+};
+
 type TraineeStatus = "active" | "invited" | "blocked" | "expired";
 
 type Trainee = {
@@ -68,6 +178,25 @@ function formatDate(value?: string | null) {
   return Number.isNaN(date.getTime()) ? "—" : date.toLocaleDateString("fr-FR");
 }
 
+function formatCost(value: number) {
+  return `${value.toLocaleString("fr-FR", { minimumFractionDigits: 2, maximumFractionDigits: 4 })} $`;
+}
+
+// Answers and ratings of every variant that served this version.
+function versionPerformance(version: PromptVersion, performance: PromptPerformance[]) {
+  const tag = `${version.name}@v${version.version}`;
+  return performance
+    .filter((row) => row.prompt_variant.split("+").includes(tag))
+    .reduce(
+      (acc, row) => ({
+        answers: acc.answers + row.answers,
+        useful: acc.useful + row.useful,
+        not_useful: acc.not_useful + row.not_useful,
+      }),
+      { answers: 0, useful: 0, not_useful: 0 }
+    );
+}
+
 function errorMessage(error: unknown, fallback: string) {
   return error instanceof Error && error.message ? error.message : fallback;
 }
@@ -82,6 +211,10 @@ export default function AdminPage() {
   const [stats, setStats] = useState<Stats | null>(null);
   const [trainees, setTrainees] = useState<Trainee[]>([]);
   const [knowledgeDocuments, setKnowledgeDocuments] = useState<KnowledgeDocument[]>([]);
+  const [citations, setCitations] = useState<AnswerCitation[]>([]);
+  const [citationDocuments, setCitationDocuments] = useState<Record<string, { title: string; source: string }>>({});
+  const [citationsUnavailable, setCitationsUnavailable] = useState(false);
+  const [unsupportedOnly, setUnsupportedOnly] = useState(false);
   const [dashboardLoading, setDashboardLoading] = useState(true);
   const [dashboardError, setDashboardError] = useState("");
 
@@ -105,6 +238,19 @@ export default function AdminPage() {
   const [knowledgeError, setKnowledgeError] = useState("");
   const [deletingDocumentId, setDeletingDocumentId] = useState<number | null>(null);
 
+  const [promptDefinitions, setPromptDefinitions] = useState<PromptDefinition[]>([]);
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
+  const [promptPerformance, setPromptPerformance] = useState<PromptPerformance[]>([]);
+  const [promptsUnavailable, setPromptsUnavailable] = useState(false);
+  const [promptName, setPromptName] = useState("");
+  const [promptLabel, setPromptLabel] = useState("");
+  const [promptBody, setPromptBody] = useState("");
+  const [promptWeight, setPromptWeight] = useState("0");
+  const [promptLoading, setPromptLoading] = useState(false);
+  const [promptMessage, setPromptMessage] = useState("");
+  const [promptError, setPromptError] = useState("");
+  const [updatingPromptId, setUpdatingPromptId] = useState<number | null>(null);
+
   async function getAccessToken() {
     if (!supabase) return null;
     const { data } = await supabase.auth.getSession();
@@ -124,15 +270,19 @@ export default function AdminPage() {
 
     try {
       const headers = { Authorization: `Bearer ${token}` };
-      const [traineesResponse, statsResponse, knowledgeResponse] = await Promise.all([
+      const [traineesResponse, statsResponse, knowledgeResponse, citationsResponse, promptsResponse] = await Promise.all([
         fetch("/api/admin/trainees", { headers, cache: "no-store" }),
         fetch("/api/admin/stats", { headers, cache: "no-store" }),
         fetch("/api/admin/knowledge", { headers, cache: "no-store" }),
+        fetch("/api/admin/citations", { headers, cache: "no-store" }),
+        fetch("/api/admin/prompts", { headers, cache: "no-store" }),
       ]);
 
       const traineeData = await traineesResponse.json().catch(() => ({}));
       const statsData = await statsResponse.json().catch(() => ({}));
       const knowledgeData = await knowledgeResponse.json().catch(() => ({}));
+      const citationsData = await citationsResponse.json().catch(() => ({}));
+      const promptsData = await promptsResponse.json().catch(() => ({}));
 
       if (!traineesResponse.ok) throw new Error(traineeData?.error || "Impossible de charger les stagiaires.");
       if (!statsResponse.ok) throw new Error(statsData?.error || "Impossible de charger les statistiques.");
@@ -141,6 +291,14 @@ export default function AdminPage() {
       setTrainees(traineeData.trainees || []);
       setStats(statsData as Stats);
       setKnowledgeDocuments(knowledgeData.documents || []);
+      // The citation map is a review aid: the dashboard stays usable without it.
+      setCitationsUnavailable(!citationsResponse.ok);
+      setCitations(citationsResponse.ok ? citationsData.citations || [] : []);
+      setCitationDocuments(citationsResponse.ok ? citationsData.documents || {} : {});
+      setPromptsUnavailable(!promptsResponse.ok);
+      setPromptDefinitions(promptsResponse.ok ? promptsData.definitions || [] : []);
+      setPromptVersions(promptsResponse.ok ? promptsData.versions || [] : []);
+      setPromptPerformance(promptsResponse.ok ? promptsData.performance || [] : []);
     } catch (error: unknown) {
       setDashboardError(errorMessage(error, "Erreur de chargement."));
     } finally {
@@ -306,6 +464,84 @@ export default function AdminPage() {
     }
   }
 
+  // A new version starts from the latest one of the prompt, or the built-in text.
+  function selectPrompt(name: string) {
+    setPromptName(name);
+    setPromptMessage("");
+    setPromptError("");
+    const latest = promptVersions.find((version) => version.name === name);
+    const definition = promptDefinitions.find((item) => item.name === name);
+    setPromptBody(latest?.body ?? definition?.body.trim() ?? "");
+    setPromptLabel("");
+  }
+
+  async function createPromptVersion(event: React.FormEvent) {
+    event.preventDefault();
+    setPromptMessage("");
+    setPromptError("");
+    const token = await getAccessToken();
+    if (!token) {
+      setPromptError("Session administrateur introuvable.");
+      return;
+    }
+    setPromptLoading(true);
+    try {
+      const response = await fetch("/api/admin/prompts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ name: promptName, label: promptLabel, body: promptBody, weight: Number(promptWeight) }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          result?.error === "invalid_prompt_template"
+            ? (result.issues || []).join(" ")
+            : result?.error || "Enregistrement impossible."
+        );
+      }
+      setPromptMessage(`${promptName} v${result.version?.version} enregistrée comme brouillon.`);
+      setPromptLabel("");
+      await loadDashboard();
+    } catch (error: unknown) {
+      setPromptError(errorMessage(error, "Enregistrement impossible."));
+    } finally {
+      setPromptLoading(false);
+    }
+  }
+
+  async function updatePrompt(payload: Record<string, unknown>, versionId: number | null) {
+    const token = await getAccessToken();
+    if (!token) return;
+    setUpdatingPromptId(versionId);
+    setPromptError("");
+    try {
+      const response = await fetch("/api/admin/prompts", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify(payload),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result?.error || "Modification impossible.");
+      await loadDashboard();
+    } catch (error: unknown) {
+      setPromptError(errorMessage(error, "Modification impossible."));
+    } finally {
+      setUpdatingPromptId(null);
+    }
+  }
+
+  async function resetPromptAssignments(name: string) {
+    if (!window.confirm(`Tirer à nouveau la version de « ${name} » pour chaque utilisateur ?`)) return;
+    await updatePrompt({ name, reset: true }, null);
+    setPromptMessage(`Affectations de ${name} réinitialisées.`);
+  }
+
+  const activePromptCount = promptVersions.filter((version) => version.status === "active").length;
+
+  const visibleCitations = unsupportedOnly
+    ? citations.filter((citation) => citation.unsupported_figures > 0)
+    : citations;
+
   const counts = trainees.reduce(
     (acc, trainee) => {
       acc.total += 1;
@@ -320,7 +556,7 @@ export default function AdminPage() {
       <header style={styles.header}>
         <div>
           <p style={styles.eyebrow}>Administration EPPPN</p>
-          <h1 style={styles.h1}>Ernesto v14.5</h1>
+          <h1 style={styles.h1}>Ernesto v14.6</h1>
           <p style={styles.subtitle}>Accès, qualité pédagogique et base de connaissances officielle EPPPN.</p>
         </div>
         <button onClick={loadDashboard} disabled={dashboardLoading} style={styles.secondaryButton}>
@@ -443,6 +679,243 @@ export default function AdminPage() {
         </div>
       </section>
 
+      <section style={styles.card}>
+        <div style={styles.sectionHeader}>
+          <div>
+            <h2 style={styles.h2}>Ancrage des réponses</h2>
+            <p style={styles.help}>
+              Pour chaque réponse récente, les passages de la base EPPPN qui soutiennent chaque section et les valeurs chiffrées qu’aucun passage ne justifie. Cette carte n’est jamais montrée aux utilisateurs.
+            </p>
+          </div>
+          <label style={styles.filterLabel}>
+            <input
+              type="checkbox"
+              checked={unsupportedOnly}
+              onChange={(event) => setUnsupportedOnly(event.target.checked)}
+            />
+            Chiffres non étayés uniquement
+          </label>
+        </div>
+
+        {citationsUnavailable ? (
+          <p style={styles.muted}>Carte des citations indisponible : appliquez la migration v14.6.</p>
+        ) : null}
+
+        <div style={styles.documentList}>
+          {visibleCitations.map((citation) => (
+            <details key={citation.id} style={styles.citationItem}>
+              <summary style={styles.citationSummary}>
+                <span style={{ minWidth: 0 }}>
+                  <strong>{citation.question}</strong>
+                  <span style={styles.documentMeta}>
+                    {" "}· {citation.mode === "ANALYSE" ? "Analyse" : "Action"} · {formatDate(citation.created_at)}
+                    {citation.message_id ? ` · réponse n° ${citation.message_id}` : ""} · {citation.passages.length} passage{citation.passages.length > 1 ? "s" : ""}
+                  </span>
+                </span>
+                {citation.unsupported_figures > 0 ? (
+                  <span style={{ ...styles.status, ...styles.statusBlocked }}>
+                    {citation.unsupported_figures} chiffre{citation.unsupported_figures > 1 ? "s" : ""} non étayé{citation.unsupported_figures > 1 ? "s" : ""}
+                  </span>
+                ) : (
+                  <span style={{ ...styles.status, ...styles.statusActive }}>Chiffres étayés</span>
+                )}
+              </summary>
+              <div style={styles.citationSections}>
+                {citation.sections.map((section, index) => (
+                  <div key={`${citation.id}-${index}`} style={styles.citationSection}>
+                    <strong>{section.heading}</strong>
+                    <div style={styles.documentMeta}>
+                      {section.passages.length
+                        ? section.passages
+                            .map((ref) => {
+                              const passage = citation.passages.find((item) => item.ref === ref);
+                              if (!passage) return `P${ref}`;
+                              const document = citationDocuments[passage.document_id];
+                              const fragments = passage.chunk_indexes.map((chunkIndex) => chunkIndex + 1).join("–");
+                              return `P${ref} · ${document?.title || `Document ${passage.document_id}`} (fragment${passage.chunk_indexes.length > 1 ? "s" : ""} ${fragments})`;
+                            })
+                            .join(" ; ")
+                        : "Aucun passage de la base EPPPN"}
+                    </div>
+                    {section.unsupported_figures.length ? (
+                      <div style={styles.citationWarning}>Non étayé : {section.unsupported_figures.join(", ")}</div>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            </details>
+          ))}
+          {!dashboardLoading && !citationsUnavailable && visibleCitations.length === 0 ? (
+            <p style={styles.muted}>Aucune réponse à examiner.</p>
+          ) : null}
+        </div>
+      </section>
+
+      <section style={styles.card}>
+        <div style={styles.sectionHeader}>
+          <div>
+            <h2 style={styles.h2}>Prompts</h2>
+            <p style={styles.help}>
+              Versions des consignes données au modèle. Une version active est servie à la part d’utilisateurs indiquée, le texte
+              intégré aux autres ; chaque utilisateur garde la version tirée. Les réponses et les avis sont comptés par version.
+            </p>
+          </div>
+          <span style={styles.countPill}>{activePromptCount} version{activePromptCount > 1 ? "s" : ""} active{activePromptCount > 1 ? "s" : ""}</span>
+        </div>
+
+        {promptsUnavailable ? (
+          <p style={styles.muted}>Registre des prompts indisponible : appliquez la migration v14.6.</p>
+        ) : null}
+
+        <form onSubmit={createPromptVersion} style={styles.knowledgeForm}>
+          <label style={styles.label}>
+            Prompt
+            <select value={promptName} onChange={(event) => selectPrompt(event.target.value)} required style={styles.input}>
+              <option value="">Choisir un prompt</option>
+              {promptDefinitions.map((definition) => (
+                <option key={definition.name} value={definition.name}>{definition.label}</option>
+              ))}
+            </select>
+          </label>
+          <label style={styles.label}>
+            Libellé
+            <input
+              value={promptLabel}
+              onChange={(event) => setPromptLabel(event.target.value)}
+              placeholder="Ex. Action plus courte"
+              style={styles.input}
+            />
+          </label>
+          <label style={styles.label}>
+            Part des utilisateurs une fois activée
+            <select value={promptWeight} onChange={(event) => setPromptWeight(event.target.value)} style={styles.input}>
+              {PROMPT_WEIGHTS.map((weight) => (
+                <option key={weight} value={weight}>{weight} %</option>
+              ))}
+            </select>
+          </label>
+          <label style={{ ...styles.label, gridColumn: "1 / -1" }}>
+            Texte
+            <textarea
+              value={promptBody}
+              onChange={(event) => setPromptBody(event.target.value)}
+              style={{ ...styles.textarea, minHeight: 260, fontFamily: "ui-monospace, monospace", fontSize: 13 }}
+            />
+            {promptName ? (
+              <span style={styles.muted}>
+                Variables : {promptDefinitions.find((item) => item.name === promptName)?.variables.map((name) => `{{${name}}}`).join(", ") || "aucune"}
+              </span>
+            ) : null}
+          </label>
+          <button type="submit" disabled={promptLoading || !promptName} style={styles.primaryButton}>
+            {promptLoading ? "Enregistrement..." : "Enregistrer une nouvelle version"}
+          </button>
+          {promptName ? (
+            <button type="button" onClick={() => resetPromptAssignments(promptName)} style={{ ...styles.secondaryButton, alignSelf: "end" }}>
+              Réinitialiser les affectations
+            </button>
+          ) : null}
+        </form>
+        {promptMessage ? <p style={styles.success}>{promptMessage}</p> : null}
+        {promptError ? <p style={styles.error}>{promptError}</p> : null}
+
+        <div style={{ ...styles.tableBox, marginTop: 18 }}>
+          <table style={styles.table}>
+            <thead>
+              <tr style={styles.tableHeadRow}>
+                <th style={styles.th}>Prompt</th>
+                <th style={styles.th}>Version</th>
+                <th style={styles.th}>Statut</th>
+                <th style={styles.th}>Part</th>
+                <th style={styles.th}>Réponses</th>
+                <th style={styles.th}>Utiles</th>
+                <th style={styles.th}>Pas utiles</th>
+                <th style={styles.th}>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {promptVersions.map((version) => {
+                const performance = versionPerformance(version, promptPerformance);
+                return (
+                  <tr key={version.id} style={styles.tr}>
+                    <td style={styles.td}><strong>{version.name}</strong></td>
+                    <td style={styles.td}>
+                      v{version.version}{version.label ? ` · ${version.label}` : ""}
+                      <div style={styles.documentMeta}>{formatDate(version.created_at)}</div>
+                    </td>
+                    <td style={styles.td}>{PROMPT_STATUS_LABELS[version.status]}</td>
+                    <td style={styles.td}>
+                      <select
+                        value={version.weight}
+                        onChange={(event) => updatePrompt({ id: version.id, weight: Number(event.target.value) }, version.id)}
+                        disabled={updatingPromptId === version.id || version.status === "retired"}
+                        style={{ ...styles.input, minHeight: 34 }}
+                      >
+                        {Array.from(new Set([...PROMPT_WEIGHTS, version.weight])).sort((a, b) => a - b).map((weight) => (
+                          <option key={weight} value={weight}>{weight} %</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td style={styles.td}>{performance.answers}</td>
+                    <td style={styles.td}>{performance.useful}</td>
+                    <td style={styles.td}>{performance.not_useful}</td>
+                    <td style={styles.td}>
+                      {version.status === "active" ? (
+                        <button
+                          onClick={() => updatePrompt({ id: version.id, status: "retired" }, version.id)}
+                          disabled={updatingPromptId === version.id}
+                          style={styles.dangerButton}
+                        >
+                          Retirer
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => updatePrompt({ id: version.id, status: "active" }, version.id)}
+                          disabled={updatingPromptId === version.id}
+                          style={styles.smallButton}
+                        >
+                          Activer
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {!dashboardLoading && !promptsUnavailable && promptVersions.length === 0 ? (
+                <tr><td colSpan={8} style={{ ...styles.td, textAlign: "center", padding: 28 }}>Textes intégrés uniquement : aucune version enregistrée.</td></tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        {promptPerformance.length ? (
+          <div style={{ ...styles.tableBox, marginTop: 18 }}>
+            <table style={styles.table}>
+              <thead>
+                <tr style={styles.tableHeadRow}>
+                  <th style={styles.th}>Variante</th>
+                  <th style={styles.th}>Réponses</th>
+                  <th style={styles.th}>Utiles</th>
+                  <th style={styles.th}>Pas utiles</th>
+                  <th style={styles.th}>Dernière réponse</th>
+                </tr>
+              </thead>
+              <tbody>
+                {promptPerformance.map((row) => (
+                  <tr key={row.prompt_variant} style={styles.tr}>
+                    <td style={styles.td}>{row.prompt_variant === "default" ? "Textes intégrés" : row.prompt_variant}</td>
+                    <td style={styles.td}>{row.answers}</td>
+                    <td style={styles.td}>{row.useful}</td>
+                    <td style={styles.td}>{row.not_useful}</td>
+                    <td style={styles.td}>{formatDate(row.last_answer_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </section>
+
       <section style={styles.card}>
         <h2 style={styles.h2}>Inviter un stagiaire</h2>
         <p style={styles.help}>
@@ -576,6 +1049,155 @@ export default function AdminPage() {
           <Metric title="Plans terminés" value={stats?.completed_action_plans ?? 0} />
         </div>
       </section>
+
+      <section style={styles.card}>
+        <h2 style={styles.h2}>Périmètre des questions</h2>
+        <p style={styles.help}>
+          Étiquette donnée à chaque question avant la recherche, sur les 30 derniers jours. Les questions hors périmètre ou de
+          détournement reçoivent un refus, celles de sécurité alimentaire la réponse de sécurité du registre des prompts.
+        </p>
+
+        {stats && stats.scope_available === false ? (
+          <p style={styles.error}>Journal du périmètre indisponible : appliquez la migration du périmètre des questions.</p>
+        ) : null}
+
+        <div style={styles.tableBox}>
+          <table style={styles.table}>
+            <thead>
+              <tr style={styles.tableHeadRow}>
+                <th style={styles.th}>Étiquette</th>
+                <th style={styles.th}>Questions</th>
+                <th style={styles.th}>Sans réponse du tuteur</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(stats?.scope_by_label || []).map((row) => (
+                <tr key={row.label} style={styles.tr}>
+                  <td style={styles.td}><strong>{SCOPE_LABELS[row.label] || row.label}</strong></td>
+                  <td style={styles.td}>{row.questions}</td>
+                  <td style={styles.td}>{row.short_circuited}</td>
+                </tr>
+              ))}
+              {!dashboardLoading && !stats?.scope_by_label?.length ? (
+                <tr><td colSpan={3} style={{ ...styles.td, textAlign: "center", padding: 28 }}>Aucune question classée.</td></tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        {stats?.scope_recent?.length ? (
+          <div style={{ ...styles.tableBox, marginTop: 18 }}>
+            <table style={styles.table}>
+              <thead>
+                <tr style={styles.tableHeadRow}>
+                  <th style={styles.th}>Question</th>
+                  <th style={styles.th}>Étiquette</th>
+                  <th style={styles.th}>Traitement</th>
+                  <th style={styles.th}>Date</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.scope_recent.map((row) => (
+                  <tr key={row.id} style={styles.tr}>
+                    <td style={styles.td}>
+                      {row.question}
+                      {row.reason ? <div style={styles.muted}>{row.reason}</div> : null}
+                    </td>
+                    <td style={styles.td}>
+                      {SCOPE_LABELS[row.label] || row.label}
+                      <div style={styles.muted}>
+                        {row.source === "rules" ? "règle" : `confiance ${Math.round(row.confidence * 100)} %`}
+                      </div>
+                    </td>
+                    <td style={styles.td}>{SCOPE_ACTIONS[row.action] || row.action}</td>
+                    <td style={styles.td}>{formatDate(row.created_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </section>
+
+      <section style={styles.card}>
+        <div style={styles.sectionHeader}>
+          <div>
+            <h2 style={styles.h2}>Consommation des modèles</h2>
+            <p style={styles.help}>
+              Appels aux modèles des 30 derniers jours (jours UTC), relevés dans le registre d’utilisation. Les coûts sont estimés
+              à partir du prix public des modèles.
+            </p>
+          </div>
+          <span style={styles.countPill}>{formatCost(stats?.usage_cost_30d ?? 0)} · {(stats?.usage_tokens_30d ?? 0).toLocaleString("fr-FR")} jetons</span>
+        </div>
+
+        {stats && stats.usage_available === false ? (
+          <p style={styles.error}>Registre d’utilisation indisponible : appliquez la migration du registre.</p>
+        ) : null}
+
+        <div style={styles.tableBox}>
+          <table style={styles.table}>
+            <thead>
+              <tr style={styles.tableHeadRow}>
+                <th style={styles.th}>Jour</th>
+                <th style={styles.th}>Requêtes</th>
+                <th style={styles.th}>Appels</th>
+                <th style={styles.th}>Jetons entrée</th>
+                <th style={styles.th}>Jetons sortie</th>
+                <th style={styles.th}>Latence moyenne</th>
+                <th style={styles.th}>Erreurs</th>
+                <th style={styles.th}>Coût estimé</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(stats?.usage_by_day || []).map((day) => (
+                <tr key={day.day} style={styles.tr}>
+                  <td style={styles.td}><strong>{formatDate(day.day)}</strong></td>
+                  <td style={styles.td}>{day.requests}</td>
+                  <td style={styles.td}>{day.calls}</td>
+                  <td style={styles.td}>{day.input_tokens.toLocaleString("fr-FR")}</td>
+                  <td style={styles.td}>{day.output_tokens.toLocaleString("fr-FR")}</td>
+                  <td style={styles.td}>{day.avg_latency_ms} ms</td>
+                  <td style={styles.td}>{day.errors}</td>
+                  <td style={styles.td}>{formatCost(day.cost_usd)}</td>
+                </tr>
+              ))}
+              {!dashboardLoading && !stats?.usage_by_day?.length ? (
+                <tr><td colSpan={8} style={{ ...styles.td, textAlign: "center", padding: 28 }}>Aucun appel enregistré.</td></tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        {stats?.usage_by_user?.length ? (
+          <div style={{ ...styles.tableBox, marginTop: 18 }}>
+            <table style={styles.table}>
+              <thead>
+                <tr style={styles.tableHeadRow}>
+                  <th style={styles.th}>Utilisateur</th>
+                  <th style={styles.th}>Requêtes</th>
+                  <th style={styles.th}>Appels</th>
+                  <th style={styles.th}>Jetons</th>
+                  <th style={styles.th}>Coût estimé</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.usage_by_user.map((usage) => (
+                  <tr key={usage.user_id || "anonymous"} style={styles.tr}>
+                    <td style={styles.td}>
+                      {usage.email || <span style={styles.muted}>{usage.user_id || "Sans compte"}</span>}
+                    </td>
+                    <td style={styles.td}>{usage.requests}</td>
+                    <td style={styles.td}>{usage.calls}</td>
+                    <td style={styles.td}>{(usage.input_tokens + usage.output_tokens).toLocaleString("fr-FR")}</td>
+                    <td style={styles.td}>{formatCost(usage.cost_usd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </section>
     </main>
   );
 }
@@ -643,4 +1265,10 @@ const styles: Record<string, React.CSSProperties> = {
   documentList: { display: "grid", gap: 9, marginTop: 20 },
   documentItem: { display: "flex", justifyContent: "space-between", alignItems: "center", gap: 14, padding: 13, border: "1px solid #e5e9e0", borderRadius: 13, background: "#fbfcf9", flexWrap: "wrap" },
   documentMeta: { marginTop: 5, fontSize: 12, opacity: 0.68, lineHeight: 1.4 },
+  filterLabel: { display: "flex", gap: 8, alignItems: "center", fontSize: 13, fontWeight: 700 },
+  citationItem: { padding: 13, border: "1px solid #e5e9e0", borderRadius: 13, background: "#fbfcf9" },
+  citationSummary: { display: "flex", justifyContent: "space-between", alignItems: "center", gap: 14, cursor: "pointer", flexWrap: "wrap" },
+  citationSections: { display: "grid", gap: 10, marginTop: 12 },
+  citationSection: { padding: "9px 11px", borderLeft: "3px solid #cbd4c4", background: "white", borderRadius: 8 },
+  citationWarning: { marginTop: 6, fontSize: 12, color: "#8d3f42", fontWeight: 700 },
 };
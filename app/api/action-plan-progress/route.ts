@@ -4,6 +4,11 @@ import { createClient } from "@supabase/supabase-js";
 export const runtime = "nodejs";
 
 type StepStatus = "pending" | "ok" | "retry";
+type NodeStatus = "done" | "yes" | "no";
+type NodeVisit = { node: string; status: NodeStatus };
+
+const MAX_PATH = 200;
+const MAX_STEPS = 40;
 
 function serverSupabase() {
   if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
@@ -23,6 +28,18 @@ function cleanStatuses(value: unknown): StepStatus[] {
   );
 }
 
+// Answers given in a branching plan, in order; loops repeat nodes.
+function cleanPath(value: unknown): NodeVisit[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .slice(-MAX_PATH)
+    .map((visit) => ({
+      node: cleanText(visit?.node, 40),
+      status: visit?.status === "done" || visit?.status === "yes" || visit?.status === "no" ? visit.status : null,
+    }))
+    .filter((visit): visit is NodeVisit => Boolean(visit.node && visit.status));
+}
+
 async function authenticatedUser(req: Request, supabase: NonNullable<ReturnType<typeof serverSupabase>>) {
   const header = req.headers.get("authorization") || "";
   const token = header.startsWith("Bearer ") ? header.slice(7) : "";
@@ -46,7 +63,7 @@ export async function GET(req: Request) {
 
   const { data, error } = await supabase
     .from("ernesto_action_plan_progress")
-    .select("project_id,message_id,statuses,step_count,completed_count,retry_count,updated_at")
+    .select("project_id,message_id,statuses,current_node,path,node_statuses,plan,revisions,step_count,completed_count,retry_count,updated_at")
     .eq("user_id", user.id)
     .eq("project_id", projectId)
     .eq("message_id", messageId)
@@ -65,14 +82,42 @@ export async function POST(req: Request) {
   const projectId = cleanText(body?.projectId, 120);
   const messageId = cleanText(body?.messageId, 120);
   const planTitle = cleanText(body?.planTitle, 160) || "Plan d’action";
-  const statuses = cleanStatuses(body?.statuses);
-  if (!projectId || !messageId || !statuses.length) {
-    return NextResponse.json({ error: "invalid_progress" }, { status: 400 });
+  const now = new Date().toISOString();
+  let row;
+
+  if (Array.isArray(body?.path)) {
+    // Branching plan: the counts come from the latest status of each node.
+    const path = cleanPath(body.path);
+    const currentNode = cleanText(body?.currentNode, 40);
+    const stepCount = Math.round(Number(body?.stepCount));
+    if (!projectId || !messageId || !currentNode || !Number.isFinite(stepCount) || stepCount < 1 || stepCount > MAX_STEPS) {
+      return NextResponse.json({ error: "invalid_progress" }, { status: 400 });
+    }
+    const nodeStatuses: Record<string, NodeStatus> = {};
+    path.forEach((visit) => {
+      nodeStatuses[visit.node] = visit.status;
+    });
+    row = {
+      current_node: currentNode,
+      path,
+      node_statuses: nodeStatuses,
+      step_count: stepCount,
+      completed_count: Math.min(stepCount, Object.values(nodeStatuses).filter((status) => status !== "no").length),
+      retry_count: path.filter((visit) => visit.status === "no").length,
+    };
+  } else {
+    const statuses = cleanStatuses(body?.statuses);
+    if (!projectId || !messageId || !statuses.length) {
+      return NextResponse.json({ error: "invalid_progress" }, { status: 400 });
+    }
+    row = {
+      statuses,
+      step_count: statuses.length,
+      completed_count: statuses.filter((status) => status === "ok").length,
+      retry_count: statuses.filter((status) => status === "retry").length,
+    };
   }
 
-  const completedCount = statuses.filter((status) => status === "ok").length;
-  const retryCount = statuses.filter((status) => status === "retry").length;
-  const now = new Date().toISOString();
   const { data, error } = await supabase
     .from("ernesto_action_plan_progress")
     .upsert(
@@ -81,15 +126,12 @@ export async function POST(req: Request) {
         project_id: projectId,
         message_id: messageId,
         plan_title: planTitle,
-        step_count: statuses.length,
-        completed_count: completedCount,
-        retry_count: retryCount,
-        statuses,
+        ...row,
         updated_at: now,
       },
       { onConflict: "user_id,project_id,message_id" }
     )
-    .select("project_id,message_id,step_count,completed_count,retry_count,updated_at")
+    .select("project_id,message_id,current_node,step_count,completed_count,retry_count,updated_at")
     .single();
 
   if (error) {
@@ -0,0 +1,253 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { aiConfigurationError, type AIContentPart } from "@/lib/ai";
+import {
+  FLOWCHART_BRANCH_FORMAT,
+  MAX_FLOWCHART_REVISIONS,
+  parseFlowchartBranch,
+  reviseFlowchart,
+  validateFlowchart,
+  type ActionFlowchart,
+} from "@/lib/flowchart";
+import { createUsageLedger } from "@/lib/usage-ledger";
+
+export const runtime = "nodejs";
+
+type NodeStatus = "done" | "yes" | "no";
+type NodeVisit = { node: string; status: NodeStatus };
+
+type PlanRevision = {
+  revision: number;
+  node: string;
+  control: string;
+  observation: string;
+  photo: boolean;
+  answer: string;
+  issues: string[];
+  replaced: ActionFlowchart;
+  created_at: string;
+};
+
+const MAX_PATH = 200;
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+function cleanText(value: unknown, maxLength: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, maxLength);
+}
+
+function cleanPath(value: unknown): NodeVisit[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .slice(-MAX_PATH)
+    .map((visit) => ({
+      node: cleanText(visit?.node, 40),
+      status: visit?.status === "done" || visit?.status === "yes" || visit?.status === "no" ? visit.status : null,
+    }))
+    .filter((visit): visit is NodeVisit => Boolean(visit.node && visit.status));
+}
+
+function jsonField(value: unknown) {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+async function authenticatedUser(req: Request, supabase: NonNullable<ReturnType<typeof serverSupabase>>) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  return error ? null : data.user || null;
+}
+
+function planOutline(plan: ActionFlowchart) {
+  return [
+    ...plan.nodes.map((node) => `- ${node.id} [${node.kind}] ${node.text}${node.detail ? ` (${node.detail})` : ""}`),
+    ...plan.edges.map((edge) => `- ${edge.from} → ${edge.to} [${edge.kind}]${edge.label ? ` ${edge.label}` : ""}`),
+  ].join("\n");
+}
+
+// A control answered "no" during a guided run: Ernesto rewrites what follows
+// that answer from the user's observation (and photo), keeping the rest of the
+// plan. Each revision is appended to the progress row with the plan it replaced.
+export async function POST(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+  const aiConfigError = aiConfigurationError();
+  if (aiConfigError) return NextResponse.json({ error: aiConfigError }, { status: 500 });
+
+  let fields: Record<string, unknown> = {};
+  let photoUrl = "";
+  if ((req.headers.get("content-type") || "").includes("multipart/form-data")) {
+    const form = await req.formData().catch(() => null);
+    if (!form) return NextResponse.json({ error: "invalid_revision" }, { status: 400 });
+    fields = Object.fromEntries([...form.entries()].filter(([, value]) => typeof value === "string"));
+    const photo = form.get("photo");
+    if (photo instanceof File && photo.size > 0) {
+      if (!photo.type.startsWith("image/")) return NextResponse.json({ error: "unsupported_photo" }, { status: 400 });
+      if (photo.size > MAX_PHOTO_BYTES) return NextResponse.json({ error: "photo_too_large" }, { status: 413 });
+      photoUrl = `data:${photo.type};base64,${Buffer.from(await photo.arrayBuffer()).toString("base64")}`;
+    }
+  } else {
+    fields = (await req.json().catch(() => null)) ?? {};
+  }
+
+  const projectId = cleanText(fields.projectId, 120);
+  const messageId = cleanText(fields.messageId, 120);
+  const nodeId = cleanText(fields.node, 40);
+  const observation = cleanText(fields.observation, 800);
+  const path = cleanPath(jsonField(fields.path));
+  const plan = validateFlowchart(jsonField(fields.flowchart)).flowchart;
+  const control = plan?.nodes.find((node) => node.id === nodeId && node.kind === "check");
+  if (!projectId || !messageId || !plan || !control) {
+    return NextResponse.json({ error: "invalid_revision" }, { status: 400 });
+  }
+  if (!path.some((visit) => visit.node === nodeId && visit.status === "no")) {
+    return NextResponse.json({ error: "control_not_failed" }, { status: 400 });
+  }
+
+  const { data: existing, error: readError } = await supabase
+    .from("ernesto_action_plan_progress")
+    .select("revisions")
+    .eq("user_id", user.id)
+    .eq("project_id", projectId)
+    .eq("message_id", messageId)
+    .maybeSingle();
+  if (readError) return NextResponse.json({ error: "progress_unavailable" }, { status: 503 });
+  const revisions = (Array.isArray(existing?.revisions) ? existing.revisions : []) as PlanRevision[];
+  if (revisions.length >= MAX_FLOWCHART_REVISIONS) {
+    return NextResponse.json({ error: "revision_limit_reached" }, { status: 409 });
+  }
+  const revision = revisions.length + 1;
+
+  const done = path.map((visit) => {
+    const node = plan.nodes.find((item) => item.id === visit.node);
+    return `- ${node?.text || visit.node} : ${visit.status === "done" ? "fait" : visit.status === "yes" ? "oui" : "non"}`;
+  });
+  const userContent: AIContentPart[] = [
+    {
+      type: "text",
+      text: [
+        `PLAN EN COURS : ${plan.title}`,
+        `Point de départ : ${plan.start}`,
+        "Nœuds et arêtes :",
+        planOutline(plan),
+        "",
+        "PARCOURS DÉJÀ SUIVI :",
+        ...done,
+        "",
+        `CONTRÔLE À REPRENDRE : ${control.id} — ${control.text}`,
+        `Observation de l’utilisateur : ${observation || "(aucune)"}`,
+      ].join("\n"),
+    },
+  ];
+  if (photoUrl) {
+    userContent.push({ type: "text", text: "PHOTO DE L’ÉTAT ACTUEL :" });
+    userContent.push({ type: "image", imageUrl: photoUrl });
+  }
+
+  const ledger = createUsageLedger(supabase, { route: "action-plan-revision", userId: user.id, projectId });
+  let parsed: ReturnType<typeof parseFlowchartBranch> = null;
+  try {
+    const response = await ledger.provider.structured({
+      task: "flowchart",
+      schema: FLOWCHART_BRANCH_FORMAT,
+      messages: [
+        {
+          role: "system",
+          content: `Tu es Ernesto, formateur pizzaiolo. Un apprenti suit un plan d'action pas à pas et vient de répondre « non » à un contrôle. Réécris uniquement la suite qui commence après cette réponse « non » ; le reste du plan ne change pas.
+
+Règles :
+- tiens compte de l'observation et de la photo si elles sont fournies, sans certitude visuelle injustifiée ;
+- une à huit étapes concrètes : action (un geste), check (contrôle observable oui/non), outcome (résultat ou décision finale) ;
+- donne aux nouveaux nœuds des identifiants courts qui ne reprennent pas ceux du plan ; une arête peut mener à un nœud existant du plan (par exemple revenir au contrôle repris ou rejoindre la suite prévue) ;
+- chaque contrôle a une branche yes et une branche no vers deux nœuds différents, et chaque parcours finit sur un outcome ;
+- si la correction échoue encore, prévois une issue raisonnable (changer de méthode, refaire la pâte, demander de l'aide) plutôt qu'une boucle sans fin ;
+- réponds en français.`,
+        },
+        { role: "user", content: userContent },
+      ],
+    });
+    parsed = parseFlowchartBranch(response.text);
+  } catch (err: unknown) {
+    console.warn("v14.6 action plan revision:", err instanceof Error ? err.message : String(err));
+    return NextResponse.json({ error: "revision_unavailable" }, { status: 502 });
+  } finally {
+    await ledger.flush();
+  }
+
+  const revised = parsed ? reviseFlowchart(plan, control.id, parsed.branch, revision) : null;
+  if (revised?.issues.length) console.warn("v14.6 flowchart validation:", revised.issues.join(" | "));
+  if (!parsed || !revised?.flowchart) {
+    return NextResponse.json({ error: "revision_invalid", issues: revised?.issues ?? [] }, { status: 422 });
+  }
+
+  // Answers about nodes that disappeared with the old branch are dropped.
+  const flowchart = revised.flowchart;
+  const keptPath = path.filter((visit) => flowchart.nodes.some((node) => node.id === visit.node));
+  const nodeStatuses: Record<string, NodeStatus> = {};
+  keptPath.forEach((visit) => {
+    nodeStatuses[visit.node] = visit.status;
+  });
+  const stepCount = flowchart.nodes.filter((node) => node.kind !== "outcome").length;
+  const now = new Date().toISOString();
+  const entry: PlanRevision = {
+    revision,
+    node: control.id,
+    control: control.text,
+    observation,
+    photo: Boolean(photoUrl),
+    answer: parsed.answer,
+    issues: revised.issues,
+    replaced: plan,
+    created_at: now,
+  };
+
+  const { data, error } = await supabase
+    .from("ernesto_action_plan_progress")
+    .upsert(
+      {
+        user_id: user.id,
+        project_id: projectId,
+        message_id: messageId,
+        plan_title: cleanText(plan.title, 160) || "Plan d’action",
+        plan: flowchart,
+        revisions: [...revisions, entry],
+        current_node: revised.entry,
+        path: keptPath,
+        node_statuses: nodeStatuses,
+        step_count: stepCount,
+        completed_count: Math.min(stepCount, Object.values(nodeStatuses).filter((status) => status !== "no").length),
+        retry_count: keptPath.filter((visit) => visit.status === "no").length,
+        updated_at: now,
+      },
+      { onConflict: "user_id,project_id,message_id" }
+    )
+    .select("project_id,message_id,current_node,path,step_count,completed_count,retry_count,updated_at")
+    .single();
+
+  if (error) {
+    console.warn("v14.6 action plan revision:", error.message);
+    return NextResponse.json({ error: "progress_unavailable" }, { status: 503 });
+  }
+
+  return NextResponse.json({
+    flowchart,
+    answer: parsed.answer,
+    revision,
+    issues: revised.issues,
+    progress: data,
+  });
+}
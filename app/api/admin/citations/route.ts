@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+
+export const runtime = "nodejs";
+
+function normalizeEmail(value: unknown) {
+  return String(value || "").trim().toLowerCase();
+}
+
+function envAdminEmails() {
+  return (process.env.ERNESTO_ADMIN_EMAILS || "")
+    .split(",")
+    .map(normalizeEmail)
+    .filter(Boolean);
+}
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function requireAdmin(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return { response: NextResponse.json({ error: "server_not_configured" }, { status: 500 }) };
+
+  const authHeader = req.headers.get("authorization") || "";
+  const bearer = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+  if (!bearer) return { response: NextResponse.json({ error: "auth_required" }, { status: 401 }) };
+
+  const { data: userData, error: userError } = await supabase.auth.getUser(bearer);
+  const user = userData?.user;
+  if (userError || !user) {
+    return { response: NextResponse.json({ error: "invalid_session" }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  const isAdmin = profile?.role === "admin" || envAdminEmails().includes(normalizeEmail(user.email));
+  if (!isAdmin) return { response: NextResponse.json({ error: "admin_required" }, { status: 403 }) };
+
+  return { supabase, user };
+}
+
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req);
+  if ("response" in auth) return auth.response;
+
+  const url = new URL(req.url);
+  const limit = Math.min(100, Math.max(1, Number(url.searchParams.get("limit")) || 30));
+  const unsupportedOnly = url.searchParams.get("unsupported") === "1";
+
+  let query = auth.supabase
+    .from("ernesto_answer_citations")
+    .select("id,message_id,project_id,mode,question,answer_excerpt,passages,sections,unsupported_figures,model,created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (unsupportedOnly) query = query.gt("unsupported_figures", 0);
+
+  const { data, error } = await query;
+  if (error) {
+    console.warn("v14.6 answer citations GET:", error.message);
+    return NextResponse.json({ error: "citations_unavailable" }, { status: 503 });
+  }
+
+  const documentIds = Array.from(
+    new Set(
+      (data || []).flatMap((row) =>
+        Array.isArray(row.passages) ? row.passages.map((passage: { document_id?: unknown }) => String(passage?.document_id ?? "")) : []
+      )
+    )
+  ).filter(Boolean);
+
+  const titles: Record<string, { title: string; source: string }> = {};
+  if (documentIds.length) {
+    const { data: documents, error: documentsError } = await auth.supabase
+      .from("documents")
+      .select("id,title,source")
+      .in("id", documentIds);
+    if (documentsError) console.warn("v14.6 answer citations documents:", documentsError.message);
+    (documents || []).forEach((document) => {
+      titles[String(document.id)] = { title: document.title, source: document.source };
+    });
+  }
+
+  return NextResponse.json({ citations: data || [], documents: titles });
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
 import { createClient } from "@supabase/supabase-js";
+import { aiConfigurationError } from "@/lib/ai";
+import { clearAnswerCache } from "@/lib/answer-cache";
+import { createUsageLedger } from "@/lib/usage-ledger";
 
 export const runtime = "nodejs";
 
@@ -141,7 +143,7 @@ export async function GET(req: Request) {
 export async function POST(req: Request) {
   const auth = await requireAdmin(req);
   if ("response" in auth) return auth.response;
-  if (!process.env.OPENAI_API_KEY) {
+  if (aiConfigurationError()) {
     return NextResponse.json({ error: "openai_not_configured" }, { status: 500 });
   }
 
@@ -177,12 +179,14 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "document_content_too_short" }, { status: 400 });
     }
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    const embeddingResponse = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: chunks,
-    });
-    if (embeddingResponse.data.length !== chunks.length) {
+    const ledger = createUsageLedger(auth.supabase, { route: "admin-knowledge", userId: auth.user.id });
+    let embeddingResponse;
+    try {
+      embeddingResponse = await ledger.provider.embed(chunks);
+    } finally {
+      await ledger.flush();
+    }
+    if (embeddingResponse.embeddings.length !== chunks.length) {
       return NextResponse.json({ error: "embedding_count_mismatch" }, { status: 502 });
     }
 
@@ -204,7 +208,7 @@ export async function POST(req: Request) {
       document_id: document.id,
       chunk_index: index,
       content: chunk,
-      embedding: embeddingResponse.data[index].embedding,
+      embedding: embeddingResponse.embeddings[index],
       metadata: {
         official_epppn: true,
         title,
@@ -222,6 +226,8 @@ export async function POST(req: Request) {
       }
     }
 
+    // Cached answers were grounded on the previous knowledge base.
+    await clearAnswerCache(auth.supabase);
     return NextResponse.json({ document: { ...document, chunks: chunks.length } }, { status: 201 });
   } catch (error) {
     const code = error instanceof Error ? error.message : "knowledge_ingestion_failed";
@@ -242,5 +248,6 @@ export async function DELETE(req: Request) {
 
   const { error } = await auth.supabase.from("documents").delete().eq("id", id);
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  await clearAnswerCache(auth.supabase);
   return NextResponse.json({ ok: true });
 }
@@ -0,0 +1,199 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import {
+  PROMPT_DEFINITIONS,
+  PROMPT_NAMES,
+  PROMPT_VERSION_COLUMNS,
+  isPromptName,
+  validatePromptTemplate,
+  type PromptStatus,
+} from "@/lib/prompts";
+
+export const runtime = "nodejs";
+
+const PROMPT_STATUSES: PromptStatus[] = ["draft", "active", "retired"];
+
+function normalizeEmail(value: unknown) {
+  return String(value || "").trim().toLowerCase();
+}
+
+function cleanText(value: unknown, maxLength: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, maxLength);
+}
+
+function envAdminEmails() {
+  return (process.env.ERNESTO_ADMIN_EMAILS || "")
+    .split(",")
+    .map(normalizeEmail)
+    .filter(Boolean);
+}
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function requireAdmin(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return { response: NextResponse.json({ error: "server_not_configured" }, { status: 500 }) };
+
+  const authHeader = req.headers.get("authorization") || "";
+  const bearer = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+  if (!bearer) return { response: NextResponse.json({ error: "auth_required" }, { status: 401 }) };
+
+  const { data: userData, error: userError } = await supabase.auth.getUser(bearer);
+  const user = userData?.user;
+  if (userError || !user) {
+    return { response: NextResponse.json({ error: "invalid_session" }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  const isAdmin = profile?.role === "admin" || envAdminEmails().includes(normalizeEmail(user.email));
+  if (!isAdmin) return { response: NextResponse.json({ error: "admin_required" }, { status: 403 }) };
+
+  return { supabase, user };
+}
+
+function cleanWeight(value: unknown) {
+  const weight = Number(value);
+  return Number.isInteger(weight) && weight >= 0 && weight <= 100 ? weight : null;
+}
+
+// Built-in templates, registry versions and answers/ratings per variant.
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req);
+  if ("response" in auth) return auth.response;
+
+  const [versionsResult, performanceResult] = await Promise.all([
+    auth.supabase
+      .from("ernesto_prompt_versions")
+      .select(PROMPT_VERSION_COLUMNS)
+      .order("name", { ascending: true })
+      .order("version", { ascending: false })
+      .limit(300),
+    auth.supabase
+      .from("ernesto_prompt_performance")
+      .select("prompt_variant,answers,useful,not_useful,first_answer_at,last_answer_at")
+      .order("answers", { ascending: false })
+      .limit(100),
+  ]);
+  const error = versionsResult.error || performanceResult.error;
+  if (error) {
+    console.warn("v14.6 admin prompts:", error.message);
+    return NextResponse.json({ error: "prompts_unavailable" }, { status: 503 });
+  }
+
+  const definitions = PROMPT_NAMES.map((name) => ({ name, ...PROMPT_DEFINITIONS[name] }));
+  return NextResponse.json({
+    definitions,
+    versions: versionsResult.data || [],
+    performance: (performanceResult.data || []).map((row) => ({
+      ...row,
+      answers: Number(row.answers || 0),
+      useful: Number(row.useful || 0),
+      not_useful: Number(row.not_useful || 0),
+    })),
+  });
+}
+
+// New version of a prompt. Its body never changes afterwards, so a variant
+// label always designates the same text.
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req);
+  if ("response" in auth) return auth.response;
+
+  const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+  const name = body?.name;
+  if (!isPromptName(name)) return NextResponse.json({ error: "invalid_prompt_name" }, { status: 400 });
+  const text = String(body?.body || "").replace(/\r\n?/g, "\n").trim();
+  const issues = validatePromptTemplate(name, text);
+  if (issues.length) return NextResponse.json({ error: "invalid_prompt_template", issues }, { status: 400 });
+  const status: PromptStatus = body?.status === "active" ? "active" : "draft";
+  const weight = cleanWeight(body?.weight ?? 0);
+  if (weight === null) return NextResponse.json({ error: "invalid_weight" }, { status: 400 });
+
+  const { data: latest, error: latestErr } = await auth.supabase
+    .from("ernesto_prompt_versions")
+    .select("version")
+    .eq("name", name)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (latestErr) {
+    console.warn("v14.6 admin prompts:", latestErr.message);
+    return NextResponse.json({ error: "prompts_unavailable" }, { status: 503 });
+  }
+
+  const { data, error } = await auth.supabase
+    .from("ernesto_prompt_versions")
+    .insert({
+      name,
+      version: (latest?.version ?? 0) + 1,
+      label: cleanText(body?.label, 120),
+      body: text,
+      weight,
+      status,
+      created_by: auth.user.id,
+    })
+    .select(PROMPT_VERSION_COLUMNS)
+    .single();
+  if (error) {
+    console.warn("v14.6 admin prompts insert:", error.message);
+    return NextResponse.json({ error: "prompts_unavailable" }, { status: 503 });
+  }
+  return NextResponse.json({ version: data }, { status: 201 });
+}
+
+// Status or weight of a version, or { name, reset: true } to redraw every
+// user's version of a prompt on their next question.
+export async function PATCH(req: Request) {
+  const auth = await requireAdmin(req);
+  if ("response" in auth) return auth.response;
+
+  const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+  if (body?.reset === true) {
+    if (!isPromptName(body?.name)) return NextResponse.json({ error: "invalid_prompt_name" }, { status: 400 });
+    const { error } = await auth.supabase.from("ernesto_prompt_assignments").delete().eq("prompt_name", body.name);
+    if (error) {
+      console.warn("v14.6 admin prompts reset:", error.message);
+      return NextResponse.json({ error: "prompts_unavailable" }, { status: 503 });
+    }
+    return NextResponse.json({ ok: true });
+  }
+
+  const id = Number(body?.id);
+  if (!Number.isSafeInteger(id) || id <= 0) return NextResponse.json({ error: "invalid_prompt_version" }, { status: 400 });
+  const update: { status?: PromptStatus; weight?: number; updated_at: string } = { updated_at: new Date().toISOString() };
+  if (body?.status !== undefined) {
+    const status = body.status as PromptStatus;
+    if (!PROMPT_STATUSES.includes(status)) return NextResponse.json({ error: "invalid_status" }, { status: 400 });
+    update.status = status;
+  }
+  if (body?.weight !== undefined) {
+    const weight = cleanWeight(body.weight);
+    if (weight === null) return NextResponse.json({ error: "invalid_weight" }, { status: 400 });
+    update.weight = weight;
+  }
+  if (update.status === undefined && update.weight === undefined) {
+    return NextResponse.json({ error: "nothing_to_update" }, { status: 400 });
+  }
+
+  const { data, error } = await auth.supabase
+    .from("ernesto_prompt_versions")
+    .update(update)
+    .eq("id", id)
+    .select(PROMPT_VERSION_COLUMNS)
+    .maybeSingle();
+  if (error) {
+    console.warn("v14.6 admin prompts update:", error.message);
+    return NextResponse.json({ error: "prompts_unavailable" }, { status: 503 });
+  }
+  if (!data) return NextResponse.json({ error: "prompt_version_not_found" }, { status: 404 });
+  return NextResponse.json({ version: data });
+}
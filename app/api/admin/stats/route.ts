@@ -42,22 +42,55 @@ export async function GET(req: Request) {
     const isAdmin = profile?.role === "admin" || envAdminEmails().includes(email);
     if (!isAdmin) return NextResponse.json({ error: "admin_required" }, { status: 403 });
 
-    const [usageResult, feedbackResult, memoryResult, progressResult, documentsResult, chunksResult] =
-      await Promise.all([
-        supabase.from("user_usage").select("user_id,free_queries_used,trial_started_at,updated_at"),
-        supabase.from("ernesto_answer_feedback").select("created_at"),
-        supabase.from("ernesto_dossier_memory").select("project_id", { count: "exact", head: true }),
-        supabase.from("ernesto_action_plan_progress").select("step_count,completed_count,updated_at"),
-        supabase.from("documents").select("id", { count: "exact", head: true }),
-        supabase.from("document_chunks").select("id", { count: "exact", head: true }),
-      ]);
+    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const [
+      usageResult,
+      feedbackResult,
+      memoryResult,
+      progressResult,
+      documentsResult,
+      chunksResult,
+      ledgerResult,
+      traineesResult,
+      scopeResult,
+      scopeRecentResult,
+    ] = await Promise.all([
+      supabase.from("user_usage").select("user_id,free_queries_used,trial_started_at,updated_at"),
+      supabase.from("ernesto_answer_feedback").select("created_at"),
+      supabase.from("ernesto_dossier_memory").select("project_id", { count: "exact", head: true }),
+      supabase.from("ernesto_action_plan_progress").select("step_count,completed_count,updated_at"),
+      supabase.from("documents").select("id", { count: "exact", head: true }),
+      supabase.from("document_chunks").select("id", { count: "exact", head: true }),
+      supabase
+        .from("ernesto_usage_daily")
+        .select("user_id,day,route,requests,calls,input_tokens,output_tokens,cost_usd,avg_latency_ms,errors")
+        .gte("day", thirtyDaysAgo),
+      supabase.from("epppn_allowed_emails").select("email,activated_user_id").not("activated_user_id", "is", null),
+      supabase.from("ernesto_question_scope_daily").select("day,label,action,questions").gte("day", thirtyDaysAgo),
+      supabase
+        .from("ernesto_question_scope")
+        .select("id,question,label,confidence,reason,source,action,created_at")
+        .in("label", ["out_of_scope", "food_safety", "prompt_injection"])
+        .order("created_at", { ascending: false })
+        .limit(20),
+    ]);
 
     const usageRows = usageResult.data;
     const usageError = usageResult.error;
 
     if (usageError) return NextResponse.json({ error: usageError.message }, { status: 500 });
 
-    [feedbackResult, memoryResult, progressResult, documentsResult, chunksResult].forEach((result) => {
+    [
+      feedbackResult,
+      memoryResult,
+      progressResult,
+      documentsResult,
+      chunksResult,
+      ledgerResult,
+      traineesResult,
+      scopeResult,
+      scopeRecentResult,
+    ].forEach((result) => {
       if (result.error) console.warn("Admin quality metric unavailable:", result.error.message);
     });
 
@@ -87,6 +120,55 @@ export async function GET(req: Request) {
       (row) => Number(row.step_count || 0) > 0 && Number(row.completed_count || 0) >= Number(row.step_count || 0)
     ).length;
 
+    // Ledger rows come per user, day and route; the dashboard wants them per
+    // day and per user over the last 30 days.
+    const emails = new Map((traineesResult.data || []).map((row) => [row.activated_user_id, row.email]));
+    const byDay = new Map<string, { day: string; requests: number; calls: number; input_tokens: number; output_tokens: number; cost_usd: number; latency_total: number; errors: number }>();
+    const byUser = new Map<string, { user_id: string | null; email: string | null; requests: number; calls: number; input_tokens: number; output_tokens: number; cost_usd: number }>();
+    for (const row of ledgerResult.data || []) {
+      const calls = Number(row.calls || 0);
+      const day = byDay.get(row.day) || { day: row.day, requests: 0, calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, latency_total: 0, errors: 0 };
+      day.requests += Number(row.requests || 0);
+      day.calls += calls;
+      day.input_tokens += Number(row.input_tokens || 0);
+      day.output_tokens += Number(row.output_tokens || 0);
+      day.cost_usd += Number(row.cost_usd || 0);
+      day.latency_total += Number(row.avg_latency_ms || 0) * calls;
+      day.errors += Number(row.errors || 0);
+      byDay.set(row.day, day);
+
+      const userKey = row.user_id || "";
+      const usage = byUser.get(userKey) || { user_id: row.user_id, email: emails.get(row.user_id) || null, requests: 0, calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+      usage.requests += Number(row.requests || 0);
+      usage.calls += calls;
+      usage.input_tokens += Number(row.input_tokens || 0);
+      usage.output_tokens += Number(row.output_tokens || 0);
+      usage.cost_usd += Number(row.cost_usd || 0);
+      byUser.set(userKey, usage);
+    }
+    const usageByDay = [...byDay.values()]
+      .sort((a, b) => b.day.localeCompare(a.day))
+      .map(({ latency_total, ...day }) => ({
+        ...day,
+        cost_usd: Number(day.cost_usd.toFixed(4)),
+        avg_latency_ms: day.calls ? Math.round(latency_total / day.calls) : 0,
+      }));
+    const usageByUser = [...byUser.values()]
+      .sort((a, b) => b.cost_usd - a.cost_usd || b.requests - a.requests)
+      .slice(0, 20)
+      .map((usage) => ({ ...usage, cost_usd: Number(usage.cost_usd.toFixed(4)) }));
+    const usageCost30d = usageByDay.reduce((sum, day) => sum + day.cost_usd, 0);
+
+    // Labels of the last 30 days, with how many questions of each were not
+    // answered (refused or sent the food-safety template).
+    const byLabel = new Map<string, { label: string; questions: number; short_circuited: number }>();
+    for (const row of scopeResult.data || []) {
+      const entry = byLabel.get(row.label) || { label: row.label, questions: 0, short_circuited: 0 };
+      entry.questions += Number(row.questions || 0);
+      if (row.action !== "answer") entry.short_circuited += Number(row.questions || 0);
+      byLabel.set(row.label, entry);
+    }
+
     return NextResponse.json({
       users_total: (usageRows || []).length,
       users_last_7d: usersLast7d,
@@ -99,6 +181,14 @@ export async function GET(req: Request) {
       completed_action_plans: completedActionPlans,
       knowledge_documents: documentsResult.count || 0,
       knowledge_chunks: chunksResult.count || 0,
+      usage_available: !ledgerResult.error,
+      usage_cost_30d: Number(usageCost30d.toFixed(4)),
+      usage_tokens_30d: usageByDay.reduce((sum, day) => sum + day.input_tokens + day.output_tokens, 0),
+      usage_by_day: usageByDay,
+      usage_by_user: usageByUser,
+      scope_available: !scopeResult.error,
+      scope_by_label: [...byLabel.values()].sort((a, b) => b.questions - a.questions),
+      scope_recent: scopeRecentResult.data || [],
     });
   } catch (error) {
     console.error("Admin stats route failed:", error);
@@ -0,0 +1,239 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import {
+  BAKE_JOURNAL_FACTS,
+  BAKE_LOG_COLUMNS,
+  bakeJournalFacts,
+  bakeTrendCharts,
+  parseBakeLogInput,
+  type BakeLog,
+} from "@/lib/bake-journal";
+import { PHOTO_COLUMNS, archivePhoto, photoLinks, type ArchivedPhoto } from "@/lib/photos";
+
+export const runtime = "nodejs";
+
+const LOG_LIMIT = 100;
+const MEMORY_FACTS_LIMIT = 10;
+const PHOTO_SLOTS = ["before", "after"] as const;
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+
+type PhotoSlot = (typeof PHOTO_SLOTS)[number];
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+function cleanText(value: unknown, max: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+function logId(value: unknown) {
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+// The latest entries replace the journal facts of the dossier memory; the facts
+// written by /api/dossier-memory are kept after them. A failure only delays
+// the memory, never the journal.
+async function refreshJournalFacts(supabase: SupabaseClient, userId: string, projectId: string) {
+  const [entriesResult, memoryResult] = await Promise.all([
+    supabase
+      .from("ernesto_bake_logs")
+      .select(BAKE_LOG_COLUMNS)
+      .eq("user_id", userId)
+      .eq("project_id", projectId)
+      .order("baked_at", { ascending: false })
+      .limit(BAKE_JOURNAL_FACTS),
+    supabase.from("ernesto_dossier_memory").select("facts").eq("user_id", userId).eq("project_id", projectId).maybeSingle(),
+  ]);
+  const readError = entriesResult.error || memoryResult.error;
+  if (readError) {
+    console.warn("v14.6 bake journal memory:", readError.message);
+    return;
+  }
+  const stored: Array<{ source?: string }> = Array.isArray(memoryResult.data?.facts) ? memoryResult.data.facts : [];
+  const facts = [
+    ...bakeJournalFacts((entriesResult.data || []) as BakeLog[]),
+    ...stored.filter((fact) => fact?.source !== "journal"),
+  ].slice(0, MEMORY_FACTS_LIMIT);
+  const { error } = await supabase
+    .from("ernesto_dossier_memory")
+    .upsert(
+      { user_id: userId, project_id: projectId, facts, updated_at: new Date().toISOString() },
+      { onConflict: "user_id,project_id" }
+    );
+  if (error) console.warn("v14.6 bake journal memory:", error.message);
+}
+
+// The dossier's entries, most recent first, with short-lived links to their
+// photos and the trend charts (parameter against rating) they allow.
+export async function GET(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const projectId = cleanText(new URL(req.url).searchParams.get("projectId"), 120);
+  if (!projectId) return NextResponse.json({ error: "missing_project_id" }, { status: 400 });
+
+  const { data, error } = await supabase
+    .from("ernesto_bake_logs")
+    .select(BAKE_LOG_COLUMNS)
+    .eq("user_id", user.id)
+    .eq("project_id", projectId)
+    .order("baked_at", { ascending: false })
+    .limit(LOG_LIMIT);
+  if (error) {
+    console.warn("v14.6 bake journal GET:", error.message);
+    return NextResponse.json({ error: "bake_journal_unavailable" }, { status: 503 });
+  }
+
+  const entries = (data || []) as BakeLog[];
+  const photoIds = entries.flatMap((entry) => [entry.photo_before_id, entry.photo_after_id]).filter((id): id is number => Boolean(id));
+  const archived = new Map<number, string | null>();
+  if (photoIds.length) {
+    const { data: photos, error: photosError } = await supabase
+      .from("ernesto_photos")
+      .select(PHOTO_COLUMNS)
+      .eq("user_id", user.id)
+      .in("id", photoIds);
+    if (photosError) console.warn("v14.6 bake journal photos:", photosError.message);
+    (await photoLinks(supabase, (photos || []) as ArchivedPhoto[])).forEach((photo) => archived.set(photo.id, photo.url));
+  }
+  const photoUrl = (id: number | null) => (id ? archived.get(id) ?? null : null);
+
+  return NextResponse.json({
+    entries: entries.map((entry) => ({
+      ...entry,
+      photo_before_url: photoUrl(entry.photo_before_id),
+      photo_after_url: photoUrl(entry.photo_after_id),
+    })),
+    charts: bakeTrendCharts(entries),
+  });
+}
+
+// One bake of the dossier. Multipart requests may carry photo_before and
+// photo_after, which join the dossier's photo archive; a photo that cannot be
+// archived leaves the entry without it.
+export async function POST(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  let body: Record<string, unknown> | null = null;
+  const photos: Partial<Record<PhotoSlot, File>> = {};
+  if ((req.headers.get("content-type") || "").includes("multipart/form-data")) {
+    const form = await req.formData().catch(() => null);
+    if (form) {
+      body = Object.fromEntries([...form.entries()].filter(([, value]) => typeof value === "string"));
+      for (const slot of PHOTO_SLOTS) {
+        const file = form.get(`photo_${slot}`);
+        if (!(file instanceof File) || !file.size) continue;
+        if (!file.type.startsWith("image/")) return NextResponse.json({ error: "unsupported_photo" }, { status: 400 });
+        if (file.size > MAX_PHOTO_BYTES) return NextResponse.json({ error: "photo_too_large" }, { status: 413 });
+        photos[slot] = file;
+      }
+    }
+  } else {
+    body = await req.json().catch(() => null);
+  }
+  if (!body) return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+
+  const projectId = cleanText(body.projectId, 120);
+  if (!projectId) return NextResponse.json({ error: "missing_project_id" }, { status: 400 });
+
+  let input;
+  try {
+    input = parseBakeLogInput(body);
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "invalid_bake_log" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("ernesto_bake_logs")
+    .insert({ ...input, user_id: user.id, project_id: projectId })
+    .select(BAKE_LOG_COLUMNS)
+    .single();
+  if (error) {
+    console.warn("v14.6 bake journal POST:", error.message);
+    return NextResponse.json({ error: "bake_journal_unavailable" }, { status: 503 });
+  }
+
+  let entry = data as BakeLog;
+  const stored: Partial<Record<`photo_${PhotoSlot}_id`, number>> = {};
+  for (const slot of PHOTO_SLOTS) {
+    const file = photos[slot];
+    if (!file) continue;
+    try {
+      const { photo } = await archivePhoto(supabase, {
+        userId: user.id,
+        projectId,
+        source: "journal",
+        label: `${slot === "before" ? "Avant" : "Après"} — ${input.label || input.baked_at.slice(0, 10)}`,
+        body: Buffer.from(await file.arrayBuffer()),
+      });
+      stored[`photo_${slot}_id`] = photo.id;
+    } catch (archiveError: unknown) {
+      console.warn("v14.6 bake journal photo upload:", archiveError instanceof Error ? archiveError.message : archiveError);
+    }
+  }
+  if (Object.keys(stored).length) {
+    const { data: updated, error: updateError } = await supabase
+      .from("ernesto_bake_logs")
+      .update(stored)
+      .eq("user_id", user.id)
+      .eq("id", entry.id)
+      .select(BAKE_LOG_COLUMNS)
+      .single();
+    if (updateError) console.warn("v14.6 bake journal photo link:", updateError.message);
+    else entry = updated as BakeLog;
+  }
+
+  await refreshJournalFacts(supabase, user.id, projectId);
+
+  return NextResponse.json({
+    entry,
+    photos_stored: Object.keys(stored).length === Object.keys(photos).length,
+  });
+}
+
+export async function DELETE(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const id = logId(new URL(req.url).searchParams.get("id"));
+  if (!id) return NextResponse.json({ error: "missing_log_id" }, { status: 400 });
+
+  const { data, error } = await supabase
+    .from("ernesto_bake_logs")
+    .delete()
+    .eq("user_id", user.id)
+    .eq("id", id)
+    .select("project_id")
+    .maybeSingle();
+  if (error) {
+    console.warn("v14.6 bake journal DELETE:", error.message);
+    return NextResponse.json({ error: "bake_journal_unavailable" }, { status: 503 });
+  }
+  if (!data) return NextResponse.json({ error: "bake_log_not_found" }, { status: 404 });
+
+  // Its photos stay in the dossier archive.
+  await refreshJournalFacts(supabase, user.id, data.project_id);
+
+  return NextResponse.json({ ok: true });
+}
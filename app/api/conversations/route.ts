@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { PHOTO_COLUMNS, removePhotoFiles, type ArchivedPhoto } from "@/lib/photos";
+
+export const runtime = "nodejs";
+
+const MESSAGE_LIMIT = 400;
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+function cleanText(value: unknown, max: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+// Without projectId: the user's dossiers with their message count.
+// With projectId: that dossier and its latest messages in chronological order.
+export async function GET(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const projectId = cleanText(new URL(req.url).searchParams.get("projectId"), 120);
+
+  if (!projectId) {
+    const { data, error } = await supabase
+      .from("ernesto_conversations")
+      .select("project_id,title,objective,color,created_at,updated_at,ernesto_messages(count)")
+      .eq("user_id", user.id)
+      .order("updated_at", { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.warn("v14.6 conversations GET:", error.message);
+      return NextResponse.json({ error: "conversations_unavailable" }, { status: 503 });
+    }
+
+    const conversations = (data || []).map((row) => {
+      const relation = Array.isArray(row.ernesto_messages) ? row.ernesto_messages[0] : null;
+      return {
+        project_id: row.project_id,
+        title: row.title,
+        objective: row.objective,
+        color: row.color,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        message_count: Number(relation?.count || 0),
+      };
+    });
+    return NextResponse.json({ conversations });
+  }
+
+  const [conversationResult, messagesResult] = await Promise.all([
+    supabase
+      .from("ernesto_conversations")
+      .select("project_id,title,objective,color,created_at,updated_at")
+      .eq("user_id", user.id)
+      .eq("project_id", projectId)
+      .maybeSingle(),
+    supabase
+      .from("ernesto_messages")
+      .select("client_message_id,role,text,mode,presentation,flowchart,graph,diagnosis,rag,images,created_at")
+      .eq("user_id", user.id)
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(MESSAGE_LIMIT),
+  ]);
+
+  const error = conversationResult.error || messagesResult.error;
+  if (error) {
+    console.warn("v14.6 conversation messages GET:", error.message);
+    return NextResponse.json({ error: "conversations_unavailable" }, { status: 503 });
+  }
+  if (!conversationResult.data) return NextResponse.json({ error: "conversation_not_found" }, { status: 404 });
+
+  // The newest messages are the ones a long dossier must not lose; they are
+  // read newest first and returned in chronological order.
+  const messages = (messagesResult.data || []).slice().reverse();
+  return NextResponse.json({ conversation: conversationResult.data, messages });
+}
+
+// Deleting a dossier also removes what was derived from it, otherwise the
+// dossier would reappear on the next device from its memory row. Its archived
+// photos go too, files first, so no signed link keeps serving them.
+export async function DELETE(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const projectId = cleanText(new URL(req.url).searchParams.get("projectId"), 120);
+  if (!projectId) return NextResponse.json({ error: "missing_project_id" }, { status: 400 });
+
+  const { error } = await supabase
+    .from("ernesto_conversations")
+    .delete()
+    .eq("user_id", user.id)
+    .eq("project_id", projectId);
+
+  if (error) {
+    console.warn("v14.6 conversation DELETE:", error.message);
+    return NextResponse.json({ error: "conversations_unavailable" }, { status: 503 });
+  }
+
+  const related = await Promise.all([
+    supabase.from("ernesto_dossier_memory").delete().eq("user_id", user.id).eq("project_id", projectId),
+    supabase.from("ernesto_action_plan_progress").delete().eq("user_id", user.id).eq("project_id", projectId),
+    supabase.from("ernesto_photo_diagnoses").delete().eq("user_id", user.id).eq("project_id", projectId),
+    supabase.from("ernesto_bake_logs").delete().eq("user_id", user.id).eq("project_id", projectId),
+    supabase.from("ernesto_answer_citations").delete().eq("user_id", user.id).eq("project_id", projectId),
+  ]);
+  related.forEach((result) => {
+    if (result.error) console.warn("v14.6 conversation DELETE related:", result.error.message);
+  });
+
+  const { data: photos, error: photosErr } = await supabase
+    .from("ernesto_photos")
+    .select(PHOTO_COLUMNS)
+    .eq("user_id", user.id)
+    .eq("project_id", projectId);
+  if (photosErr) {
+    console.warn("v14.6 conversation DELETE photos:", photosErr.message);
+  } else if (photos?.length) {
+    await removePhotoFiles(supabase, photos as ArchivedPhoto[]).catch((err: unknown) =>
+      console.warn("v14.6 photo archive removal:", err instanceof Error ? err.message : String(err))
+    );
+    const { error: photoRowsErr } = await supabase
+      .from("ernesto_photos")
+      .delete()
+      .eq("user_id", user.id)
+      .eq("project_id", projectId);
+    if (photoRowsErr) console.warn("v14.6 conversation DELETE photos:", photoRowsErr.message);
+  }
+
+  return NextResponse.json({ ok: true });
+}
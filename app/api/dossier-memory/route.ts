@@ -1,7 +1,8 @@
-import OpenAI from "openai";
 import { createHash } from "node:crypto";
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { aiConfigurationError } from "@/lib/ai";
+import { createUsageLedger } from "@/lib/usage-ledger";
 
 export const runtime = "nodejs";
 
@@ -162,7 +163,7 @@ export async function POST(req: Request) {
     return NextResponse.json({ memory: data, summarized: false });
   }
 
-  if (!process.env.OPENAI_API_KEY) {
+  if (aiConfigurationError()) {
     const { data, error } = await supabase
       .from("ernesto_dossier_memory")
       .upsert(baseRow, { onConflict: "user_id,project_id" })
@@ -172,36 +173,31 @@ export async function POST(req: Request) {
     return NextResponse.json({ memory: data, summarized: false });
   }
 
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  const ledger = createUsageLedger(supabase, { route: "dossier-memory", userId: user.id, projectId });
   const transcript = chat
     .map((item) => `${item.role === "user" ? "UTILISATEUR" : "ERNESTO"}: ${item.text}`)
     .join("\n\n");
 
-  const response = await openai.responses.create({
-    model: "gpt-4.1-mini",
-    input: [
-      {
-        role: "system",
-        content: [
-          {
-            type: "input_text",
-            text: `Tu construis la mémoire durable d'un dossier pédagogique Ernesto. Retourne uniquement un JSON valide avec cette forme : {"summary":"...","facts":[{"category":"...","fact":"...","confidence":"high|medium"}],"open_questions":["..."]}.\n\nRègles :\n- mémorise seulement 5 à 10 faits qui seront réellement utiles à de futures réponses : farine, hydratation, températures, durées, levain/levure, four, matériel, contraintes de service, objectif, problème récurrent, décisions déjà testées et résultat observé ;\n- distingue les faits de l'utilisateur des hypothèses d'Ernesto ; ne transforme jamais une hypothèse en fait ;\n- n'enregistre pas de bavardage, formules de politesse, données d'authentification ni contenu personnel sans intérêt pédagogique ;\n- summary : 4 à 7 phrases courtes maximum ;\n- open_questions : maximum 3 informations manquantes qui changeraient réellement le diagnostic ;\n- écris dans la langue dominante de l'échange.`,
-          },
-        ],
-      },
-      {
-        role: "user",
-        content: [
-          {
-            type: "input_text",
-            text: `Titre du dossier : ${title}\nObjectif déclaré : ${objective || "(non renseigné)"}\nNombre total de réponses Ernesto dans ce dossier : ${turnCount}\n\nÉchanges récents :\n${transcript}`,
-          },
-        ],
-      },
-    ],
-  });
+  let response;
+  try {
+    response = await ledger.provider.chat({
+      task: "memory",
+      messages: [
+        {
+          role: "system",
+          content: `Tu construis la mémoire durable d'un dossier pédagogique Ernesto. Retourne uniquement un JSON valide avec cette forme : {"summary":"...","facts":[{"category":"...","fact":"...","confidence":"high|medium"}],"open_questions":["..."]}.\n\nRègles :\n- mémorise seulement 5 à 10 faits qui seront réellement utiles à de futures réponses : farine, hydratation, températures, durées, levain/levure, four, matériel, contraintes de service, objectif, problème récurrent, décisions déjà testées et résultat observé ;\n- distingue les faits de l'utilisateur des hypothèses d'Ernesto ; ne transforme jamais une hypothèse en fait ;\n- n'enregistre pas de bavardage, formules de politesse, données d'authentification ni contenu personnel sans intérêt pédagogique ;\n- summary : 4 à 7 phrases courtes maximum ;\n- open_questions : maximum 3 informations manquantes qui changeraient réellement le diagnostic ;\n- écris dans la langue dominante de l'échange.`,
+        },
+        {
+          role: "user",
+          content: `Titre du dossier : ${title}\nObjectif déclaré : ${objective || "(non renseigné)"}\nNombre total de réponses Ernesto dans ce dossier : ${turnCount}\n\nÉchanges récents :\n${transcript}`,
+        },
+      ],
+    });
+  } finally {
+    await ledger.flush();
+  }
 
-  const parsed = parseMemoryJson(response.output_text || "");
+  const parsed = parseMemoryJson(response.text);
   if (!parsed) {
     const { data, error } = await supabase
       .from("ernesto_dossier_memory")
@@ -212,10 +208,13 @@ export async function POST(req: Request) {
     return NextResponse.json({ memory: data, summarized: false });
   }
 
+  // Facts copied from the bake journal by /api/bake-logs are user-observed
+  // data: the summary keeps them first instead of rewriting them.
+  const journalFacts = (Array.isArray(existing?.facts) ? existing.facts : []).filter((fact: { source?: string }) => fact?.source === "journal");
   const row = {
     ...baseRow,
     summary: parsed.summary,
-    facts: parsed.facts,
+    facts: [...journalFacts, ...parsed.facts].slice(0, 10),
     open_questions: parsed.openQuestions,
     summarized_turn_count: turnCount,
   };
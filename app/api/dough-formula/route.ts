@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { computeDoughFormula, parseDoughFormulaInput } from "@/lib/calculators/dough";
+
+export const runtime = "nodejs";
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+// Same engine as the tutor's calculer_formule_pate tool, for direct use by the
+// interface or by API integrations.
+export async function POST(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+
+  try {
+    const input = parseDoughFormulaInput(body);
+    return NextResponse.json({ input, formula: computeDoughFormula(input) });
+  } catch (error) {
+    const code = error instanceof Error ? error.message : "invalid_dough_formula";
+    return NextResponse.json({ error: code }, { status: 400 });
+  }
+}
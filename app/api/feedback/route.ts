@@ -46,9 +46,27 @@ export async function POST(req: Request) {
   const ragUsedRaw = Number(body?.ragUsed);
   const ragUsed = Number.isFinite(ragUsedRaw) ? Math.max(0, Math.min(20, Math.floor(ragUsedRaw))) : null;
 
+  // The prompt variant comes from the stored answer, never from the client, so
+  // that a rating only counts for the variant the user was actually served.
+  const projectId = cleanText(body?.projectId, 120) || null;
+  const messageId = cleanText(body?.messageId, 80);
+  let prompt: { prompt_versions?: unknown; prompt_variant?: string | null } | null = null;
+  if (messageId) {
+    const { data: message, error: messageErr } = await supabase
+      .from("ernesto_messages")
+      .select("prompt_versions,prompt_variant")
+      .eq("user_id", user.id)
+      .eq("project_id", projectId || "general")
+      .eq("client_message_id", messageId)
+      .eq("role", "ernesto")
+      .maybeSingle();
+    if (messageErr) console.warn("v14.6 feedback prompt lookup:", messageErr.message);
+    prompt = message;
+  }
+
   const row = {
     user_id: user.id,
-    project_id: cleanText(body?.projectId, 120) || null,
+    project_id: projectId,
     project_title: cleanText(body?.projectTitle, 120) || null,
     question: cleanText(body?.question, 2200) || null,
     answer,
@@ -56,6 +74,8 @@ export async function POST(req: Request) {
     rating,
     reason,
     rag_used: ragUsed,
+    prompt_versions: prompt?.prompt_versions ?? {},
+    prompt_variant: prompt?.prompt_variant || null,
   };
 
   const { data, error } = await supabase
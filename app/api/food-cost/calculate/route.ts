@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import {
+  computeFoodCost,
+  foodCostCharts,
+  parseFoodCostInput,
+  parseIngredientPrices,
+  parseStoredMenuItems,
+  withFoodCostCatalog,
+} from "@/lib/calculators/food-cost";
+
+export const runtime = "nodejs";
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+// Same engine as the tutor's calculer_cout_pizza tool: `menu_item` names a
+// stored pizza, inline `item` fields and `prices` override the stored ones.
+// The charts are ready for the graph panel of the interface.
+export async function POST(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+
+  const [pricesResult, itemsResult] = await Promise.all([
+    supabase.from("ernesto_ingredient_prices").select("name,unit,price").eq("user_id", user.id).limit(200),
+    supabase.from("ernesto_menu_items").select("name,sale_price,vat_rate,ball_weight,dough,toppings").eq("user_id", user.id).limit(100),
+  ]);
+  const error = pricesResult.error || itemsResult.error;
+  if (error) {
+    console.warn("v14.6 food cost calculate:", error.message);
+    return NextResponse.json({ error: "food_cost_unavailable" }, { status: 503 });
+  }
+
+  try {
+    const catalog = {
+      prices: parseIngredientPrices(pricesResult.data || []),
+      items: parseStoredMenuItems(itemsResult.data || []),
+    };
+    const input = parseFoodCostInput(withFoodCostCatalog(body, catalog));
+    const result = computeFoodCost(input);
+    return NextResponse.json({ input, result, charts: foodCostCharts(result) });
+  } catch (calcErr) {
+    const code = calcErr instanceof Error ? calcErr.message : "invalid_food_cost";
+    return NextResponse.json({ error: code }, { status: code === "menu_item_not_found" ? 404 : 400 });
+  }
+}
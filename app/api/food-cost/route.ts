@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { parseIngredientPrices, parseMenuItem } from "@/lib/calculators/food-cost";
+
+export const runtime = "nodejs";
+
+const ITEM_COLUMNS = "id,name,sale_price,vat_rate,ball_weight,dough,toppings,updated_at";
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+function cleanText(value: unknown, max: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+// The user's ingredient prices and menu items.
+export async function GET(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const [pricesResult, itemsResult] = await Promise.all([
+    supabase.from("ernesto_ingredient_prices").select("name,unit,price,updated_at").eq("user_id", user.id).order("name").limit(200),
+    supabase.from("ernesto_menu_items").select(ITEM_COLUMNS).eq("user_id", user.id).order("name").limit(100),
+  ]);
+
+  const error = pricesResult.error || itemsResult.error;
+  if (error) {
+    console.warn("v14.6 food cost GET:", error.message);
+    return NextResponse.json({ error: "food_cost_unavailable" }, { status: 503 });
+  }
+
+  return NextResponse.json({ prices: pricesResult.data || [], items: itemsResult.data || [] });
+}
+
+// `prices` upserts ingredient prices by name; `item` creates or, with an id,
+// updates a menu item. Both can be sent together.
+export async function POST(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+
+  let prices;
+  let item;
+  try {
+    prices = parseIngredientPrices(body.prices);
+    item = body.item ? parseMenuItem(body.item) : null;
+  } catch (parseErr) {
+    const code = parseErr instanceof Error ? parseErr.message : "invalid_food_cost";
+    return NextResponse.json({ error: code }, { status: 400 });
+  }
+  if (!prices.length && !item) return NextResponse.json({ error: "nothing_to_save" }, { status: 400 });
+
+  const now = new Date().toISOString();
+  const result: { prices?: unknown[]; item?: unknown } = {};
+
+  if (prices.length) {
+    const { data, error } = await supabase
+      .from("ernesto_ingredient_prices")
+      .upsert(
+        prices.map((price) => ({ ...price, user_id: user.id, updated_at: now })),
+        { onConflict: "user_id,name" }
+      )
+      .select("name,unit,price,updated_at");
+    if (error) {
+      console.warn("v14.6 food cost prices:", error.message);
+      return NextResponse.json({ error: "food_cost_unavailable" }, { status: 503 });
+    }
+    result.prices = data || [];
+  }
+
+  if (item) {
+    const id = Number(body.item.id);
+    const query = Number.isSafeInteger(id) && id > 0
+      ? supabase.from("ernesto_menu_items").update({ ...item, updated_at: now }).eq("user_id", user.id).eq("id", id)
+      : supabase
+          .from("ernesto_menu_items")
+          .upsert({ ...item, user_id: user.id, updated_at: now }, { onConflict: "user_id,name" });
+    const { data, error } = await query.select(ITEM_COLUMNS).maybeSingle();
+    if (error) {
+      console.warn("v14.6 food cost item:", error.message);
+      return NextResponse.json({ error: "food_cost_unavailable" }, { status: 503 });
+    }
+    if (!data) return NextResponse.json({ error: "menu_item_not_found" }, { status: 404 });
+    result.item = data;
+  }
+
+  return NextResponse.json(result);
+}
+
+// ?ingredient=<name> removes a price, ?itemId=<id> a menu item.
+export async function DELETE(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const params = new URL(req.url).searchParams;
+  const ingredient = cleanText(params.get("ingredient"), 80);
+  const itemId = Number(params.get("itemId"));
+
+  let error;
+  if (ingredient) {
+    ({ error } = await supabase.from("ernesto_ingredient_prices").delete().eq("user_id", user.id).eq("name", ingredient));
+  } else if (Number.isSafeInteger(itemId) && itemId > 0) {
+    ({ error } = await supabase.from("ernesto_menu_items").delete().eq("user_id", user.id).eq("id", itemId));
+  } else {
+    return NextResponse.json({ error: "missing_food_cost_key" }, { status: 400 });
+  }
+
+  if (error) {
+    console.warn("v14.6 food cost DELETE:", error.message);
+    return NextResponse.json({ error: "food_cost_unavailable" }, { status: 503 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
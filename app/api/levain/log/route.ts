@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+export const runtime = "nodejs";
+
+const ACIDITY = ["faible", "moyenne", "forte"];
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+function cleanText(value: unknown, max: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+// null when absent, NaN when present but out of range.
+function optionalNumber(value: unknown, min: number, max: number) {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(String(value).replace(",", "."));
+  return Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : NaN;
+}
+
+function positiveId(value: unknown) {
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+// One feeding (quantities, temperature, time to peak) or one observation
+// (rise, smell, acidity) of a registered starter.
+export async function POST(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+
+  const starterId = positiveId(body.starterId);
+  if (!starterId) return NextResponse.json({ error: "missing_starter_id" }, { status: 400 });
+
+  const kind = body.kind === "observation" ? "observation" : "feeding";
+  const loggedAt = body.logged_at ? new Date(String(body.logged_at)) : new Date();
+  if (Number.isNaN(loggedAt.getTime())) return NextResponse.json({ error: "invalid_logged_at" }, { status: 400 });
+
+  const entry = {
+    seed_g: optionalNumber(body.seed_g, 0.1, 20000),
+    flour_g: optionalNumber(body.flour_g, 0.1, 20000),
+    water_g: optionalNumber(body.water_g, 0, 20000),
+    temperature: optionalNumber(body.temperature, -2, 40),
+    rise_percent: optionalNumber(body.rise_percent, 0, 500),
+    hours_to_peak: optionalNumber(body.hours_to_peak, 0, 72),
+  };
+  const invalid = Object.entries(entry).find(([, value]) => Number.isNaN(value));
+  if (invalid) return NextResponse.json({ error: `invalid_${invalid[0]}` }, { status: 400 });
+  if (kind === "feeding" && (!entry.seed_g || !entry.flour_g)) {
+    return NextResponse.json({ error: "invalid_feeding" }, { status: 400 });
+  }
+
+  const acidity = ACIDITY.includes(String(body.acidity)) ? String(body.acidity) : null;
+  const smell = cleanText(body.smell, 200);
+  const note = cleanText(body.note, 600);
+  if (kind === "observation" && entry.rise_percent === null && entry.hours_to_peak === null && !acidity && !smell && !note) {
+    return NextResponse.json({ error: "empty_observation" }, { status: 400 });
+  }
+
+  const { data: starter, error: starterErr } = await supabase
+    .from("ernesto_levain_starters")
+    .select("id")
+    .eq("user_id", user.id)
+    .eq("id", starterId)
+    .maybeSingle();
+  if (starterErr) {
+    console.warn("v14.6 levain log starter:", starterErr.message);
+    return NextResponse.json({ error: "levain_unavailable" }, { status: 503 });
+  }
+  if (!starter) return NextResponse.json({ error: "starter_not_found" }, { status: 404 });
+
+  const { data, error } = await supabase
+    .from("ernesto_levain_logs")
+    .insert({
+      starter_id: starterId,
+      user_id: user.id,
+      kind,
+      logged_at: loggedAt.toISOString(),
+      ...entry,
+      smell,
+      acidity,
+      note,
+    })
+    .select("id,kind,logged_at,seed_g,flour_g,water_g,temperature,rise_percent,hours_to_peak,smell,acidity,note")
+    .single();
+
+  if (error) {
+    console.warn("v14.6 levain log POST:", error.message);
+    return NextResponse.json({ error: "levain_unavailable" }, { status: 503 });
+  }
+
+  const touched = await supabase
+    .from("ernesto_levain_starters")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("user_id", user.id)
+    .eq("id", starterId);
+  if (touched.error) console.warn("v14.6 levain log touch:", touched.error.message);
+
+  return NextResponse.json({ log: data });
+}
+
+export async function DELETE(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const id = positiveId(new URL(req.url).searchParams.get("id"));
+  if (!id) return NextResponse.json({ error: "missing_log_id" }, { status: 400 });
+
+  const { error } = await supabase.from("ernesto_levain_logs").delete().eq("user_id", user.id).eq("id", id);
+  if (error) {
+    console.warn("v14.6 levain log DELETE:", error.message);
+    return NextResponse.json({ error: "levain_unavailable" }, { status: 503 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+export const runtime = "nodejs";
+
+const STARTER_LIMIT = 10;
+const LOG_LIMIT = 100;
+const STARTER_COLUMNS = "id,name,hydration,flour,storage_temp,notes,schedule,created_at,updated_at";
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+function cleanText(value: unknown, max: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+function cleanNumber(value: unknown, fallback: number, min: number, max: number) {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = Number(String(value).replace(",", "."));
+  return Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : NaN;
+}
+
+function starterId(value: unknown) {
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+// Without starterId: the user's starters. With starterId: that starter and its
+// feeding and observation log, most recent first.
+export async function GET(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const id = starterId(new URL(req.url).searchParams.get("starterId"));
+
+  if (!id) {
+    const { data, error } = await supabase
+      .from("ernesto_levain_starters")
+      .select(STARTER_COLUMNS)
+      .eq("user_id", user.id)
+      .order("updated_at", { ascending: false })
+      .limit(STARTER_LIMIT);
+    if (error) {
+      console.warn("v14.6 levain GET:", error.message);
+      return NextResponse.json({ error: "levain_unavailable" }, { status: 503 });
+    }
+    return NextResponse.json({ starters: data || [] });
+  }
+
+  const [starterResult, logsResult] = await Promise.all([
+    supabase.from("ernesto_levain_starters").select(STARTER_COLUMNS).eq("user_id", user.id).eq("id", id).maybeSingle(),
+    supabase
+      .from("ernesto_levain_logs")
+      .select("id,kind,logged_at,seed_g,flour_g,water_g,temperature,rise_percent,hours_to_peak,smell,acidity,note")
+      .eq("user_id", user.id)
+      .eq("starter_id", id)
+      .order("logged_at", { ascending: false })
+      .limit(LOG_LIMIT),
+  ]);
+
+  const error = starterResult.error || logsResult.error;
+  if (error) {
+    console.warn("v14.6 levain log GET:", error.message);
+    return NextResponse.json({ error: "levain_unavailable" }, { status: 503 });
+  }
+  if (!starterResult.data) return NextResponse.json({ error: "starter_not_found" }, { status: 404 });
+
+  return NextResponse.json({ starter: starterResult.data, logs: logsResult.data || [] });
+}
+
+// Registers a starter, or updates it when an id is given.
+export async function POST(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+
+  const hydration = cleanNumber(body.hydration, 100, 40, 200);
+  const storageTemp = cleanNumber(body.storage_temp, 4, -2, 35);
+  if (!Number.isFinite(hydration)) return NextResponse.json({ error: "invalid_levain_hydration" }, { status: 400 });
+  if (!Number.isFinite(storageTemp)) return NextResponse.json({ error: "invalid_storage_temp" }, { status: 400 });
+
+  const fields = {
+    name: cleanText(body.name, 80) || "Mon levain",
+    hydration,
+    flour: cleanText(body.flour, 120),
+    storage_temp: storageTemp,
+    notes: cleanText(body.notes, 600),
+    updated_at: new Date().toISOString(),
+  };
+
+  const id = starterId(body.id);
+  const query = id
+    ? supabase.from("ernesto_levain_starters").update(fields).eq("user_id", user.id).eq("id", id)
+    : supabase.from("ernesto_levain_starters").insert({ ...fields, user_id: user.id });
+  const { data, error } = await query.select(STARTER_COLUMNS).maybeSingle();
+
+  if (error) {
+    console.warn("v14.6 levain POST:", error.message);
+    return NextResponse.json({ error: "levain_unavailable" }, { status: 503 });
+  }
+  if (!data) return NextResponse.json({ error: "starter_not_found" }, { status: 404 });
+
+  return NextResponse.json({ starter: data });
+}
+
+export async function DELETE(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const id = starterId(new URL(req.url).searchParams.get("starterId"));
+  if (!id) return NextResponse.json({ error: "missing_starter_id" }, { status: 400 });
+
+  const { error } = await supabase.from("ernesto_levain_starters").delete().eq("user_id", user.id).eq("id", id);
+  if (error) {
+    console.warn("v14.6 levain DELETE:", error.message);
+    return NextResponse.json({ error: "levain_unavailable" }, { status: 503 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
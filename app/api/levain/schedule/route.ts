@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { computeLevainSchedule, levainSpeedFactor, parseLevainScheduleInput } from "@/lib/calculators/levain";
+
+export const runtime = "nodejs";
+
+// Feedings used to calibrate the starter's speed.
+const CALIBRATION_SAMPLES = 20;
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+// Plans the refreshes of a registered starter toward a peak time, calibrated
+// on its logged feedings, and keeps the plan on the starter so its reminders
+// follow the user across devices.
+export async function POST(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+
+  const starterId = Number(body.starterId);
+  if (!Number.isSafeInteger(starterId) || starterId <= 0) {
+    return NextResponse.json({ error: "missing_starter_id" }, { status: 400 });
+  }
+
+  const [starterResult, logsResult] = await Promise.all([
+    supabase
+      .from("ernesto_levain_starters")
+      .select("id,hydration,storage_temp")
+      .eq("user_id", user.id)
+      .eq("id", starterId)
+      .maybeSingle(),
+    supabase
+      .from("ernesto_levain_logs")
+      .select("seed_g,flour_g,water_g,temperature,hours_to_peak")
+      .eq("user_id", user.id)
+      .eq("starter_id", starterId)
+      .eq("kind", "feeding")
+      .not("hours_to_peak", "is", null)
+      .order("logged_at", { ascending: false })
+      .limit(CALIBRATION_SAMPLES),
+  ]);
+
+  const error = starterResult.error || logsResult.error;
+  if (error) {
+    console.warn("v14.6 levain schedule:", error.message);
+    return NextResponse.json({ error: "levain_unavailable" }, { status: 503 });
+  }
+  if (!starterResult.data) return NextResponse.json({ error: "starter_not_found" }, { status: 404 });
+
+  const starter = starterResult.data;
+  const calibration = levainSpeedFactor(logsResult.data || [], Number(starter.hydration));
+
+  let schedule;
+  try {
+    schedule = computeLevainSchedule(
+      parseLevainScheduleInput({
+        ...body,
+        hydration: starter.hydration,
+        storage_temp: starter.storage_temp,
+        speed_factor: calibration.factor,
+        now: undefined,
+      })
+    );
+  } catch (scheduleErr) {
+    const code = scheduleErr instanceof Error ? scheduleErr.message : "invalid_levain_schedule";
+    return NextResponse.json({ error: code }, { status: 400 });
+  }
+
+  const { error: saveErr } = await supabase
+    .from("ernesto_levain_starters")
+    .update({ schedule, updated_at: new Date().toISOString() })
+    .eq("user_id", user.id)
+    .eq("id", starterId);
+  if (saveErr) console.warn("v14.6 levain schedule save:", saveErr.message);
+
+  return NextResponse.json({ schedule, calibration });
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { PHOTO_COLUMNS, photoLinks, type ArchivedPhoto } from "@/lib/photos";
+
+export const runtime = "nodejs";
+
+const DIAGNOSIS_LIMIT = 12;
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+function cleanText(value: unknown, max: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+// The dossier's latest diagnoses, oldest first so features read as a series,
+// each with the thumbnail of the photo it was made from when still archived.
+export async function GET(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const projectId = cleanText(new URL(req.url).searchParams.get("projectId"), 120);
+  if (!projectId) return NextResponse.json({ error: "missing_project_id" }, { status: 400 });
+
+  const { data, error } = await supabase
+    .from("ernesto_photo_diagnoses")
+    .select("id,photo_id,diagnosis,comparison,created_at")
+    .eq("user_id", user.id)
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(DIAGNOSIS_LIMIT);
+  if (error) {
+    console.warn("v14.6 photo diagnoses GET:", error.message);
+    return NextResponse.json({ error: "photo_diagnoses_unavailable" }, { status: 503 });
+  }
+
+  const rows = (data || []).reverse();
+  const photoIds = rows.map((row) => row.photo_id).filter((id): id is number => Boolean(id));
+  const thumbs = new Map<number, string | null>();
+  if (photoIds.length) {
+    const { data: photos, error: photosError } = await supabase
+      .from("ernesto_photos")
+      .select(PHOTO_COLUMNS)
+      .eq("user_id", user.id)
+      .in("id", photoIds);
+    if (photosError) console.warn("v14.6 photo diagnoses photos:", photosError.message);
+    (await photoLinks(supabase, (photos || []) as ArchivedPhoto[])).forEach((photo) => thumbs.set(photo.id, photo.thumb_url));
+  }
+
+  return NextResponse.json({
+    diagnoses: rows.map((row) => ({ ...row, thumb_url: row.photo_id ? thumbs.get(row.photo_id) ?? null : null })),
+  });
+}
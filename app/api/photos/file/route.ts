@@ -0,0 +1,28 @@
+import { readFile } from "node:fs/promises";
+import { NextResponse } from "next/server";
+import { localPhotoPath, verifyLocalPhotoLink } from "@/lib/photos/local";
+
+export const runtime = "nodejs";
+
+// Serves files of the local photo backend. The signed link stands in for the
+// bearer token, since <img> cannot send one.
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const key = params.get("key") || "";
+  let valid = false;
+  try {
+    valid = verifyLocalPhotoLink(key, Number(params.get("exp")), params.get("sig") || "");
+  } catch {
+    valid = false;
+  }
+  if (!valid) return NextResponse.json({ error: "invalid_photo_link" }, { status: 403 });
+
+  try {
+    const body = await readFile(localPhotoPath(key));
+    return new Response(new Uint8Array(body), {
+      headers: { "content-type": "image/jpeg", "cache-control": "private, max-age=3600" },
+    });
+  } catch {
+    return NextResponse.json({ error: "photo_not_found" }, { status: 404 });
+  }
+}
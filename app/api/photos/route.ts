@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { PHOTO_COLUMNS, archivePhoto, photoLinks, removePhotoFiles, type ArchivedPhoto } from "@/lib/photos";
+
+export const runtime = "nodejs";
+
+const PHOTO_LIMIT = 60;
+const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+function cleanText(value: unknown, max: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+function photoId(value: unknown) {
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+// The dossier's archived photos, most recent first, with short-lived links to
+// the image and its thumbnail.
+export async function GET(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const projectId = cleanText(new URL(req.url).searchParams.get("projectId"), 120);
+  if (!projectId) return NextResponse.json({ error: "missing_project_id" }, { status: 400 });
+
+  const { data, error } = await supabase
+    .from("ernesto_photos")
+    .select(PHOTO_COLUMNS)
+    .eq("user_id", user.id)
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(PHOTO_LIMIT);
+  if (error) {
+    console.warn("v14.6 photo archive GET:", error.message);
+    return NextResponse.json({ error: "photo_archive_unavailable" }, { status: 503 });
+  }
+
+  return NextResponse.json({ photos: await photoLinks(supabase, (data || []) as ArchivedPhoto[]) });
+}
+
+// Adds one photo to the dossier without asking Ernesto anything.
+export async function POST(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const form = await req.formData().catch(() => null);
+  if (!form) return NextResponse.json({ error: "invalid_form" }, { status: 400 });
+  const projectId = cleanText(form.get("projectId"), 120);
+  if (!projectId) return NextResponse.json({ error: "missing_project_id" }, { status: 400 });
+  const file = form.get("photo");
+  if (!(file instanceof File) || !file.size) return NextResponse.json({ error: "missing_photo" }, { status: 400 });
+  if (!file.type.startsWith("image/")) return NextResponse.json({ error: "unsupported_photo" }, { status: 400 });
+  if (file.size > MAX_PHOTO_BYTES) return NextResponse.json({ error: "photo_too_large" }, { status: 413 });
+
+  try {
+    const { photo } = await archivePhoto(supabase, {
+      userId: user.id,
+      projectId,
+      source: "upload",
+      label: cleanText(form.get("label"), 120),
+      body: Buffer.from(await file.arrayBuffer()),
+    });
+    const [linked] = await photoLinks(supabase, [photo]);
+    return NextResponse.json({ photo: linked });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (message === "unreadable_photo") return NextResponse.json({ error: message }, { status: 400 });
+    console.warn("v14.6 photo archive POST:", message);
+    return NextResponse.json({ error: "photo_archive_unavailable" }, { status: 503 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const id = photoId(new URL(req.url).searchParams.get("id"));
+  if (!id) return NextResponse.json({ error: "missing_photo_id" }, { status: 400 });
+
+  const { data, error } = await supabase
+    .from("ernesto_photos")
+    .delete()
+    .eq("user_id", user.id)
+    .eq("id", id)
+    .select(PHOTO_COLUMNS)
+    .maybeSingle();
+  if (error) {
+    console.warn("v14.6 photo archive DELETE:", error.message);
+    return NextResponse.json({ error: "photo_archive_unavailable" }, { status: 503 });
+  }
+  if (!data) return NextResponse.json({ error: "photo_not_found" }, { status: 404 });
+
+  await removePhotoFiles(supabase, [data as ArchivedPhoto]).catch((err: unknown) =>
+    console.warn("v14.6 photo archive removal:", err instanceof Error ? err.message : String(err))
+  );
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,209 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import {
+  computeProductionPlan,
+  editProductionPlan,
+  parseProductionInput,
+  productionPlanCsv,
+  productionTimelineChart,
+  type ProductionPlan,
+} from "@/lib/calculators/production";
+
+export const runtime = "nodejs";
+
+const PLAN_LIMIT = 30;
+const PLAN_COLUMNS = "id,title,service_date,input,plan,created_at,updated_at";
+
+function serverSupabase() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+async function authenticatedUser(req: Request, supabase: SupabaseClient) {
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+function cleanText(value: unknown, max: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+function planId(value: unknown) {
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+function serviceDate(value: unknown) {
+  const date = cleanText(value, 10);
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null;
+}
+
+// Without id: the user's saved plans, most recent first. With id: that plan
+// and its timeline chart, or a CSV file of its steps with format=csv.
+export async function GET(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const params = new URL(req.url).searchParams;
+  const id = planId(params.get("id"));
+
+  if (!id) {
+    const { data, error } = await supabase
+      .from("ernesto_production_plans")
+      .select("id,title,service_date,updated_at")
+      .eq("user_id", user.id)
+      .order("updated_at", { ascending: false })
+      .limit(PLAN_LIMIT);
+    if (error) {
+      console.warn("v14.6 production plans GET:", error.message);
+      return NextResponse.json({ error: "production_plans_unavailable" }, { status: 503 });
+    }
+    return NextResponse.json({ plans: data || [] });
+  }
+
+  const { data, error } = await supabase
+    .from("ernesto_production_plans")
+    .select(PLAN_COLUMNS)
+    .eq("user_id", user.id)
+    .eq("id", id)
+    .maybeSingle();
+  if (error) {
+    console.warn("v14.6 production plan GET:", error.message);
+    return NextResponse.json({ error: "production_plans_unavailable" }, { status: 503 });
+  }
+  if (!data) return NextResponse.json({ error: "production_plan_not_found" }, { status: 404 });
+
+  const plan = data.plan as ProductionPlan;
+  if (params.get("format") === "csv") {
+    const filename = `production-${data.service_date || id}.csv`;
+    // The BOM lets spreadsheet software read the accents as UTF-8.
+    return new Response(`\uFEFF${productionPlanCsv(plan)}`, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  }
+
+  return NextResponse.json({ plan: data, chart: productionTimelineChart(plan) });
+}
+
+// Computes a plan from `input` (same fields as /api/production-plan) and saves it.
+export async function POST(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+
+  let input;
+  let plan;
+  try {
+    input = parseProductionInput(body.input);
+    plan = computeProductionPlan(input);
+  } catch (parseErr) {
+    const code = parseErr instanceof Error ? parseErr.message : "invalid_production_plan";
+    return NextResponse.json({ error: code }, { status: 400 });
+  }
+
+  const date = serviceDate(body.service_date);
+  const { data, error } = await supabase
+    .from("ernesto_production_plans")
+    .insert({
+      user_id: user.id,
+      title: cleanText(body.title, 80) || `Service de ${input.service_time}${date ? ` — ${date}` : ""}`,
+      service_date: date,
+      input,
+      plan,
+    })
+    .select(PLAN_COLUMNS)
+    .single();
+  if (error) {
+    console.warn("v14.6 production plan POST:", error.message);
+    return NextResponse.json({ error: "production_plans_unavailable" }, { status: 503 });
+  }
+
+  return NextResponse.json({ plan: data, chart: productionTimelineChart(plan) });
+}
+
+// Saves the user's edits: `steps` is [{ id, start, end, note }] with times in
+// minutes from the start of service. The plan is re-checked and its warnings
+// returned, but the edits are kept as given.
+export async function PUT(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  const id = planId(body?.id);
+  if (!id) return NextResponse.json({ error: "missing_plan_id" }, { status: 400 });
+
+  const { data: existing, error: readError } = await supabase
+    .from("ernesto_production_plans")
+    .select("plan")
+    .eq("user_id", user.id)
+    .eq("id", id)
+    .maybeSingle();
+  if (readError) {
+    console.warn("v14.6 production plan PUT:", readError.message);
+    return NextResponse.json({ error: "production_plans_unavailable" }, { status: 503 });
+  }
+  if (!existing) return NextResponse.json({ error: "production_plan_not_found" }, { status: 404 });
+
+  let plan;
+  try {
+    plan = editProductionPlan(existing.plan as ProductionPlan, body.steps);
+  } catch (editErr) {
+    const code = editErr instanceof Error ? editErr.message : "invalid_production_plan";
+    return NextResponse.json({ error: code }, { status: 400 });
+  }
+
+  const patch: Record<string, unknown> = { plan, updated_at: new Date().toISOString() };
+  const title = cleanText(body.title, 80);
+  if (title) patch.title = title;
+  if (body.service_date !== undefined) patch.service_date = serviceDate(body.service_date);
+
+  const { data, error } = await supabase
+    .from("ernesto_production_plans")
+    .update(patch)
+    .eq("user_id", user.id)
+    .eq("id", id)
+    .select(PLAN_COLUMNS)
+    .maybeSingle();
+  if (error) {
+    console.warn("v14.6 production plan PUT:", error.message);
+    return NextResponse.json({ error: "production_plans_unavailable" }, { status: 503 });
+  }
+  if (!data) return NextResponse.json({ error: "production_plan_not_found" }, { status: 404 });
+
+  return NextResponse.json({ plan: data, chart: productionTimelineChart(plan) });
+}
+
+export async function DELETE(req: Request) {
+  const supabase = serverSupabase();
+  if (!supabase) return NextResponse.json({ error: "server_not_configured" }, { status: 500 });
+  const user = await authenticatedUser(req, supabase);
+  if (!user) return NextResponse.json({ error: "auth_required" }, { status: 401 });
+
+  const id = planId(new URL(req.url).searchParams.get("id"));
+  if (!id) return NextResponse.json({ error: "missing_plan_id" }, { status: 400 });
+
+  const { error } = await supabase.from("ernesto_production_plans").delete().eq("user_id", user.id).eq("id", id);
+  if (error) {
+    console.warn("v14.6 production plan DELETE:", error.message);
+    return NextResponse.json({ error: "production_plans_unavailable" }, { status: 503 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
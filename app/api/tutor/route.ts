@@ -1,6 +1,47 @@
-import OpenAI from "openai";
-import { NextResponse } from "next/server";
+import { randomUUID } from "node:crypto";
+import { NextResponse, after } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import {
+  answerCacheBypass,
+  findCachedAnswer,
+  findSimilarCachedAnswer,
+  knowledgeBaseVersion,
+  storeCachedAnswer,
+  type AnswerCacheBypass,
+  type AnswerCacheScope,
+  type CachedAnswer,
+} from "@/lib/answer-cache";
+import { BAKE_LOG_COLUMNS, type BakeLog } from "@/lib/bake-journal";
+import { parseIngredientPrices, parseStoredMenuItems } from "@/lib/calculators/food-cost";
+import { levainSpeedFactor } from "@/lib/calculators/levain";
+import { buildCitationMap, type CitationMap } from "@/lib/citations";
+import {
+  ACTION_FLOWCHART_FORMAT,
+  cleanFlowchartText,
+  parseActionFlowchart,
+  type ActionFlowchart,
+} from "@/lib/flowchart";
+import { GRAPH_FORMAT, parseGraph, type Graph, type GraphValidation } from "@/lib/graph";
+import {
+  PHOTO_DIAGNOSIS_FORMAT,
+  compareDiagnoses,
+  parsePhotoDiagnosis,
+  type PhotoDiagnosis,
+  type PhotoDiagnosisResult,
+} from "@/lib/photo-diagnosis";
+import { PHOTO_COLUMNS, archivePhoto, photoDataUrl, type ArchivedPhoto } from "@/lib/photos";
+import { loadPromptSet } from "@/lib/prompts";
+import { classifyQuestion, recordQuestionScope, scopeReply, type QuestionScope } from "@/lib/question-scope";
+import { consumeQuota, quotaMessage, type QuotaPlan, type QuotaStatus } from "@/lib/quotas";
+import { toolCharts, tutorTools, type ToolChart, type TutorToolContext } from "@/lib/tutor-tools";
+import { formatRetrievedContext, hybridRetrieve, needsQueryRewrite, rewriteRetrievalQueries } from "@/lib/retrieval";
+import { createUsageLedger, dailyUsage } from "@/lib/usage-ledger";
+import {
+  aiConfigurationError,
+  type AIContentPart,
+  type AIMessage,
+  type AIToolCall,
+} from "@/lib/ai";
 
 export const runtime = "nodejs";
 
@@ -12,228 +53,349 @@ function looksQuantifiable(input: string) {
   );
 }
 
-function buildGraphPrompt(question: string, answer: string) {
-  return `
-Question utilisateur :
-${question}
-
-Réponse textuelle déjà produite :
-${answer}
-
-Produis uniquement ce JSON :
-{
-  "title": "titre court",
-  "summary": "résumé pédagogique en une phrase",
-  "confidence": 0.0,
-  "charts": [
-    {
-      "type": "bar | timeline | radar | table | scatter",
-      "title": "titre du graphique",
-      "description": "ce que le graphique montre",
-      "data": {}
-    }
-  ],
-  "checklist": [
-    { "action": "action concrète", "expected_effect": "effet attendu", "priority": "high | medium | low" }
-  ],
-  "recap_table": {
-    "columns": ["Paramètre", "Valeur", "Pourquoi"],
-    "rows": [["exemple", "exemple", "exemple"]],
-    "note": "hypothèses ou prudence"
-  },
-  "questions": ["question utile si information manquante"]
+type HistoryTurn = {
+  role: "user" | "ernesto";
+  text: string;
+  mode: "ACTION" | "ANALYSE" | null;
+  flowchart: { title: string; steps: string[] } | null;
+  graph: { title: string; summary: string; charts: string[] } | null;
+};
+
+// Rough budget for previous turns, on top of the system prompt, the retrieved
+// knowledge and the current question. French text averages ~4 chars per token.
+const HISTORY_TOKEN_BUDGET = 3500;
+const HISTORY_MAX_TURNS = 16;
+
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
 }
 
-Contraintes pour data :
-- bar : { "labels": ["..."], "values": [1,2], "unit": "...", "note": "..." }
-- timeline : { "steps": [{ "label": "...", "minutes": 60, "purpose": "..." }], "note": "..." }
-- radar : { "labels": ["..."], "values": [0,50,100], "note": "..." }
-- table : { "columns": ["..."], "rows": [["...", "..."]], "note": "..." }
-- scatter : { "x_label": "...", "y_label": "...", "points": [{ "x": 1, "y": 2, "label": "..." }], "note": "..." }
+function cleanHistoryText(value: unknown, maxLength: number) {
+  return String(value || "").replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim().slice(0, maxLength);
+}
 
-Ne mets jamais de bloc markdown. Ne mets aucun commentaire autour du JSON.`.trim();
+function cleanHistoryMode(value: unknown): HistoryTurn["mode"] {
+  const mode = String(value || "").trim().toUpperCase();
+  if (mode === "ECOLE" || mode === "ANALYSE" || mode === "APPROFONDIE") return "ANALYSE";
+  if (mode === "BANCO" || mode === "ACTION") return "ACTION";
+  return null;
 }
 
-function parseGraphJSON(raw: string) {
-  const cleaned = raw
-    .trim()
-    .replace(/^```json\s*/i, "")
-    .replace(/^```\s*/i, "")
-    .replace(/```$/i, "")
-    .trim();
-
-  const first = cleaned.indexOf("{");
-  const last = cleaned.lastIndexOf("}");
-  if (first < 0 || last <= first) return null;
-
-  const parsed = JSON.parse(cleaned.slice(first, last + 1));
-  if (!parsed || typeof parsed !== "object") return null;
-  if (!Array.isArray(parsed.charts)) parsed.charts = [];
-  if (!Array.isArray(parsed.checklist)) parsed.checklist = [];
-  if (!Array.isArray(parsed.questions)) parsed.questions = [];
-  if (!parsed.recap_table || !Array.isArray(parsed.recap_table.columns) || !Array.isArray(parsed.recap_table.rows)) {
-    parsed.recap_table = { columns: ["Élément", "Synthèse"], rows: [], note: "" };
+function cleanHistory(value: unknown): HistoryTurn[] {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return [];
+    }
   }
-  return parsed;
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .slice(-40)
+    .map((item: unknown): HistoryTurn | null => {
+      const turn = objectRecord(item);
+      if (!turn || (turn.role !== "user" && turn.role !== "ernesto")) return null;
+      const text = cleanHistoryText(turn.text, 6000);
+      if (!text) return null;
+
+      const flow = objectRecord(turn.flowchart);
+      const graph = objectRecord(turn.graph);
+      return {
+        role: turn.role,
+        text,
+        mode: turn.role === "ernesto" ? cleanHistoryMode(turn.mode) : null,
+        flowchart: flow
+          ? {
+              title: cleanFlowchartText(flow.title, 120),
+              steps: Array.isArray(flow.steps)
+                ? flow.steps
+                    .slice(0, 12)
+                    .map((step: unknown) => {
+                      if (typeof step === "string") return cleanFlowchartText(step, 160);
+                      const record = objectRecord(step);
+                      const action = cleanFlowchartText(record?.action, 160);
+                      const control = cleanFlowchartText(record?.control, 140);
+                      return action && control ? `${action} → contrôle : ${control}` : action;
+                    })
+                    .filter(Boolean)
+                : [],
+            }
+          : null,
+        graph: graph
+          ? {
+              title: cleanFlowchartText(graph.title, 120),
+              summary: cleanFlowchartText(graph.summary, 240),
+              charts: Array.isArray(graph.charts)
+                ? graph.charts
+                    .slice(0, 4)
+                    .map((chart: unknown) => {
+                      const record = objectRecord(chart);
+                      const type = cleanFlowchartText(record?.type, 20);
+                      const title = cleanFlowchartText(record?.title, 100);
+                      return title ? `${title}${type ? ` (${type})` : ""}` : "";
+                    })
+                    .filter(Boolean)
+                : [],
+            }
+          : null,
+      };
+    })
+    .filter((turn): turn is HistoryTurn => Boolean(turn));
 }
 
-type ActionFlowchartStep = {
-  action: string;
-  control: string;
-  if_ok: string;
-  if_not: string;
-};
+function historyTurnText(turn: HistoryTurn) {
+  if (turn.role === "user") return turn.text;
+
+  const meta: string[] = [];
+  if (turn.mode) meta.push(`[Mode ${turn.mode}]`);
+  if (turn.flowchart?.title) {
+    meta.push(
+      `[Plan d’action affiché : ${turn.flowchart.title}${
+        turn.flowchart.steps.length
+          ? `\n${turn.flowchart.steps.map((step, index) => `${index + 1}. ${step}`).join("\n")}`
+          : ""
+      }]`
+    );
+  }
+  if (turn.graph?.title) {
+    meta.push(
+      `[Synthèse graphique affichée : ${turn.graph.title}${turn.graph.summary ? ` — ${turn.graph.summary}` : ""}${
+        turn.graph.charts.length ? ` · graphiques : ${turn.graph.charts.join(", ")}` : ""
+      }]`
+    );
+  }
+  return [turn.text, ...meta].join("\n\n");
+}
+
+// Keeps the most recent turns that fit in the budget. A turn that does not fit
+// entirely is cut from its beginning only when it is the latest one, because
+// that is the turn a short follow-up question most often refers to.
+function budgetHistory(turns: HistoryTurn[], budget = HISTORY_TOKEN_BUDGET) {
+  const kept: Array<{ role: HistoryTurn["role"]; text: string }> = [];
+  let tokens = 0;
+
+  for (let index = turns.length - 1; index >= 0 && kept.length < HISTORY_MAX_TURNS; index -= 1) {
+    const text = historyTurnText(turns[index]);
+    const cost = estimateTokens(text);
+    if (tokens + cost <= budget) {
+      kept.unshift({ role: turns[index].role, text });
+      tokens += cost;
+      continue;
+    }
+    if (!kept.length) {
+      const truncated = `…${text.slice(-(budget * 4))}`;
+      kept.unshift({ role: turns[index].role, text: truncated });
+      tokens += estimateTokens(truncated);
+    }
+    break;
+  }
+
+  // The model handles the transcript best when it starts with a user turn.
+  while (kept.length && kept[0].role !== "user") kept.shift();
 
-type ActionFlowchart = {
+  return {
+    messages: kept.map((turn): AIMessage => ({
+      role: turn.role === "user" ? "user" : "assistant",
+      content: turn.text,
+    })),
+    used: kept.length,
+    dropped: turns.length - kept.length,
+    tokens: kept.reduce((sum, turn) => sum + estimateTokens(turn.text), 0),
+    lastUserText: [...kept].reverse().find((turn) => turn.role === "user")?.text || "",
+    lastAnswerText: [...kept].reverse().find((turn) => turn.role === "ernesto")?.text || "",
+  };
+}
+
+type DossierMemory = {
   title: string;
-  start: string;
-  steps: ActionFlowchartStep[];
-  outcome: string;
-  caution: string;
-  clarification_required: boolean;
-  clarification_question: string;
-  clarification_options: string[];
+  objective: string;
+  summary: string;
+  facts: Array<{ category: string; fact: string; confidence: "high" | "medium"; journal: boolean }>;
+  openQuestions: string[];
 };
 
-const ACTION_FLOWCHART_FORMAT = {
-  type: "json_schema" as const,
-  name: "ernesto_action_flowchart",
-  description: "Un plan d'action Ernesto sous forme de diagramme de flux opérationnel.",
-  strict: true,
-  schema: {
-    type: "object",
-    additionalProperties: false,
-    properties: {
-      answer: {
-        type: "string",
-        description: "Décision résumée en une à trois phrases, sans recopier le diagramme.",
-      },
-      flowchart: {
-        type: "object",
-        additionalProperties: false,
-        properties: {
-          title: { type: "string" },
-          start: { type: "string" },
-          steps: {
-            type: "array",
-            minItems: 3,
-            maxItems: 5,
-            items: {
-              type: "object",
-              additionalProperties: false,
-              properties: {
-                action: { type: "string" },
-                control: { type: "string" },
-                if_ok: { type: "string" },
-                if_not: { type: "string" },
-              },
-              required: ["action", "control", "if_ok", "if_not"],
-            },
-          },
-          outcome: { type: "string" },
-          caution: { type: "string" },
-          clarification_required: { type: "boolean" },
-          clarification_question: {
-            type: "string",
-            description: "Une seule question décisive, ou une chaîne vide si aucune précision n'est nécessaire.",
-          },
-          clarification_options: {
-            type: "array",
-            maxItems: 3,
-            items: { type: "string" },
-            description: "Deux ou trois réponses courtes si une précision est nécessaire, sinon un tableau vide.",
-          },
-        },
-        required: [
-          "title",
-          "start",
-          "steps",
-          "outcome",
-          "caution",
-          "clarification_required",
-          "clarification_question",
-          "clarification_options",
-        ],
-      },
-    },
-    required: ["answer", "flowchart"],
-  },
+function cleanMemoryRow(value: unknown): DossierMemory | null {
+  const row = objectRecord(value);
+  if (!row) return null;
+  const facts = Array.isArray(row.facts)
+    ? row.facts
+        .map((item: unknown) => {
+          const fact = objectRecord(item);
+          return {
+            category: cleanHistoryText(fact?.category, 60) || "Repère",
+            fact: cleanHistoryText(fact?.fact, 260),
+            confidence: fact?.confidence === "medium" ? ("medium" as const) : ("high" as const),
+            journal: fact?.source === "journal",
+          };
+        })
+        .filter((item) => item.fact)
+        .slice(0, 10)
+    : [];
+  const openQuestions = Array.isArray(row.open_questions)
+    ? row.open_questions.map((q: unknown) => cleanHistoryText(q, 220)).filter(Boolean).slice(0, 3)
+    : [];
+  return {
+    title: cleanHistoryText(row.title, 120),
+    objective: cleanHistoryText(row.objective, 600),
+    summary: cleanHistoryText(row.summary, 850),
+    facts,
+    openQuestions,
+  };
+}
+
+// Durable dossier memory is written by /api/dossier-memory. Confidence is kept
+// visible so the model can tell what the user stated from what still needs checking.
+function buildMemorySection(memory: DossierMemory | null) {
+  if (!memory || (!memory.summary && !memory.facts.length)) return "";
+  const lines = [
+    memory.title ? `Dossier : ${memory.title}` : "",
+    memory.objective ? `Objectif : ${memory.objective}` : "",
+    memory.summary ? `Synthèse : ${memory.summary}` : "",
+    memory.facts.length
+      ? `Repères mémorisés :\n${memory.facts
+          .map((item) =>
+            `- [${item.journal ? "saisi par l’utilisateur" : item.confidence === "high" ? "confiance haute" : "confiance moyenne"}] ${item.category} : ${item.fact}`
+          )
+          .join("\n")}`
+      : "",
+    memory.openQuestions.length
+      ? `Questions encore ouvertes :\n${memory.openQuestions.map((q) => `- ${q}`).join("\n")}`
+      : "",
+  ].filter(Boolean);
+
+  return `
+MÉMOIRE DURABLE DU DOSSIER :
+- Ces repères proviennent des échanges antérieurs de ce dossier. Utilise-les pour assurer la continuité, sans annoncer que tu consultes une mémoire.
+- Un repère en confiance haute peut être tenu pour acquis ; un repère en confiance moyenne doit être confirmé avant d’en faire la base d’une décision.
+- Un repère « saisi par l’utilisateur » vient de son journal de cuisson : c’est une mesure ou une observation réelle, pas une hypothèse.
+- Si la question actuelle contredit un repère, la question actuelle prévaut.
+${lines.join("\n")}
+`.trim();
+}
+
+// Stored prices and menu items are only loaded for economics questions.
+const FOOD_COST_PATTERN = /(co[ûu]t|marge|rentab|prix|food ?cost|tarif|carte|menu|hausse|euros?|€)/i;
+
+// The levain log is only read when the question is about the starter.
+const LEVAIN_PATTERN = /(levain|lievito|pasta madre|p[âa]te[- ]m[èe]re|starter|rafra[iî]chi|rinfresc)/i;
+const LEVAIN_LOG_LIMIT = 24;
+
+// The dossier's bake journal is offered as a tool when the question is about
+// results, trials or the parameters it records.
+const BAKE_JOURNAL_PATTERN =
+  /(journal|cuisson|cuit|fourn[ée]e|essai|test|r[ée]sultat|note|tendance|progr[èe]s|am[ée]lior|compar|hydrat|four|froid|maturation)/i;
+const BAKE_JOURNAL_LIMIT = 60;
+
+type LevainStarterRow = {
+  id: number;
+  name: string;
+  hydration: number;
+  flour: string;
+  storage_temp: number;
+  notes: string;
+};
+
+type LevainLogRow = {
+  starter_id: number;
+  kind: "feeding" | "observation";
+  logged_at: string;
+  seed_g: number | null;
+  flour_g: number | null;
+  water_g: number | null;
+  temperature: number | null;
+  rise_percent: number | null;
+  hours_to_peak: number | null;
+  smell: string;
+  acidity: string | null;
+  note: string;
 };
 
-function cleanFlowchartText(value: unknown, maxLength: number) {
-  return String(value || "").replace(/\s+/g, " ").trim().slice(0, maxLength);
+function levainLogLine(entry: LevainLogRow) {
+  const when = entry.logged_at.slice(0, 16).replace("T", " ");
+  const parts =
+    entry.kind === "feeding"
+      ? [`rafraîchi ${entry.seed_g ?? "?"} g + ${entry.flour_g ?? "?"} g farine + ${entry.water_g ?? "?"} g eau`]
+      : ["observation"];
+  if (entry.temperature !== null) parts.push(`${entry.temperature} °C`);
+  if (entry.hours_to_peak !== null) parts.push(`pic en ${entry.hours_to_peak} h`);
+  if (entry.rise_percent !== null) parts.push(`montée ${entry.rise_percent} %`);
+  if (entry.smell) parts.push(`odeur : ${entry.smell}`);
+  if (entry.acidity) parts.push(`acidité ${entry.acidity}`);
+  if (entry.note) parts.push(entry.note);
+  return `- ${when} UTC : ${parts.join(", ")}`;
 }
 
-function objectRecord(value: unknown): Record<string, unknown> | null {
-  return value !== null && typeof value === "object" && !Array.isArray(value)
-    ? (value as Record<string, unknown>)
-    : null;
+// Feedings and observations logged through /api/levain, oldest first so the
+// model reads the starter's evolution in order.
+function buildLevainSection(starters: LevainStarterRow[], logs: LevainLogRow[]) {
+  if (!starters.length) return "";
+  const blocks = starters.map((starter) => {
+    const entries = logs.filter((entry) => entry.starter_id === starter.id);
+    const speed = levainSpeedFactor(
+      entries.filter((entry) => entry.kind === "feeding"),
+      Number(starter.hydration)
+    );
+    return [
+      `Levain « ${starter.name} » : hydratation ${starter.hydration} %${starter.flour ? `, farine ${starter.flour}` : ""}, conservé à ${starter.storage_temp} °C.`,
+      starter.notes ? `Notes : ${starter.notes}` : "",
+      speed.samples
+        ? `Vitesse mesurée sur ${speed.samples} rafraîchi(s) : ×${speed.factor} par rapport à la référence (au-dessus de 1 = plus lent).`
+        : "",
+      entries.length ? `Journal :\n${entries.slice().reverse().map(levainLogLine).join("\n")}` : "Journal : aucune entrée.",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return `
+JOURNAL DU LEVAIN DE L’UTILISATEUR :
+- Ces données ont été saisies par l’utilisateur. Appuie ton diagnostic sur elles (ratios, températures, temps jusqu’au pic, acidité) et cite les entrées qui le justifient.
+- Si une information décisive manque au journal, demande-la plutôt que de la supposer.
+${blocks.join("\n\n")}
+`.trim();
 }
 
-function parseActionFlowchart(raw: string): { answer: string; flowchart: ActionFlowchart } | null {
-  const cleaned = raw
-    .trim()
-    .replace(/^```json\s*/i, "")
-    .replace(/^```\s*/i, "")
-    .replace(/```$/i, "")
-    .trim();
-  const first = cleaned.indexOf("{");
-  const last = cleaned.lastIndexOf("}");
-  if (first < 0 || last <= first) return null;
+// Calculator charts go first: they are exact, the generated ones are illustrative.
+function withToolCharts(graph: Graph | null, charts: ToolChart[]) {
+  if (!charts.length) return graph;
+  if (graph) return { ...graph, charts: [...charts, ...graph.charts] };
+  return {
+    title: charts[0].title,
+    summary: charts[0].description,
+    confidence: 1,
+    charts,
+    checklist: [],
+    recap_table: { columns: ["Élément", "Synthèse"], rows: [], note: "" },
+    questions: [],
+  };
+}
 
-  try {
-    const parsed = objectRecord(JSON.parse(cleaned.slice(first, last + 1)));
-    const flow = objectRecord(parsed?.flowchart);
-    const steps = Array.isArray(flow?.steps)
-      ? flow.steps
-          .slice(0, 5)
-          .map((value: unknown) => {
-            const step = objectRecord(value);
-            return {
-              action: cleanFlowchartText(step?.action, 220),
-              control: cleanFlowchartText(step?.control, 200),
-              if_ok: cleanFlowchartText(step?.if_ok, 180),
-              if_not: cleanFlowchartText(step?.if_not, 220),
-            };
-          })
-          .filter((step: ActionFlowchartStep) =>
-            Boolean(step.action && step.control && step.if_ok && step.if_not)
-          )
-      : [];
-
-    const answer = cleanFlowchartText(parsed?.answer, 900);
-    const flowchart: ActionFlowchart = {
-      title: cleanFlowchartText(flow?.title, 120),
-      start: cleanFlowchartText(flow?.start, 180),
-      steps,
-      outcome: cleanFlowchartText(flow?.outcome, 220),
-      caution: cleanFlowchartText(flow?.caution, 220),
-      clarification_required: flow?.clarification_required === true,
-      clarification_question: cleanFlowchartText(flow?.clarification_question, 220),
-      clarification_options: Array.isArray(flow?.clarification_options)
-        ? flow.clarification_options
-            .map((option: unknown) => cleanFlowchartText(option, 100))
-            .filter(Boolean)
-            .slice(0, 3)
-        : [],
-    };
+const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no",
+};
 
-    if (
-      flowchart.clarification_required &&
-      (!flowchart.clarification_question || flowchart.clarification_options.length < 2)
-    ) {
-      flowchart.clarification_required = false;
-      flowchart.clarification_question = "";
-      flowchart.clarification_options = [];
-    }
+type TutorStreamEvent =
+  | "meta"
+  | "delta"
+  | "answer"
+  | "flowchart"
+  | "tools"
+  | "rag"
+  | "graph"
+  | "diagnosis"
+  | "usage"
+  | "done"
+  | "error";
 
-    if (!answer || !flowchart.title || !flowchart.start || !flowchart.outcome || steps.length < 3) {
-      return null;
-    }
-    return { answer, flowchart };
-  } catch {
-    return null;
-  }
+function objectRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
 }
 
 function normalizeEmailForAccess(raw: unknown) {
@@ -388,15 +550,31 @@ async function ensureV14ClosedAccess(params: {
 }
 
 export async function POST(req: Request) {
+  const requestStartedAt = new Date().toISOString();
   try {
     const ct = req.headers.get("content-type") || "";
 
     let message = "";
     let contextText: string | undefined = undefined;
     const imageDataUrls: string[] = [];
+    // Raw uploads, archived once the user and the dossier are known.
+    const imageBuffers: Buffer[] = [];
     let speedRaw: string | undefined = undefined;
     let responseIndexRaw: string | number | undefined = undefined;
     let presentationRaw: string | undefined = undefined;
+    let historyRaw: unknown = undefined;
+    let streamRaw: unknown = undefined;
+    let projectIdRaw: unknown = undefined;
+    // Conversation log fields: the dossier as the client shows it and the ids
+    // of both chat bubbles, so a replayed request does not duplicate messages.
+    let projectTitleRaw: unknown = undefined;
+    let projectObjectiveRaw: unknown = undefined;
+    let projectColorRaw: unknown = undefined;
+    let userMessageIdRaw: unknown = undefined;
+    let answerMessageIdRaw: unknown = undefined;
+    // An archived photo of the dossier to compare the new one against.
+    let comparePhotoIdRaw: unknown = undefined;
+    const imageMeta: Array<{ type: string; size: number; label: string | null; photo_id: number | null }> = [];
 
     if (ct.includes("multipart/form-data")) {
       const form = await req.formData();
@@ -405,6 +583,15 @@ export async function POST(req: Request) {
       speedRaw = ((form.get("speed") as string | null) ?? undefined) || undefined;
       responseIndexRaw = ((form.get("responseIndex") as string | null) ?? undefined) || undefined;
       presentationRaw = ((form.get("presentation") as string | null) ?? undefined) || undefined;
+      historyRaw = form.get("history") ?? undefined;
+      streamRaw = form.get("stream") ?? undefined;
+      projectIdRaw = form.get("projectId") ?? undefined;
+      projectTitleRaw = form.get("projectTitle") ?? undefined;
+      projectObjectiveRaw = form.get("projectObjective") ?? undefined;
+      projectColorRaw = form.get("projectColor") ?? undefined;
+      userMessageIdRaw = form.get("userMessageId") ?? undefined;
+      answerMessageIdRaw = form.get("answerMessageId") ?? undefined;
+      comparePhotoIdRaw = form.get("comparePhotoId") ?? undefined;
 
       const legacyImage = form.get("image");
       const files = [...form.getAll("images"), legacyImage]
@@ -421,6 +608,8 @@ export async function POST(req: Request) {
         const base64 = buf.toString("base64");
         const mime = file.type || "image/jpeg";
         imageDataUrls.push(`data:${mime};base64,${base64}`);
+        imageBuffers.push(buf);
+        imageMeta.push({ type: mime, size: file.size, label: null, photo_id: null });
       }
     } else {
       const body = (await req.json()) as {
@@ -429,16 +618,33 @@ export async function POST(req: Request) {
         speed?: string;
         responseIndex?: number | string;
         presentation?: string;
+        history?: unknown;
+        stream?: boolean | string;
+        projectId?: string;
+        projectTitle?: string;
+        projectObjective?: string;
+        projectColor?: string;
+        userMessageId?: string;
+        answerMessageId?: string;
       };
       message = (body.message ?? "").trim();
       contextText = body.contextText;
       speedRaw = body.speed;
       responseIndexRaw = body.responseIndex;
       presentationRaw = body.presentation;
+      historyRaw = body.history;
+      streamRaw = body.stream;
+      projectIdRaw = body.projectId;
+      projectTitleRaw = body.projectTitle;
+      projectObjectiveRaw = body.projectObjective;
+      projectColorRaw = body.projectColor;
+      userMessageIdRaw = body.userMessageId;
+      answerMessageIdRaw = body.answerMessageId;
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json({ error: "Missing OPENAI_API_KEY" }, { status: 500 });
+    const aiConfigError = aiConfigurationError();
+    if (aiConfigError) {
+      return NextResponse.json({ error: aiConfigError }, { status: 500 });
     }
     if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
       return NextResponse.json(
@@ -456,10 +662,17 @@ export async function POST(req: Request) {
       !wantsActionFlowchart && (normalizedSpeed === "APPROFONDIE" || normalizedSpeed === "ECOLE")
         ? "ECOLE"
         : "BANCO";
+    const history = budgetHistory(cleanHistory(historyRaw));
+    const projectId = cleanHistoryText(projectIdRaw, 120);
+    const projectTitle = cleanHistoryText(projectTitleRaw, 120);
+    const projectObjective = cleanHistoryText(projectObjectiveRaw, 600);
+    const wantsStream =
+      streamRaw === true ||
+      String(streamRaw || "").toLowerCase() === "true" ||
+      (req.headers.get("accept") || "").includes("text/event-stream");
     const responseIndex = Number(responseIndexRaw ?? 0);
     const shouldMentionEPPPN =
       Number.isFinite(responseIndex) && responseIndex > 0 && responseIndex % 3 === 0;
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
     const supabase = createClient(
       process.env.SUPABASE_URL,
       process.env.SUPABASE_SERVICE_ROLE_KEY
@@ -486,6 +699,9 @@ export async function POST(req: Request) {
     }
 
     const userId = user.id;
+    // Every model call of this request goes through the ledger.
+    const ledger = createUsageLedger(supabase, { route: "tutor", userId, projectId: projectId || null });
+    const ai = ledger.provider;
     const now = new Date();
     const userEmail = (user.email || "").trim().toLowerCase();
 
@@ -550,6 +766,7 @@ export async function POST(req: Request) {
           is_pro: boolean;
           is_admin: boolean;
           plan?: string;
+          quota?: QuotaStatus;
         }
       | undefined = undefined;
 
@@ -629,196 +846,380 @@ export async function POST(req: Request) {
       );
     }
 
-    const emb = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: message,
+    const pricing = { monthly_eur: 19, yearly_eur: 149 };
+
+    // Quotas are taken before any model call. If the quota store fails the
+    // request goes through: the usage ledger still records it.
+    const quotaPlan: QuotaPlan = isAdmin ? "admin" : isPaidPro ? "pro" : "trainee";
+    const wantsGraph = responseMode === "ECOLE" && looksQuantifiable(message);
+    let graphAllowed = wantsGraph;
+    try {
+      const quota = await consumeQuota(supabase, {
+        userId,
+        plan: quotaPlan,
+        images: imageBuffers.length,
+        graph: wantsGraph,
+      });
+      usageMeta.used = quota.status.used.day;
+      usageMeta.remaining = quota.status.remaining.day ?? 999999;
+      usageMeta.safety_limit = quota.status.limits.per_day ?? 999999;
+      usageMeta.quota = quota.status;
+      if (!quota.ok) {
+        return NextResponse.json(
+          {
+            error: "quota_exceeded",
+            quota_exceeded: true,
+            reason: quota.reason,
+            message: quotaMessage(quota.reason, quota.limit, quota.retryAfter),
+            retry_after: quota.retryAfter,
+            usage: usageMeta,
+          },
+          { status: 429, headers: { "Retry-After": String(quota.retryAfter) } }
+        );
+      }
+      graphAllowed = quota.graph;
+    } catch (quotaErr) {
+      console.warn("v14.6 tutor quotas:", quotaErr instanceof Error ? quotaErr.message : quotaErr);
+    }
+
+    // The user's prompt variant: registry versions drawn for them, or the
+    // built-in templates.
+    const prompts = await loadPromptSet(supabase, userId);
+    const promptMeta = { variant: prompts.variant, versions: prompts.versions };
+
+    // Photos sent from a dossier are archived (re-encoded without metadata) and
+    // the archived version is what the model sees. Outside a dossier, or if the
+    // archive fails, the upload is used as received.
+    const archivedPhotoIds: number[] = [];
+    if (projectId) {
+      for (const [index, body] of imageBuffers.entries()) {
+        try {
+          const { photo, image } = await archivePhoto(supabase, {
+            userId,
+            projectId,
+            source: "tutor",
+            label: message,
+            body,
+          });
+          imageDataUrls[index] = `data:image/jpeg;base64,${image.toString("base64")}`;
+          imageMeta[index] = { type: "image/jpeg", size: image.length, label: null, photo_id: photo.id };
+          archivedPhotoIds.push(photo.id);
+        } catch (archiveErr) {
+          console.warn("v14.6 tutor photo archive:", archiveErr instanceof Error ? archiveErr.message : archiveErr);
+        }
+      }
+    }
+
+    // One new photo plus an earlier one of the same dossier: the earlier photo
+    // becomes AVANT and the new one APRÈS, as if both had been sent together.
+    let comparedPhotoId: number | null = null;
+    let comparedPhotoDate = "";
+    const comparePhotoId = Number(comparePhotoIdRaw);
+    if (projectId && imageDataUrls.length === 1 && Number.isSafeInteger(comparePhotoId) && comparePhotoId > 0) {
+      const { data: earlier, error: earlierErr } = await supabase
+        .from("ernesto_photos")
+        .select(PHOTO_COLUMNS)
+        .eq("user_id", userId)
+        .eq("project_id", projectId)
+        .eq("id", comparePhotoId)
+        .maybeSingle();
+      if (earlierErr) console.warn("v14.6 tutor photo comparison:", earlierErr.message);
+      const earlierUrl = earlier ? await photoDataUrl(supabase, earlier as ArchivedPhoto).catch(() => null) : null;
+      if (earlier && earlierUrl) {
+        imageDataUrls.unshift(earlierUrl);
+        imageMeta.unshift({ type: "image/jpeg", size: earlier.bytes, label: null, photo_id: earlier.id });
+        comparedPhotoId = earlier.id;
+        comparedPhotoDate = String(earlier.created_at).slice(0, 10);
+      }
+    }
+
+    let dossierMemory: DossierMemory | null = null;
+    if (projectId) {
+      const { data: memoryRow, error: memoryErr } = await supabase
+        .from("ernesto_dossier_memory")
+        .select("title,objective,summary,facts,open_questions")
+        .eq("user_id", userId)
+        .eq("project_id", projectId)
+        .maybeSingle();
+      if (memoryErr) {
+        // Memory is an enhancement: the answer is still useful without it.
+        console.warn("v14.6 tutor dossier memory:", memoryErr.message);
+      }
+      dossierMemory = cleanMemoryRow(memoryRow);
+    }
+    const memorySection = buildMemorySection(dossierMemory);
+
+    let levainSection = "";
+    let levainEntries = 0;
+    if (LEVAIN_PATTERN.test(`${message} ${history.lastUserText}`)) {
+      const { data: starters, error: startersErr } = await supabase
+        .from("ernesto_levain_starters")
+        .select("id,name,hydration,flour,storage_temp,notes")
+        .eq("user_id", userId)
+        .order("updated_at", { ascending: false })
+        .limit(3);
+      if (startersErr) console.warn("v14.6 tutor levain starters:", startersErr.message);
+      if (starters?.length) {
+        const { data: logs, error: logsErr } = await supabase
+          .from("ernesto_levain_logs")
+          .select("starter_id,kind,logged_at,seed_g,flour_g,water_g,temperature,rise_percent,hours_to_peak,smell,acidity,note")
+          .eq("user_id", userId)
+          .in("starter_id", starters.map((starter) => starter.id))
+          .order("logged_at", { ascending: false })
+          .limit(LEVAIN_LOG_LIMIT);
+        if (logsErr) console.warn("v14.6 tutor levain log:", logsErr.message);
+        levainSection = buildLevainSection(starters as LevainStarterRow[], (logs || []) as LevainLogRow[]);
+        levainEntries = logs?.length ?? 0;
+      }
+    }
+
+    const toolContext: TutorToolContext = {};
+    if (projectId && BAKE_JOURNAL_PATTERN.test(`${message} ${history.lastUserText}`)) {
+      const { data: bakeLogs, error: bakeLogsErr } = await supabase
+        .from("ernesto_bake_logs")
+        .select(BAKE_LOG_COLUMNS)
+        .eq("user_id", userId)
+        .eq("project_id", projectId)
+        .order("baked_at", { ascending: false })
+        .limit(BAKE_JOURNAL_LIMIT);
+      if (bakeLogsErr) console.warn("v14.6 tutor bake journal:", bakeLogsErr.message);
+      toolContext.bakeLogs = (bakeLogs || []) as BakeLog[];
+    }
+    if (FOOD_COST_PATTERN.test(`${message} ${history.lastUserText}`)) {
+      const [pricesResult, itemsResult] = await Promise.all([
+        supabase.from("ernesto_ingredient_prices").select("name,unit,price").eq("user_id", userId).limit(200),
+        supabase
+          .from("ernesto_menu_items")
+          .select("name,sale_price,vat_rate,ball_weight,dough,toppings")
+          .eq("user_id", userId)
+          .order("updated_at", { ascending: false })
+          .limit(40),
+      ]);
+      const catalogErr = pricesResult.error || itemsResult.error;
+      if (catalogErr) console.warn("v14.6 tutor food cost catalog:", catalogErr.message);
+      try {
+        toolContext.foodCost = {
+          prices: parseIngredientPrices(pricesResult.data || []),
+          items: parseStoredMenuItems(itemsResult.data || []),
+        };
+      } catch (catalogParseErr) {
+        console.warn("v14.6 tutor food cost catalog:", catalogParseErr);
+      }
+    }
+
+    // A cached answer is served like a fresh one, without retrieval or model
+    // call, and logged in the conversation as usual.
+    async function respondFromCache(hit: { answer: CachedAnswer; similarity: number }) {
+      const { answer } = hit;
+      const flowchart = (answer.flowchart as ActionFlowchart | null) ?? null;
+      const cache = { hit: true, similarity: hit.similarity, cached_at: answer.created_at };
+      await recordExchange(answer.answer_text, flowchart, answer.graph, null, answer.rag);
+      await settleUsage();
+
+      if (!wantsStream) {
+        return NextResponse.json({
+          usage: usageMeta,
+          answer_fr: answer.answer_text,
+          flowchart,
+          graph: answer.graph,
+          graph_issues: answer.graph_issues,
+          diagnosis: null,
+          tools: answer.tools,
+          source_mention: answer.source_mention,
+          rag: answer.rag,
+          mode: responseMode,
+          pricing,
+          cache,
+          prompt: promptMeta,
+        });
+      }
+
+      const encoder = new TextEncoder();
+      const events: Array<[TutorStreamEvent, unknown]> = [
+        ["meta", { mode: responseMode, source_mention: answer.source_mention, cache, prompt: promptMeta }],
+        ["answer", { answer_fr: answer.answer_text }],
+      ];
+      if (flowchart) events.push(["flowchart", { flowchart }]);
+      if (answer.tools.length) events.push(["tools", { tools: answer.tools }]);
+      events.push(["rag", { rag: answer.rag }]);
+      if (answer.graph) events.push(["graph", { graph: answer.graph, issues: answer.graph_issues }]);
+      events.push(["usage", { usage: usageMeta, pricing }], ["done", { ok: true }]);
+      const body = events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join("");
+      return new Response(encoder.encode(body), { headers: EVENT_STREAM_HEADERS });
+    }
+
+    // An off-topic, food-safety or injection question gets its registry
+    // template, without retrieval or tutor call, and is logged as usual.
+    async function respondFromScope(answerText: string, scope: Pick<QuestionScope, "label" | "action">) {
+      const cache = { hit: false, bypass: cacheBypass };
+      await recordExchange(answerText, null, null, null, null);
+      await settleUsage();
+
+      if (!wantsStream) {
+        return NextResponse.json({
+          usage: usageMeta,
+          answer_fr: answerText,
+          flowchart: null,
+          graph: null,
+          graph_issues: [],
+          diagnosis: null,
+          tools: [],
+          source_mention: false,
+          rag: null,
+          mode: responseMode,
+          pricing,
+          cache,
+          prompt: promptMeta,
+          scope,
+        });
+      }
+
+      const events: Array<[TutorStreamEvent, unknown]> = [
+        ["meta", { mode: responseMode, source_mention: false, cache, prompt: promptMeta, scope }],
+        ["answer", { answer_fr: answerText }],
+        ["usage", { usage: usageMeta, pricing }],
+        ["done", { ok: true }],
+      ];
+      const encoder = new TextEncoder();
+      const body = events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join("");
+      return new Response(encoder.encode(body), { headers: EVENT_STREAM_HEADERS });
+    }
+
+    // A question without personal context may reuse the answer given to the
+    // same (or a near-identical) question in the same mode and presentation.
+    const cacheScope: AnswerCacheScope = {
+      question: message,
+      mode: responseMode === "ECOLE" ? "ANALYSE" : "ACTION",
+      presentation: wantsActionFlowchart ? "flowchart" : "text",
+      kbVersion: "",
+      promptVariant: prompts.variant,
+    };
+    let cacheBypass: AnswerCacheBypass | null = answerCacheBypass({
+      images: imageDataUrls.length,
+      contextText,
+      historyTurns: history.used,
+      dossierMemory: Boolean(memorySection),
+      dossierObjective: Boolean(projectObjective),
+      levain: Boolean(levainSection),
+      toolData: Boolean(
+        toolContext.bakeLogs?.length || toolContext.foodCost?.prices.length || toolContext.foodCost?.items.length
+      ),
     });
-    const queryEmbedding = emb.data[0].embedding;
+    if (!cacheBypass) {
+      try {
+        cacheScope.kbVersion = await knowledgeBaseVersion(supabase);
+        const hit = await findCachedAnswer(supabase, cacheScope);
+        if (hit) return await respondFromCache(hit);
+      } catch (cacheErr) {
+        console.warn("v14.6 answer cache:", cacheErr instanceof Error ? cacheErr.message : cacheErr);
+        cacheBypass = "unavailable";
+      }
+    }
 
-    const { data: matches, error: matchErr } = await supabase.rpc("match_chunks", {
-      query_embedding: queryEmbedding,
-      match_count: 6,
+    // Labelled before any retrieval or generation. An exact cache hit was
+    // classified when it was first answered.
+    const questionScope = await classifyQuestion({
+      ai,
+      prompts,
+      question: message,
+      previousQuestion: history.lastUserText,
+      dossier: [dossierMemory?.title, dossierMemory?.objective].filter(Boolean).join(" — "),
+      imageCount: imageDataUrls.length,
+    });
+    const scopeMeta = { label: questionScope.label, action: questionScope.action };
+    // Logged for the admin page once the response is sent; the answer does
+    // not wait for it.
+    after(() =>
+      recordQuestionScope(supabase, {
+        userId,
+        projectId: projectId || null,
+        question: message,
+        scope: questionScope,
+        promptVariant: prompts.variant,
+      }).catch((scopeErr) =>
+        console.warn("v14.6 question scope insert:", scopeErr instanceof Error ? scopeErr.message : scopeErr)
+      )
+    );
+    const scopeText = scopeReply(questionScope, prompts);
+    if (scopeText) return await respondFromScope(scopeText, scopeMeta);
+
+    // "pourquoi ?" or a photo with a one-word caption retrieves nothing on its
+    // own: rewrite it from the dossier, the previous turn and the image first.
+    let retrievalQueries = [message];
+    let imageDescription = "";
+    const rewriteApplied = needsQueryRewrite(message, {
+      hasHistory: history.used > 0,
+      imageCount: imageDataUrls.length,
     });
+    if (rewriteApplied) {
+      try {
+        const rewrite = await rewriteRetrievalQueries({
+          ai,
+          prompts,
+          message,
+          previousQuestion: history.lastUserText,
+          previousAnswer: history.lastAnswerText,
+          dossier: [
+            dossierMemory?.title,
+            dossierMemory?.objective,
+            dossierMemory?.summary,
+            contextText,
+          ].filter(Boolean).join("\n"),
+          imageUrls: imageDataUrls,
+        });
+        imageDescription = rewrite.imageDescription;
+        const rewritten = Array.from(new Set([...rewrite.queries, imageDescription].filter(Boolean)));
+        if (rewritten.length) retrievalQueries = rewritten.slice(0, 4);
+      } catch (rewriteErr) {
+        console.warn("query rewrite skipped:", rewriteErr);
+      }
+    }
 
-    if (matchErr) {
-      console.warn("match_chunks error:", matchErr);
-    }
-
-    const retrieved = (matches ?? [])
-      .filter((m: any) => (m.similarity ?? 0) >= 0.2)
-      .slice(0, 6);
-
-    const retrievedContext =
-      retrieved.length > 0
-        ? retrieved
-            .map(
-              (m: any, i: number) =>
-                `CONNAISSANCE INTERNE ${i + 1} (pertinence=${(m.similarity ?? 0).toFixed(2)}):\n${m.content}`
-            )
-            .join("\n\n---\n\n")
-        : "(Aucune connaissance interne pertinente disponible.)";
-
-    const systemPrompt = `
-IDENTITÉ :
-- Tu t’appelles Ernesto. Tu es le tuteur scientifique virtuel officiel de l’EPPPN.
-- Tu t’appuies d’abord sur les connaissances et les protocoles transmis à l’EPPPN.
-- Ne te comporte pas comme un assistant généraliste.
-- Ramène la réponse vers l’observation, le geste, le protocole, le test ou l’organisation du travail.
-
-PÉRIMÈTRE D’ERNESTO :
-- Pizza, panification naturelle, pain, focaccias, farines, levain, fermentation, cuisson, équipements et organisation du travail en restauration.
-- Tu peux traiter les questions économiques ou organisationnelles lorsqu’elles concernent directement cette activité professionnelle.
-- Pour une question hors périmètre, refuse brièvement et propose une reformulation pertinente.
-
-MÉTHODE :
-- Diagnostic avant protocole.
-- Ne donne jamais une recette magique ou une solution unique sans considérer les variables décisives.
-- Raisonne notamment à partir de la farine, hydratation, température, temps, levain/levure, fermentation, pétrissage, cuisson et matériel, mais ne récite pas cette liste si elle n’est pas pertinente.
-- Quand une donnée manque, distingue clairement ce qui est observé, ce qui est probable et ce qui reste à vérifier.
-- Propose des tests simples et des corrections progressives.
-- Sois exhaustif sur les variables qui peuvent réellement changer la décision, pas encyclopédique sur tout le sujet.
-
-FIABILITÉ :
-- N’invente pas de chiffres, normes, seuils ou références précises.
-- Une valeur chiffrée doit être soutenue par les connaissances internes ou être un repère professionnel que tu peux défendre avec prudence.
-- Si tu hésites entre plusieurs causes, classe-les par plausibilité au lieu de les présenter comme équivalentes.
-- Dis ce qui ferait changer ton diagnostic.
-
-FORME MOBILE-FIRST :
-- Paragraphes courts, titres très courts et listes limitées.
-- Une idée par paragraphe.
-- Pas de bloc de code ni de JSON brut.
-- Évite les tableaux dans Action.
-- Dans Analyse, un tableau n’est autorisé que s’il clarifie vraiment une comparaison : maximum 3 colonnes et 5 lignes, cellules courtes.
-- Ne crée jamais de longues lignes artificielles, de suites de paramètres séparés par des barres verticales ou de pseudo-tableaux textuels.
-- Utilise des titres Markdown de niveau 2 (##) pour les sections afin que l’interface les rende clairement.
-
-PERSONNALISATION :
-- Ajuste le niveau au profil utilisateur et à son contexte de travail.
-- Débutant : explique le mécanisme utile avec des mots simples.
-- Professionnel : privilégie paramètres, tolérances, arbitrages et organisation.
-- N’infantilise jamais l’utilisateur.
-
-ANALYSE D’IMAGE :
-- Décris d’abord ce qui est réellement visible.
-- Distingue observation, hypothèse et contrôle à effectuer.
-- Une photo ne suffit jamais à rendre certaine une cause invisible.
-
-CONNAISSANCES INTERNES / RAG :
-- Tu raisonnes d’abord à partir des connaissances internes disponibles, issues notamment des savoirs, protocoles, pratiques et documents transmis à l’EPPPN.
-- Ces connaissances restent internes : ne parle jamais d’« extrait », de « source », de « document », de « passage » ou de « RAG » dans la réponse.
-- Reformule et synthétise ; ne copie pas de longs passages.
-- Si les connaissances internes sont partielles, complète prudemment avec tes connaissances générales sans créer une séparation artificielle entre les deux.
-- Ne contredis pas gratuitement les connaissances internes ; si une tension existe, explique l’hypothèse et propose un test pratique.
-
-TON :
-- Cordial, clair, professionnel, accessible et techniquement exigeant.
-- Pas de flatterie automatique, pas de bavardage, pas de formule commerciale.
-- Évite « excellente question », « bravo », « bien sûr » ou « avec plaisir » sauf justification réelle.
-
-RÉFÉRENCE EPPPN :
-${shouldMentionEPPPN
-  ? "Si cela sonne naturel, insère une seule mention brève de l’EPPPN. Ne la force jamais."
-  : "Ne mentionne pas explicitement l’EPPPN sauf si c’est indispensable pour répondre."}
-
-LANGUE :
-Réponds dans la langue de la question. Par défaut, réponds en français.
-
-MODE DEMANDÉ : ${responseMode === "ECOLE" ? "ANALYSE" : "ACTION"}
-
-${responseMode === "ECOLE" ? `
-MODE ANALYSE — comprendre pour mieux décider
-Objectif : fournir un raisonnement pédagogique complet mais sélectif. L’utilisateur doit comprendre ce qui se passe, savoir quoi vérifier et pouvoir adapter le protocole.
-
-Organisation adaptative :
-## Lecture du problème
-- Reformule l’observation en 1 à 3 phrases et explicite les hypothèses nécessaires.
-
-## Hypothèses classées
-- Donne 2 à 4 causes maximum, par ordre de plausibilité.
-- Pour chacune : indice en faveur, indice qui manquerait, conséquence pratique.
-
-## Mécanisme utile
-- Explique uniquement les mécanismes qui permettent de comprendre la décision. Pas de cours général hors sujet.
-
-## Variables décisives
-- Priorise 3 à 6 variables qui changent réellement le résultat ou le diagnostic.
-- Relie chaque variable à son effet attendu.
-
-## Protocole de vérification et de correction
-- Propose une séquence concrète, ordonnée, testable.
-- Sépare ce qu’il faut contrôler maintenant de ce qu’il faut modifier au prochain essai lorsque c’est pertinent.
-
-## Comment vérifier
-- Donne les signes observables qui permettront de savoir si la correction fonctionne.
-- Précise ce qui ferait changer le diagnostic.
-
-Règles :
-- Ne force pas toutes les sections si la question est simple ; fusionne celles qui se recouvrent.
-- Une bonne Analyse est exhaustive sur les causes et variables décisives, mais reste concise sur le reste.
-- Termine par 1 à 3 questions seulement si leur réponse modifierait réellement le conseil.
-` : `
-MODE ACTION — décider et agir maintenant
-Objectif : donner une réponse immédiatement exploitable au banc, au four ou dans l’organisation du service, sans devenir simpliste.
-
-Organisation adaptative :
-## Décision
-- Commence par ce que tu ferais maintenant, en 1 ou 2 phrases.
-- Si le diagnostic est incertain, dis quelle hypothèse tu privilégies et pourquoi.
-
-## Plan d’action
-- Donne 3 à 5 étapes maximum, dans l’ordre d’exécution.
-- Chaque étape doit être concrète : geste, réglage, contrôle ou décision.
-
-## Contrôle
-- Indique ce qu’il faut observer après l’action et l’effet attendu.
-- Donne un repère chiffré seulement s’il est fiable et réellement utile.
-
-## À éviter
-- Ajoute cette section uniquement s’il existe une erreur fréquente ou un risque important.
-
-Règles :
-- Pas de théorie pour elle-même.
-- Pas de répétition de la question.
-- Pas de liste générique de toutes les variables possibles.
-- Si une donnée manque, fais une hypothèse visible et pose au maximum une question qui change réellement la décision.
-- Une réponse Action peut être courte, mais elle ne doit jamais être banale : elle doit contenir un choix, un ordre d’action et un critère de contrôle.
-`}
-
-${wantsActionFlowchart ? `
-PRÉSENTATION DEMANDÉE — DIAGRAMME DE FLUX
-- Résume la décision en 1 à 3 phrases, puis construis un parcours visuel de 3 à 5 étapes.
-- Chaque étape associe une action concrète à un contrôle observable.
-- Pour chaque contrôle, indique la suite si le résultat est conforme et la correction à effectuer sinon.
-- La branche « non » doit ramener vers un nouveau contrôle, pas vers une impasse.
-- Utilise des formulations très courtes, lisibles sur téléphone, sans jargon inutile.
-- Le point de départ, le résultat attendu et l’éventuel point de vigilance doivent être explicites.
-- S'il manque une information qui changerait réellement le plan, active clarification_required et formule une seule question avec 2 ou 3 réponses courtes et mutuellement exclusives.
-- Si aucune précision décisive ne manque, clarification_required vaut false, clarification_question est vide et clarification_options est un tableau vide.
-` : ""}
-
-PHOTO (si fournie) :
-- Analyse-la comme une observation expérimentale : cornicione, alvéolage, cuisson, coloration, structure apparente.
-- Propose hypothèses + contrôles, jamais une certitude visuelle injustifiée.
-${imageDataUrls.length === 2 ? "- Deux photos sont fournies dans l'ordre AVANT puis APRÈS : compare uniquement les différences réellement visibles, puis relie-les prudemment à la correction testée." : ""}
-    `.trim();
-
-    const userPromptText = `
-CONNAISSANCES INTERNES DISPONIBLES POUR ERNESTO :
-${retrievedContext}
-
-Contexte utilisateur (optionnel) :
-${contextText ?? "(non fourni)"}
-
-Question :
-${message}
-`.trim();
+    const emb = await ai.embed(retrievalQueries);
+    // Not rewritten, the first embedding is the question's own.
+    if (!cacheBypass && !rewriteApplied) {
+      try {
+        const hit = await findSimilarCachedAnswer(supabase, cacheScope, emb.embeddings[0]);
+        if (hit) return await respondFromCache(hit);
+      } catch (cacheErr) {
+        console.warn("v14.6 answer cache:", cacheErr instanceof Error ? cacheErr.message : cacheErr);
+        cacheBypass = "unavailable";
+      }
+    }
+    const retrieval = await hybridRetrieve({
+      supabase,
+      queries: retrievalQueries.map((text, index) => ({ text, embedding: emb.embeddings[index] })),
+    });
+    const retrieved = retrieval.chunks;
+
+    const retrievedContext = formatRetrievedContext(retrieved);
+
+    const systemPrompt = prompts.render("tutor.system", {
+      memory_section: memorySection,
+      levain_section: levainSection,
+      bake_log_count: toolContext.bakeLogs?.length ?? 0,
+      mention_epppn: shouldMentionEPPPN,
+      mode_name: responseMode === "ECOLE" ? "ANALYSE" : "ACTION",
+      mode_instructions: prompts.render(responseMode === "ECOLE" ? "tutor.mode.analyse" : "tutor.mode.action"),
+      presentation_instructions: wantsActionFlowchart ? prompts.render("tutor.presentation.flowchart") : "",
+      photo_comparison: imageDataUrls.length === 2,
+      clarification_policy: prompts.render("tutor.clarification"),
+    });
+
+    const userPromptText = prompts.render("tutor.user", {
+      retrieved_context: retrievedContext,
+      context_text: contextText,
+      // A cached answer is shared by every dossier, so it is written without one.
+      dossier_title: cacheBypass ? projectTitle : "",
+      dossier_objective: cacheBypass ? projectObjective : "",
+      question: message,
+    });
 
-    const userContent: any[] = [{ type: "input_text", text: userPromptText }];
+    const userContent: AIContentPart[] = [{ type: "text", text: userPromptText }];
 
     if (imageDataUrls.length) {
       userContent.push({
-        type: "input_text",
+        type: "text",
         text: imageDataUrls.length === 2
           ? "COMPARAISON PHOTO : la première image correspond à AVANT et la seconde à APRÈS."
           : "PHOTO FOURNIE : analyse-la en priorité pour le diagnostic (en respectant les règles ci-dessus).",
@@ -826,104 +1227,445 @@ ${message}
       imageDataUrls.forEach((imageUrl, index) => {
         if (imageDataUrls.length === 2) {
           userContent.push({
-            type: "input_text",
-            text: index === 0 ? "IMAGE 1 — AVANT" : "IMAGE 2 — APRÈS",
+            type: "text",
+            text:
+              index === 0
+                ? `IMAGE 1 — AVANT${comparedPhotoDate ? ` (photo archivée du dossier, ${comparedPhotoDate})` : ""}`
+                : "IMAGE 2 — APRÈS",
           });
         }
-        userContent.push({ type: "input_image", image_url: imageUrl });
+        userContent.push({ type: "image", imageUrl });
       });
     }
 
-    const responseInput = [
-      { role: "system" as const, content: [{ type: "input_text" as const, text: systemPrompt }] },
-      { role: "user" as const, content: userContent },
+    const responseInput: AIMessage[] = [
+      { role: "system", content: systemPrompt },
+      ...history.messages,
+      { role: "user", content: userContent },
     ];
 
-    let answerText = "";
-    let flowchart: ActionFlowchart | null = null;
-
-    if (wantsActionFlowchart) {
-      try {
-        const structured = await openai.responses.create({
-          model: "gpt-4.1-mini",
-          input: responseInput,
-          text: { format: ACTION_FLOWCHART_FORMAT },
-        });
-        const parsed = parseActionFlowchart(structured.output_text ?? "");
-        if (parsed) {
-          answerText = parsed.answer;
-          flowchart = parsed.flowchart;
+    async function generateAnswer(onDelta?: (delta: string) => void) {
+      let answerText = "";
+      let flowchart: ActionFlowchart | null = null;
+      let toolCalls: AIToolCall[] = [];
+      const tools = tutorTools(toolContext);
+
+      if (wantsActionFlowchart) {
+        try {
+          const structured = await ai.structured({
+            task: "flowchart",
+            messages: responseInput,
+            schema: ACTION_FLOWCHART_FORMAT,
+            tools,
+          });
+          toolCalls = structured.toolCalls ?? [];
+          const parsed = parseActionFlowchart(structured.text);
+          if (parsed?.issues.length) console.warn("v14.6 flowchart validation:", parsed.issues.join(" | "));
+          if (parsed?.answer && parsed.flowchart) {
+            answerText = parsed.answer;
+            flowchart = parsed.flowchart;
+            // The structured answer only exists once the JSON is complete.
+            onDelta?.(answerText);
+          }
+        } catch (flowchartErr) {
+          console.warn("action flowchart generation skipped:", flowchartErr);
         }
-      } catch (flowchartErr) {
-        console.warn("action flowchart generation skipped:", flowchartErr);
       }
-    }
 
-    if (!answerText) {
-      const response = await openai.responses.create({
-        model: "gpt-4.1-mini",
-        input: responseInput,
-      });
-      answerText = response.output_text ?? "";
-    }
+      if (!answerText && onDelta) {
+        const response = await ai.chatStream({ task: "tutor", messages: responseInput, tools }, onDelta);
+        answerText = response.text;
+        toolCalls = response.toolCalls ?? [];
+      } else if (!answerText) {
+        const response = await ai.chat({ task: "tutor", messages: responseInput, tools });
+        answerText = response.text;
+        toolCalls = response.toolCalls ?? [];
+      }
 
-    let graph: any = null;
+      return { answerText, flowchart, toolCalls };
+    }
 
-    if (responseMode === "ECOLE" && looksQuantifiable(message)) {
+    // Charts the schema cannot vouch for are repaired or dropped; the reasons
+    // are logged and returned next to the graph.
+    async function generateGraph(answerText: string): Promise<GraphValidation> {
+      if (!graphAllowed) return { graph: null, issues: [] };
       try {
-        const g = await openai.responses.create({
-          model: "gpt-4.1-mini",
-          input: [
+        const g = await ai.structured({
+          task: "graph",
+          schema: GRAPH_FORMAT,
+          messages: [
+            { role: "system", content: prompts.render("graph.system") },
             {
-              role: "system",
-              content: [
-                {
-                  type: "input_text",
-                  text:
-                    "Tu génères uniquement un objet JSON strictement valide pour alimenter une interface Recharts. Pas de markdown. Pas de bloc de code. Si les données manquent, fais une visualisation pédagogique plausible et indique les hypothèses dans les notes. Utilise la langue de la question.",
-                },
-              ],
+              role: "user",
+              content: prompts.render("graph.user", {
+                previous_question: history.lastUserText.slice(0, 1200),
+                question: message,
+                answer: answerText,
+              }),
             },
+          ],
+        });
+        const validation = parseGraph(g.text);
+        if (validation.issues.length) console.warn("v14.6 graph validation:", validation.issues.join(" | "));
+        return validation;
+      } catch (graphErr) {
+        console.warn("graph generation skipped:", graphErr);
+        return { graph: null, issues: [] };
+      }
+    }
+
+    // A photo question also gets a structured reading of its latest photo (the
+    // APRÈS one in a comparison), run next to the answer. In a dossier it is
+    // stored and compared with the diagnosis of the AVANT photo, or else with
+    // the dossier's previous one. Failures only drop the panel.
+    async function diagnosePhoto(): Promise<PhotoDiagnosisResult | null> {
+      const imageUrl = imageDataUrls[imageDataUrls.length - 1];
+      if (!imageUrl) return null;
+      let diagnosis: PhotoDiagnosis | null = null;
+      let issues: string[] = [];
+      let model = "";
+      try {
+        const response = await ai.structured({
+          task: "vision",
+          schema: PHOTO_DIAGNOSIS_FORMAT,
+          messages: [
+            { role: "system", content: prompts.render("diagnosis.system") },
             {
               role: "user",
               content: [
                 {
-                  type: "input_text",
-                  text: buildGraphPrompt(message, answerText),
+                  type: "text",
+                  text: prompts.render("diagnosis.user", {
+                    question: message,
+                    objective: dossierMemory?.objective,
+                    comparison: imageDataUrls.length === 2,
+                  }),
                 },
+                { type: "image", imageUrl },
               ],
             },
           ],
         });
-        graph = parseGraphJSON(g.output_text ?? "");
-      } catch (graphErr) {
-        console.warn("graph generation skipped:", graphErr);
-        graph = null;
+        const validation = parsePhotoDiagnosis(response.text);
+        diagnosis = validation.diagnosis;
+        issues = validation.issues;
+        model = response.model;
+      } catch (diagnosisErr) {
+        console.warn("photo diagnosis skipped:", diagnosisErr);
+        return null;
+      }
+      if (issues.length) console.warn("v14.6 photo diagnosis validation:", issues.join(" | "));
+      if (!diagnosis) return null;
+
+      const photoId = imageMeta[imageMeta.length - 1]?.photo_id ?? null;
+      if (!projectId) return { id: null, photo_id: photoId, diagnosis, comparison: null, issues };
+
+      const beforePhotoId = imageMeta.length === 2 ? imageMeta[0].photo_id : null;
+      const previousQuery = () =>
+        supabase
+          .from("ernesto_photo_diagnoses")
+          .select("id,diagnosis,created_at")
+          .eq("user_id", userId)
+          .eq("project_id", projectId)
+          .order("created_at", { ascending: false })
+          .limit(1);
+      let previous = beforePhotoId ? await previousQuery().eq("photo_id", beforePhotoId) : null;
+      if (!previous?.data?.length) previous = await previousQuery();
+      if (previous.error) console.warn("v14.6 photo diagnosis previous:", previous.error.message);
+      const last = previous.data?.[0];
+      const comparison = last
+        ? compareDiagnoses({ id: last.id, created_at: last.created_at, diagnosis: last.diagnosis as PhotoDiagnosis }, diagnosis)
+        : null;
+
+      const { data: stored, error: storeErr } = await supabase
+        .from("ernesto_photo_diagnoses")
+        .insert({
+          user_id: userId,
+          project_id: projectId,
+          photo_id: photoId,
+          message_id: cleanHistoryText(answerMessageIdRaw, 80) || null,
+          diagnosis,
+          comparison,
+          model,
+        })
+        .select("id")
+        .single();
+      if (storeErr) console.warn("v14.6 photo diagnosis insert:", storeErr.message);
+      return { id: stored?.id ?? null, photo_id: photoId, diagnosis, comparison, issues };
+    }
+
+    // Both sides of the exchange go to the server-side log so dossiers follow
+    // the user across devices. A failed write never blocks the answer. Returns
+    // the id of the stored answer, null when it was not written.
+    async function recordExchange(
+      answerText: string,
+      flowchart: ActionFlowchart | null,
+      graph: unknown,
+      diagnosis: PhotoDiagnosisResult | null,
+      ragMeta: unknown
+    ): Promise<number | null> {
+      if (!answerText) return null;
+      const conversationId = projectId || "general";
+      const now = new Date().toISOString();
+      const { error: conversationErr } = await supabase.from("ernesto_conversations").upsert(
+        {
+          user_id: userId,
+          project_id: conversationId,
+          title: projectTitle || dossierMemory?.title || "Dossier général",
+          objective: projectObjective || dossierMemory?.objective || "",
+          color: cleanHistoryText(projectColorRaw, 20) || null,
+          updated_at: now,
+        },
+        { onConflict: "user_id,project_id" }
+      );
+      if (conversationErr) {
+        console.warn("v14.6 conversation upsert:", conversationErr.message);
+        return null;
+      }
+
+      if (imageMeta.length === 2) {
+        imageMeta[0].label = "AVANT";
+        imageMeta[1].label = "APRÈS";
+      }
+      const mode = responseMode === "ECOLE" ? "ANALYSE" : "ACTION";
+      const { data: stored, error: messagesErr } = await supabase.from("ernesto_messages").upsert(
+        [
+          {
+            user_id: userId,
+            project_id: conversationId,
+            client_message_id: cleanHistoryText(userMessageIdRaw, 80) || randomUUID(),
+            role: "user",
+            text: message,
+            mode,
+            presentation: wantsActionFlowchart ? "flowchart" : "text",
+            images: imageMeta,
+            created_at: requestStartedAt,
+          },
+          {
+            user_id: userId,
+            project_id: conversationId,
+            client_message_id: cleanHistoryText(answerMessageIdRaw, 80) || randomUUID(),
+            role: "ernesto",
+            text: answerText,
+            mode,
+            presentation: wantsActionFlowchart ? "flowchart" : "text",
+            flowchart,
+            graph: graph ?? null,
+            diagnosis,
+            rag: ragMeta,
+            prompt_versions: prompts.versions,
+            prompt_variant: prompts.variant,
+            created_at: now,
+          },
+        ],
+        { onConflict: "user_id,project_id,client_message_id", ignoreDuplicates: true }
+      ).select("id,role");
+      if (messagesErr) console.warn("v14.6 conversation messages insert:", messagesErr.message);
+      return stored?.find((row) => row.role === "ernesto")?.id ?? null;
+    }
+
+    // Only the shared answer is stored: not one whose graph was dropped by the
+    // user's graph quota.
+    async function cacheAnswer(
+      answerText: string,
+      flowchart: ActionFlowchart | null,
+      graph: unknown,
+      graphIssues: string[],
+      toolCalls: AIToolCall[]
+    ) {
+      if (cacheBypass || !answerText || graphAllowed !== wantsGraph) return;
+      await storeCachedAnswer(supabase, cacheScope, {
+        answer_text: answerText,
+        flowchart,
+        graph: graph ?? null,
+        graph_issues: graphIssues,
+        tools: toolCalls,
+        rag,
+        source_mention: shouldMentionEPPPN,
+        embedding: rewriteApplied ? null : emb.embeddings[0],
+      });
+    }
+
+    // Admin-only grounding record; it never reaches the user's response. The
+    // map is computed next to the graph and stored once the answer has an id.
+    async function mapCitations(answerText: string): Promise<CitationMap | null> {
+      if (!answerText) return null;
+      try {
+        return await buildCitationMap({ ai, answer: answerText, chunks: retrieved });
+      } catch (citationErr) {
+        console.warn("citation map skipped:", citationErr);
+        return null;
       }
     }
 
-    return NextResponse.json({
-      usage: usageMeta,
-      answer_fr: answerText,
-      flowchart,
-      graph,
-      source_mention: shouldMentionEPPPN,
-      rag: {
-        used: retrieved.length,
-        top: retrieved.map((m: any) => ({
-          similarity: m.similarity,
-          chunk_index: m.chunk_index,
-          document_id: m.document_id,
-        })),
+    async function recordCitations(messageId: number | null, answerText: string, citations: CitationMap | null) {
+      if (!messageId || !citations) return;
+      const { error: citationErr } = await supabase.from("ernesto_answer_citations").insert({
+        message_id: messageId,
+        user_id: userId,
+        project_id: projectId || null,
+        mode: responseMode === "ECOLE" ? "ANALYSE" : "ACTION",
+        question: message.slice(0, 2000),
+        answer_excerpt: answerText.slice(0, 4000),
+        passages: citations.passages,
+        sections: citations.sections,
+        unsupported_figures: citations.unsupported_figures,
+        model: citations.model,
+      });
+      if (citationErr) console.warn("v14.6 answer citations insert:", citationErr.message);
+    }
+
+    const rag = {
+      used: retrieved.length,
+      top: retrieved.map((m) => ({
+        similarity: m.similarity,
+        text_rank: m.text_rank,
+        coverage: m.coverage,
+        score: m.score,
+        sources: m.sources,
+        chunk_index: m.chunk_index,
+        chunks: m.merged_chunks,
+        document_id: m.document_id,
+      })),
+      rewrite: {
+        applied: rewriteApplied,
+        queries: retrievalQueries,
+        image_description: imageDescription || null,
       },
-      mode: responseMode,
-      pricing: { monthly_eur: 19, yearly_eur: 149 },
-      vision: {
-        received_image: imageDataUrls.length > 0,
-        received_images: imageDataUrls.length,
-        comparison: imageDataUrls.length === 2,
+      trace: retrieval.trace,
+    };
+    const historyMeta = {
+      used: history.used,
+      dropped: history.dropped,
+      estimated_tokens: history.tokens,
+    };
+    const memoryMeta = {
+      project_id: projectId || null,
+      used: Boolean(memorySection),
+      facts: memorySection ? dossierMemory?.facts.length ?? 0 : 0,
+    };
+    const levainMeta = {
+      used: Boolean(levainSection),
+      entries: levainEntries,
+    };
+    const bakeJournalMeta = {
+      offered: Boolean(toolContext.bakeLogs?.length),
+      entries: toolContext.bakeLogs?.length ?? 0,
+    };
+    const vision = {
+      received_image: imageDataUrls.length > 0,
+      received_images: imageDataUrls.length,
+      comparison: imageDataUrls.length === 2,
+      archived_photo_ids: archivedPhotoIds,
+      compared_photo_id: comparedPhotoId,
+    };
+
+    // The ledger is written before usage is reported, so today's figures
+    // include this request. `used` comes from the quota counters, and from the
+    // ledger only when they were unavailable.
+    async function settleUsage() {
+      await ledger.flush();
+      const today = await dailyUsage(supabase, userId);
+      if (today && usageMeta) {
+        if (!usageMeta.quota) usageMeta.used = today.routes.tutor?.requests ?? 0;
+        usageMeta.usage_cost = Number(today.costUsd.toFixed(4));
+      }
+    }
+
+    if (!wantsStream) {
+      const diagnosing = diagnosePhoto();
+      const { answerText, flowchart, toolCalls } = await generateAnswer();
+      const [generated, citations, diagnosis] = await Promise.all([
+        generateGraph(answerText),
+        mapCitations(answerText),
+        diagnosing,
+      ]);
+      const graph = withToolCharts(generated.graph, toolCharts(toolCalls));
+      const [messageId] = await Promise.all([
+        recordExchange(answerText, flowchart, graph, diagnosis, rag),
+        cacheAnswer(answerText, flowchart, graph, generated.issues, toolCalls),
+      ]);
+      await recordCitations(messageId, answerText, citations);
+      await settleUsage();
+
+      return NextResponse.json({
+        usage: usageMeta,
+        answer_fr: answerText,
+        flowchart,
+        graph,
+        graph_issues: generated.issues,
+        diagnosis,
+        tools: toolCalls,
+        source_mention: shouldMentionEPPPN,
+        rag,
+        history: historyMeta,
+        memory: memoryMeta,
+        levain: levainMeta,
+        bake_journal: bakeJournalMeta,
+        mode: responseMode,
+        pricing,
+        vision,
+        cache: { hit: false, bypass: cacheBypass },
+        prompt: promptMeta,
+        scope: scopeMeta,
+      });
+    }
+
+    // Server-Sent Events: text deltas first so the "Décision" section is
+    // readable at the bench, then each structured block as its own event.
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: TutorStreamEvent, data: unknown) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        try {
+          send("meta", {
+            mode: responseMode,
+            source_mention: shouldMentionEPPPN,
+            history: historyMeta,
+            memory: memoryMeta,
+            levain: levainMeta,
+            bake_journal: bakeJournalMeta,
+            vision,
+            cache: { hit: false, bypass: cacheBypass },
+            prompt: promptMeta,
+            scope: scopeMeta,
+          });
+          const diagnosing = diagnosePhoto();
+          const { answerText, flowchart, toolCalls } = await generateAnswer((delta) => send("delta", { text: delta }));
+          send("answer", { answer_fr: answerText });
+          if (flowchart) send("flowchart", { flowchart });
+          if (toolCalls.length) send("tools", { tools: toolCalls });
+          send("rag", { rag });
+          const diagnosis = await diagnosing;
+          if (diagnosis) send("diagnosis", { diagnosis });
+          const [generated, citations] = await Promise.all([generateGraph(answerText), mapCitations(answerText)]);
+          const graph = withToolCharts(generated.graph, toolCharts(toolCalls));
+          if (graph) send("graph", { graph, issues: generated.issues });
+          const [messageId] = await Promise.all([
+            recordExchange(answerText, flowchart, graph, diagnosis, rag),
+            cacheAnswer(answerText, flowchart, graph, generated.issues, toolCalls),
+          ]);
+          await recordCitations(messageId, answerText, citations);
+          await settleUsage();
+          send("usage", { usage: usageMeta, pricing });
+          send("done", { ok: true });
+        } catch (streamErr) {
+          console.error("tutor stream failed:", streamErr);
+          send("error", {
+            error: "Server error",
+            details: streamErr instanceof Error ? streamErr.message : String(streamErr),
+          });
+        } finally {
+          await ledger.flush();
+          controller.close();
+        }
       },
     });
+
+    return new Response(body, { headers: EVENT_STREAM_HEADERS });
   } catch (e: any) {
     console.error(e);
     return NextResponse.json(
@@ -2,7 +2,6 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import ErnestoUiCleanup from "./ErnestoUiCleanup";
 import ErnestoV144Enhancer from "./ErnestoV144Enhancer";
-import ErnestoSmartClarification from "./ErnestoSmartClarification";
 import ErnestoConversationFocus from "./ErnestoConversationFocus";
 import "./globals.css";
 import "./ernesto-v14-3-responsive.css";
@@ -10,6 +9,7 @@ import "./ernesto-v14-4.css";
 import "./ernesto-v14-5.css";
 import "./ernesto-v14-5-2.css";
 import "./ernesto-v14-5-3.css";
+import "./ernesto-v14-6.css";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -36,7 +36,6 @@ export default function RootLayout({
       <body className={`${geistSans.variable} ${geistMono.variable}`}>
         <ErnestoUiCleanup />
         <ErnestoV144Enhancer />
-        <ErnestoSmartClarification />
         <ErnestoConversationFocus />
         {children}
       </body>
@@ -1,8 +1,10 @@
 "use client";
 import { createClient } from "@supabase/supabase-js";
+import Image from "next/image";
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   ActionFlowchart,
+  flowchartOutline,
   type ActionFlowchartData,
   type ActionFlowchartProgress,
 } from "./ActionFlowchart";
@@ -10,6 +12,12 @@ import {
   DossierSummary,
   type DossierMemoryData,
 } from "./DossierSummary";
+import { FoodCostPanel } from "./FoodCostPanel";
+import { ProductionPanel, type ProductionPlanRow } from "./ProductionPanel";
+import { LevainPanel } from "./LevainPanel";
+import { BakeJournalPanel } from "./BakeJournalPanel";
+import { PhotoArchivePanel, type ArchivedPhotoRow } from "./PhotoArchivePanel";
+import { PhotoDiagnosisPanel, type PhotoDiagnosisData } from "./PhotoDiagnosisPanel";
 import {
   ResponsiveContainer,
   Tooltip,
@@ -85,9 +93,11 @@ type ChatMsg = {
   text: string;
   graph?: GraphJSON | null;
   flowchart?: ActionFlowchartData | null;
+  diagnosis?: PhotoDiagnosisData | null;
   rag?: { used?: number } | null;
   mode?: string | null;
   sourceMention?: boolean;
+  failed?: boolean;
 };
 
 type AskTutorOptions = {
@@ -186,6 +196,109 @@ function formatProjectDate(ts: number) {
   }
 }
 
+type RemoteConversation = {
+  project_id: string;
+  title: string;
+  objective?: string | null;
+  color?: string | null;
+  updated_at?: string | null;
+  message_count: number;
+};
+
+type RemoteMessage = {
+  client_message_id: string;
+  role: "user" | "ernesto";
+  text: string;
+  mode?: string | null;
+  flowchart?: ActionFlowchartData | null;
+  graph?: GraphJSON | null;
+  diagnosis?: PhotoDiagnosisData | null;
+  rag?: ChatMsg["rag"];
+};
+
+function chatFromRemote(messages: RemoteMessage[]): ChatMsg[] {
+  return messages
+    .filter((m) => m?.client_message_id && (m.role === "user" || m.role === "ernesto"))
+    .map((m) => ({
+      id: m.client_message_id,
+      role: m.role,
+      text: m.text || "",
+      mode: m.role === "ernesto" ? m.mode ?? null : undefined,
+      flowchart: m.flowchart ?? null,
+      graph: m.graph ?? null,
+      diagnosis: m.diagnosis ?? null,
+      rag: m.rag ?? null,
+    }));
+}
+
+// Server messages come first in their recorded order; local bubbles the server
+// never saw (failed answers, exchanges from before the log existed) follow.
+function mergeRemoteChat(local: ChatMsg[], remote: ChatMsg[]) {
+  const remoteIds = new Set(remote.map((m) => m.id));
+  return [...remote, ...local.filter((m) => !remoteIds.has(m.id))];
+}
+
+// Prior turns sent to /api/tutor so Ernesto can follow short follow-ups. The
+// server applies its own token budget; this only keeps the payload reasonable.
+function buildTutorHistory(chat: ChatMsg[]) {
+  return chat
+    .filter((m) => !m.failed && m.text?.trim())
+    .slice(-20)
+    .map((m) => ({
+      role: m.role,
+      text: m.text,
+      mode: m.role === "ernesto" ? m.mode ?? null : null,
+      flowchart: m.flowchart
+        ? { title: m.flowchart.title, steps: flowchartOutline(m.flowchart) }
+        : null,
+      graph: m.graph
+        ? {
+            title: m.graph.title,
+            summary: m.graph.summary,
+            charts: (m.graph.charts ?? []).map(({ type, title }) => ({ type, title })),
+          }
+        : null,
+    }));
+}
+
+type TutorStreamPayload = Record<string, unknown>;
+
+// Minimal Server-Sent Events reader for the streaming variant of /api/tutor.
+async function readTutorStream(res: Response, onEvent: (event: string, payload: TutorStreamPayload) => void) {
+  const reader = res.body?.getReader();
+  if (!reader) return;
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (raw: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+    raw.split("\n").forEach((line) => {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+    });
+    if (!dataLines.length) return;
+    try {
+      onEvent(event, JSON.parse(dataLines.join("\n")));
+    } catch {
+      // A malformed event is skipped; the final "answer" event carries the full text.
+    }
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary >= 0) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+  if (buffer.trim()) flush(buffer);
+}
+
 function profileStorageKey(email?: string | null) {
   return `${PROFILE_STORAGE_KEY_BASE}:${email || "anonymous"}`;
 }
@@ -202,9 +315,10 @@ function subscriptionLabel(usage: any) {
   return "Accès réservé EPPPN";
 }
 
-function buildPersonalContext(profile: UserPersonalProfile, workContext: WorkContext, email?: string | null) {
+// The e-mail is not sent: the server knows the user, and a context made only
+// of it would keep generic questions out of the answer cache.
+function buildPersonalContext(profile: UserPersonalProfile, workContext: WorkContext) {
   const lines: string[] = [];
-  if (email) lines.push(`E-mail utilisateur : ${email}`);
   if (profile.age.trim()) lines.push(`Âge : ${profile.age.trim()}`);
   if (profile.profession.trim()) lines.push(`Profession / activité : ${profile.profession.trim()}`);
   if (profile.level.trim()) lines.push(`Niveau pizza / panification : ${profile.level.trim()}`);
@@ -495,6 +609,12 @@ export default function Page() {
     is_pro?: boolean;
     is_admin?: boolean;
     plan?: string;
+    // Fair-use quotas of the day; null limits are unlimited.
+    quota?: {
+      limits: { per_minute: number | null; per_day: number | null; images_per_day: number | null; graphs_per_day: number | null };
+      used: { minute: number; day: number; images: number; graphs: number };
+      resets_at: string;
+    };
   }>(null);
 
   // paywall payload (when 402)
@@ -515,6 +635,13 @@ export default function Page() {
   const [dossierSummary, setDossierSummary] = useState<DossierMemoryData | null>(null);
   const [dossierSummaryLoading, setDossierSummaryLoading] = useState(false);
   const [dossierSummaryError, setDossierSummaryError] = useState("");
+  const [levainOpen, setLevainOpen] = useState(false);
+  const [foodCostOpen, setFoodCostOpen] = useState(false);
+  const [productionOpen, setProductionOpen] = useState(false);
+  const [bakeJournalOpen, setBakeJournalOpen] = useState(false);
+  const [photoArchiveOpen, setPhotoArchiveOpen] = useState(false);
+  // Archived photo of the active dossier used as AVANT for the next photo sent.
+  const [comparePhoto, setComparePhoto] = useState<ArchivedPhotoRow | null>(null);
 
   // édition des projets
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
@@ -693,6 +820,8 @@ export default function Page() {
   const fileRef = useRef<HTMLInputElement | null>(null);
 
   const bottomRef = useRef<HTMLDivElement | null>(null);
+  const activeProjectIdRef = useRef<string | null>(null);
+  const remoteSyncUserRef = useRef<string | null>(null);
   const quickRowRef = useRef<HTMLDivElement | null>(null);
   const [quickQuestions, setQuickQuestions] = useState(QUICK_QUESTIONS);
   const [selectedQuestion, setSelectedQuestion] = useState<string | null>(null);
@@ -800,6 +929,81 @@ export default function Page() {
     );
   }, [chat, activeProjectId, projectsHydrated]);
 
+  useEffect(() => {
+    activeProjectIdRef.current = activeProjectId;
+  }, [activeProjectId]);
+
+  // Dossiers are logged server-side by /api/tutor. Once per signed-in user,
+  // import dossiers created on another device and refresh those the server
+  // knows more messages for; localStorage stays the offline copy.
+  useEffect(() => {
+    const token = session?.access_token;
+    const userId = session?.user?.id;
+    if (!projectsHydrated || !token || !userId || remoteSyncUserRef.current === userId) return;
+    remoteSyncUserRef.current = userId;
+
+    (async () => {
+      try {
+        const headers = { Authorization: `Bearer ${token}` };
+        const res = await fetch("/api/conversations", { headers, cache: "no-store" });
+        if (!res.ok) return;
+        const data = await res.json();
+        const remote: RemoteConversation[] = Array.isArray(data?.conversations) ? data.conversations : [];
+        const localById = new Map(projects.map((p) => [p.id, p]));
+        const stale = remote
+          .filter((conversation) => {
+            const local = localById.get(conversation.project_id);
+            const localCount = local ? local.chat.filter((m) => !m.failed).length : 0;
+            return conversation.message_count > localCount;
+          })
+          .slice(0, 12);
+        if (!stale.length) return;
+
+        const loaded = await Promise.all(
+          stale.map(async (conversation) => {
+            const detail = await fetch(`/api/conversations?projectId=${encodeURIComponent(conversation.project_id)}`, {
+              headers,
+              cache: "no-store",
+            });
+            if (!detail.ok) return null;
+            const payload = await detail.json();
+            return { conversation, chat: chatFromRemote(Array.isArray(payload?.messages) ? payload.messages : []) };
+          })
+        );
+        const updates = new Map(
+          loaded.filter((item): item is NonNullable<typeof item> => Boolean(item)).map((item) => [item.conversation.project_id, item])
+        );
+        if (!updates.size) return;
+
+        setProjects((prev) => {
+          const known = new Set(prev.map((p) => p.id));
+          const refreshed = prev.map((p) => {
+            const update = updates.get(p.id);
+            return update ? { ...p, chat: mergeRemoteChat(p.chat, update.chat) } : p;
+          });
+          const imported = Array.from(updates.values())
+            .filter((update) => !known.has(update.conversation.project_id))
+            .map(({ conversation, chat: remoteChat }) => ({
+              id: conversation.project_id,
+              title: conversation.title || "Dossier général",
+              objective: conversation.objective || "",
+              color: conversation.color || DEFAULT_PROJECT_COLOR,
+              chat: remoteChat,
+              updatedAt: Date.parse(conversation.updated_at || "") || Date.now(),
+            }));
+          return [...refreshed, ...imported].sort((a, b) => b.updatedAt - a.updatedAt);
+        });
+
+        const activeUpdate = activeProjectIdRef.current ? updates.get(activeProjectIdRef.current) : undefined;
+        if (activeUpdate) setChat((prev) => mergeRemoteChat(prev, activeUpdate.chat));
+      } catch {
+        // The server log is a convenience; local dossiers keep working without it.
+      }
+    })();
+    // Runs once per signed-in user after local dossiers are loaded.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectsHydrated, session?.access_token, session?.user?.id]);
+
   useEffect(() => {
     const urls = selectedImages.map((image) => URL.createObjectURL(image));
     setImagePreviewUrls(urls);
@@ -810,6 +1014,7 @@ export default function Page() {
     setDossierSummaryOpen(false);
     setDossierSummary(null);
     setDossierSummaryError("");
+    setComparePhoto(null);
   }, [activeProjectId]);
 
   useEffect(() => {
@@ -864,16 +1069,20 @@ export default function Page() {
     const responseIndex = chat.filter((m) => m.role === "ernesto").length + 1;
     setPizzaDone(false);
     const displayText = options.displayText?.trim() || userText;
-    setChat((prev) => [...prev, { id: uid(), role: "user", text: displayText }]);
+    const userMessageId = uid();
+    const answerId = uid();
+    const activeProject = projects.find((p) => p.id === activeProjectId) ?? null;
+    setChat((prev) => [...prev, { id: userMessageId, role: "user", text: displayText }]);
     setLoading(true);
 
     try {
       let res: Response;
 
       const contextText = [
-        buildPersonalContext(personalProfile, workContext, session?.user?.email),
+        buildPersonalContext(personalProfile, workContext),
         options.contextAddon?.trim(),
       ].filter(Boolean).join("\n\n");
+      const history = buildTutorHistory(chat);
 
       if (selectedImages.length) {
         const fd = new FormData();
@@ -881,9 +1090,21 @@ export default function Page() {
         fd.append("speed", speed);
         fd.append("responseIndex", String(responseIndex));
         fd.append("isFirstTurn", String(chat.length === 0));
+        fd.append("stream", "true");
         if (contextText) fd.append("contextText", contextText);
         if (options.presentation) fd.append("presentation", options.presentation);
+        if (history.length) fd.append("history", JSON.stringify(history));
+        if (activeProjectId) fd.append("projectId", activeProjectId);
+        if (activeProject) {
+          fd.append("projectTitle", activeProject.title);
+          fd.append("projectObjective", activeProject.objective || "");
+          fd.append("projectColor", projectColor(activeProject));
+        }
+        fd.append("userMessageId", userMessageId);
+        fd.append("answerMessageId", answerId);
         selectedImages.slice(0, 2).forEach((image) => fd.append("images", image));
+        const compared = selectedImages.length === 1 && activeProjectId ? comparePhoto : null;
+        if (compared) fd.append("comparePhotoId", String(compared.id));
 
         res = await fetch("/api/tutor", {
           method: "POST",
@@ -892,6 +1113,7 @@ export default function Page() {
         });
 
         setSelectedImages([]);
+        if (compared) setComparePhoto(null);
       } else {
         res = await fetch("/api/tutor", {
           method: "POST",
@@ -906,10 +1128,70 @@ export default function Page() {
             speed,
             contextText,
             presentation: options.presentation,
+            history,
+            projectId: activeProjectId,
+            projectTitle: activeProject?.title,
+            projectObjective: activeProject?.objective,
+            projectColor: activeProject ? projectColor(activeProject) : undefined,
+            userMessageId,
+            answerMessageId: answerId,
+            stream: true,
           }),
         });
       }
 
+      if (res.ok && (res.headers.get("content-type") || "").includes("text/event-stream")) {
+        let streamedText = "";
+        let streamError = "";
+        let answerStarted = false;
+
+        const patchAnswer = (patch: Partial<ChatMsg>) => {
+          if (!answerStarted) {
+            answerStarted = true;
+            setChat((prev) => [...prev, { id: answerId, role: "ernesto", text: "", mode: speed, ...patch }]);
+            return;
+          }
+          setChat((prev) => prev.map((m) => (m.id === answerId ? { ...m, ...patch } : m)));
+        };
+
+        await readTutorStream(res, (event, payload) => {
+          if (event === "meta") {
+            patchAnswer({
+              mode: typeof payload.mode === "string" ? payload.mode : speed,
+              sourceMention: Boolean(payload.source_mention),
+            });
+          } else if (event === "delta" && typeof payload.text === "string") {
+            streamedText += payload.text;
+            patchAnswer({ text: streamedText });
+          } else if (event === "answer" && typeof payload.answer_fr === "string") {
+            streamedText = payload.answer_fr;
+            patchAnswer({ text: streamedText });
+          } else if (event === "flowchart") {
+            patchAnswer({ flowchart: (payload.flowchart as ActionFlowchartData | null) ?? null });
+          } else if (event === "rag") {
+            patchAnswer({ rag: (payload.rag as ChatMsg["rag"]) ?? null });
+          } else if (event === "diagnosis") {
+            patchAnswer({ diagnosis: (payload.diagnosis as PhotoDiagnosisData | null) ?? null });
+          } else if (event === "graph") {
+            patchAnswer({ graph: (payload.graph as GraphJSON | null) ?? null });
+          } else if (event === "usage" && payload.usage) {
+            setUsage(payload.usage as NonNullable<typeof usage>);
+          } else if (event === "error") {
+            streamError = String(payload.details || payload.error || "Erreur serveur");
+          }
+        });
+
+        if (streamError || !streamedText.trim()) {
+          // A partial answer stays visible but is kept out of the next history.
+          if (answerStarted) patchAnswer({ failed: true });
+          throw new Error(streamError || "Réponse vide.");
+        }
+
+        setPizzaDone(true);
+        setMessage("");
+        return;
+      }
+
       const data = await res.json();
 
       // 401: not logged / invalid session
@@ -933,6 +1215,7 @@ export default function Page() {
           {
             id: uid(),
             role: "ernesto",
+            failed: true,
             text:
               data?.message ||
               "Cette adresse email n’est pas associée à un accès Ernesto. Dans cette première phase, Ernesto est réservé aux stagiaires formés à l’EPPPN.",
@@ -941,6 +1224,26 @@ export default function Page() {
         return;
       }
 
+      // 429: quota de questions, de photos ou de fréquence atteint
+      if (res.status === 429 && data?.quota_exceeded) {
+        if (data?.usage) setUsage(data.usage);
+        const resetsAt = data?.usage?.quota?.resets_at ? new Date(data.usage.quota.resets_at) : null;
+        const resetHint =
+          data?.reason !== "per_minute" && resetsAt
+            ? ` Nouveau quota le ${resetsAt.toLocaleDateString("fr-FR")} à ${resetsAt.toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" })}.`
+            : "";
+        setChat((prev) => [
+          ...prev,
+          {
+            id: uid(),
+            role: "ernesto",
+            failed: true,
+            text: `${data?.message || "Limite d’utilisation atteinte."}${resetHint}`,
+          },
+        ]);
+        return;
+      }
+
       if (!res.ok) throw new Error(data?.message ?? data?.error ?? `Erreur serveur (${res.status})`);
 
       // usage banner update
@@ -955,11 +1258,12 @@ export default function Page() {
       setChat((prev) => [
         ...prev,
         {
-          id: uid(),
+          id: answerId,
           role: "ernesto",
           text: text_fr,
           graph,
           flowchart,
+          diagnosis: data?.diagnosis ?? null,
           rag: data?.rag ?? null,
           mode: data?.mode ?? speed,
           sourceMention: Boolean(data?.source_mention),
@@ -972,6 +1276,7 @@ export default function Page() {
         {
           id: uid(),
           role: "ernesto",
+          failed: true,
           text: `Désolé — erreur technique : ${err?.message ?? "Erreur inconnue"}`,
         },
       ]);
@@ -1000,11 +1305,6 @@ export default function Page() {
     setProjectsOpen(false);
   }
 
-  function newConversation() {
-    setCreateDossierOpen(true);
-    setProjectsOpen(true);
-  }
-
   function selectProject(id: string) {
     const p = projects.find((item) => item.id === id);
     if (!p) return;
@@ -1022,6 +1322,12 @@ export default function Page() {
     const target = projects.find((p) => p.id === id);
     const label = target?.title || "ce dossier";
     if (!window.confirm(`Supprimer le dossier « ${label} » ?`)) return;
+    if (session?.access_token) {
+      void fetch(`/api/conversations?projectId=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      }).catch(() => undefined);
+    }
     setProjects((prev) => {
       const next = prev.filter((p) => p.id !== id);
       if (!next.length) {
@@ -1088,12 +1394,6 @@ export default function Page() {
     setMessage(q.text);
   }
 
-  async function handleQuestionDoubleClick(q: { label: string; text: string; category: string }) {
-    setSelectedQuestion(q.label);
-    setMessage(q.text);
-    await askTutor(q.text);
-  }
-
   function startEditAnswer(msg: ChatMsg) {
     if (msg.role !== "ernesto") return;
     setEditingAnswerId(msg.id);
@@ -1215,13 +1515,17 @@ export default function Page() {
   const trialDaysTotal = usage?.trial_days_total ?? 10;
   const trialDaysRemaining = usage?.trial_days_remaining ?? null;
 
+  const dailyQuota = usage?.quota?.limits.per_day
+    ? ` · ${usage.quota.used.day}/${usage.quota.limits.per_day} questions aujourd’hui`
+    : "";
+
   const usageLine =
     usage?.is_admin
       ? "Mode administrateur — accès illimité"
       : usage?.plan === "stagiaire_epppn"
-      ? `Accès stagiaire EPPPN actif${usage.trial_ends_at ? ` — jusqu’au ${new Date(usage.trial_ends_at).toLocaleDateString("fr-FR")}` : ""}`
+      ? `Accès stagiaire EPPPN actif${usage.trial_ends_at ? ` — jusqu’au ${new Date(usage.trial_ends_at).toLocaleDateString("fr-FR")}` : ""}${dailyQuota}`
       : usage?.is_pro
-      ? "Accès actif — Ernesto disponible"
+      ? `Accès actif — Ernesto disponible${dailyQuota}`
       : usage
       ? "Accès réservé aux stagiaires formés à l’EPPPN"
       : null;
@@ -1255,7 +1559,9 @@ export default function Page() {
           projectId: activeProjectId,
           messageId: message.id,
           planTitle: message.flowchart.title,
-          statuses: progress.statuses,
+          currentNode: progress.current,
+          path: progress.path,
+          stepCount: progress.step_count,
         }),
       });
     } catch {
@@ -1277,6 +1583,22 @@ export default function Page() {
     );
   }
 
+  // Ernesto comments the saved plan as it stands; the schedule itself comes
+  // from the planner and the user's edits.
+  function explainProductionPlan(plan: NonNullable<ProductionPlanRow["plan"]>) {
+    const steps = plan.steps.map((step) => `${step.label} : ${step.start_clock} → ${step.end_clock}${step.note ? ` (${step.note})` : ""}`);
+    void askTutor("Explique-moi ce planning de production : l’ordre des fournées, les horaires et les points à surveiller.", {
+      displayText: "Expliquer mon planning de production",
+      contextAddon: [
+        `PLANNING DE PRODUCTION À EXPLIQUER (service à ${plan.service_time}, ${plan.pizzas} pizzas, ${plan.balls} pâtons) :`,
+        ...steps,
+        ...plan.warnings.map((warning) => `Alerte : ${warning}`),
+        ...plan.notes,
+        "Explique ce planning tel quel, sans modifier ni recalculer ses horaires ; signale seulement ce qui te paraît risqué.",
+      ].join("\n"),
+    });
+  }
+
   async function refreshDossierSummary() {
     if (!session?.access_token || !activeProjectId) return;
     setDossierSummaryOpen(true);
@@ -2581,6 +2903,31 @@ export default function Page() {
           <button className="miniBtn v145-dossier-summary-trigger" type="button" onClick={() => void refreshDossierSummary()}>
             Bilan du dossier
           </button>
+          {session?.access_token ? (
+            <button className="miniBtn" type="button" onClick={() => setLevainOpen((v) => !v)}>
+              Mon levain
+            </button>
+          ) : null}
+          {session?.access_token ? (
+            <button className="miniBtn" type="button" onClick={() => setFoodCostOpen((v) => !v)}>
+              Coûts & marges
+            </button>
+          ) : null}
+          {session?.access_token ? (
+            <button className="miniBtn" type="button" onClick={() => setProductionOpen((v) => !v)}>
+              Production
+            </button>
+          ) : null}
+          {session?.access_token && activeProjectId ? (
+            <button className="miniBtn" type="button" onClick={() => setBakeJournalOpen((v) => !v)}>
+              Journal de cuisson
+            </button>
+          ) : null}
+          {session?.access_token && activeProjectId ? (
+            <button className="miniBtn" type="button" onClick={() => setPhotoArchiveOpen((v) => !v)}>
+              Photos
+            </button>
+          ) : null}
           <button className="miniBtn" type="button" onClick={renameActiveProject}>Modifier</button>
           <button className="miniBtn" type="button" onClick={() => { setCreateDossierOpen(true); setProjectsOpen(true); }}>Créer un dossier</button>
         </div>
@@ -2597,6 +2944,50 @@ export default function Page() {
         />
       ) : null}
 
+      {levainOpen && session?.access_token ? (
+        <LevainPanel accessToken={session.access_token} onClose={() => setLevainOpen(false)} />
+      ) : null}
+
+      {foodCostOpen && session?.access_token ? (
+        <FoodCostPanel
+          accessToken={session.access_token}
+          onClose={() => setFoodCostOpen(false)}
+          renderChart={(chart, index) => <ChartCard key={index} chart={chart as Chart} />}
+        />
+      ) : null}
+
+      {productionOpen && session?.access_token ? (
+        <ProductionPanel
+          accessToken={session.access_token}
+          onClose={() => setProductionOpen(false)}
+          onExplain={explainProductionPlan}
+          renderChart={(chart) => <ChartCard chart={chart as Chart} />}
+        />
+      ) : null}
+
+      {bakeJournalOpen && session?.access_token && activeProjectId ? (
+        <BakeJournalPanel
+          key={activeProjectId}
+          accessToken={session.access_token}
+          projectId={activeProjectId}
+          projectTitle={activeProject?.title ?? "Dossier"}
+          onClose={() => setBakeJournalOpen(false)}
+          renderChart={(chart) => <ChartCard chart={chart as Chart} />}
+        />
+      ) : null}
+
+      {photoArchiveOpen && session?.access_token && activeProjectId ? (
+        <PhotoArchivePanel
+          key={activeProjectId}
+          accessToken={session.access_token}
+          projectId={activeProjectId}
+          projectTitle={activeProject?.title ?? "Dossier"}
+          comparePhotoId={comparePhoto?.id ?? null}
+          onCompare={setComparePhoto}
+          onClose={() => setPhotoArchiveOpen(false)}
+        />
+      ) : null}
+
       <section className={`quickSection ${quickOpen ? "open" : ""}`} style={{ marginTop: 14 }}>
         <button className="mobileFaqToggle" type="button" onClick={() => setQuickOpen((v) => !v)}>
           <span>Questions fréquentes</span>
@@ -2693,6 +3084,7 @@ export default function Page() {
                             onProgress={(progress) => void persistActionPlanProgress(m, progress)}
                           />
                         ) : null}
+                        {m.diagnosis ? <PhotoDiagnosisPanel data={m.diagnosis} /> : null}
                         {m.graph ? <ErnestoPanels graph={m.graph} /> : null}
                       </>
                     )}
@@ -2738,7 +3130,50 @@ export default function Page() {
             }}
           />
 
-          {selectedImages.length > 0 && imagePreviewUrls.length > 0 ? (
+          {comparePhoto && selectedImages.length < 2 ? (
+            <div className="v145-image-comparison">
+              <div className="v145-image-comparison-grid">
+                <div className="imagePreviewCard compact v145-image-preview">
+                  <div className="v145-image-preview-frame">
+                    {comparePhoto.thumb_url ? (
+                      <Image src={comparePhoto.thumb_url} alt="Photo archivée utilisée comme avant" width={62} height={50} unoptimized />
+                    ) : null}
+                    <span>Avant</span>
+                  </div>
+                  <div style={{ minWidth: 0 }}>
+                    <div className="imagePreviewTitle">Photo du dossier</div>
+                    <div className="imagePreviewMeta">
+                      {new Date(comparePhoto.created_at).toLocaleDateString("fr-FR")}
+                      {comparePhoto.label ? ` · ${comparePhoto.label}` : ""}
+                    </div>
+                  </div>
+                  <button className="attachX" type="button" onClick={() => setComparePhoto(null)} aria-label="Ne plus comparer à cette photo">
+                    ×
+                  </button>
+                </div>
+                {selectedImages.map((image, index) => (
+                  <div className="imagePreviewCard compact v145-image-preview" key={`${image.name}-${image.lastModified}-${index}`}>
+                    <div className="v145-image-preview-frame">
+                      <Image src={imagePreviewUrls[index]} alt="Nouvelle photo à comparer" width={62} height={50} unoptimized />
+                      <span>Après</span>
+                    </div>
+                    <div style={{ minWidth: 0 }}>
+                      <div className="imagePreviewTitle">Nouvelle photo</div>
+                      <div className="imagePreviewMeta">{image.name} · {(image.size / 1024).toFixed(0)} Ko</div>
+                    </div>
+                    <button className="attachX" type="button" onClick={() => setSelectedImages([])} aria-label="Retirer la nouvelle photo">
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="v145-image-comparison-hint">
+                {selectedImages.length
+                  ? "Comparaison avec une photo du dossier prête. Décrivez la correction effectuée."
+                  : "Ajoutez la nouvelle photo à comparer à cette photo du dossier."}
+              </div>
+            </div>
+          ) : selectedImages.length > 0 && imagePreviewUrls.length > 0 ? (
             <div className="v145-image-comparison">
               <div className="v145-image-comparison-grid">
                 {selectedImages.map((image, index) => (
@@ -2967,14 +3402,6 @@ function PizzaLoader({ ms, done }: { ms: number; done: boolean }) {
   );
 }
 
-function SourceBadge() {
-  return (
-    <div className="sourceBadge">
-      Ernesto s’appuie prioritairement sur les connaissances et protocoles EPPPN, puis complète avec l’IA lorsque c’est utile.
-    </div>
-  );
-}
-
 function ErnestoPanels({ graph }: { graph: GraphJSON }) {
   return (
     <div style={{ display: "grid", gap: 12 }}>
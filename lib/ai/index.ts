@@ -0,0 +1,35 @@
+import { createLocalProvider } from "./local";
+import { createOpenAIProvider } from "./openai";
+import type { AIProvider } from "./provider";
+
+export * from "./provider";
+
+export type AIProviderName = "openai" | "local";
+
+export function configuredProviderName(): AIProviderName {
+  const raw = (process.env.ERNESTO_AI_PROVIDER || "").trim().toLowerCase();
+  return raw === "local" ? "local" : "openai";
+}
+
+// Returns an error code when the selected provider cannot run, so routes keep
+// answering with their existing "missing configuration" responses.
+export function aiConfigurationError() {
+  if (configuredProviderName() === "openai" && !process.env.OPENAI_API_KEY) return "Missing OPENAI_API_KEY";
+  return null;
+}
+
+let cachedProvider: { name: AIProviderName; provider: AIProvider } | null = null;
+
+export function createAIProvider(name: AIProviderName): AIProvider {
+  return name === "local" ? createLocalProvider() : createOpenAIProvider(process.env.OPENAI_API_KEY || "");
+}
+
+export function getAIProvider(): AIProvider {
+  const name = configuredProviderName();
+  if (cachedProvider?.name === name) return cachedProvider.provider;
+
+  const provider = createAIProvider(name);
+  cachedProvider = { name, provider };
+  return provider;
+}
+
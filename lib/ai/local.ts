@@ -0,0 +1,301 @@
+import { messageText, modelFor, type AIChatRequest, type AIMessage, type AIProvider, type AITask } from "./provider";
+
+// Deterministic stand-in used for tests and offline demonstrations. It never
+// calls the network: answers are templates built from the request, embeddings
+// are hashed bags of words, and structured outputs are filled from the schema.
+
+const LOCAL_NOTICE = "Réponse de démonstration locale : aucun modèle distant n’a été appelé.";
+
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function embeddingDimensions() {
+  const value = Number(process.env.ERNESTO_LOCAL_EMBEDDING_DIMENSIONS || 1536);
+  return Number.isInteger(value) && value > 0 ? value : 1536;
+}
+
+function normalizeWords(text: string) {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9%]+/)
+    .filter((word) => word.length > 1);
+}
+
+// FNV-1a, enough to spread words over the vector deterministically.
+function hashString(value: string) {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function localEmbedding(text: string, dimensions: number) {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = normalizeWords(text);
+  const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+  for (const feature of features) {
+    const hash = hashString(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+}
+
+function lastUserText(messages: AIMessage[]) {
+  const last = [...messages].reverse().find((message) => message.role === "user");
+  return last ? messageText(last) : "";
+}
+
+function imageCount(messages: AIMessage[]) {
+  return messages.reduce(
+    (count, message) =>
+      count + (typeof message.content === "string" ? 0 : message.content.filter((part) => part.type === "image").length),
+    0
+  );
+}
+
+function extractQuestion(text: string) {
+  const marker = text.lastIndexOf("Question :");
+  const question = marker >= 0 ? text.slice(marker + "Question :".length) : text;
+  return question.replace(/\s+/g, " ").trim().slice(0, 400);
+}
+
+function shortLabel(text: string, max = 60) {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > max ? `${clean.slice(0, max - 1)}…` : clean;
+}
+
+// The best retrieved passage, quoted so that offline runs still reflect what
+// retrieval found (see lib/eval).
+function firstKnowledgePassage(text: string) {
+  const match = /CONNAISSANCE INTERNE 1 \([^)]*\):\n([\s\S]*?)(?:\n\n---\n\n|\n\nContexte utilisateur|$)/.exec(text);
+  return match ? shortLabel(match[1], 400) : "";
+}
+
+function tutorAnswer(messages: AIMessage[]) {
+  const system = messages.filter((message) => message.role === "system").map(messageText).join("\n");
+  const question = extractQuestion(lastUserText(messages)) || "(question vide)";
+  const passage = firstKnowledgePassage(lastUserText(messages));
+  const images = imageCount(messages);
+  const analyse = /MODE DEMANDÉ : ANALYSE/.test(system);
+
+  if (analyse) {
+    return [
+      "## Lecture du problème",
+      `Question reçue : « ${question} ».`,
+      images ? `${images} photo(s) jointe(s) : la description visuelle n’est pas simulée localement.` : "",
+      passage ? `Repère des connaissances internes : ${passage}` : "",
+      "## Hypothèses classées",
+      "- Hypothèse principale à confirmer par un contrôle simple.",
+      "- Hypothèse secondaire si le premier contrôle est conforme.",
+      "## Comment vérifier",
+      "- Noter les paramètres du prochain essai et comparer le résultat observé.",
+      "",
+      LOCAL_NOTICE,
+    ].join("\n");
+  }
+
+  return [
+    "## Décision",
+    `Question reçue : « ${question} ».`,
+    images ? `${images} photo(s) jointe(s) : la description visuelle n’est pas simulée localement.` : "",
+    passage ? `Repère des connaissances internes : ${passage}` : "",
+    "## Plan d’action",
+    "1. Contrôler la variable la plus probable.",
+    "2. Corriger un seul paramètre au prochain essai.",
+    "3. Comparer le résultat avec l’essai précédent.",
+    "## Contrôle",
+    "- Observer l’effet attendu avant de modifier un autre paramètre.",
+    "",
+    LOCAL_NOTICE,
+  ].join("\n");
+}
+
+function graphAnswer(messages: AIMessage[]) {
+  const question = extractQuestion(lastUserText(messages).split("Réponse textuelle déjà produite")[0]);
+  return JSON.stringify({
+    title: shortLabel(question || "Synthèse locale"),
+    summary: LOCAL_NOTICE,
+    confidence: 0.1,
+    charts: [
+      {
+        type: "table",
+        title: "Paramètres à contrôler",
+        description: "Tableau de démonstration généré localement.",
+        data: { columns: ["Paramètre", "Contrôle"], rows: [["Température", "Mesurer"], ["Temps", "Chronométrer"]], note: LOCAL_NOTICE },
+      },
+    ],
+    checklist: [{ action: "Noter les paramètres de l’essai", expected_effect: "Comparer deux essais", priority: "medium" }],
+    recap_table: { columns: ["Élément", "Synthèse"], rows: [["Mode", "Local"]], note: LOCAL_NOTICE },
+    questions: [],
+  });
+}
+
+function flowchartAnswer(messages: AIMessage[]) {
+  const question = shortLabel(extractQuestion(lastUserText(messages)), 120);
+  return JSON.stringify({
+    answer: `${question} — ${LOCAL_NOTICE}`,
+    flowchart: {
+      title: "Parcours de démonstration",
+      start: question || "Situation à préciser",
+      entry: "a1",
+      nodes: [
+        { id: "a1", kind: "action", text: "Noter les paramètres de l’essai", detail: "" },
+        { id: "c1", kind: "check", text: "Le défaut est-il reproduit ?", detail: "" },
+        { id: "a2", kind: "action", text: "Changer une seule variable", detail: "" },
+        { id: "r1", kind: "outcome", text: "Comparer avec l’essai précédent", detail: LOCAL_NOTICE },
+      ],
+      edges: [
+        { from: "a1", to: "c1", kind: "next", label: "" },
+        { from: "c1", to: "a2", kind: "yes", label: "" },
+        { from: "c1", to: "a1", kind: "no", label: "Refaire l’essai" },
+        { from: "a2", to: "r1", kind: "next", label: "" },
+      ],
+      caution: "",
+      clarification_required: false,
+      clarification_question: "",
+      clarification_options: [],
+    },
+  });
+}
+
+// The new branch returns to the control being retried, as a real one would.
+function flowchartBranchAnswer(messages: AIMessage[]) {
+  const control = /CONTRÔLE À REPRENDRE : (\S+)/.exec(lastUserText(messages))?.[1] || "";
+  return JSON.stringify({
+    answer: `Suite adaptée après le contrôle à reprendre. ${LOCAL_NOTICE}`,
+    branch: {
+      entry: "n1",
+      label: "À reprendre",
+      nodes: [
+        { id: "n1", kind: "action", text: "Corriger une seule variable et refaire le geste", detail: "" },
+        { id: "n2", kind: "check", text: "Le résultat a-t-il changé ?", detail: "" },
+        { id: "n3", kind: "outcome", text: "Demander conseil avec une photo", detail: LOCAL_NOTICE },
+      ],
+      edges: [
+        { from: "n1", to: "n2", kind: "next", label: "" },
+        { from: "n2", to: control || "n3", kind: "yes", label: "" },
+        { from: "n2", to: "n3", kind: "no", label: "" },
+      ],
+      caution: "",
+    },
+  });
+}
+
+// Readings stay "not visible" with zero confidence: nothing is really seen.
+function diagnosisAnswer() {
+  const features = ["cornicione_height", "leopard_spotting", "crumb_openness", "underside_color", "tearing"];
+  return JSON.stringify({
+    summary: LOCAL_NOTICE,
+    image_quality: "limited",
+    features: features.map((feature) => ({ feature, visible: false, level: null, confidence: 0, observation: "" })),
+    causes: [{ cause: "Cause à confirmer par un contrôle simple", plausibility: 0.1, evidence: LOCAL_NOTICE, features: [] }],
+    controls: [{ control: "Photographier la pizza de dessus et le dessous, en lumière naturelle", expected: "Permettre une lecture réelle", cause: "" }],
+  });
+}
+
+function memoryAnswer(messages: AIMessage[]) {
+  const transcript = lastUserText(messages);
+  const userLines = transcript
+    .split("\n")
+    .filter((line) => line.startsWith("UTILISATEUR:"))
+    .map((line) => line.slice("UTILISATEUR:".length).trim())
+    .filter(Boolean);
+  return JSON.stringify({
+    summary: userLines.length
+      ? `Le dossier porte sur : ${shortLabel(userLines[0], 200)}. ${LOCAL_NOTICE}`
+      : LOCAL_NOTICE,
+    facts: userLines.slice(0, 5).map((line) => ({ category: "Déclaration", fact: shortLabel(line, 200), confidence: "medium" })),
+    open_questions: [],
+  });
+}
+
+function localChatText(task: AITask, messages: AIMessage[]) {
+  if (task === "graph") return graphAnswer(messages);
+  if (task === "memory") return memoryAnswer(messages);
+  return tutorAnswer(messages);
+}
+
+// Builds the smallest value satisfying a JSON schema (objects, arrays with
+// minItems, strings, numbers, booleans, enums).
+function fillSchema(schema: unknown, hint: string, path: string): unknown {
+  const node = schema && typeof schema === "object" ? (schema as Record<string, unknown>) : {};
+  if (Array.isArray(node.enum) && node.enum.length) return node.enum[0];
+
+  const type = Array.isArray(node.type) ? node.type.find((item) => item !== "null") : node.type;
+  if (type === "object") {
+    const properties = (node.properties as Record<string, unknown>) || {};
+    return Object.fromEntries(
+      Object.entries(properties).map(([key, value]) => [key, fillSchema(value, hint, path ? `${path}.${key}` : key)])
+    );
+  }
+  if (type === "array") {
+    const count = Math.max(0, Number(node.minItems || 0));
+    return Array.from({ length: count }, (_, index) => fillSchema(node.items, hint, `${path}[${index}]`));
+  }
+  if (type === "boolean") return false;
+  if (type === "number" || type === "integer") return Number(node.minimum ?? 0);
+  if (type === "string") {
+    if (/clarification_question$/.test(path)) return "";
+    if (/^queries\[\d+\]$/.test(path)) return hint;
+    if (path === "image_description") return "";
+    return path.endsWith("answer") ? `${hint} — ${LOCAL_NOTICE}` : `${path} (local)`;
+  }
+  return null;
+}
+
+function chatResult(request: AIChatRequest, text: string) {
+  const input = request.messages.map(messageText).join("\n");
+  return {
+    text,
+    model: `local:${modelFor(request.task)}`,
+    provider: "local",
+    usage: { inputTokens: estimateTokens(input), outputTokens: estimateTokens(text) },
+  };
+}
+
+export function createLocalProvider(): AIProvider {
+  return {
+    name: "local",
+
+    async chat(request) {
+      return chatResult(request, localChatText(request.task, request.messages));
+    },
+
+    async chatStream(request, onDelta) {
+      const text = localChatText(request.task, request.messages);
+      const pieces = text.match(/\S+\s*/g) || [];
+      for (const piece of pieces) onDelta(piece);
+      return chatResult(request, text);
+    },
+
+    async structured(request) {
+      // Graph, flowchart and diagnosis demos are samples that pass the server
+      // validation cleanly, which the minimal schema filling would not.
+      if (request.task === "graph") return chatResult(request, graphAnswer(request.messages));
+      if (request.task === "vision") return chatResult(request, diagnosisAnswer());
+      if (request.task === "flowchart") {
+        const branch = request.schema.name === "ernesto_flowchart_branch";
+        return chatResult(request, branch ? flowchartBranchAnswer(request.messages) : flowchartAnswer(request.messages));
+      }
+      const hint = shortLabel(extractQuestion(lastUserText(request.messages)), 120);
+      const value = fillSchema(request.schema.schema, hint, "");
+      return chatResult(request, JSON.stringify(value));
+    },
+
+    async embed(input, task = "embedding") {
+      const dimensions = embeddingDimensions();
+      return {
+        embeddings: input.map((text) => localEmbedding(text, dimensions)),
+        model: `local:${modelFor(task)}`,
+        provider: "local",
+        usage: { inputTokens: input.reduce((sum, text) => sum + estimateTokens(text), 0), outputTokens: 0 },
+      };
+    },
+  };
+}
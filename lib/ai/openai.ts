@@ -0,0 +1,174 @@
+import OpenAI from "openai";
+import type {
+  FunctionTool,
+  ResponseFunctionToolCall,
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseTextConfig,
+} from "openai/resources/responses/responses";
+import {
+  MAX_TOOL_ROUNDS,
+  messageText,
+  modelFor,
+  runTool,
+  type AIChatResult,
+  type AIMessage,
+  type AIProvider,
+  type AITask,
+  type AITool,
+  type AIToolCall,
+  type AIUsage,
+} from "./provider";
+
+function toResponseInput(messages: AIMessage[]): ResponseInputItem[] {
+  return messages.map((message) => {
+    if (message.role === "assistant") return { role: "assistant" as const, content: messageText(message) };
+
+    const parts = typeof message.content === "string" ? [{ type: "text" as const, text: message.content }] : message.content;
+    return {
+      role: message.role,
+      content: parts.map((part) =>
+        part.type === "text"
+          ? { type: "input_text" as const, text: part.text }
+          : { type: "input_image" as const, image_url: part.imageUrl, detail: "auto" as const }
+      ),
+    };
+  });
+}
+
+function responseUsage(usage?: { input_tokens?: number; output_tokens?: number } | null): AIUsage {
+  return {
+    inputTokens: Number(usage?.input_tokens || 0),
+    outputTokens: Number(usage?.output_tokens || 0),
+  };
+}
+
+function addUsage(total: AIUsage, usage: AIUsage): AIUsage {
+  return { inputTokens: total.inputTokens + usage.inputTokens, outputTokens: total.outputTokens + usage.outputTokens };
+}
+
+function toolDefinitions(tools?: AITool[]): FunctionTool[] | undefined {
+  if (!tools?.length) return undefined;
+  return tools.map((tool) => ({
+    type: "function" as const,
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    strict: true,
+  }));
+}
+
+function functionCalls(output: ResponseOutputItem[]) {
+  return output.filter((item): item is ResponseFunctionToolCall => item.type === "function_call");
+}
+
+// Runs the calls of one round and appends them, with their outputs, to the
+// input of the next round.
+async function answerToolCalls(
+  tools: AITool[],
+  calls: ResponseFunctionToolCall[],
+  input: ResponseInputItem[],
+  toolCalls: AIToolCall[]
+) {
+  for (const call of calls) {
+    const result = await runTool(tools, call.name, call.arguments);
+    toolCalls.push(result);
+    input.push(call, {
+      type: "function_call_output",
+      call_id: call.call_id,
+      output: JSON.stringify(result.error ? { error: result.error } : result.output),
+    });
+  }
+}
+
+export function createOpenAIProvider(apiKey: string): AIProvider {
+  const openai = new OpenAI({ apiKey });
+
+  async function createWithTools(
+    task: AITask,
+    messages: AIMessage[],
+    tools: AITool[],
+    text?: ResponseTextConfig
+  ): Promise<AIChatResult> {
+    const model = modelFor(task);
+    const input = toResponseInput(messages);
+    const toolCalls: AIToolCall[] = [];
+    let usage = responseUsage(null);
+
+    for (let round = 0; ; round += 1) {
+      const response = await openai.responses.create({
+        model,
+        input,
+        ...(text ? { text } : {}),
+        tools: toolDefinitions(tools),
+        ...(tools.length ? { tool_choice: round < MAX_TOOL_ROUNDS ? ("auto" as const) : ("none" as const) } : {}),
+      });
+      usage = addUsage(usage, responseUsage(response.usage));
+      const calls = functionCalls(response.output);
+      if (!calls.length) return { text: response.output_text ?? "", model, provider: "openai", usage, toolCalls };
+      await answerToolCalls(tools, calls, input, toolCalls);
+    }
+  }
+
+  return {
+    name: "openai",
+
+    async chat({ task, messages, tools = [] }) {
+      return createWithTools(task, messages, tools);
+    },
+
+    async chatStream({ task, messages, tools = [] }, onDelta) {
+      const model = modelFor(task);
+      const input = toResponseInput(messages);
+      const toolCalls: AIToolCall[] = [];
+      let text = "";
+      let usage = responseUsage(null);
+
+      for (let round = 0; ; round += 1) {
+        const stream = await openai.responses.create({
+          model,
+          input,
+          tools: toolDefinitions(tools),
+          ...(tools.length ? { tool_choice: round < MAX_TOOL_ROUNDS ? ("auto" as const) : ("none" as const) } : {}),
+          stream: true,
+        });
+        let output: ResponseOutputItem[] = [];
+        for await (const event of stream) {
+          if (event.type === "response.output_text.delta" && event.delta) {
+            text += event.delta;
+            onDelta(event.delta);
+          } else if (event.type === "response.completed") {
+            usage = addUsage(usage, responseUsage(event.response.usage));
+            output = event.response.output;
+          }
+        }
+        const calls = functionCalls(output);
+        if (!calls.length) return { text, model, provider: "openai", usage, toolCalls };
+        await answerToolCalls(tools, calls, input, toolCalls);
+      }
+    },
+
+    async structured({ task, messages, schema, tools = [] }) {
+      return createWithTools(task, messages, tools, {
+        format: {
+          type: "json_schema",
+          name: schema.name,
+          description: schema.description,
+          strict: schema.strict ?? true,
+          schema: schema.schema,
+        },
+      });
+    },
+
+    async embed(input, task = "embedding") {
+      const model = modelFor(task);
+      const response = await openai.embeddings.create({ model, input });
+      return {
+        embeddings: response.data.map((item) => item.embedding),
+        model,
+        provider: "openai",
+        usage: { inputTokens: Number(response.usage?.prompt_tokens || 0), outputTokens: 0 },
+      };
+    },
+  };
+}
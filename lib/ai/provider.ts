@@ -0,0 +1,118 @@
+// Each call site names its task so the model can be changed per route through
+// configuration (ERNESTO_MODEL_<TASK>) without touching the route itself.
+export type AITask =
+  | "tutor"
+  | "vision"
+  | "flowchart"
+  | "graph"
+  | "memory"
+  | "rewrite"
+  | "citation"
+  | "classify"
+  | "embedding";
+
+export type AIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; imageUrl: string };
+
+export type AIMessage = {
+  role: "system" | "user" | "assistant";
+  content: string | AIContentPart[];
+};
+
+export type AIJsonSchema = {
+  name: string;
+  description?: string;
+  strict?: boolean;
+  schema: Record<string, unknown>;
+};
+
+export type AIUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+// A function the model may call while answering. `run` receives the parsed
+// arguments and its return value is sent back to the model as JSON; a thrown
+// Error is reported to the model as { error: message } instead.
+export type AITool = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  run(args: unknown): unknown | Promise<unknown>;
+};
+
+export type AIToolCall = {
+  name: string;
+  arguments: unknown;
+  output: unknown;
+  error: string | null;
+};
+
+export type AIChatRequest = {
+  task: AITask;
+  messages: AIMessage[];
+  tools?: AITool[];
+};
+
+export type AIChatResult = {
+  text: string;
+  model: string;
+  provider: string;
+  usage: AIUsage;
+  toolCalls?: AIToolCall[];
+};
+
+export type AIEmbeddingResult = {
+  embeddings: number[][];
+  model: string;
+  provider: string;
+  usage: AIUsage;
+};
+
+export interface AIProvider {
+  readonly name: string;
+  chat(request: AIChatRequest): Promise<AIChatResult>;
+  chatStream(request: AIChatRequest, onDelta: (delta: string) => void): Promise<AIChatResult>;
+  structured(request: AIChatRequest & { schema: AIJsonSchema }): Promise<AIChatResult>;
+  embed(input: string[], task?: AITask): Promise<AIEmbeddingResult>;
+}
+
+const DEFAULT_MODELS: Record<AITask, string> = {
+  tutor: "gpt-4.1-mini",
+  vision: "gpt-4.1-mini",
+  flowchart: "gpt-4.1-mini",
+  graph: "gpt-4.1-mini",
+  memory: "gpt-4.1-mini",
+  rewrite: "gpt-4.1-mini",
+  citation: "gpt-4.1-mini",
+  classify: "gpt-4.1-mini",
+  embedding: "text-embedding-3-small",
+};
+
+export function modelFor(task: AITask) {
+  return (process.env[`ERNESTO_MODEL_${task.toUpperCase()}`] || "").trim() || DEFAULT_MODELS[task];
+}
+
+// Upper bound on model ↔ tool round trips for a single answer.
+export const MAX_TOOL_ROUNDS = 4;
+
+export async function runTool(tools: AITool[], name: string, rawArguments: string): Promise<AIToolCall> {
+  let args: unknown = null;
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+    const tool = tools.find((item) => item.name === name);
+    if (!tool) throw new Error("unknown_tool");
+    return { name, arguments: args, output: await tool.run(args), error: null };
+  } catch (error) {
+    return { name, arguments: args, output: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export function messageText(message: AIMessage) {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n");
+}
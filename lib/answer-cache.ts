@@ -0,0 +1,176 @@
+import { createHash } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Answer cache of /api/tutor. Questions asked without any personal context
+// (quick questions, first question of a dossier) get the same answer for
+// everyone, so it is stored once per normalized question, mode, presentation,
+// knowledge-base version and prompt variant. A near-duplicate wording is found by embedding
+// similarity. Entries from an older knowledge base are never served, and
+// /api/admin/knowledge clears the cache when documents change.
+
+export type CachedAnswer = {
+  id: number;
+  answer_text: string;
+  flowchart: unknown;
+  graph: unknown;
+  graph_issues: string[];
+  tools: unknown[];
+  rag: unknown;
+  source_mention: boolean;
+  created_at: string;
+};
+
+export type AnswerCacheScope = {
+  question: string;
+  mode: "ANALYSE" | "ACTION";
+  presentation: "text" | "flowchart";
+  kbVersion: string;
+  promptVariant: string;
+};
+
+// Why a question is answered without the cache; null when it may use it.
+export type AnswerCacheBypass =
+  | "disabled"
+  | "images"
+  | "context"
+  | "history"
+  | "dossier_memory"
+  | "dossier"
+  | "levain"
+  | "tool_data"
+  | "unavailable";
+
+export function answerCacheBypass(input: {
+  images: number;
+  contextText?: string;
+  historyTurns: number;
+  dossierMemory: boolean;
+  dossierObjective: boolean;
+  levain: boolean;
+  toolData: boolean;
+}): AnswerCacheBypass | null {
+  if (!answerCacheEnabled()) return "disabled";
+  if (input.images > 0) return "images";
+  if (input.contextText?.trim()) return "context";
+  if (input.historyTurns > 0) return "history";
+  if (input.dossierMemory) return "dossier_memory";
+  if (input.dossierObjective) return "dossier";
+  if (input.levain) return "levain";
+  if (input.toolData) return "tool_data";
+  return null;
+}
+
+const CACHED_ANSWER_COLUMNS = "id,answer_text,flowchart,graph,graph_issues,tools,rag,source_mention,created_at";
+
+export function answerCacheEnabled() {
+  return (process.env.ERNESTO_ANSWER_CACHE || "").trim().toLowerCase() !== "off";
+}
+
+function answerCacheDays() {
+  const value = Number(process.env.ERNESTO_ANSWER_CACHE_DAYS || 14);
+  return Number.isFinite(value) && value > 0 ? value : 14;
+}
+
+function answerCacheSimilarity() {
+  const value = Number(process.env.ERNESTO_ANSWER_CACHE_SIMILARITY || 0.95);
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : 0.95;
+}
+
+// Case, accents, punctuation and spacing do not change the question.
+export function normalizeQuestion(text: string) {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9%]+/g, " ")
+    .trim();
+}
+
+export function answerCacheKey(scope: AnswerCacheScope) {
+  return createHash("sha256")
+    .update(JSON.stringify([normalizeQuestion(scope.question), scope.mode, scope.presentation, scope.kbVersion, scope.promptVariant]))
+    .digest("hex");
+}
+
+// Changes whenever a document is added or removed, through the admin page or
+// scripts/ingest_pdf.ts alike.
+export async function knowledgeBaseVersion(supabase: SupabaseClient) {
+  const { data, count, error } = await supabase
+    .from("documents")
+    .select("id", { count: "exact" })
+    .order("id", { ascending: false })
+    .limit(1000);
+  if (error) throw new Error(error.message);
+  const ids = (data || []).map((row) => row.id).join(",");
+  return createHash("sha256").update(`${count ?? 0}:${ids}`).digest("hex").slice(0, 16);
+}
+
+function freshSince() {
+  return new Date(Date.now() - answerCacheDays() * 24 * 60 * 60 * 1000).toISOString();
+}
+
+async function markHit(supabase: SupabaseClient, id: number) {
+  const { error } = await supabase.rpc("ernesto_answer_cache_hit", { p_id: id });
+  if (error) console.warn("v14.6 answer cache hit:", error.message);
+}
+
+export async function findCachedAnswer(supabase: SupabaseClient, scope: AnswerCacheScope) {
+  const { data, error } = await supabase
+    .from("ernesto_answer_cache")
+    .select(CACHED_ANSWER_COLUMNS)
+    .eq("cache_key", answerCacheKey(scope))
+    .gte("created_at", freshSince())
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+  await markHit(supabase, data.id);
+  return { answer: data as CachedAnswer, similarity: 1 };
+}
+
+// Near-duplicate lookup with the question's embedding, within the same mode,
+// presentation, knowledge-base version and prompt variant.
+export async function findSimilarCachedAnswer(supabase: SupabaseClient, scope: AnswerCacheScope, embedding: number[]) {
+  const { data, error } = await supabase.rpc("match_answer_cache", {
+    query_embedding: embedding,
+    p_mode: scope.mode,
+    p_presentation: scope.presentation,
+    p_kb_version: scope.kbVersion,
+    p_prompt_variant: scope.promptVariant,
+    p_since: freshSince(),
+    min_similarity: answerCacheSimilarity(),
+  });
+  if (error) throw new Error(error.message);
+  const match = (Array.isArray(data) ? data[0] : data) as (CachedAnswer & { similarity: number }) | undefined;
+  if (!match) return null;
+  await markHit(supabase, match.id);
+  const { similarity, ...answer } = match;
+  return { answer: answer as CachedAnswer, similarity: Number(similarity) };
+}
+
+export async function storeCachedAnswer(
+  supabase: SupabaseClient,
+  scope: AnswerCacheScope,
+  entry: Omit<CachedAnswer, "id" | "created_at"> & { embedding: number[] | null }
+) {
+  const { error } = await supabase.from("ernesto_answer_cache").upsert(
+    {
+      cache_key: answerCacheKey(scope),
+      question: scope.question.slice(0, 2000),
+      normalized_question: normalizeQuestion(scope.question).slice(0, 2000),
+      mode: scope.mode,
+      presentation: scope.presentation,
+      kb_version: scope.kbVersion,
+      prompt_variant: scope.promptVariant,
+      ...entry,
+      created_at: new Date().toISOString(),
+    },
+    { onConflict: "cache_key" }
+  );
+  if (error) console.warn("v14.6 answer cache store:", error.message);
+}
+
+// Called when the knowledge base changes: every entry is dropped.
+export async function clearAnswerCache(supabase: SupabaseClient) {
+  const { error } = await supabase.from("ernesto_answer_cache").delete().gte("id", 0);
+  if (error) console.warn("v14.6 answer cache clear:", error.message);
+}
@@ -0,0 +1,210 @@
+// Bake journal: what a trainee actually did on a given bake (recipe, times,
+// temperatures, oven) and how it turned out. Entries belong to a dossier; the
+// latest ones are copied into the dossier memory as user-observed facts, and
+// the tutor reads them through the consulter_journal_cuisson tool.
+
+export type BakeYeast = "fresh" | "dry" | "levain" | "none";
+
+export type BakeLogInput = {
+  baked_at: string;
+  label: string;
+  flour: string;
+  hydration: number | null;
+  salt: number | null;
+  yeast_type: BakeYeast | null;
+  yeast_percent: number | null;
+  ball_weight: number | null;
+  room_temp: number | null;
+  dough_temp: number | null;
+  bulk_hours: number | null;
+  cold_hours: number | null;
+  proof_hours: number | null;
+  oven_type: string;
+  oven_temp: number | null;
+  bake_seconds: number | null;
+  rating: number;
+  outcome: string;
+  note: string;
+};
+
+export type BakeLog = BakeLogInput & {
+  id: number;
+  project_id: string;
+  photo_before_id: number | null;
+  photo_after_id: number | null;
+};
+
+export type BakeTrendParameter = "hydration" | "dough_temp" | "cold_hours" | "oven_temp" | "bake_seconds";
+
+export type BakeTrendChart = {
+  type: "scatter";
+  title: string;
+  description: string;
+  data: {
+    x_label: string;
+    y_label: string;
+    points: Array<{ x: number; y: number; label: string }>;
+    note: string;
+  };
+};
+
+export type BakeJournalFact = {
+  category: string;
+  fact: string;
+  confidence: "high";
+  source: "journal";
+};
+
+export const BAKE_LOG_COLUMNS =
+  "id,project_id,baked_at,label,flour,hydration,salt,yeast_type,yeast_percent,ball_weight,room_temp,dough_temp,bulk_hours,cold_hours,proof_hours,oven_type,oven_temp,bake_seconds,rating,outcome,note,photo_before_id,photo_after_id";
+
+// How many of the latest entries are copied into the dossier memory.
+export const BAKE_JOURNAL_FACTS = 3;
+
+const YEASTS: BakeYeast[] = ["fresh", "dry", "levain", "none"];
+
+// Ranges are wide on purpose: they reject typing errors, not unusual methods.
+const NUMBER_RANGES: Record<string, [number, number]> = {
+  hydration: [40, 120],
+  salt: [0, 6],
+  yeast_percent: [0, 40],
+  ball_weight: [50, 3000],
+  room_temp: [-5, 45],
+  dough_temp: [0, 40],
+  bulk_hours: [0, 96],
+  cold_hours: [0, 168],
+  proof_hours: [0, 96],
+  oven_temp: [100, 550],
+  bake_seconds: [20, 7200],
+};
+
+export const BAKE_TREND_PARAMETERS: Array<{ key: BakeTrendParameter; label: string }> = [
+  { key: "hydration", label: "Hydratation (%)" },
+  { key: "dough_temp", label: "Température de pâte (°C)" },
+  { key: "cold_hours", label: "Froid (h)" },
+  { key: "oven_temp", label: "Température du four (°C)" },
+  { key: "bake_seconds", label: "Cuisson (s)" },
+];
+
+function clean(value: unknown, maxLength: number) {
+  return String(value ?? "").replace(/\s+/g, " ").trim().slice(0, maxLength);
+}
+
+function optionalNumber(value: unknown, key: string) {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(String(value).replace(",", "."));
+  const [min, max] = NUMBER_RANGES[key];
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) throw new Error(`invalid_${key}`);
+  return parsed;
+}
+
+export function parseBakeLogInput(raw: unknown): BakeLogInput {
+  const body = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const bakedAt = body.baked_at ? new Date(String(body.baked_at)) : new Date();
+  if (Number.isNaN(bakedAt.getTime())) throw new Error("invalid_baked_at");
+  const rating = Number(body.rating);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) throw new Error("invalid_rating");
+  const yeast = clean(body.yeast_type, 10);
+  if (yeast && !YEASTS.includes(yeast as BakeYeast)) throw new Error("invalid_yeast_type");
+
+  return {
+    baked_at: bakedAt.toISOString(),
+    label: clean(body.label, 120),
+    flour: clean(body.flour, 160),
+    hydration: optionalNumber(body.hydration, "hydration"),
+    salt: optionalNumber(body.salt, "salt"),
+    yeast_type: (yeast || null) as BakeYeast | null,
+    yeast_percent: optionalNumber(body.yeast_percent, "yeast_percent"),
+    ball_weight: optionalNumber(body.ball_weight, "ball_weight"),
+    room_temp: optionalNumber(body.room_temp, "room_temp"),
+    dough_temp: optionalNumber(body.dough_temp, "dough_temp"),
+    bulk_hours: optionalNumber(body.bulk_hours, "bulk_hours"),
+    cold_hours: optionalNumber(body.cold_hours, "cold_hours"),
+    proof_hours: optionalNumber(body.proof_hours, "proof_hours"),
+    oven_type: clean(body.oven_type, 80),
+    oven_temp: optionalNumber(body.oven_temp, "oven_temp"),
+    bake_seconds: optionalNumber(body.bake_seconds, "bake_seconds"),
+    rating,
+    outcome: clean(body.outcome, 300),
+    note: clean(body.note, 600),
+  };
+}
+
+const YEAST_LABELS: Record<BakeYeast, string> = {
+  fresh: "levure fraîche",
+  dry: "levure sèche",
+  levain: "levain",
+  none: "sans ferment ajouté",
+};
+
+// One line per entry, shared by the tutor prompt, the tool and the memory facts.
+export function bakeLogLine(entry: BakeLogInput) {
+  const parts = [
+    entry.label ? `« ${entry.label} »` : "",
+    entry.flour ? `farine ${entry.flour}` : "",
+    entry.hydration !== null ? `hydratation ${entry.hydration} %` : "",
+    entry.salt !== null ? `sel ${entry.salt} %` : "",
+    entry.yeast_type
+      ? `${YEAST_LABELS[entry.yeast_type]}${entry.yeast_percent !== null ? ` ${entry.yeast_percent} %` : ""}`
+      : "",
+    entry.ball_weight !== null ? `pâtons de ${entry.ball_weight} g` : "",
+    entry.room_temp !== null ? `fournil ${entry.room_temp} °C` : "",
+    entry.dough_temp !== null ? `pâte ${entry.dough_temp} °C` : "",
+    entry.bulk_hours !== null ? `pointage ${entry.bulk_hours} h` : "",
+    entry.cold_hours !== null ? `froid ${entry.cold_hours} h` : "",
+    entry.proof_hours !== null ? `apprêt ${entry.proof_hours} h` : "",
+    entry.oven_type || entry.oven_temp !== null || entry.bake_seconds !== null
+      ? `four ${[
+          entry.oven_type,
+          entry.oven_temp !== null ? `${entry.oven_temp} °C` : "",
+          entry.bake_seconds !== null ? `${entry.bake_seconds} s` : "",
+        ]
+          .filter(Boolean)
+          .join(" ")}`
+      : "",
+    `note ${entry.rating}/5`,
+    entry.outcome ? `résultat : ${entry.outcome}` : "",
+    entry.note,
+  ].filter(Boolean);
+  return `${entry.baked_at.slice(0, 10)} : ${parts.join(", ")}`;
+}
+
+// Entries are given most recent first.
+export function bakeJournalFacts(entries: BakeLogInput[]): BakeJournalFact[] {
+  return entries.slice(0, BAKE_JOURNAL_FACTS).map((entry) => ({
+    category: "Journal de cuisson",
+    fact: bakeLogLine(entry).slice(0, 260),
+    confidence: "high",
+    source: "journal",
+  }));
+}
+
+// The scatter widget draws y on a 0–100 axis, so the 1–5 rating is scaled ×20.
+export function bakeTrendChart(entries: BakeLogInput[], parameter: BakeTrendParameter): BakeTrendChart | null {
+  const label = BAKE_TREND_PARAMETERS.find((item) => item.key === parameter)?.label ?? parameter;
+  const points = entries
+    .filter((entry) => entry[parameter] !== null)
+    .map((entry) => ({
+      x: entry[parameter] as number,
+      y: entry.rating * 20,
+      label: `${entry.baked_at.slice(0, 10)}${entry.label ? ` — ${entry.label}` : ""}`,
+    }));
+  if (points.length < 2) return null;
+  return {
+    type: "scatter",
+    title: `${label.replace(/ \(.*\)$/, "")} et note des cuissons`,
+    description: `${points.length} cuisson(s) du journal de ce dossier.`,
+    data: {
+      x_label: label,
+      y_label: "Note (sur 100, 5/5 = 100)",
+      points,
+      note: "Données saisies dans le journal ; une tendance sur peu d’essais reste une piste, pas une preuve.",
+    },
+  };
+}
+
+export function bakeTrendCharts(entries: BakeLogInput[]) {
+  return BAKE_TREND_PARAMETERS.map((item) => bakeTrendChart(entries, item.key)).filter(
+    (chart): chart is BakeTrendChart => chart !== null
+  );
+}
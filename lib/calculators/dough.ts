@@ -0,0 +1,186 @@
+// Baker's-percentage dough formula. Every ratio is expressed against the total
+// flour, including the flour carried by a levain, so that 65 % hydration means
+// the same thing with fresh yeast or with a starter.
+
+export type YeastType = "fresh" | "dry" | "levain" | "none";
+
+export type DoughFormulaInput = {
+  flours: Array<{ name: string; percent: number }>;
+  hydration: number;
+  salt: number;
+  yeast_type: YeastType;
+  yeast_percent: number;
+  levain_percent: number;
+  levain_hydration: number;
+  oil: number;
+  sugar: number;
+  balls: number;
+  ball_weight: number;
+  waste_percent: number;
+};
+
+export type DoughIngredient = {
+  name: string;
+  grams: number;
+  baker_percent: number;
+};
+
+export type DoughFormula = {
+  balls: number;
+  ball_weight: number;
+  waste_percent: number;
+  target_dough: number;
+  total_dough: number;
+  total_flour: number;
+  total_water: number;
+  ingredients: DoughIngredient[];
+  levain: { grams: number; flour: number; water: number; hydration: number } | null;
+  baker_percent_total: number;
+  notes: string[];
+};
+
+const YEAST_TYPES: YeastType[] = ["fresh", "dry", "levain", "none"];
+
+function numberOr(value: unknown, fallback: number) {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = Number(String(value).replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+function requireRange(value: number, min: number, max: number, code: string) {
+  if (!Number.isFinite(value) || value < min || value > max) throw new Error(code);
+  return value;
+}
+
+// Grams are rounded to the gram, except small quantities (salt, yeast) which
+// keep one decimal because a gram of yeast matters.
+export function roundGrams(value: number) {
+  return value < 20 ? Math.round(value * 10) / 10 : Math.round(value);
+}
+
+function roundPercent(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+// Accepts the JSON body of /api/dough-formula or the arguments of the tutor
+// tool. Throws an Error whose message is a snake_case code on invalid input.
+export function parseDoughFormulaInput(raw: unknown): DoughFormulaInput {
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+
+  const rawFlours = Array.isArray(body.flours) ? body.flours : [];
+  const flours = rawFlours.length
+    ? rawFlours.slice(0, 5).map((item) => {
+        const flour = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+        return {
+          name: String(flour.name || "Farine").replace(/\s+/g, " ").trim().slice(0, 60) || "Farine",
+          percent: numberOr(flour.percent, NaN),
+        };
+      })
+    : [{ name: "Farine", percent: 100 }];
+  if (flours.some((flour) => !Number.isFinite(flour.percent) || flour.percent <= 0)) {
+    throw new Error("invalid_flour_blend");
+  }
+  const blendTotal = flours.reduce((sum, flour) => sum + flour.percent, 0);
+  if (Math.abs(blendTotal - 100) > 0.5) throw new Error("invalid_flour_blend");
+
+  const yeastType = YEAST_TYPES.includes(body.yeast_type as YeastType) ? (body.yeast_type as YeastType) : "fresh";
+  const yeastPercent =
+    yeastType === "fresh" || yeastType === "dry"
+      ? requireRange(numberOr(body.yeast_percent, NaN), 0.01, 5, "invalid_yeast")
+      : 0;
+  const levainPercent =
+    yeastType === "levain" ? requireRange(numberOr(body.levain_percent, NaN), 1, 60, "invalid_levain") : 0;
+  const levainHydration =
+    yeastType === "levain" ? requireRange(numberOr(body.levain_hydration, 100), 40, 200, "invalid_levain") : 100;
+
+  return {
+    flours,
+    hydration: requireRange(numberOr(body.hydration, NaN), 40, 120, "invalid_hydration"),
+    salt: requireRange(numberOr(body.salt, NaN), 0, 5, "invalid_salt"),
+    yeast_type: yeastType,
+    yeast_percent: yeastPercent,
+    levain_percent: levainPercent,
+    levain_hydration: levainHydration,
+    oil: requireRange(numberOr(body.oil, 0), 0, 15, "invalid_oil"),
+    sugar: requireRange(numberOr(body.sugar, 0), 0, 15, "invalid_sugar"),
+    balls: requireRange(Math.round(numberOr(body.balls, NaN)), 1, 1000, "invalid_balls"),
+    ball_weight: requireRange(numberOr(body.ball_weight, NaN), 20, 5000, "invalid_ball_weight"),
+    waste_percent: requireRange(numberOr(body.waste_percent, 0), 0, 20, "invalid_waste"),
+  };
+}
+
+export function computeDoughFormula(input: DoughFormulaInput): DoughFormula {
+  const targetDough = input.balls * input.ball_weight;
+  const totalDough = targetDough * (1 + input.waste_percent / 100);
+
+  const yeastPercent = input.yeast_type === "fresh" || input.yeast_type === "dry" ? input.yeast_percent : 0;
+  const percentTotal = 100 + input.hydration + input.salt + yeastPercent + input.oil + input.sugar;
+  const totalFlour = (totalDough * 100) / percentTotal;
+  const totalWater = (totalFlour * input.hydration) / 100;
+
+  let levain: DoughFormula["levain"] = null;
+  let levainFlour = 0;
+  let levainWater = 0;
+  if (input.yeast_type === "levain") {
+    const levainWeight = (totalFlour * input.levain_percent) / 100;
+    levainFlour = levainWeight / (1 + input.levain_hydration / 100);
+    levainWater = levainWeight - levainFlour;
+    levain = {
+      grams: roundGrams(levainWeight),
+      flour: roundGrams(levainFlour),
+      water: roundGrams(levainWater),
+      hydration: input.levain_hydration,
+    };
+  }
+
+  const notes: string[] = [];
+  const addedFlour = totalFlour - levainFlour;
+  const addedWater = totalWater - levainWater;
+  if (addedWater < 0) {
+    throw new Error("invalid_levain");
+  }
+
+  const percentOf = (grams: number) => roundPercent((grams / totalFlour) * 100);
+  const ingredients: DoughIngredient[] = input.flours.map((flour) => {
+    const grams = (addedFlour * flour.percent) / 100;
+    return { name: flour.name, grams: roundGrams(grams), baker_percent: percentOf(grams) };
+  });
+  ingredients.push({ name: "Eau", grams: roundGrams(addedWater), baker_percent: percentOf(addedWater) });
+  ingredients.push({ name: "Sel", grams: roundGrams((totalFlour * input.salt) / 100), baker_percent: input.salt });
+  if (input.yeast_type === "fresh" || input.yeast_type === "dry") {
+    ingredients.push({
+      name: input.yeast_type === "fresh" ? "Levure fraîche" : "Levure sèche",
+      grams: roundGrams((totalFlour * yeastPercent) / 100),
+      baker_percent: yeastPercent,
+    });
+  }
+  if (levain) {
+    ingredients.push({ name: "Levain", grams: levain.grams, baker_percent: input.levain_percent });
+    notes.push(
+      `Le levain apporte ${levain.flour} g de farine et ${levain.water} g d’eau, déjà déduits de la farine et de l’eau à ajouter.`
+    );
+  }
+  if (input.oil > 0) ingredients.push({ name: "Huile", grams: roundGrams((totalFlour * input.oil) / 100), baker_percent: input.oil });
+  if (input.sugar > 0) ingredients.push({ name: "Sucre", grams: roundGrams((totalFlour * input.sugar) / 100), baker_percent: input.sugar });
+
+  if (input.waste_percent > 0) {
+    notes.push(`La pâte totale inclut ${input.waste_percent} % de marge pour les pertes (cuve, pesée, détaillage).`);
+  }
+  if (input.flours.length > 1) {
+    notes.push("Les pourcentages du mélange s’appliquent à la farine ajoutée au pétrissage.");
+  }
+
+  return {
+    balls: input.balls,
+    ball_weight: input.ball_weight,
+    waste_percent: input.waste_percent,
+    target_dough: roundGrams(targetDough),
+    total_dough: roundGrams(totalDough),
+    total_flour: roundGrams(totalFlour),
+    total_water: roundGrams(totalWater),
+    ingredients,
+    levain,
+    baker_percent_total: roundPercent(percentTotal),
+    notes,
+  };
+}
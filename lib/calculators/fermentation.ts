@@ -0,0 +1,282 @@
+// Water temperature and fermentation timing. The water temperature follows the
+// base-temperature method: the temperatures of everything that goes into the
+// mixer (flour, room air, levain, water) plus the heat of kneading add up to a
+// base. Fermentation is modelled as progress towards a full rise, whose speed
+// depends on temperature; estimates are orders of magnitude, not promises.
+
+export type FermentationKind = "room" | "fridge" | "tempering";
+export type FermentationStage = "bulk" | "proof";
+export type FermentationYeast = "fresh" | "dry" | "levain";
+
+export type FermentationPhaseInput = {
+  label: string;
+  kind: FermentationKind;
+  stage: FermentationStage;
+  temperature: number;
+  hours: number | null;
+};
+
+export type FermentationInput = {
+  target_dough_temp: number | null;
+  base_temperature: number | null;
+  flour_temp: number;
+  room_temp: number;
+  friction_factor: number;
+  levain_temp: number | null;
+  yeast_type: FermentationYeast;
+  yeast_percent: number;
+  levain_percent: number;
+  phases: FermentationPhaseInput[];
+};
+
+export type FermentationPhase = FermentationPhaseInput & {
+  hours: number;
+  estimated: boolean;
+  rate: number;
+  progress_percent: number;
+};
+
+export type FermentationPlan = {
+  water: {
+    base_temperature: number;
+    target_dough_temp: number | null;
+    flour_temp: number;
+    room_temp: number;
+    levain_temp: number | null;
+    friction_factor: number;
+    water_temp: number;
+  };
+  reference_hours: number;
+  phases: FermentationPhase[];
+  bulk_hours: number;
+  proof_hours: number;
+  total_hours: number;
+  fermentation_percent: number;
+  notes: string[];
+};
+
+// Speeds are relative to a dough kept at 24 °C. A Q10 of 2.8 gives the usual
+// rule of thumb that a fridge at 4 °C ferments seven to eight times slower.
+const REFERENCE_TEMP = 24;
+const Q10 = 2.8;
+const MAX_ACTIVE_TEMP = 35;
+const FRIDGE_TEMP = 4;
+
+// Hours at the reference temperature for a full rise: 0.2 % fresh yeast or
+// 20 % levain take about eight hours; more leavening shortens it sub-linearly.
+const YEAST_REFERENCE = { percent: 0.2, hours: 8, exponent: 0.8 };
+const LEVAIN_REFERENCE = { percent: 20, hours: 7, exponent: 0.5 };
+
+const KINDS: FermentationKind[] = ["room", "fridge", "tempering"];
+const STAGES: FermentationStage[] = ["bulk", "proof"];
+const YEASTS: FermentationYeast[] = ["fresh", "dry", "levain"];
+
+const KIND_LABELS: Record<FermentationKind, string> = {
+  room: "ambiante",
+  fridge: "froid",
+  tempering: "remise en température",
+};
+
+const STAGE_LABELS: Record<FermentationStage, string> = {
+  bulk: "Pointage",
+  proof: "Apprêt",
+};
+
+function numberOr(value: unknown, fallback: number) {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = Number(String(value).replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+function requireRange(value: number, min: number, max: number, code: string) {
+  if (!Number.isFinite(value) || value < min || value > max) throw new Error(code);
+  return value;
+}
+
+function roundOne(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function formatHours(hours: number) {
+  const minutes = Math.round(hours * 60);
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (!h) return `${m} min`;
+  return m ? `${h} h ${String(m).padStart(2, "0")}` : `${h} h`;
+}
+
+// Speed relative to 24 °C; also used for levain refreshes.
+export function fermentationRate(temperature: number) {
+  return Math.pow(Q10, (Math.min(temperature, MAX_ACTIVE_TEMP) - REFERENCE_TEMP) / 10);
+}
+
+// Accepts the JSON body of /api/fermentation-plan or the arguments of the
+// tutor tool. Throws an Error whose message is a snake_case code on invalid input.
+export function parseFermentationInput(raw: unknown): FermentationInput {
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+
+  const yeastType = YEASTS.includes(body.yeast_type as FermentationYeast)
+    ? (body.yeast_type as FermentationYeast)
+    : "fresh";
+  const roomTemp = requireRange(numberOr(body.room_temp, NaN), -5, 45, "invalid_room_temp");
+
+  const targetDoughTemp = numberOr(body.target_dough_temp, NaN);
+  const baseTemperature = numberOr(body.base_temperature, NaN);
+  if (!Number.isFinite(targetDoughTemp) && !Number.isFinite(baseTemperature)) {
+    throw new Error("invalid_dough_temperature");
+  }
+
+  const rawPhases = Array.isArray(body.phases) ? body.phases.slice(0, 8) : [];
+  if (!rawPhases.length) throw new Error("invalid_schedule");
+  const phases = rawPhases.map((item) => {
+    const phase = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+    const kind = KINDS.includes(phase.kind as FermentationKind) ? (phase.kind as FermentationKind) : "room";
+    const stage = STAGES.includes(phase.stage as FermentationStage) ? (phase.stage as FermentationStage) : "bulk";
+    const defaultTemp = kind === "fridge" ? FRIDGE_TEMP : roomTemp;
+    const open = phase.hours === null || phase.hours === undefined || phase.hours === "";
+    return {
+      label:
+        String(phase.label || "").replace(/\s+/g, " ").trim().slice(0, 60) ||
+        `${STAGE_LABELS[stage]} (${KIND_LABELS[kind]})`,
+      kind,
+      stage,
+      temperature: requireRange(numberOr(phase.temperature, defaultTemp), -2, 40, "invalid_phase_temperature"),
+      hours: open ? null : requireRange(numberOr(phase.hours, NaN), 0, 168, "invalid_phase_hours"),
+    };
+  });
+  if (phases.filter((phase) => phase.hours === null).length > 1) throw new Error("invalid_schedule");
+
+  return {
+    target_dough_temp: Number.isFinite(targetDoughTemp)
+      ? requireRange(targetDoughTemp, 15, 32, "invalid_dough_temperature")
+      : null,
+    base_temperature: Number.isFinite(baseTemperature)
+      ? requireRange(baseTemperature, 30, 120, "invalid_base_temperature")
+      : null,
+    flour_temp: requireRange(numberOr(body.flour_temp, roomTemp), -5, 45, "invalid_flour_temp"),
+    room_temp: roomTemp,
+    friction_factor: requireRange(numberOr(body.friction_factor, 0), 0, 30, "invalid_friction_factor"),
+    levain_temp:
+      yeastType === "levain"
+        ? requireRange(numberOr(body.levain_temp, roomTemp), -2, 40, "invalid_levain_temp")
+        : null,
+    yeast_type: yeastType,
+    yeast_percent:
+      yeastType === "levain" ? 0 : requireRange(numberOr(body.yeast_percent, NaN), 0.01, 5, "invalid_yeast"),
+    levain_percent:
+      yeastType === "levain" ? requireRange(numberOr(body.levain_percent, NaN), 1, 60, "invalid_levain") : 0,
+    phases,
+  };
+}
+
+export function computeFermentationPlan(input: FermentationInput): FermentationPlan {
+  const notes: string[] = [];
+
+  // Three inputs without levain (flour, air, water), four with it.
+  const factor = input.levain_temp === null ? 3 : 4;
+  const baseTemperature = input.base_temperature ?? (input.target_dough_temp as number) * factor;
+  const waterTemp =
+    baseTemperature - input.flour_temp - input.room_temp - (input.levain_temp ?? 0) - input.friction_factor;
+
+  if (input.friction_factor === 0) {
+    notes.push("Échauffement du pétrin non renseigné : compté à 0 °C, la pâte sortira plus chaude que visé.");
+  }
+  if (waterTemp < 2) {
+    notes.push("Eau sous 2 °C : utiliser de l’eau glacée ou une part de glace pilée, ou réduire le temps de pétrissage.");
+  } else if (waterTemp > 35) {
+    notes.push("Eau au-dessus de 35 °C : risque pour la levure au contact direct, vérifier les températures mesurées.");
+  }
+
+  // Fresh-yeast equivalent: dry yeast is about three times as strong.
+  const referenceHours =
+    input.yeast_type === "levain"
+      ? LEVAIN_REFERENCE.hours * Math.pow(LEVAIN_REFERENCE.percent / input.levain_percent, LEVAIN_REFERENCE.exponent)
+      : YEAST_REFERENCE.hours *
+        Math.pow(
+          YEAST_REFERENCE.percent / (input.yeast_type === "dry" ? input.yeast_percent * 3 : input.yeast_percent),
+          YEAST_REFERENCE.exponent
+        );
+
+  const rates = input.phases.map((phase) => fermentationRate(phase.temperature));
+  const fixedProgress = input.phases.reduce(
+    (sum, phase, i) => sum + (phase.hours === null ? 0 : (phase.hours * rates[i]) / referenceHours),
+    0
+  );
+  const openIndex = input.phases.findIndex((phase) => phase.hours === null);
+  const openHours =
+    openIndex < 0 ? 0 : Math.max(0, ((1 - fixedProgress) * referenceHours) / rates[openIndex]);
+
+  let progress = 0;
+  const phases: FermentationPhase[] = input.phases.map((phase, i) => {
+    const hours = phase.hours ?? openHours;
+    progress += (hours * rates[i]) / referenceHours;
+    return {
+      ...phase,
+      hours: roundOne(hours),
+      estimated: phase.hours === null,
+      rate: Math.round(rates[i] * 100) / 100,
+      progress_percent: Math.round(progress * 100),
+    };
+  });
+
+  if (openIndex >= 0 && fixedProgress >= 1) {
+    notes.push(
+      `Les phases fixées suffisent déjà à la fermentation complète : « ${phases[openIndex].label} » doit être aussi courte que possible.`
+    );
+  } else if (openIndex < 0 && progress > 1.2) {
+    notes.push("Le programme dépasse nettement la fermentation complète : réduire la levure ou une durée.");
+  } else if (openIndex < 0 && progress < 0.8) {
+    notes.push("Le programme reste en deçà de la fermentation complète : allonger une phase à température ambiante.");
+  }
+  if (openIndex >= 0 && openHours > 72) {
+    notes.push(`Durée estimée de « ${phases[openIndex].label} » très longue : augmenter la levure ou la température.`);
+  }
+  if (input.phases.some((phase) => phase.kind === "fridge")) {
+    notes.push("Au froid, le pâton met plusieurs heures à descendre en température : le début de la phase fermente plus vite que prévu.");
+  }
+  if (input.phases.some((phase) => phase.temperature > MAX_ACTIVE_TEMP)) {
+    notes.push(`Au-delà de ${MAX_ACTIVE_TEMP} °C, la vitesse n’augmente plus et la levure souffre.`);
+  }
+  notes.push("Durées estimées : se fier au volume et à la tenue de la pâte plutôt qu’à l’horloge.");
+
+  const stageHours = (stage: FermentationStage) =>
+    roundOne(phases.filter((phase) => phase.stage === stage).reduce((sum, phase) => sum + phase.hours, 0));
+
+  return {
+    water: {
+      base_temperature: roundOne(baseTemperature),
+      target_dough_temp: input.target_dough_temp,
+      flour_temp: input.flour_temp,
+      room_temp: input.room_temp,
+      levain_temp: input.levain_temp,
+      friction_factor: input.friction_factor,
+      water_temp: roundOne(waterTemp),
+    },
+    reference_hours: roundOne(referenceHours),
+    phases,
+    bulk_hours: stageHours("bulk"),
+    proof_hours: stageHours("proof"),
+    total_hours: roundOne(phases.reduce((sum, phase) => sum + phase.hours, 0)),
+    fermentation_percent: Math.round(progress * 100),
+    notes,
+  };
+}
+
+// Shape expected by the "timeline" chart of the interface (TimelineChart).
+export function fermentationTimelineChart(plan: FermentationPlan) {
+  return {
+    type: "timeline" as const,
+    title: "Programme de fermentation",
+    description: `Eau à ${plan.water.water_temp} °C, puis ${formatHours(plan.total_hours)} de fermentation (pointage ${formatHours(plan.bulk_hours)}, apprêt ${formatHours(plan.proof_hours)}).`,
+    data: {
+      steps: plan.phases.map((phase) => ({
+        label: phase.label,
+        minutes: Math.round(phase.hours * 60),
+        purpose: `${formatHours(phase.hours)} à ${phase.temperature} °C (${KIND_LABELS[phase.kind]})${
+          phase.estimated ? ", durée estimée" : ""
+        } — fermentation cumulée ${phase.progress_percent} %.`,
+      })),
+      note: plan.notes.join(" "),
+    },
+  };
+}
@@ -0,0 +1,349 @@
+// Food cost of a menu item: dough (a batch recipe spread over the ball weight)
+// plus toppings, against the sale price net of VAT. Prices are per kg, per
+// litre or per piece; recipe quantities are grams (millilitres) or counts.
+
+export type PriceUnit = "kg" | "l" | "piece";
+
+export type IngredientPrice = {
+  name: string;
+  unit: PriceUnit;
+  price: number;
+};
+
+export type RecipeLine = {
+  ingredient: string;
+  quantity: number;
+};
+
+export type MenuItemInput = {
+  name: string;
+  sale_price: number;
+  vat_rate: number;
+  ball_weight: number;
+  dough: RecipeLine[];
+  toppings: RecipeLine[];
+};
+
+export type PriceChange = {
+  ingredient: string;
+  percent: number;
+};
+
+export type FoodCostInput = {
+  item: MenuItemInput;
+  prices: IngredientPrice[];
+  price_changes: PriceChange[];
+};
+
+export type FoodCostCatalog = {
+  prices: IngredientPrice[];
+  items: MenuItemInput[];
+};
+
+export type FoodCostLine = {
+  label: string;
+  quantity: number;
+  unit: "g" | "pièce";
+  cost: number;
+  share_percent: number;
+};
+
+export type FoodCostSensitivity = {
+  ingredient: string;
+  percent: number;
+  cost: number;
+  cost_delta: number;
+  margin: number;
+  food_cost_percent: number;
+  sale_price_same_ratio: number;
+};
+
+export type FoodCostResult = {
+  item: string;
+  sale_price: number;
+  sale_price_ht: number;
+  vat_rate: number;
+  dough_cost_per_kg: number;
+  lines: FoodCostLine[];
+  cost: number;
+  margin: number;
+  food_cost_percent: number;
+  coefficient: number;
+  sensitivity: FoodCostSensitivity[];
+  missing_prices: string[];
+  notes: string[];
+};
+
+const PRICE_UNITS: PriceUnit[] = ["kg", "l", "piece"];
+// Usual French VAT on food served on site.
+const DEFAULT_VAT_RATE = 10;
+// Without explicit scenarios, every priced ingredient is tested at +10 %.
+const DEFAULT_PRICE_CHANGE = 10;
+
+function numberOr(value: unknown, fallback: number) {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = Number(String(value).replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+function requireRange(value: number, min: number, max: number, code: string) {
+  if (!Number.isFinite(value) || value < min || value > max) throw new Error(code);
+  return value;
+}
+
+function cleanName(value: unknown) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, 80);
+}
+
+function objectList(value: unknown) {
+  return Array.isArray(value)
+    ? value.map((item) => (item && typeof item === "object" ? (item as Record<string, unknown>) : {}))
+    : [];
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function roundPercent(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+// Matching key for ingredient names: "Mozzarella fior di latte" and
+// "mozzarella  Fior di Latte" are the same ingredient.
+export function ingredientKey(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function parseIngredientPrices(raw: unknown): IngredientPrice[] {
+  return objectList(raw)
+    .slice(0, 200)
+    .map((price) => ({
+      name: cleanName(price.name),
+      unit: PRICE_UNITS.includes(price.unit as PriceUnit) ? (price.unit as PriceUnit) : "kg",
+      price: requireRange(numberOr(price.price, NaN), 0, 10000, "invalid_price"),
+    }))
+    .filter((price) => price.name);
+}
+
+export function parseRecipeLines(raw: unknown): RecipeLine[] {
+  return objectList(raw)
+    .slice(0, 40)
+    .map((line) => ({
+      ingredient: cleanName(line.ingredient),
+      quantity: requireRange(numberOr(line.quantity, NaN), 0, 100000, "invalid_recipe"),
+    }))
+    .filter((line) => line.ingredient && line.quantity > 0);
+}
+
+export function parseMenuItem(raw: unknown): MenuItemInput {
+  const item = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const dough = parseRecipeLines(item.dough);
+  const toppings = parseRecipeLines(item.toppings);
+  if (!dough.length && !toppings.length) throw new Error("invalid_recipe");
+  return {
+    name: cleanName(item.name) || "Pizza",
+    sale_price: requireRange(numberOr(item.sale_price, NaN), 0.01, 1000, "invalid_sale_price"),
+    vat_rate: requireRange(numberOr(item.vat_rate, DEFAULT_VAT_RATE), 0, 30, "invalid_vat_rate"),
+    ball_weight: requireRange(numberOr(item.ball_weight, NaN), 20, 5000, "invalid_ball_weight"),
+    dough,
+    toppings,
+  };
+}
+
+// Stored menu items that no longer parse (edited by hand, outdated) are skipped.
+export function parseStoredMenuItems(rows: unknown[]) {
+  return rows.flatMap((row): MenuItemInput[] => {
+    try {
+      return [parseMenuItem(row)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+// Accepts the JSON body of /api/food-cost/calculate or the resolved arguments
+// of the tutor tool. Throws an Error whose message is a snake_case code.
+export function parseFoodCostInput(raw: unknown): FoodCostInput {
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return {
+    item: parseMenuItem(body.item),
+    prices: parseIngredientPrices(body.prices),
+    price_changes: objectList(body.price_changes)
+      .slice(0, 12)
+      .map((change) => ({
+        ingredient: cleanName(change.ingredient),
+        percent: requireRange(numberOr(change.percent, NaN), -90, 500, "invalid_price_change"),
+      }))
+      .filter((change) => change.ingredient),
+  };
+}
+
+// Fills what the request leaves out from the user's stored prices and menu:
+// `menu_item` names a stored item, inline fields override it, inline prices
+// override stored ones.
+export function withFoodCostCatalog(raw: unknown, catalog: FoodCostCatalog) {
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const wanted = ingredientKey(cleanName(body.menu_item));
+  const stored = wanted ? catalog.items.find((item) => ingredientKey(item.name) === wanted) : undefined;
+  if (wanted && !stored) throw new Error("menu_item_not_found");
+
+  const inline = body.item && typeof body.item === "object" ? (body.item as Record<string, unknown>) : {};
+  const pick = (key: string) => {
+    const value = inline[key] ?? body[key];
+    if (Array.isArray(value)) return value.length ? value : undefined;
+    return value === null || value === "" ? undefined : value;
+  };
+  const item = {
+    name: pick("name") ?? stored?.name,
+    sale_price: pick("sale_price") ?? stored?.sale_price,
+    vat_rate: pick("vat_rate") ?? stored?.vat_rate,
+    ball_weight: pick("ball_weight") ?? stored?.ball_weight,
+    dough: pick("dough") ?? stored?.dough,
+    toppings: pick("toppings") ?? stored?.toppings,
+  };
+
+  const inlinePrices = parseIngredientPrices(body.prices);
+  const inlineKeys = new Set(inlinePrices.map((price) => ingredientKey(price.name)));
+  const prices = [...inlinePrices, ...catalog.prices.filter((price) => !inlineKeys.has(ingredientKey(price.name)))];
+
+  return { item, prices, price_changes: body.price_changes };
+}
+
+export function computeFoodCost(input: FoodCostInput): FoodCostResult {
+  const { item } = input;
+  const priceOf = new Map(input.prices.map((price) => [ingredientKey(price.name), price]));
+  const missing = new Set<string>();
+
+  const lineCost = (line: RecipeLine, factors: Map<string, number>) => {
+    const key = ingredientKey(line.ingredient);
+    const price = priceOf.get(key);
+    if (!price) {
+      missing.add(line.ingredient);
+      return 0;
+    }
+    const unitPrice = price.price * (factors.get(key) ?? 1);
+    return price.unit === "piece" ? line.quantity * unitPrice : (line.quantity / 1000) * unitPrice;
+  };
+  const isCounted = (line: RecipeLine) => priceOf.get(ingredientKey(line.ingredient))?.unit === "piece";
+
+  // Pieces (an egg, a sachet) cost money but do not weigh in the batch.
+  const batchWeight = item.dough.filter((line) => !isCounted(line)).reduce((sum, line) => sum + line.quantity, 0);
+  const costWith = (factors: Map<string, number>) => {
+    const batchCost = item.dough.reduce((sum, line) => sum + lineCost(line, factors), 0);
+    const doughPerGram = batchWeight > 0 ? batchCost / batchWeight : 0;
+    const toppings = item.toppings.map((line) => lineCost(line, factors));
+    return {
+      doughPerGram,
+      dough: doughPerGram * item.ball_weight,
+      toppings,
+      total: doughPerGram * item.ball_weight + toppings.reduce((sum, cost) => sum + cost, 0),
+    };
+  };
+
+  const base = costWith(new Map());
+  const salePriceHt = item.sale_price / (1 + item.vat_rate / 100);
+  const share = (cost: number) => (base.total > 0 ? roundPercent((cost / base.total) * 100) : 0);
+
+  const lines: FoodCostLine[] = [];
+  if (item.dough.length) {
+    lines.push({ label: "Pâte", quantity: item.ball_weight, unit: "g", cost: roundMoney(base.dough), share_percent: share(base.dough) });
+  }
+  item.toppings.forEach((line, i) => {
+    lines.push({
+      label: line.ingredient,
+      quantity: line.quantity,
+      unit: isCounted(line) ? "pièce" : "g",
+      cost: roundMoney(base.toppings[i]),
+      share_percent: share(base.toppings[i]),
+    });
+  });
+
+  const used = [...item.dough, ...item.toppings]
+    .map((line) => line.ingredient)
+    .filter((name, i, all) => priceOf.has(ingredientKey(name)) && all.findIndex((other) => ingredientKey(other) === ingredientKey(name)) === i);
+  const scenarios = input.price_changes.length
+    ? input.price_changes
+    : used.map((ingredient) => ({ ingredient, percent: DEFAULT_PRICE_CHANGE }));
+  const foodCostRatio = salePriceHt > 0 ? base.total / salePriceHt : 0;
+
+  const sensitivity: FoodCostSensitivity[] = scenarios.map((change) => {
+    const changed = costWith(new Map([[ingredientKey(change.ingredient), 1 + change.percent / 100]]));
+    return {
+      ingredient: change.ingredient,
+      percent: change.percent,
+      cost: roundMoney(changed.total),
+      cost_delta: roundMoney(changed.total - base.total),
+      margin: roundMoney(salePriceHt - changed.total),
+      food_cost_percent: roundPercent((changed.total / salePriceHt) * 100),
+      sale_price_same_ratio:
+        foodCostRatio > 0 ? roundMoney((changed.total / foodCostRatio) * (1 + item.vat_rate / 100)) : item.sale_price,
+    };
+  });
+  sensitivity.sort((a, b) => b.cost_delta - a.cost_delta);
+
+  const notes: string[] = [];
+  if (missing.size) {
+    notes.push(`Prix manquant pour ${[...missing].join(", ")} : compté à 0, le coût réel est plus élevé.`);
+  }
+  if (item.dough.length && batchWeight <= 0) {
+    notes.push("La recette de pâte ne contient que des ingrédients à la pièce : son coût au gramme n’est pas calculable.");
+  }
+  notes.push(`Marge calculée sur le prix hors TVA (${item.vat_rate} %), avant main-d’œuvre, énergie et pertes.`);
+
+  return {
+    item: item.name,
+    sale_price: item.sale_price,
+    sale_price_ht: roundMoney(salePriceHt),
+    vat_rate: item.vat_rate,
+    dough_cost_per_kg: roundMoney(base.doughPerGram * 1000),
+    lines,
+    cost: roundMoney(base.total),
+    margin: roundMoney(salePriceHt - base.total),
+    food_cost_percent: roundPercent(foodCostRatio * 100),
+    coefficient: base.total > 0 ? Math.round((salePriceHt / base.total) * 100) / 100 : 0,
+    sensitivity,
+    missing_prices: [...missing],
+    notes,
+  };
+}
+
+// Shapes expected by the "bar" and "table" charts of the interface.
+export function foodCostCharts(result: FoodCostResult) {
+  const euros = (value: number) => `${value.toFixed(2).replace(".", ",")} €`;
+  return [
+    {
+      type: "bar" as const,
+      title: `Coût matière — ${result.item}`,
+      description: `${euros(result.cost)} de matière pour ${euros(result.sale_price_ht)} HT, soit ${result.food_cost_percent} % de food cost et ${euros(result.margin)} de marge brute.`,
+      data: {
+        labels: result.lines.map((line) => line.label),
+        values: result.lines.map((line) => line.cost),
+        unit: "€",
+        note: result.notes.join(" "),
+      },
+    },
+    {
+      type: "table" as const,
+      title: "Sensibilité aux prix",
+      description: "Effet d’une variation de prix d’un ingrédient, les autres restant stables.",
+      data: {
+        columns: ["Ingrédient", "Variation", "Coût", "Marge HT", "Food cost", "Prix TTC à ratio constant"],
+        rows: result.sensitivity.map((row) => [
+          row.ingredient,
+          `${row.percent > 0 ? "+" : ""}${row.percent} %`,
+          euros(row.cost),
+          euros(row.margin),
+          `${row.food_cost_percent} %`,
+          euros(row.sale_price_same_ratio),
+        ]),
+        note: `Prix actuel : ${euros(result.sale_price)} TTC.`,
+      },
+    },
+  ];
+}
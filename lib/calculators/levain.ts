@@ -0,0 +1,201 @@
+import { roundGrams } from "./dough";
+import { fermentationRate } from "./fermentation";
+
+// Levain refresh schedule. A refresh dilutes the starter with flour and water;
+// the more it is diluted and the colder it is, the later it peaks. The plan is
+// built backwards from the peak wanted for the dough, each earlier refresh
+// peaking when the next one is due.
+
+export type LevainScheduleInput = {
+  hydration: number;
+  storage_temp: number;
+  feeding_temp: number;
+  ratio: number;
+  feedings: number;
+  levain_grams: number;
+  target_peak_at: string;
+  now: string;
+  speed_factor: number;
+};
+
+export type LevainFeeding = {
+  at: string;
+  peak_at: string;
+  seed_g: number;
+  flour_g: number;
+  water_g: number;
+  ratio: string;
+  hours_to_peak: number;
+};
+
+export type LevainReminder = {
+  at: string;
+  label: string;
+};
+
+export type LevainSchedule = {
+  target_peak_at: string;
+  feeding_temp: number;
+  speed_factor: number;
+  feedings: LevainFeeding[];
+  reminders: LevainReminder[];
+  late: boolean;
+  notes: string[];
+};
+
+// Logged feeding used to calibrate the starter's own speed.
+export type LevainPeakSample = {
+  seed_g: number | null;
+  flour_g: number | null;
+  water_g: number | null;
+  temperature: number | null;
+  hours_to_peak: number | null;
+};
+
+// A 1:1:1 refresh at 24 °C peaks in about four and a half hours.
+const REFERENCE_PEAK_HOURS = 4.5;
+const REFERENCE_DILUTION = 3;
+// Starters kept at or below this temperature need an extra refresh and a
+// slower first one to wake up.
+const COLD_STORAGE_TEMP = 8;
+const COLD_START_FACTOR = 1.25;
+// Each intermediate refresh makes a little more than the next one needs.
+const CARRY_MARGIN = 1.1;
+
+function numberOr(value: unknown, fallback: number) {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = Number(String(value).replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+function requireRange(value: number, min: number, max: number, code: string) {
+  if (!Number.isFinite(value) || value < min || value > max) throw new Error(code);
+  return value;
+}
+
+function requireDate(value: unknown, code: string) {
+  const date = new Date(String(value || ""));
+  if (!value || Number.isNaN(date.getTime())) throw new Error(code);
+  return date.toISOString();
+}
+
+function formatRatio(ratio: number, hydration: number) {
+  const water = Math.round(((ratio * hydration) / 100) * 10) / 10;
+  return `1:${Math.round(ratio * 10) / 10}:${water}`;
+}
+
+export function levainHoursToPeak(ratio: number, hydration: number, temperature: number, speedFactor = 1) {
+  const dilution = 1 + ratio * (1 + hydration / 100);
+  const hoursAt24 = (REFERENCE_PEAK_HOURS * Math.log(dilution)) / Math.log(REFERENCE_DILUTION);
+  return (hoursAt24 * speedFactor) / fermentationRate(temperature);
+}
+
+// Median of observed / predicted peak times over the logged feedings. Below 1
+// the starter is faster than the model, above 1 slower. Clamped so that one
+// odd observation cannot derail a plan.
+export function levainSpeedFactor(samples: LevainPeakSample[], hydration: number) {
+  const ratios = samples
+    .map((sample) => {
+      if (!sample.seed_g || !sample.flour_g || !sample.hours_to_peak || sample.temperature === null) return NaN;
+      const sampleHydration = sample.water_g ? (sample.water_g / sample.flour_g) * 100 : hydration;
+      const predicted = levainHoursToPeak(sample.flour_g / sample.seed_g, sampleHydration, sample.temperature);
+      return sample.hours_to_peak / predicted;
+    })
+    .filter((value) => Number.isFinite(value) && value > 0)
+    .sort((a, b) => a - b);
+  if (!ratios.length) return { factor: 1, samples: 0 };
+  const middle = Math.floor(ratios.length / 2);
+  const median = ratios.length % 2 ? ratios[middle] : (ratios[middle - 1] + ratios[middle]) / 2;
+  return { factor: Math.round(Math.min(2, Math.max(0.5, median)) * 100) / 100, samples: ratios.length };
+}
+
+// Accepts the JSON body of /api/levain/schedule merged with the stored starter.
+// Throws an Error whose message is a snake_case code on invalid input.
+export function parseLevainScheduleInput(raw: unknown): LevainScheduleInput {
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const storageTemp = requireRange(numberOr(body.storage_temp, 4), -2, 35, "invalid_storage_temp");
+  const defaultFeedings = storageTemp <= COLD_STORAGE_TEMP ? 2 : 1;
+
+  return {
+    hydration: requireRange(numberOr(body.hydration, 100), 40, 200, "invalid_levain_hydration"),
+    storage_temp: storageTemp,
+    feeding_temp: requireRange(numberOr(body.feeding_temp, NaN), 10, 35, "invalid_feeding_temp"),
+    ratio: requireRange(numberOr(body.ratio, 2), 0.5, 10, "invalid_feeding_ratio"),
+    feedings: requireRange(Math.round(numberOr(body.feedings, defaultFeedings)), 1, 4, "invalid_feedings"),
+    levain_grams: requireRange(numberOr(body.levain_grams, NaN), 10, 20000, "invalid_levain_grams"),
+    target_peak_at: requireDate(body.target_peak_at, "invalid_target_peak"),
+    now: body.now ? requireDate(body.now, "invalid_now") : new Date().toISOString(),
+    speed_factor: requireRange(numberOr(body.speed_factor, 1), 0.5, 2, "invalid_speed_factor"),
+  };
+}
+
+export function computeLevainSchedule(input: LevainScheduleInput): LevainSchedule {
+  const notes: string[] = [];
+  const coldStart = input.storage_temp <= COLD_STORAGE_TEMP;
+  const dilution = 1 + input.ratio * (1 + input.hydration / 100);
+
+  // Built from the last refresh backwards: it must yield the levain for the
+  // dough, each earlier one the seed of the next plus a margin.
+  const reversed: LevainFeeding[] = [];
+  let peakAt = new Date(input.target_peak_at).getTime();
+  let needed = input.levain_grams;
+  for (let i = input.feedings - 1; i >= 0; i -= 1) {
+    const first = i === 0;
+    const hours =
+      levainHoursToPeak(input.ratio, input.hydration, input.feeding_temp, input.speed_factor) *
+      (first && coldStart ? COLD_START_FACTOR : 1);
+    const seed = needed / dilution;
+    const flour = seed * input.ratio;
+    // Rounded to the minute: these are reminder times, not measurements.
+    const at = Math.round((peakAt - hours * 3_600_000) / 60_000) * 60_000;
+    reversed.push({
+      at: new Date(at).toISOString(),
+      peak_at: new Date(peakAt).toISOString(),
+      seed_g: roundGrams(seed),
+      flour_g: roundGrams(flour),
+      water_g: roundGrams((flour * input.hydration) / 100),
+      ratio: formatRatio(input.ratio, input.hydration),
+      hours_to_peak: Math.round(hours * 10) / 10,
+    });
+    peakAt = at;
+    needed = seed * CARRY_MARGIN;
+  }
+  const feedings = reversed.reverse();
+
+  const late = new Date(feedings[0].at).getTime() < new Date(input.now).getTime();
+  if (late) {
+    notes.push(
+      "Le premier rafraîchi aurait déjà dû avoir lieu : réchauffer le levain, réduire la dilution ou supprimer un rafraîchi."
+    );
+  }
+  if (coldStart) {
+    notes.push("Levain conservé au froid : le premier rafraîchi est plus lent, le suivant montre sa vraie vitesse.");
+  }
+  if (input.speed_factor !== 1) {
+    notes.push(
+      input.speed_factor < 1
+        ? "Durées raccourcies d’après les pics notés dans le journal de ce levain."
+        : "Durées allongées d’après les pics notés dans le journal de ce levain."
+    );
+  }
+  notes.push("Le pic se reconnaît au dôme qui commence à s’affaisser : l’observer plutôt que se fier à l’horloge.");
+
+  const reminders: LevainReminder[] = feedings.map((feeding, i) => ({
+    at: feeding.at,
+    label: `${i === 0 && coldStart ? "Sortir le levain du froid et rafraîchir" : `Rafraîchi ${i + 1}/${feedings.length}`} : ${feeding.seed_g} g de levain + ${feeding.flour_g} g de farine + ${feeding.water_g} g d’eau, pic dans ${feeding.hours_to_peak} h.`,
+  }));
+  reminders.push({
+    at: input.target_peak_at,
+    label: `Levain au pic : ${input.levain_grams} g prêts pour la pâte.`,
+  });
+
+  return {
+    target_peak_at: input.target_peak_at,
+    feeding_temp: input.feeding_temp,
+    speed_factor: input.speed_factor,
+    feedings,
+    reminders,
+    late,
+    notes,
+  };
+}
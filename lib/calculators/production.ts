@@ -0,0 +1,406 @@
+import { computeDoughFormula, parseDoughFormulaInput, type DoughFormula } from "./dough";
+
+// Production plan for one service. Everything is scheduled backwards from the
+// oven: each dough batch is tempered just before its first pizza is baked, so
+// the plan works on the service's local clock, in minutes relative to the
+// start of service (negative before it).
+
+export type ProductionStepKind = "kneading" | "bulk" | "balling" | "cold_retard" | "tempering" | "bake";
+
+export type ProductionInput = {
+  service_time: string;
+  service_hours: number;
+  covers: number;
+  pizzas_per_cover: number;
+  spare_percent: number;
+  ball_weight: number;
+  dough: Record<string, unknown>;
+  mixer_capacity_kg: number;
+  kneading_minutes: number;
+  bulk_hours: number;
+  balling_seconds: number;
+  cold_retard_hours: number;
+  tempering_hours: number;
+  oven_capacity: number;
+  bake_minutes: number;
+};
+
+export type ProductionStep = {
+  id: string;
+  batch: number | null;
+  kind: ProductionStepKind;
+  label: string;
+  start: number;
+  end: number;
+  start_clock: string;
+  end_clock: string;
+  note: string;
+};
+
+export type ProductionBatch = {
+  index: number;
+  balls: number;
+  formula: DoughFormula;
+};
+
+export type OvenWindow = {
+  start_clock: string;
+  end_clock: string;
+  pizzas: number;
+  capacity: number;
+};
+
+export type ProductionPlan = {
+  service_time: string;
+  service_hours: number;
+  pizzas: number;
+  balls: number;
+  total_dough: number;
+  batches: ProductionBatch[];
+  steps: ProductionStep[];
+  oven: {
+    cycles: number;
+    max_pizzas: number;
+    pizzas_per_hour: number;
+    bottleneck: boolean;
+    windows: OvenWindow[];
+  };
+  warnings: string[];
+  notes: string[];
+};
+
+const STEP_LABELS: Record<ProductionStepKind, string> = {
+  kneading: "Pétrissage",
+  bulk: "Pointage",
+  balling: "Boulage",
+  cold_retard: "Froid (pâtons)",
+  tempering: "Remise en température",
+  bake: "Cuisson",
+};
+
+// The order in which a batch goes through the steps.
+const BATCH_STEPS: ProductionStepKind[] = ["kneading", "bulk", "balling", "cold_retard", "tempering"];
+const OVEN_WINDOW_MINUTES = 30;
+// Beyond this, a batch spends noticeably longer in the fridge than planned.
+const MAX_COLD_EXTENSION = 0.25;
+// The dough calculator's own limit on balls per formula.
+const MAX_BATCH_BALLS = 1000;
+
+function numberOr(value: unknown, fallback: number) {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = Number(String(value).replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+function requireRange(value: number, min: number, max: number, code: string) {
+  if (!Number.isFinite(value) || value < min || value > max) throw new Error(code);
+  return value;
+}
+
+function serviceMinutesOfDay(serviceTime: string) {
+  const [hours, minutes] = serviceTime.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// "J-1 14:30": day relative to the service day, then the local time.
+export function productionClock(serviceTime: string, offset: number) {
+  const absolute = serviceMinutesOfDay(serviceTime) + Math.round(offset);
+  const day = Math.floor(absolute / 1440);
+  const minutes = absolute - day * 1440;
+  const time = `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+  return `J${day === 0 ? "" : day > 0 ? `+${day}` : day} ${time}`;
+}
+
+// Accepts the JSON body of /api/production-plan or the arguments of the tutor
+// tool. Dough settings (hydration, salt, yeast…) may be nested under `dough`
+// or given at the top level. Throws an Error whose message is a snake_case code.
+export function parseProductionInput(raw: unknown): ProductionInput {
+  const body = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const serviceTime = String(body.service_time || "").trim();
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(serviceTime)) throw new Error("invalid_service_time");
+
+  const dough = body.dough && typeof body.dough === "object" ? (body.dough as Record<string, unknown>) : body;
+  const ballWeight = requireRange(numberOr(body.ball_weight, NaN), 20, 5000, "invalid_ball_weight");
+  // Validates the dough settings now rather than per batch.
+  parseDoughFormulaInput({ ...dough, balls: 1, ball_weight: ballWeight });
+
+  return {
+    service_time: serviceTime,
+    service_hours: requireRange(numberOr(body.service_hours, NaN), 0.5, 12, "invalid_service_hours"),
+    covers: requireRange(Math.round(numberOr(body.covers, NaN)), 1, 2000, "invalid_covers"),
+    pizzas_per_cover: requireRange(numberOr(body.pizzas_per_cover, 1), 0.1, 3, "invalid_pizzas_per_cover"),
+    spare_percent: requireRange(numberOr(body.spare_percent, 10), 0, 50, "invalid_spare_percent"),
+    ball_weight: ballWeight,
+    dough: {
+      flours: dough.flours,
+      hydration: dough.hydration,
+      salt: dough.salt,
+      yeast_type: dough.yeast_type,
+      yeast_percent: dough.yeast_percent,
+      levain_percent: dough.levain_percent,
+      levain_hydration: dough.levain_hydration,
+      oil: dough.oil,
+      sugar: dough.sugar,
+      waste_percent: dough.waste_percent,
+    },
+    mixer_capacity_kg: requireRange(numberOr(body.mixer_capacity_kg, 25), 1, 500, "invalid_mixer_capacity"),
+    kneading_minutes: requireRange(numberOr(body.kneading_minutes, 20), 5, 60, "invalid_kneading_minutes"),
+    bulk_hours: requireRange(numberOr(body.bulk_hours, 2), 0, 72, "invalid_bulk_hours"),
+    balling_seconds: requireRange(numberOr(body.balling_seconds, 20), 5, 120, "invalid_balling_seconds"),
+    cold_retard_hours: requireRange(numberOr(body.cold_retard_hours, NaN), 0, 96, "invalid_cold_retard_hours"),
+    tempering_hours: requireRange(numberOr(body.tempering_hours, NaN), 0, 12, "invalid_tempering_hours"),
+    oven_capacity: requireRange(Math.round(numberOr(body.oven_capacity, NaN)), 1, 40, "invalid_oven_capacity"),
+    bake_minutes: requireRange(numberOr(body.bake_minutes, NaN), 0.5, 30, "invalid_bake_minutes"),
+  };
+}
+
+function step(
+  input: ProductionInput,
+  kind: ProductionStepKind,
+  batch: number | null,
+  start: number,
+  end: number,
+  note = ""
+): ProductionStep {
+  return {
+    id: batch === null ? kind : `${kind}-${batch}`,
+    batch,
+    kind,
+    label: batch === null ? STEP_LABELS[kind] : `${STEP_LABELS[kind]} — fournée ${batch}`,
+    start: Math.round(start),
+    end: Math.round(end),
+    start_clock: productionClock(input.service_time, start),
+    end_clock: productionClock(input.service_time, end),
+    note,
+  };
+}
+
+export function computeProductionPlan(input: ProductionInput): ProductionPlan {
+  const notes: string[] = [];
+  const serviceMinutes = input.service_hours * 60;
+  const pizzas = Math.ceil(input.covers * input.pizzas_per_cover);
+  const balls = Math.ceil(pizzas * (1 + input.spare_percent / 100));
+
+  // Oven: pizzas spread evenly over the service, within the oven's pace.
+  const cycles = Math.max(1, Math.floor(serviceMinutes / input.bake_minutes));
+  const maxPizzas = cycles * input.oven_capacity;
+  const bottleneck = pizzas > maxPizzas;
+  const bakeAt = (pizza: number) => {
+    const cycle = bottleneck
+      ? Math.floor(pizza / input.oven_capacity)
+      : Math.floor((pizza * cycles) / pizzas);
+    return cycle * input.bake_minutes;
+  };
+  if (bottleneck) {
+    notes.push(
+      `Le four plafonne à ${maxPizzas} pizzas sur ${input.service_hours} h : ${pizzas - maxPizzas} pizzas débordent après la fin prévue du service.`
+    );
+  }
+
+  // Batches: as few as the mixer allows, balls split evenly.
+  const waste = 1 + numberOr(input.dough.waste_percent, 0) / 100;
+  const batchCount = Math.max(
+    1,
+    Math.ceil((balls * input.ball_weight * waste) / 1000 / input.mixer_capacity_kg),
+    Math.ceil(balls / MAX_BATCH_BALLS)
+  );
+  const batches: ProductionBatch[] = [];
+  for (let i = 0; i < batchCount; i += 1) {
+    const count = Math.floor(balls / batchCount) + (i < balls % batchCount ? 1 : 0);
+    batches.push({
+      index: i + 1,
+      balls: count,
+      formula: computeDoughFormula(parseDoughFormulaInput({ ...input.dough, balls: count, ball_weight: input.ball_weight })),
+    });
+  }
+  const totalDough = batches.reduce((sum, batch) => sum + batch.formula.total_dough, 0);
+
+  // Each batch is tempered for its first pizza, then scheduled backwards.
+  // Spare balls come last and never set a deadline of their own.
+  const chains: Array<Record<ProductionStepKind, [number, number]>> = [];
+  let ballIndex = 0;
+  for (const batch of batches) {
+    const firstUse = bakeAt(Math.min(ballIndex, pizzas - 1));
+    ballIndex += batch.balls;
+    const temperingStart = firstUse - input.tempering_hours * 60;
+    const ballingEnd = temperingStart - input.cold_retard_hours * 60;
+    const ballingStart = ballingEnd - (batch.balls * input.balling_seconds) / 60;
+    const bulkStart = ballingStart - input.bulk_hours * 60;
+    const kneadingStart = bulkStart - input.kneading_minutes;
+    chains.push({
+      kneading: [kneadingStart, bulkStart],
+      bulk: [bulkStart, ballingStart],
+      balling: [ballingStart, ballingEnd],
+      cold_retard: [ballingEnd, temperingStart],
+      tempering: [temperingStart, firstUse],
+      bake: [firstUse, firstUse],
+    });
+  }
+
+  // One mixer and one pair of hands: a batch must leave the mixer and the
+  // bench before the next one needs them. Earlier batches move earlier and
+  // wait longer in the fridge.
+  for (let i = chains.length - 2; i >= 0; i -= 1) {
+    const current = chains[i];
+    const next = chains[i + 1];
+    const shift = Math.max(0, current.kneading[1] - next.kneading[0], current.balling[1] - next.balling[0]);
+    if (shift > 0) {
+      for (const kind of ["kneading", "bulk", "balling"] as const) {
+        current[kind] = [current[kind][0] - shift, current[kind][1] - shift];
+      }
+      current.cold_retard = [current.balling[1], current.cold_retard[1]];
+    }
+  }
+
+  const steps: ProductionStep[] = [];
+  chains.forEach((chain, i) => {
+    for (const kind of BATCH_STEPS) {
+      const [start, end] = chain[kind];
+      let note = "";
+      if (kind === "kneading") note = `${batches[i].balls} pâtons, ${(batches[i].formula.total_dough / 1000).toFixed(1).replace(".", ",")} kg de pâte.`;
+      if (kind === "cold_retard" && input.cold_retard_hours > 0) {
+        const extension = (end - start) / (input.cold_retard_hours * 60) - 1;
+        if (extension > MAX_COLD_EXTENSION) {
+          note = `Froid allongé de ${Math.round(extension * 100)} % pour libérer le pétrin ou le banc.`;
+          notes.push(`Fournée ${i + 1} : ${note}`);
+        }
+      }
+      steps.push(step(input, kind, i + 1, start, end, note));
+    }
+  });
+  const lastBake = bakeAt(pizzas - 1) + input.bake_minutes;
+  steps.push(step(input, "bake", null, 0, Math.max(serviceMinutes, lastBake), `${pizzas} pizzas, ${input.oven_capacity} à la fois, ${String(input.bake_minutes).replace(".", ",")} min par cuisson.`));
+  steps.sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const windows: OvenWindow[] = [];
+  const windowCapacity = Math.floor(OVEN_WINDOW_MINUTES / input.bake_minutes) * input.oven_capacity;
+  for (let start = 0; start < Math.max(serviceMinutes, lastBake); start += OVEN_WINDOW_MINUTES) {
+    let count = 0;
+    for (let pizza = 0; pizza < pizzas; pizza += 1) {
+      const at = bakeAt(pizza);
+      if (at >= start && at < start + OVEN_WINDOW_MINUTES) count += 1;
+    }
+    windows.push({
+      start_clock: productionClock(input.service_time, start),
+      end_clock: productionClock(input.service_time, start + OVEN_WINDOW_MINUTES),
+      pizzas: count,
+      capacity: windowCapacity,
+    });
+  }
+
+  if (balls > pizzas) notes.push(`${balls - pizzas} pâtons de réserve inclus (${input.spare_percent} %).`);
+  if (batches.length > 1) notes.push(`${batches.length} fournées : le pétrin accepte ${input.mixer_capacity_kg} kg de pâte.`);
+  notes.push("Horaires à ajuster selon la pâte réelle : le volume et la tenue priment sur l’horloge.");
+
+  return {
+    service_time: input.service_time,
+    service_hours: input.service_hours,
+    pizzas,
+    balls,
+    total_dough: totalDough,
+    batches,
+    steps,
+    oven: {
+      cycles,
+      max_pizzas: maxPizzas,
+      pizzas_per_hour: Math.floor(60 / input.bake_minutes) * input.oven_capacity,
+      bottleneck,
+      windows,
+    },
+    warnings: reviewProductionSteps(steps),
+    notes,
+  };
+}
+
+// Checks a plan after the user moved steps around: order inside a batch,
+// mixer and bench shared between batches, tempering before the oven.
+export function reviewProductionSteps(steps: ProductionStep[]) {
+  const warnings: string[] = [];
+  const byBatch = new Map<number, ProductionStep[]>();
+  steps.forEach((item) => {
+    if (item.end < item.start) warnings.push(`${item.label} : la fin précède le début.`);
+    if (item.batch !== null) byBatch.set(item.batch, [...(byBatch.get(item.batch) || []), item]);
+  });
+
+  byBatch.forEach((batchSteps, batch) => {
+    const ordered = BATCH_STEPS.map((kind) => batchSteps.find((item) => item.kind === kind)).filter(
+      (item): item is ProductionStep => Boolean(item)
+    );
+    for (let i = 1; i < ordered.length; i += 1) {
+      if (ordered[i].start < ordered[i - 1].end) {
+        warnings.push(`Fournée ${batch} : ${ordered[i].label.split(" — ")[0]} commence avant la fin de l’étape précédente.`);
+      }
+    }
+  });
+
+  for (const kind of ["kneading", "balling"] as const) {
+    const shared = steps.filter((item) => item.kind === kind).sort((a, b) => a.start - b.start);
+    for (let i = 1; i < shared.length; i += 1) {
+      if (shared[i].start < shared[i - 1].end) {
+        warnings.push(`${STEP_LABELS[kind]} : fournées ${shared[i - 1].batch} et ${shared[i].batch} se chevauchent.`);
+      }
+    }
+  }
+  return warnings;
+}
+
+// Applies user edits (start, end, note by step id) and re-checks the plan.
+export function editProductionPlan(plan: ProductionPlan, raw: unknown): ProductionPlan {
+  const edits = Array.isArray(raw) ? raw : [];
+  const byId = new Map(
+    edits
+      .map((edit) => (edit && typeof edit === "object" ? (edit as Record<string, unknown>) : {}))
+      .filter((edit) => typeof edit.id === "string")
+      .map((edit) => [edit.id as string, edit])
+  );
+  const steps = plan.steps.map((item) => {
+    const edit = byId.get(item.id);
+    if (!edit) return item;
+    const start = Math.round(requireRange(numberOr(edit.start, item.start), -10080, 1440, "invalid_step_time"));
+    const end = Math.round(requireRange(numberOr(edit.end, item.end), -10080, 1440, "invalid_step_time"));
+    return {
+      ...item,
+      start,
+      end,
+      start_clock: productionClock(plan.service_time, start),
+      end_clock: productionClock(plan.service_time, end),
+      note: edit.note === undefined ? item.note : String(edit.note || "").replace(/\s+/g, " ").trim().slice(0, 300),
+    };
+  });
+  steps.sort((a, b) => a.start - b.start || a.end - b.end);
+  return { ...plan, steps, warnings: reviewProductionSteps(steps) };
+}
+
+// Semicolon-separated, as spreadsheet software expects in French locales.
+export function productionPlanCsv(plan: ProductionPlan) {
+  const cell = (value: unknown) => `"${String(value ?? "").replace(/"/g, '""')}"`;
+  const rows = [
+    ["Fournée", "Étape", "Début", "Fin", "Durée (min)", "Note"],
+    ...plan.steps.map((item) => [
+      item.batch ?? "",
+      item.label.split(" — ")[0],
+      item.start_clock,
+      item.end_clock,
+      item.end - item.start,
+      item.note,
+    ]),
+  ];
+  return rows.map((row) => row.map(cell).join(";")).join("\r\n");
+}
+
+// Shape expected by the "timeline" chart of the interface (TimelineChart).
+export function productionTimelineChart(plan: ProductionPlan) {
+  return {
+    type: "timeline" as const,
+    title: "Plan de production",
+    description: `${plan.pizzas} pizzas (${plan.balls} pâtons, ${plan.batches.length} fournée${plan.batches.length > 1 ? "s" : ""}) pour un service à ${plan.service_time}.`,
+    data: {
+      steps: plan.steps.map((item) => ({
+        label: item.label,
+        minutes: item.end - item.start,
+        purpose: `${item.start_clock} → ${item.end_clock}${item.note ? ` — ${item.note}` : ""}`,
+      })),
+      note: [...plan.warnings, ...plan.notes].join(" "),
+    },
+  };
+}
@@ -0,0 +1,158 @@
+import type { AIJsonSchema, AIProvider } from "./ai";
+import type { RetrievedChunk } from "./retrieval";
+
+// Internal citation map: which retrieved passages support which section of an
+// answer. Users never see it (the tutor must not talk about sources); the
+// EPPPN team reviews it from the admin page to check that official protocols
+// are used and to spot figures that no passage supports.
+
+export type CitationPassage = {
+  ref: number;
+  document_id: string;
+  chunk_indexes: number[];
+  score: number;
+};
+
+export type CitationSection = {
+  heading: string;
+  passages: number[];
+  unsupported_figures: string[];
+};
+
+export type CitationMap = {
+  passages: CitationPassage[];
+  sections: CitationSection[];
+  unsupported_figures: number;
+  model: string | null;
+};
+
+const CITATION_FORMAT: AIJsonSchema = {
+  name: "answer_citation_map",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      sections: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            section: { type: "integer" },
+            passages: { type: "array", items: { type: "integer" } },
+            unsupported_figures: { type: "array", items: { type: "string" } },
+          },
+          required: ["section", "passages", "unsupported_figures"],
+        },
+      },
+    },
+    required: ["sections"],
+  },
+};
+
+// Quantities worth checking against the official knowledge: temperatures,
+// percentages, durations, weights, volumes and flour strength.
+const FIGURE_PATTERN =
+  /\bW\s?\d{2,3}\b|\d+(?:[.,]\d+)?(?:\s?(?:à|-|–)\s?\d+(?:[.,]\d+)?)?\s?(?:%|°C|°|kg|g|ml|cl|l|h|min|heures?|jours?|secondes?|s)(?![a-zà-ÿ])/gi;
+
+export function answerFigures(text: string) {
+  return Array.from(new Set((text.match(FIGURE_PATTERN) || []).map((figure) => figure.replace(/\s+/g, " ").trim())));
+}
+
+export function splitAnswerSections(answer: string) {
+  const sections: Array<{ heading: string; text: string }> = [];
+  let current = { heading: "Introduction", text: "" };
+  for (const line of answer.split("\n")) {
+    const heading = line.match(/^#{1,3}\s+(.+)$/);
+    if (heading) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: heading[1].trim().slice(0, 120), text: "" };
+      continue;
+    }
+    current.text += `${line}\n`;
+  }
+  if (current.text.trim()) sections.push(current);
+  return sections.slice(0, 12).map((section) => ({ ...section, text: section.text.trim().slice(0, 2500) }));
+}
+
+export async function buildCitationMap(params: {
+  ai: AIProvider;
+  answer: string;
+  chunks: RetrievedChunk[];
+}): Promise<CitationMap> {
+  const { ai, answer, chunks } = params;
+  const sections = splitAnswerSections(answer);
+  const passages: CitationPassage[] = chunks.map((chunk, index) => ({
+    ref: index + 1,
+    document_id: chunk.document_id,
+    chunk_indexes: chunk.merged_chunks,
+    score: Number(chunk.score.toFixed(3)),
+  }));
+
+  // Without retrieved knowledge every figure is, by definition, unsupported.
+  if (!chunks.length) {
+    const unsupported = sections.map((section) => ({
+      heading: section.heading,
+      passages: [],
+      unsupported_figures: answerFigures(section.text),
+    }));
+    return {
+      passages,
+      sections: unsupported,
+      unsupported_figures: unsupported.reduce((sum, section) => sum + section.unsupported_figures.length, 0),
+      model: null,
+    };
+  }
+
+  const result = await ai.structured({
+    task: "citation",
+    schema: CITATION_FORMAT,
+    messages: [
+      {
+        role: "system",
+        content:
+          "Tu vérifies l’ancrage d’une réponse pédagogique dans des passages de référence numérotés. Pour chaque section numérotée de la réponse, indique les numéros des passages qui soutiennent réellement son contenu (tableau vide si aucun). Recopie dans unsupported_figures chaque valeur chiffrée de la section (température, durée, pourcentage, poids, force de farine…) qu’aucun passage ne contient ni ne justifie. Ne juge pas la qualité de la réponse.",
+      },
+      {
+        role: "user",
+        content: [
+          "PASSAGES :",
+          chunks.map((chunk, index) => `[P${index + 1}]\n${chunk.content.slice(0, 2500)}`).join("\n\n"),
+          "SECTIONS DE LA RÉPONSE :",
+          sections.map((section, index) => `[S${index + 1}] ${section.heading}\n${section.text}`).join("\n\n"),
+        ].join("\n\n"),
+      },
+    ],
+  });
+
+  const parsed = JSON.parse(result.text || "{}");
+  const rows: unknown[] = Array.isArray(parsed?.sections) ? parsed.sections : [];
+  const bySection = new Map<number, { passages: number[]; unsupported_figures: string[] }>();
+  for (const row of rows) {
+    const item = row && typeof row === "object" ? (row as Record<string, unknown>) : {};
+    const sectionNumber = Number(item.section);
+    if (!Number.isInteger(sectionNumber) || sectionNumber < 1 || sectionNumber > sections.length) continue;
+    bySection.set(sectionNumber, {
+      passages: Array.isArray(item.passages)
+        ? Array.from(new Set(item.passages.map(Number).filter((ref) => Number.isInteger(ref) && ref >= 1 && ref <= chunks.length)))
+        : [],
+      unsupported_figures: Array.isArray(item.unsupported_figures)
+        ? item.unsupported_figures.map((figure) => String(figure || "").trim().slice(0, 80)).filter(Boolean).slice(0, 12)
+        : [],
+    });
+  }
+
+  const mapped = sections.map((section, index) => ({
+    heading: section.heading,
+    passages: bySection.get(index + 1)?.passages || [],
+    unsupported_figures: bySection.get(index + 1)?.unsupported_figures || [],
+  }));
+
+  return {
+    passages,
+    sections: mapped,
+    unsupported_figures: mapped.reduce((sum, section) => sum + section.unsupported_figures.length, 0),
+    model: result.model,
+  };
+}
@@ -0,0 +1,98 @@
+// Reference questions of the offline evaluation (eval/datasets/*.json). The
+// version is raised whenever cases change, and every run records it, so two
+// runs are only compared on the same questions.
+
+export type EvalCaseSource = "quick_question" | "feedback" | "manual";
+
+// Met when the answer contains one of `any` (case and accents ignored).
+export type EvalCriterion = {
+  label: string;
+  any: string[];
+};
+
+export type EvalCase = {
+  id: string;
+  source: EvalCaseSource;
+  category: string;
+  question: string;
+  mode: "ACTION" | "ANALYSE";
+  // Points a good answer makes.
+  key_points: EvalCriterion[];
+  // Claims a good answer never makes.
+  forbidden: EvalCriterion[];
+  // Terms a relevant knowledge passage contains, for the retrieval hit rate.
+  expected_passages: string[];
+  // Share of key points required to pass (0.6 by default).
+  min_score?: number;
+  // Seeded from feedback and not reviewed yet: skipped by the runner.
+  draft?: boolean;
+  // Origin of a seeded case, e.g. "feedback:128".
+  origin?: string;
+};
+
+export type EvalDataset = {
+  name: string;
+  version: number;
+  updated_at: string;
+  cases: EvalCase[];
+};
+
+export const DEFAULT_MIN_SCORE = 0.6;
+
+const SOURCES: EvalCaseSource[] = ["quick_question", "feedback", "manual"];
+
+function strings(value: unknown) {
+  return Array.isArray(value) ? value.map((item) => String(item || "").trim()).filter(Boolean) : [];
+}
+
+function criteria(value: unknown, where: string) {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`${where} : liste attendue`);
+  return value.map((item, index) => {
+    const label = String(item?.label || "").trim();
+    const any = strings(item?.any);
+    if (!label || !any.length) throw new Error(`${where}[${index}] : label et any sont obligatoires`);
+    return { label, any };
+  });
+}
+
+// Checks a dataset read from JSON; the error names the first faulty case.
+export function parseDataset(raw: unknown): EvalDataset {
+  const data = raw as Record<string, unknown>;
+  const name = String(data?.name || "").trim();
+  const version = Number(data?.version);
+  if (!name || !Number.isInteger(version) || version < 1) throw new Error("Jeu d’évaluation : name et version sont obligatoires");
+  if (!Array.isArray(data.cases)) throw new Error("Jeu d’évaluation : cases doit être une liste");
+
+  const ids = new Set<string>();
+  const cases = data.cases.map((item: Record<string, unknown>, index: number): EvalCase => {
+    const id = String(item?.id || "").trim();
+    const where = `Cas ${id || index}`;
+    if (!id) throw new Error(`${where} : id manquant`);
+    if (ids.has(id)) throw new Error(`${where} : id en double`);
+    ids.add(id);
+    const question = String(item.question || "").trim();
+    if (!question) throw new Error(`${where} : question vide`);
+    const source = SOURCES.includes(item.source as EvalCaseSource) ? (item.source as EvalCaseSource) : "manual";
+    const minScore = item.min_score === undefined ? undefined : Number(item.min_score);
+    if (minScore !== undefined && !(minScore >= 0 && minScore <= 1)) throw new Error(`${where} : min_score entre 0 et 1`);
+    const draft = item.draft === true;
+    const keyPoints = criteria(item.key_points, `${where} key_points`);
+    if (!draft && !keyPoints.length) throw new Error(`${where} : au moins un point clé (ou draft: true)`);
+    return {
+      id,
+      source,
+      category: String(item.category || "").trim(),
+      question,
+      mode: item.mode === "ANALYSE" ? "ANALYSE" : "ACTION",
+      key_points: keyPoints,
+      forbidden: criteria(item.forbidden, `${where} forbidden`),
+      expected_passages: strings(item.expected_passages),
+      ...(minScore === undefined ? {} : { min_score: minScore }),
+      ...(draft ? { draft } : {}),
+      ...(item.origin ? { origin: String(item.origin) } : {}),
+    };
+  });
+
+  return { name, version, updated_at: String(data.updated_at || ""), cases };
+}
@@ -0,0 +1,6 @@
+export * from "./dataset";
+export * from "./knowledge";
+export * from "./pipeline";
+export * from "./report";
+export * from "./runner";
+export * from "./scoring";
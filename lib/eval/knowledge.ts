@@ -0,0 +1,79 @@
+import type { AIProvider } from "../ai";
+import { queryTerms, type ChunkSearch } from "../retrieval";
+
+// Stand-in for the knowledge base of Supabase: a few documents held in memory
+// (eval/fixtures/knowledge.json), split in paragraphs and embedded with the
+// run's provider. It answers the same two searches as match_chunks and
+// match_chunks_fts, so hybrid retrieval runs unchanged on top of it.
+
+export type EvalDocument = {
+  id: string;
+  title: string;
+  content: string;
+};
+
+type LocalChunk = {
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  folded: string;
+  embedding: number[];
+};
+
+function foldText(value: string) {
+  return value.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+function cosine(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export async function createLocalChunkSearch(documents: EvalDocument[], ai: AIProvider): Promise<ChunkSearch> {
+  const pieces = documents.flatMap((document) =>
+    document.content
+      .split(/\n{2,}/)
+      .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .map((content, index) => ({ document_id: document.id, chunk_index: index, content }))
+  );
+  const { embeddings } = pieces.length ? await ai.embed(pieces.map((piece) => piece.content)) : { embeddings: [] };
+  const chunks: LocalChunk[] = pieces.map((piece, index) => ({
+    ...piece,
+    folded: foldText(piece.content),
+    embedding: embeddings[index],
+  }));
+  const row = (chunk: LocalChunk) => ({
+    document_id: chunk.document_id,
+    chunk_index: chunk.chunk_index,
+    content: chunk.content,
+  });
+
+  return {
+    async vector(embedding, count) {
+      const rows = chunks
+        .map((chunk) => ({ ...row(chunk), similarity: cosine(chunk.embedding, embedding) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, count);
+      return { rows, error: null };
+    },
+    // Share of the question's terms found in the paragraph, in place of ts_rank.
+    async text(query, count) {
+      const terms = queryTerms(query);
+      if (!terms.length) return { rows: [], error: null };
+      const rows = chunks
+        .map((chunk) => ({ ...row(chunk), rank: terms.filter((term) => chunk.folded.includes(term)).length / terms.length }))
+        .filter((candidate) => candidate.rank > 0)
+        .sort((a, b) => b.rank - a.rank)
+        .slice(0, count);
+      return { rows, error: null };
+    },
+  };
+}
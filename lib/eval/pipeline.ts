@@ -0,0 +1,93 @@
+import type { AIProvider, AIUsage } from "../ai";
+import type { PromptSet } from "../prompts";
+import { classifyQuestion, scopeReply, type ScopeLabel } from "../question-scope";
+import { formatRetrievedContext, hybridRetrieve, type ChunkSearch } from "../retrieval";
+import { tutorTools } from "../tutor-tools";
+
+// The text path of /api/tutor for the first question of a dossier: scope
+// classification, embedding, hybrid retrieval, prompts, calculator tools and
+// the tutor model. User context, history, photos, graphs and the answer cache
+// are left out so that runs differ only by model, knowledge base and prompts.
+
+export type EvalPassage = {
+  document_id: string;
+  chunk_index: number;
+  score: number;
+  content: string;
+};
+
+export type PipelineAnswer = {
+  answer: string;
+  passages: EvalPassage[];
+  tools: string[];
+  model: string;
+  usage: AIUsage;
+  latency_ms: number;
+  // A refused or food-safety question gets its template and no passages.
+  scope: ScopeLabel;
+};
+
+export type EvalPipeline = {
+  answer(input: { question: string; mode: "ACTION" | "ANALYSE" }): Promise<PipelineAnswer>;
+};
+
+export function createTutorPipeline(params: { ai: AIProvider; search: ChunkSearch; prompts: PromptSet }): EvalPipeline {
+  const { ai, search, prompts } = params;
+  return {
+    async answer({ question, mode }) {
+      const startedAt = Date.now();
+      const questionScope = await classifyQuestion({ ai, prompts, question, imageCount: 0 });
+      const template = scopeReply(questionScope, prompts);
+      if (template) {
+        return {
+          answer: template,
+          passages: [],
+          tools: [],
+          model: "",
+          usage: { inputTokens: 0, outputTokens: 0 },
+          latency_ms: Date.now() - startedAt,
+          scope: questionScope.label,
+        };
+      }
+
+      const emb = await ai.embed([question]);
+      const retrieval = await hybridRetrieve({ search, queries: [{ text: question, embedding: emb.embeddings[0] }] });
+
+      const systemPrompt = prompts.render("tutor.system", {
+        mode_name: mode,
+        mode_instructions: prompts.render(mode === "ANALYSE" ? "tutor.mode.analyse" : "tutor.mode.action"),
+        clarification_policy: prompts.render("tutor.clarification"),
+      });
+      const userPrompt = prompts.render("tutor.user", {
+        retrieved_context: formatRetrievedContext(retrieval.chunks),
+        question,
+      });
+      const response = await ai.chat({
+        task: "tutor",
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userPrompt },
+        ],
+        tools: tutorTools(),
+      });
+
+      return {
+        answer: response.text,
+        passages: retrieval.chunks.map((chunk) => ({
+          document_id: chunk.document_id,
+          chunk_index: chunk.chunk_index,
+          score: Number(chunk.score.toFixed(3)),
+          content: chunk.content,
+        })),
+        tools: (response.toolCalls ?? []).map((call) => call.name),
+        model: response.model,
+        usage: {
+          inputTokens: emb.usage.inputTokens + response.usage.inputTokens,
+          outputTokens: response.usage.outputTokens,
+        },
+        latency_ms: Date.now() - startedAt,
+        scope: questionScope.label,
+      };
+    },
+  };
+}
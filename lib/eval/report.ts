@@ -0,0 +1,179 @@
+import { summarizeResults, type EvalCaseResult, type EvalRun, type EvalSummary } from "./runner";
+
+// Comparison of two runs on the same dataset: summary deltas, then the cases
+// that changed verdict, so a prompt or model change is judged case by case.
+// Summaries are recomputed on the cases both runs share, so a run limited with
+// --only is not compared with a full one.
+
+export type CaseDelta = {
+  id: string;
+  question: string;
+  base_rubric: number | null;
+  candidate_rubric: number | null;
+  base_passed: boolean;
+  candidate_passed: boolean;
+  forbidden_hits: string[];
+};
+
+export type RunComparison = {
+  base: { id: string; label: string; summary: EvalSummary };
+  candidate: { id: string; label: string; summary: EvalSummary };
+  warnings: string[];
+  deltas: Partial<Record<keyof EvalSummary, number>>;
+  regressions: CaseDelta[];
+  improvements: CaseDelta[];
+  // Cases run in only one of the two runs, left out of the summaries.
+  missing: string[];
+};
+
+const SUMMARY_KEYS: Array<keyof EvalSummary> = [
+  "pass_rate",
+  "mean_rubric",
+  "retrieval_hit_rate",
+  "forbidden_hits",
+  "errors",
+  "input_tokens",
+  "output_tokens",
+  "mean_latency_ms",
+];
+
+function runLabel(run: EvalRun) {
+  return run.config.label || `${run.config.model_provider}/${run.config.knowledge}/${run.config.prompt_variant}`;
+}
+
+function caseDelta(base: EvalCaseResult, candidate: EvalCaseResult): CaseDelta {
+  return {
+    id: base.id,
+    question: base.question,
+    base_rubric: base.score?.rubric ?? null,
+    candidate_rubric: candidate.score?.rubric ?? null,
+    base_passed: Boolean(base.score?.passed),
+    candidate_passed: Boolean(candidate.score?.passed),
+    forbidden_hits: candidate.score?.forbidden_hits ?? [],
+  };
+}
+
+export function compareRuns(base: EvalRun, candidate: EvalRun): RunComparison {
+  const warnings: string[] = [];
+  if (base.dataset.name !== candidate.dataset.name || base.dataset.version !== candidate.dataset.version) {
+    warnings.push(
+      `Jeux différents : ${base.dataset.name} v${base.dataset.version} contre ${candidate.dataset.name} v${candidate.dataset.version}`
+    );
+  }
+
+  const candidateById = new Map(candidate.results.map((result) => [result.id, result]));
+  const baseIds = new Set(base.results.map((result) => result.id));
+  const shared = base.results.filter((result) => candidateById.has(result.id));
+  const baseSummary = summarizeResults(shared);
+  const candidateSummary = summarizeResults(shared.map((result) => candidateById.get(result.id)!));
+
+  const deltas: RunComparison["deltas"] = {};
+  for (const key of SUMMARY_KEYS) {
+    const before = baseSummary[key];
+    const after = candidateSummary[key];
+    if (typeof before === "number" && typeof after === "number") deltas[key] = Number((after - before).toFixed(3));
+  }
+
+  const regressions: CaseDelta[] = [];
+  const improvements: CaseDelta[] = [];
+  for (const result of shared) {
+    const delta = caseDelta(result, candidateById.get(result.id)!);
+    const rubricChange = (delta.candidate_rubric ?? 0) - (delta.base_rubric ?? 0);
+    if ((delta.base_passed && !delta.candidate_passed) || (delta.base_passed === delta.candidate_passed && rubricChange < 0)) {
+      regressions.push(delta);
+    } else if ((!delta.base_passed && delta.candidate_passed) || rubricChange > 0) {
+      improvements.push(delta);
+    }
+  }
+
+  return {
+    base: { id: base.id, label: runLabel(base), summary: baseSummary },
+    candidate: { id: candidate.id, label: runLabel(candidate), summary: candidateSummary },
+    warnings,
+    deltas,
+    regressions,
+    improvements,
+    missing: [
+      ...base.results.filter((result) => !candidateById.has(result.id)).map((result) => result.id),
+      ...candidate.results.filter((result) => !baseIds.has(result.id)).map((result) => result.id),
+    ],
+  };
+}
+
+function percent(value: number | null) {
+  return value === null ? "—" : `${Math.round(value * 100)} %`;
+}
+
+function signed(value: number | undefined, asPercent: boolean) {
+  if (value === undefined) return "—";
+  const text = asPercent ? `${Math.round(value * 100)} pts` : String(value);
+  return value > 0 ? `+${text}` : text;
+}
+
+export function formatRunSummary(run: EvalRun) {
+  const summary = run.summary;
+  return [
+    `Run ${run.id} (${runLabel(run)}) sur ${run.dataset.name} v${run.dataset.version}`,
+    `Réussite : ${summary.passed}/${summary.cases} (${percent(summary.pass_rate)})`,
+    `Rubrique moyenne : ${percent(summary.mean_rubric)}`,
+    `Passages attendus trouvés : ${percent(summary.retrieval_hit_rate)}`,
+    `Affirmations interdites : ${summary.forbidden_hits}`,
+    `Erreurs : ${summary.errors}`,
+    `Jetons : ${summary.input_tokens} entrée, ${summary.output_tokens} sortie`,
+    `Latence moyenne : ${summary.mean_latency_ms} ms`,
+  ].join("\n");
+}
+
+function caseLine(delta: CaseDelta) {
+  const verdict = (passed: boolean) => (passed ? "réussi" : "échoué");
+  const hits = delta.forbidden_hits.length ? ` — interdit : ${delta.forbidden_hits.join(", ")}` : "";
+  return `- \`${delta.id}\` ${delta.question} : ${verdict(delta.base_passed)} ${percent(delta.base_rubric)} → ${verdict(
+    delta.candidate_passed
+  )} ${percent(delta.candidate_rubric)}${hits}`;
+}
+
+// Markdown report, French like the rest of the admin material.
+export function formatComparison(comparison: RunComparison) {
+  const { base, candidate, deltas } = comparison;
+  const rows: Array<[string, keyof EvalSummary, boolean]> = [
+    ["Taux de réussite", "pass_rate", true],
+    ["Rubrique moyenne", "mean_rubric", true],
+    ["Passages attendus trouvés", "retrieval_hit_rate", true],
+    ["Affirmations interdites", "forbidden_hits", false],
+    ["Erreurs", "errors", false],
+    ["Jetons d’entrée", "input_tokens", false],
+    ["Jetons de sortie", "output_tokens", false],
+    ["Latence moyenne (ms)", "mean_latency_ms", false],
+  ];
+  const value = (summary: EvalSummary, key: keyof EvalSummary, asPercent: boolean) =>
+    asPercent ? percent(summary[key]) : String(summary[key] ?? "—");
+
+  const lines = [
+    `# Comparaison : ${base.label} → ${candidate.label}`,
+    "",
+    `Référence \`${base.id}\`, candidat \`${candidate.id}\`.`,
+    ...comparison.warnings.map((warning) => `\n> ⚠️ ${warning}`),
+    "",
+    "| Mesure | Référence | Candidat | Écart |",
+    "| --- | --- | --- | --- |",
+    ...rows.map(
+      ([label, key, asPercent]) =>
+        `| ${label} | ${value(base.summary, key, asPercent)} | ${value(candidate.summary, key, asPercent)} | ${signed(
+          deltas[key],
+          asPercent
+        )} |`
+    ),
+    "",
+    `## Régressions (${comparison.regressions.length})`,
+    "",
+    ...(comparison.regressions.length ? comparison.regressions.map(caseLine) : ["Aucune."]),
+    "",
+    `## Améliorations (${comparison.improvements.length})`,
+    "",
+    ...(comparison.improvements.length ? comparison.improvements.map(caseLine) : ["Aucune."]),
+  ];
+  if (comparison.missing.length) {
+    lines.push("", `Cas présents dans un seul run (hors comparaison) : ${comparison.missing.map((id) => `\`${id}\``).join(", ")}`);
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,145 @@
+import { randomUUID } from "node:crypto";
+import type { EvalDataset } from "./dataset";
+import type { EvalPipeline } from "./pipeline";
+import type { ScopeLabel } from "../question-scope";
+import { scoreAnswer, type CaseScore } from "./scoring";
+
+// Runs every reviewed case of a dataset through a pipeline, one at a time, and
+// keeps what is needed to compare the run with another one later.
+
+export type EvalRunConfig = {
+  model_provider: "openai" | "local";
+  knowledge: "supabase" | "local";
+  prompt_variant: string;
+  label?: string;
+};
+
+export type EvalCaseResult = {
+  id: string;
+  category: string;
+  mode: "ACTION" | "ANALYSE";
+  question: string;
+  answer: string;
+  passages: Array<{ document_id: string; chunk_index: number; score: number; excerpt: string }>;
+  tools: string[];
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  // null when the pipeline failed before classification.
+  scope: ScopeLabel | null;
+  // null when the pipeline failed; the case then counts as failed.
+  score: CaseScore | null;
+  error: string | null;
+};
+
+export type EvalSummary = {
+  cases: number;
+  passed: number;
+  pass_rate: number;
+  mean_rubric: number;
+  // null when no case expects passages.
+  retrieval_hit_rate: number | null;
+  forbidden_hits: number;
+  errors: number;
+  input_tokens: number;
+  output_tokens: number;
+  mean_latency_ms: number;
+};
+
+export type EvalRun = {
+  id: string;
+  dataset: { name: string; version: number };
+  config: EvalRunConfig;
+  started_at: string;
+  finished_at: string;
+  summary: EvalSummary;
+  results: EvalCaseResult[];
+};
+
+function ratio(part: number, total: number) {
+  return total ? Number((part / total).toFixed(3)) : 0;
+}
+
+export function summarizeResults(results: EvalCaseResult[]): EvalSummary {
+  const retrievalCases = results.filter((result) => result.score?.retrieval);
+  return {
+    cases: results.length,
+    passed: results.filter((result) => result.score?.passed).length,
+    pass_rate: ratio(results.filter((result) => result.score?.passed).length, results.length),
+    mean_rubric: ratio(results.reduce((sum, result) => sum + (result.score?.rubric ?? 0), 0), results.length),
+    retrieval_hit_rate: retrievalCases.length
+      ? ratio(retrievalCases.filter((result) => result.score?.retrieval?.hit).length, retrievalCases.length)
+      : null,
+    forbidden_hits: results.reduce((sum, result) => sum + (result.score?.forbidden_hits.length ?? 0), 0),
+    errors: results.filter((result) => result.error).length,
+    input_tokens: results.reduce((sum, result) => sum + result.input_tokens, 0),
+    output_tokens: results.reduce((sum, result) => sum + result.output_tokens, 0),
+    mean_latency_ms: Math.round(results.reduce((sum, result) => sum + result.latency_ms, 0) / (results.length || 1)),
+  };
+}
+
+export async function runEval(params: {
+  dataset: EvalDataset;
+  pipeline: EvalPipeline;
+  config: EvalRunConfig;
+  only?: string[];
+  onCase?: (result: EvalCaseResult, index: number, total: number) => void;
+}): Promise<EvalRun> {
+  const { dataset, pipeline, config, only, onCase } = params;
+  const startedAt = new Date().toISOString();
+  const cases = dataset.cases.filter((item) => !item.draft && (!only?.length || only.includes(item.id)));
+  const results: EvalCaseResult[] = [];
+
+  for (const [index, evalCase] of cases.entries()) {
+    const base = { id: evalCase.id, category: evalCase.category, mode: evalCase.mode, question: evalCase.question };
+    let result: EvalCaseResult;
+    try {
+      const output = await pipeline.answer({ question: evalCase.question, mode: evalCase.mode });
+      result = {
+        ...base,
+        answer: output.answer,
+        passages: output.passages.map((passage) => ({
+          document_id: passage.document_id,
+          chunk_index: passage.chunk_index,
+          score: passage.score,
+          excerpt: passage.content.slice(0, 240),
+        })),
+        tools: output.tools,
+        model: output.model,
+        input_tokens: output.usage.inputTokens,
+        output_tokens: output.usage.outputTokens,
+        latency_ms: output.latency_ms,
+        scope: output.scope,
+        score: scoreAnswer(evalCase, output.answer, output.passages.map((passage) => passage.content)),
+        error: null,
+      };
+    } catch (error) {
+      result = {
+        ...base,
+        answer: "",
+        passages: [],
+        tools: [],
+        model: "",
+        input_tokens: 0,
+        output_tokens: 0,
+        latency_ms: 0,
+        scope: null,
+        score: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    results.push(result);
+    onCase?.(result, index, cases.length);
+  }
+
+  return {
+    id: randomUUID(),
+    dataset: { name: dataset.name, version: dataset.version },
+    config,
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    summary: summarizeResults(results),
+    results,
+  };
+}
@@ -0,0 +1,51 @@
+import { DEFAULT_MIN_SCORE, type EvalCase, type EvalCriterion } from "./dataset";
+
+// Automatic scoring of one answer: the rubric is the share of key points the
+// answer makes, any forbidden claim fails the case, and retrieval is judged on
+// whether a retrieved passage contains the expected terms.
+
+export type CaseScore = {
+  key_points: Array<{ label: string; met: boolean }>;
+  forbidden_hits: string[];
+  rubric: number;
+  // null when the case expects no passage.
+  retrieval: { expected: number; found: string[]; hit: boolean } | null;
+  passed: boolean;
+};
+
+function foldText(value: string) {
+  return value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[’‘]/g, "'")
+    .replace(/\s+/g, " ");
+}
+
+function criterionMet(criterion: EvalCriterion, folded: string) {
+  return criterion.any.some((option) => folded.includes(foldText(option)));
+}
+
+export function scoreAnswer(evalCase: EvalCase, answer: string, passages: string[]): CaseScore {
+  const folded = foldText(answer);
+  const keyPoints = evalCase.key_points.map((point) => ({ label: point.label, met: criterionMet(point, folded) }));
+  const forbiddenHits = evalCase.forbidden.filter((claim) => criterionMet(claim, folded)).map((claim) => claim.label);
+  const rubric = keyPoints.length ? keyPoints.filter((point) => point.met).length / keyPoints.length : 1;
+
+  let retrieval: CaseScore["retrieval"] = null;
+  if (evalCase.expected_passages.length) {
+    const foldedPassages = passages.map(foldText);
+    const found = evalCase.expected_passages.filter((term) =>
+      foldedPassages.some((passage) => passage.includes(foldText(term)))
+    );
+    retrieval = { expected: evalCase.expected_passages.length, found, hit: found.length > 0 };
+  }
+
+  return {
+    key_points: keyPoints,
+    forbidden_hits: forbiddenHits,
+    rubric: Number(rubric.toFixed(3)),
+    retrieval,
+    passed: !forbiddenHits.length && rubric >= (evalCase.min_score ?? DEFAULT_MIN_SCORE),
+  };
+}
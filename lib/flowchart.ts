@@ -0,0 +1,445 @@
+import type { AIJsonSchema } from "./ai";
+
+// Action plans shown as a decision tree. The model describes nodes (an action,
+// a yes/no check, an outcome) and the edges between them; validateFlowchart
+// then enforces what the schema cannot: each action has one way forward, each
+// check a "yes" and a "no" leading to different nodes, every node reachable
+// from the entry, and every path — loops included — able to reach an outcome.
+
+export type FlowchartNodeKind = "action" | "check" | "outcome";
+export type FlowchartEdgeKind = "next" | "yes" | "no";
+
+export type FlowchartNode = {
+  id: string;
+  kind: FlowchartNodeKind;
+  text: string;
+  detail: string;
+};
+
+export type FlowchartEdge = {
+  from: string;
+  to: string;
+  kind: FlowchartEdgeKind;
+  label: string;
+};
+
+export type ActionFlowchart = {
+  title: string;
+  start: string;
+  entry: string;
+  nodes: FlowchartNode[];
+  edges: FlowchartEdge[];
+  caution: string;
+  clarification_required: boolean;
+  clarification_question: string;
+  clarification_options: string[];
+};
+
+export type FlowchartValidation = {
+  flowchart: ActionFlowchart | null;
+  issues: string[];
+};
+
+const MIN_NODES = 3;
+const MAX_NODES = 14;
+const MAX_BRANCH_NODES = 8;
+const NODE_KINDS: FlowchartNodeKind[] = ["action", "check", "outcome"];
+const EDGE_KINDS: Record<FlowchartNodeKind, FlowchartEdgeKind[]> = {
+  action: ["next"],
+  check: ["yes", "no"],
+  outcome: [],
+};
+
+const NODE_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    id: { type: "string", description: "Identifiant court et unique : a1, c1, r1…" },
+    kind: {
+      type: "string",
+      enum: NODE_KINDS,
+      description: "action : un geste ; check : un contrôle observable à réponse oui/non ; outcome : un résultat ou une décision finale.",
+    },
+    text: { type: "string" },
+    detail: { type: "string", description: "Repère ou précision utile ; chaîne vide sinon." },
+  },
+  required: ["id", "kind", "text", "detail"],
+};
+
+const EDGE_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    from: { type: "string" },
+    to: { type: "string" },
+    kind: {
+      type: "string",
+      enum: ["next", "yes", "no"],
+      description: "next après une action ; yes et no après un contrôle.",
+    },
+    label: { type: "string", description: "Libellé court de la branche ; chaîne vide sinon." },
+  },
+  required: ["from", "to", "kind", "label"],
+};
+
+export const ACTION_FLOWCHART_FORMAT: AIJsonSchema = {
+  name: "ernesto_action_flowchart",
+  description: "Un plan d'action Ernesto sous forme d'arbre de décision opérationnel.",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      answer: {
+        type: "string",
+        description: "Décision résumée en une à trois phrases, sans recopier le diagramme.",
+      },
+      flowchart: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          title: { type: "string" },
+          start: { type: "string", description: "Situation de départ observée par l'utilisateur." },
+          entry: { type: "string", description: "Identifiant du premier nœud." },
+          nodes: {
+            type: "array",
+            minItems: MIN_NODES,
+            maxItems: MAX_NODES,
+            items: NODE_SCHEMA,
+          },
+          edges: {
+            type: "array",
+            maxItems: MAX_NODES * 2,
+            items: EDGE_SCHEMA,
+          },
+          caution: { type: "string" },
+          clarification_required: { type: "boolean" },
+          clarification_question: {
+            type: "string",
+            description: "Une seule question décisive, ou une chaîne vide si aucune précision n'est nécessaire.",
+          },
+          clarification_options: {
+            type: "array",
+            maxItems: 3,
+            items: { type: "string" },
+            description: "Deux ou trois réponses courtes si une précision est nécessaire, sinon un tableau vide.",
+          },
+        },
+        required: [
+          "title",
+          "start",
+          "entry",
+          "nodes",
+          "edges",
+          "caution",
+          "clarification_required",
+          "clarification_question",
+          "clarification_options",
+        ],
+      },
+    },
+    required: ["answer", "flowchart"],
+  },
+};
+
+export function cleanFlowchartText(value: unknown, maxLength: number) {
+  return String(value || "").replace(/\s+/g, " ").trim().slice(0, maxLength);
+}
+
+function record(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function nodeId(value: unknown) {
+  return cleanFlowchartText(value, 40).replace(/[^A-Za-z0-9_-]/g, "");
+}
+
+function reachableFrom(entry: string, edges: Array<{ from: string; to: string }>) {
+  const reachable = new Set([entry]);
+  const queue = [entry];
+  while (queue.length) {
+    const current = queue.shift() as string;
+    for (const edge of edges) {
+      if (edge.from === current && !reachable.has(edge.to)) {
+        reachable.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  }
+  return reachable;
+}
+
+// Nodes that can reach an outcome, walking the edges backwards.
+function nodesReachingOutcome(nodes: FlowchartNode[], edges: FlowchartEdge[]) {
+  const reaching = new Set(nodes.filter((node) => node.kind === "outcome").map((node) => node.id));
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const edge of edges) {
+      if (reaching.has(edge.to) && !reaching.has(edge.from)) {
+        reaching.add(edge.from);
+        grew = true;
+      }
+    }
+  }
+  return reaching;
+}
+
+export function validateFlowchart(raw: unknown): FlowchartValidation {
+  const issues: string[] = [];
+  const flow = record(raw);
+  const invalid = (reason: string): FlowchartValidation => ({ flowchart: null, issues: [...issues, reason] });
+
+  // Nodes: unique ids, known kinds, some text.
+  let nodes: FlowchartNode[] = [];
+  for (const value of Array.isArray(flow.nodes) ? flow.nodes : []) {
+    const node = record(value);
+    const id = nodeId(node.id);
+    const text = cleanFlowchartText(node.text, 220);
+    if (!id || !text || !NODE_KINDS.includes(node.kind as FlowchartNodeKind)) {
+      issues.push(`Nœud « ${id || "?"} » ignoré : identifiant, type ou texte manquant.`);
+      continue;
+    }
+    if (nodes.some((item) => item.id === id)) {
+      issues.push(`Nœud « ${id} » en double ignoré.`);
+      continue;
+    }
+    nodes.push({ id, kind: node.kind as FlowchartNodeKind, text, detail: cleanFlowchartText(node.detail, 220) });
+  }
+  if (nodes.length > MAX_NODES) {
+    issues.push(`${nodes.length} nœuds, limité à ${MAX_NODES}.`);
+    nodes = nodes.slice(0, MAX_NODES);
+  }
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+
+  // Edges: known ends, a kind that fits the source, one edge per branch.
+  let edges: FlowchartEdge[] = [];
+  for (const value of Array.isArray(flow.edges) ? flow.edges : []) {
+    const edge = record(value);
+    const from = byId.get(nodeId(edge.from));
+    const to = byId.get(nodeId(edge.to));
+    const kind = edge.kind as FlowchartEdgeKind;
+    if (!from || !to) {
+      issues.push(`Arête ${nodeId(edge.from) || "?"} → ${nodeId(edge.to) || "?"} ignorée : nœud inconnu.`);
+      continue;
+    }
+    if (!EDGE_KINDS[from.kind].includes(kind)) {
+      issues.push(`Arête « ${kind} » depuis « ${from.id} » (${from.kind}) ignorée.`);
+      continue;
+    }
+    if (edges.some((item) => item.from === from.id && item.kind === kind)) {
+      issues.push(`Arête « ${kind} » en double depuis « ${from.id} » ignorée.`);
+      continue;
+    }
+    edges.push({ from: from.id, to: to.id, kind, label: cleanFlowchartText(edge.label, 80) });
+  }
+
+  // Repairs where the intent is clear: an action without a way forward leads
+  // to the node listed after it (or ends the plan), a check without a "no"
+  // branch is only an action.
+  nodes = nodes.map((node, index) => {
+    const outgoing = edges.filter((edge) => edge.from === node.id);
+    if (node.kind === "action" && !outgoing.length) {
+      const following = nodes[index + 1];
+      if (following) {
+        edges.push({ from: node.id, to: following.id, kind: "next", label: "" });
+        issues.push(`Action « ${node.id} » sans suite : reliée à « ${following.id} ».`);
+        return node;
+      }
+      issues.push(`Action « ${node.id} » sans suite : traitée comme un résultat.`);
+      return { ...node, kind: "outcome" };
+    }
+    if (node.kind === "check") {
+      const yes = outgoing.find((edge) => edge.kind === "yes");
+      const no = outgoing.find((edge) => edge.kind === "no");
+      if (yes && no && yes.to === no.to) {
+        edges = edges.filter((edge) => edge !== no);
+        issues.push(`Contrôle « ${node.id} » : oui et non mènent au même nœud, traité comme une action.`);
+        edges = edges.map((edge) => (edge === yes ? { ...edge, kind: "next" } : edge));
+        return { ...node, kind: "action" };
+      }
+      if (yes && !no) {
+        issues.push(`Contrôle « ${node.id} » sans branche « non » : traité comme une action.`);
+        edges = edges.map((edge) => (edge === yes ? { ...edge, kind: "next" } : edge));
+        return { ...node, kind: "action" };
+      }
+    }
+    return node;
+  });
+  const brokenCheck = nodes.find(
+    (node) => node.kind === "check" && !edges.some((edge) => edge.from === node.id && edge.kind === "yes")
+  );
+  if (brokenCheck) return invalid(`Contrôle « ${brokenCheck.id} » sans branche « oui ».`);
+
+  // Only what can be reached from the entry is kept.
+  const requestedEntry = nodeId(flow.entry);
+  const entry = byId.has(requestedEntry) ? requestedEntry : nodes[0]?.id;
+  if (!entry) return invalid("Aucun nœud exploitable.");
+  if (requestedEntry !== entry) issues.push(`Entrée « ${requestedEntry || "?"} » inconnue : « ${entry} » utilisé.`);
+  const reachable = reachableFrom(entry, edges);
+  const unreachable = nodes.filter((node) => !reachable.has(node.id));
+  if (unreachable.length) issues.push(`Nœud(s) inaccessible(s) retiré(s) : ${unreachable.map((node) => node.id).join(", ")}.`);
+  nodes = nodes.filter((node) => reachable.has(node.id));
+  edges = edges.filter((edge) => reachable.has(edge.from) && reachable.has(edge.to));
+
+  // A loop is fine as long as it passes through a check whose other branch
+  // leads somewhere: every node must be able to reach an outcome.
+  const reaching = nodesReachingOutcome(nodes, edges);
+  const stuck = nodes.filter((node) => !reaching.has(node.id));
+  if (stuck.length) return invalid(`Parcours sans issue depuis : ${stuck.map((node) => node.id).join(", ")}.`);
+  if (nodes.length < MIN_NODES || !nodes.some((node) => node.kind === "check")) {
+    return invalid("Il faut au moins trois nœuds dont un contrôle.");
+  }
+
+  const flowchart: ActionFlowchart = {
+    title: cleanFlowchartText(flow.title, 120),
+    start: cleanFlowchartText(flow.start, 180),
+    entry,
+    nodes: [...nodes.filter((node) => node.id === entry), ...nodes.filter((node) => node.id !== entry)],
+    edges,
+    caution: cleanFlowchartText(flow.caution, 220),
+    clarification_required: flow.clarification_required === true,
+    clarification_question: cleanFlowchartText(flow.clarification_question, 220),
+    clarification_options: (Array.isArray(flow.clarification_options) ? flow.clarification_options : [])
+      .map((option: unknown) => cleanFlowchartText(option, 100))
+      .filter(Boolean)
+      .slice(0, 3),
+  };
+  if (!flowchart.title || !flowchart.start) return invalid("Titre ou point de départ manquant.");
+
+  if (
+    flowchart.clarification_required &&
+    (!flowchart.clarification_question || flowchart.clarification_options.length < 2)
+  ) {
+    flowchart.clarification_required = false;
+    flowchart.clarification_question = "";
+    flowchart.clarification_options = [];
+  }
+  return { flowchart, issues };
+}
+
+// A null flowchart with an answer means the answer is usable as plain text.
+export function parseActionFlowchart(raw: string): { answer: string; flowchart: ActionFlowchart | null; issues: string[] } | null {
+  const parsed = jsonObject(raw);
+  return parsed ? { answer: cleanFlowchartText(parsed.answer, 900), ...validateFlowchart(parsed.flowchart) } : null;
+}
+
+function jsonObject(raw: string) {
+  const cleaned = raw
+    .trim()
+    .replace(/^```json\s*/i, "")
+    .replace(/^```\s*/i, "")
+    .replace(/```$/i, "")
+    .trim();
+  const first = cleaned.indexOf("{");
+  const last = cleaned.lastIndexOf("}");
+  if (first < 0 || last <= first) return null;
+
+  try {
+    return record(JSON.parse(cleaned.slice(first, last + 1)));
+  } catch {
+    return null;
+  }
+}
+
+// Guided run: when a check is answered "no", only what follows that answer is
+// regenerated. The model returns a branch; its nodes are renamed per revision
+// so they never collide with the plan's, and its edges may lead back to nodes
+// of the plan (the failed check itself, or the rest of the "yes" path).
+
+export const MAX_FLOWCHART_REVISIONS = 10;
+export const FLOWCHART_BRANCH_FORMAT: AIJsonSchema = {
+  name: "ernesto_flowchart_branch",
+  description: "La suite d'un plan d'action Ernesto après un contrôle à reprendre.",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      answer: {
+        type: "string",
+        description: "Ce qui change dans la suite du plan et pourquoi, en une à trois phrases.",
+      },
+      branch: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          entry: { type: "string", description: "Identifiant du premier nouveau nœud, suivi après la réponse « non »." },
+          label: { type: "string", description: "Libellé court de la branche « non » ; chaîne vide sinon." },
+          nodes: {
+            type: "array",
+            minItems: 1,
+            maxItems: MAX_BRANCH_NODES,
+            items: NODE_SCHEMA,
+          },
+          edges: {
+            type: "array",
+            maxItems: MAX_BRANCH_NODES * 2,
+            items: EDGE_SCHEMA,
+          },
+          caution: { type: "string", description: "Point de vigilance de la nouvelle suite ; chaîne vide sinon." },
+        },
+        required: ["entry", "label", "nodes", "edges", "caution"],
+      },
+    },
+    required: ["answer", "branch"],
+  },
+};
+
+// Swaps the "no" branch of `checkId` for the model's branch, then validates the
+// whole plan again. Nodes only reachable through the old branch disappear.
+export function reviseFlowchart(
+  plan: ActionFlowchart,
+  checkId: string,
+  rawBranch: unknown,
+  revision: number
+): FlowchartValidation & { entry: string } {
+  const invalid = (reason: string, issues: string[] = []) => ({ flowchart: null, issues: [...issues, reason], entry: "" });
+  const check = plan.nodes.find((node) => node.id === checkId && node.kind === "check");
+  if (!check) return invalid(`Contrôle « ${checkId} » absent du plan.`);
+
+  const branch = record(rawBranch);
+  const branchNodes = (Array.isArray(branch.nodes) ? branch.nodes : []).slice(0, MAX_BRANCH_NODES).map(record);
+  const branchIds = new Set(branchNodes.map((node) => nodeId(node.id)).filter(Boolean));
+  const rename = (value: unknown) => {
+    const id = nodeId(value);
+    return branchIds.has(id) ? `r${revision}_${id}`.slice(0, 40) : id;
+  };
+  if (!branchIds.has(nodeId(branch.entry))) return invalid("Entrée de la nouvelle branche inconnue.");
+  const entry = rename(branch.entry);
+
+  const issues: string[] = [];
+  const branchEdges = (Array.isArray(branch.edges) ? branch.edges : []).map(record).filter((edge) => {
+    if (branchIds.has(nodeId(edge.from))) return true;
+    issues.push(`Arête depuis « ${nodeId(edge.from) || "?"} » ignorée : seule la nouvelle branche peut être modifiée.`);
+    return false;
+  });
+  const nodes: Array<Record<string, unknown>> = [
+    ...plan.nodes,
+    ...branchNodes.map((node) => ({ ...node, id: rename(node.id) })),
+  ];
+  const edges = [
+    ...plan.edges.filter((edge) => !(edge.from === check.id && edge.kind === "no")),
+    { from: check.id, to: entry, kind: "no", label: cleanFlowchartText(branch.label, 80) },
+    ...branchEdges.map((edge) => ({ ...edge, from: rename(edge.from), to: rename(edge.to) })),
+  ];
+  // Pruned before validation so the old branch does not count against MAX_NODES.
+  const reachable = reachableFrom(plan.entry, edges);
+
+  const validation = validateFlowchart({
+    ...plan,
+    nodes: nodes.filter((node) => reachable.has(String(node.id))),
+    edges: edges.filter((edge) => reachable.has(edge.from)),
+    caution: cleanFlowchartText(branch.caution, 220) || plan.caution,
+  });
+  const allIssues = [...issues, ...validation.issues];
+  if (!validation.flowchart) return { flowchart: null, issues: allIssues, entry: "" };
+  const linked = validation.flowchart.edges.some((edge) => edge.from === check.id && edge.kind === "no" && edge.to === entry);
+  if (!linked) return invalid(`La nouvelle branche n’est plus reliée au contrôle « ${check.id} ».`, allIssues);
+  return { flowchart: validation.flowchart, issues: allIssues, entry };
+}
+
+export function parseFlowchartBranch(raw: string): { answer: string; branch: unknown } | null {
+  const parsed = jsonObject(raw);
+  return parsed ? { answer: cleanFlowchartText(parsed.answer, 900), branch: parsed.branch } : null;
+}
@@ -0,0 +1,377 @@
+import type { AIJsonSchema } from "./ai";
+
+// Graph panel of a tutor answer. The model fills GRAPH_FORMAT (one schema per
+// chart type), then validateGraph checks what a schema cannot express: bar
+// labels and values of the same length, timeline minutes, radar scores on the
+// 0–100 scale of the widget… Charts are repaired when the intent is clear and
+// dropped otherwise; every change is reported in `issues`.
+
+export type GraphChart =
+  | { type: "bar"; title: string; description: string; data: { labels: string[]; values: number[]; unit: string; note: string } }
+  | {
+      type: "timeline";
+      title: string;
+      description: string;
+      data: { steps: Array<{ label: string; minutes: number; purpose: string }>; note: string };
+    }
+  | { type: "radar"; title: string; description: string; data: { labels: string[]; values: number[]; note: string } }
+  | { type: "table"; title: string; description: string; data: { columns: string[]; rows: string[][]; note: string } }
+  | {
+      type: "scatter";
+      title: string;
+      description: string;
+      data: { x_label: string; y_label: string; points: Array<{ x: number; y: number; label: string }>; note: string };
+    };
+
+export type GraphChecklistItem = {
+  action: string;
+  expected_effect: string;
+  priority: "high" | "medium" | "low";
+};
+
+export type Graph = {
+  title: string;
+  summary: string;
+  confidence: number;
+  charts: GraphChart[];
+  checklist: GraphChecklistItem[];
+  recap_table: { columns: string[]; rows: string[][]; note: string };
+  questions: string[];
+};
+
+export type GraphValidation = {
+  graph: Graph | null;
+  issues: string[];
+};
+
+const MAX_CHARTS = 4;
+const MAX_TABLE_ROWS = 20;
+const MAX_SERIES = 24;
+const PRIORITIES: GraphChecklistItem["priority"][] = ["high", "medium", "low"];
+
+const text = (description?: string) => (description ? { type: "string", description } : { type: "string" });
+const stringList = (description: string) => ({ type: "array", description, items: { type: "string" } });
+const numberList = (description: string) => ({ type: "array", description, items: { type: "number" } });
+const tableData = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    columns: stringList("En-têtes des colonnes."),
+    rows: { type: "array", description: "Une cellule par colonne.", items: { type: "array", items: { type: "string" } } },
+    note: text("Hypothèses ou prudence ; chaîne vide sinon."),
+  },
+  required: ["columns", "rows", "note"],
+};
+
+function chartSchema(type: GraphChart["type"], data: Record<string, unknown>) {
+  return {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      type: { type: "string", enum: [type] },
+      title: text(),
+      description: text("Ce que le graphique montre."),
+      data,
+    },
+    required: ["type", "title", "description", "data"],
+  };
+}
+
+const CHART_SCHEMAS = [
+  chartSchema("bar", {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      labels: stringList("Une barre par libellé."),
+      values: numberList("Autant de valeurs que de libellés, dans le même ordre."),
+      unit: text(),
+      note: text(),
+    },
+    required: ["labels", "values", "unit", "note"],
+  }),
+  chartSchema("timeline", {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      steps: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            label: text(),
+            minutes: { type: "number", description: "Durée de l’étape en minutes, supérieure à 0." },
+            purpose: text(),
+          },
+          required: ["label", "minutes", "purpose"],
+        },
+      },
+      note: text(),
+    },
+    required: ["steps", "note"],
+  }),
+  chartSchema("radar", {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      labels: stringList("Au moins trois axes."),
+      values: numberList("Un score de 0 à 100 par axe, dans le même ordre."),
+      note: text(),
+    },
+    required: ["labels", "values", "note"],
+  }),
+  chartSchema("table", tableData),
+  chartSchema("scatter", {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      x_label: text(),
+      y_label: text(),
+      points: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            x: { type: "number" },
+            y: { type: "number", description: "De 0 à 100." },
+            label: text(),
+          },
+          required: ["x", "y", "label"],
+        },
+      },
+      note: text(),
+    },
+    required: ["x_label", "y_label", "points", "note"],
+  }),
+];
+
+export const GRAPH_FORMAT: AIJsonSchema = {
+  name: "ernesto_graph",
+  description: "Visualisations pédagogiques d'une réponse Ernesto pour une interface Recharts.",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      title: text("Titre court."),
+      summary: text("Résumé pédagogique en une phrase."),
+      confidence: { type: "number", description: "De 0 à 1." },
+      charts: { type: "array", maxItems: MAX_CHARTS, items: { anyOf: CHART_SCHEMAS } },
+      checklist: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            action: text("Action concrète."),
+            expected_effect: text(),
+            priority: { type: "string", enum: PRIORITIES },
+          },
+          required: ["action", "expected_effect", "priority"],
+        },
+      },
+      recap_table: tableData,
+      questions: stringList("Questions utiles si une information manque ; vide sinon."),
+    },
+    required: ["title", "summary", "confidence", "charts", "checklist", "recap_table", "questions"],
+  },
+};
+
+function record(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function clean(value: unknown, max: number) {
+  return typeof value === "string" || typeof value === "number"
+    ? String(value).replace(/\s+/g, " ").trim().slice(0, max)
+    : "";
+}
+
+function finite(value: unknown) {
+  const parsed = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value.replace(",", ".")) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function list(value: unknown) {
+  return Array.isArray(value) ? value : [];
+}
+
+function validateTable(raw: unknown, name: string, issues: string[]) {
+  const data = record(raw);
+  const columns = list(data.columns).map((column, index) => clean(column, 60) || `Colonne ${index + 1}`);
+  const rawRows = list(data.rows).filter(Array.isArray) as unknown[][];
+  if (rawRows.length > MAX_TABLE_ROWS) issues.push(`${name} : ${rawRows.length} lignes, limité à ${MAX_TABLE_ROWS}.`);
+  let reshaped = 0;
+  const rows = rawRows.slice(0, MAX_TABLE_ROWS).map((row) => {
+    if (row.length !== columns.length) reshaped += 1;
+    return columns.map((_, index) => clean(row[index], 160));
+  });
+  if (reshaped) issues.push(`${name} : ${reshaped} ligne(s) ramenée(s) à ${columns.length} colonne(s).`);
+  return { columns, rows: rows.filter((row) => row.some(Boolean)), note: clean(data.note, 300) };
+}
+
+// Returns the repaired chart, or null with the reason added to `issues`.
+function validateChart(raw: unknown, index: number, issues: string[]): GraphChart | null {
+  const chart = record(raw);
+  const title = clean(chart.title, 120);
+  const description = clean(chart.description, 300);
+  const data = record(chart.data);
+  const name = `Graphique ${index + 1}${title ? ` « ${title} »` : ""}`;
+  const drop = (reason: string) => {
+    issues.push(`${name} retiré : ${reason}.`);
+    return null;
+  };
+  if (!title) return drop("titre manquant");
+
+  if (chart.type === "bar" || chart.type === "radar") {
+    const labels = list(data.labels).map((label) => clean(label, 60));
+    const values = list(data.values).map(finite);
+    if (labels.length !== values.length) {
+      issues.push(`${name} : ${labels.length} libellés pour ${values.length} valeurs, limité aux paires complètes.`);
+    }
+    const pairs = labels
+      .slice(0, Math.min(labels.length, values.length, MAX_SERIES))
+      .map((label, i) => ({ label, value: values[i] }))
+      .filter((pair): pair is { label: string; value: number } => Boolean(pair.label) && pair.value !== null);
+    if (pairs.length < Math.min(labels.length, values.length)) issues.push(`${name} : valeurs non numériques ou libellés vides retirés.`);
+
+    if (chart.type === "bar") {
+      if (!pairs.length) return drop("aucune paire libellé–valeur exploitable");
+      return {
+        type: "bar",
+        title,
+        description,
+        data: {
+          labels: pairs.map((pair) => pair.label),
+          values: pairs.map((pair) => pair.value),
+          unit: clean(data.unit, 30),
+          note: clean(data.note, 300),
+        },
+      };
+    }
+
+    if (pairs.length < 3) return drop("un radar demande au moins trois axes");
+    if (pairs.some((pair) => pair.value < 0 || pair.value > 100)) {
+      issues.push(`${name} : scores ramenés entre 0 et 100.`);
+    }
+    return {
+      type: "radar",
+      title,
+      description,
+      data: {
+        labels: pairs.map((pair) => pair.label),
+        values: pairs.map((pair) => Math.min(100, Math.max(0, pair.value))),
+        note: clean(data.note, 300),
+      },
+    };
+  }
+
+  if (chart.type === "timeline") {
+    const rawSteps = list(data.steps).map(record);
+    const steps = rawSteps
+      .map((step) => ({ label: clean(step.label, 120), minutes: finite(step.minutes), purpose: clean(step.purpose, 300) }))
+      .filter((step): step is { label: string; minutes: number; purpose: string } =>
+        Boolean(step.label) && step.minutes !== null && step.minutes > 0
+      );
+    if (steps.length < rawSteps.length) {
+      issues.push(`${name} : ${rawSteps.length - steps.length} étape(s) sans libellé ou sans durée positive retirée(s).`);
+    }
+    if (!steps.length) return drop("aucune étape avec une durée");
+    return { type: "timeline", title, description, data: { steps: steps.slice(0, MAX_SERIES), note: clean(data.note, 300) } };
+  }
+
+  if (chart.type === "table") {
+    const table = validateTable(data, name, issues);
+    if (!table.columns.length || !table.rows.length) return drop("tableau vide");
+    return { type: "table", title, description, data: table };
+  }
+
+  if (chart.type === "scatter") {
+    const rawPoints = list(data.points).map(record);
+    const points = rawPoints
+      .map((point) => ({ x: finite(point.x), y: finite(point.y), label: clean(point.label, 60) }))
+      .filter((point): point is { x: number; y: number; label: string } => point.x !== null && point.y !== null);
+    // The widget draws y on a fixed 0–100 axis.
+    const visible = points.filter((point) => point.y >= 0 && point.y <= 100);
+    if (visible.length < rawPoints.length) {
+      issues.push(`${name} : ${rawPoints.length - visible.length} point(s) non numérique(s) ou hors de l’échelle 0–100 retiré(s).`);
+    }
+    if (!visible.length) return drop("aucun point affichable");
+    return {
+      type: "scatter",
+      title,
+      description,
+      data: {
+        x_label: clean(data.x_label, 60) || "x",
+        y_label: clean(data.y_label, 60) || "y",
+        points: visible.slice(0, MAX_SERIES * 2),
+        note: clean(data.note, 300),
+      },
+    };
+  }
+
+  return drop(`type inconnu (${clean(chart.type, 20) || "absent"})`);
+}
+
+export function validateGraph(raw: unknown): GraphValidation {
+  const issues: string[] = [];
+  const graph = record(raw);
+  if (!Object.keys(graph).length) return { graph: null, issues: ["Graphique illisible : objet JSON attendu."] };
+
+  const rawCharts = list(graph.charts);
+  if (rawCharts.length > MAX_CHARTS) issues.push(`${rawCharts.length} graphiques, limité à ${MAX_CHARTS}.`);
+  const charts = rawCharts
+    .slice(0, MAX_CHARTS)
+    .map((chart, index) => validateChart(chart, index, issues))
+    .filter((chart): chart is GraphChart => Boolean(chart));
+
+  const rawConfidence = finite(graph.confidence);
+  const confidence = rawConfidence === null ? 0.5 : Math.min(1, Math.max(0, rawConfidence));
+  if (rawConfidence !== null && rawConfidence !== confidence) issues.push("Confiance ramenée entre 0 et 1.");
+
+  const checklist = list(graph.checklist)
+    .map(record)
+    .map((item) => ({
+      action: clean(item.action, 220),
+      expected_effect: clean(item.expected_effect, 220),
+      priority: PRIORITIES.includes(item.priority as GraphChecklistItem["priority"])
+        ? (item.priority as GraphChecklistItem["priority"])
+        : "medium",
+    }))
+    .filter((item) => item.action);
+
+  const recap = validateTable(graph.recap_table, "Tableau récapitulatif", issues);
+
+  return {
+    graph: {
+      title: clean(graph.title, 120),
+      summary: clean(graph.summary, 400),
+      confidence,
+      charts,
+      checklist,
+      recap_table: recap.columns.length ? recap : { columns: ["Élément", "Synthèse"], rows: [], note: recap.note },
+      questions: list(graph.questions).map((question) => clean(question, 220)).filter(Boolean).slice(0, 5),
+    },
+    issues,
+  };
+}
+
+// Structured output should already be bare JSON; fences are tolerated for
+// providers that add them.
+export function parseGraph(raw: string): GraphValidation {
+  const cleaned = raw
+    .trim()
+    .replace(/^```json\s*/i, "")
+    .replace(/^```\s*/i, "")
+    .replace(/```$/i, "")
+    .trim();
+  const first = cleaned.indexOf("{");
+  const last = cleaned.lastIndexOf("}");
+  if (first < 0 || last <= first) return { graph: null, issues: ["Graphique illisible : aucun objet JSON."] };
+  try {
+    return validateGraph(JSON.parse(cleaned.slice(first, last + 1)));
+  } catch {
+    return { graph: null, issues: ["Graphique illisible : JSON invalide."] };
+  }
+}
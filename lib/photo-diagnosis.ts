@@ -0,0 +1,294 @@
+import type { AIJsonSchema } from "./ai";
+
+// Structured reading of a pizza photo. The model rates five visible features on
+// a 0–4 scale with a confidence, ranks candidate causes and lists controls;
+// validatePhotoDiagnosis normalises the output so two diagnoses of the same
+// dossier can be compared feature by feature.
+
+export type DiagnosisFeatureKey = "cornicione_height" | "leopard_spotting" | "crumb_openness" | "underside_color" | "tearing";
+
+export type DiagnosisFeature = {
+  feature: DiagnosisFeatureKey;
+  label: string;
+  visible: boolean;
+  level: number | null;
+  level_label: string;
+  confidence: number;
+  observation: string;
+};
+
+export type DiagnosisCause = {
+  cause: string;
+  plausibility: number;
+  evidence: string;
+  features: DiagnosisFeatureKey[];
+};
+
+export type DiagnosisControl = {
+  control: string;
+  expected: string;
+  cause: string;
+};
+
+export type PhotoDiagnosis = {
+  summary: string;
+  image_quality: "good" | "limited" | "unusable";
+  features: DiagnosisFeature[];
+  causes: DiagnosisCause[];
+  controls: DiagnosisControl[];
+};
+
+export type PhotoDiagnosisValidation = {
+  diagnosis: PhotoDiagnosis | null;
+  issues: string[];
+};
+
+export type FeatureComparison = {
+  feature: DiagnosisFeatureKey;
+  label: string;
+  before: number | null;
+  after: number | null;
+  before_label: string;
+  after_label: string;
+  delta: number | null;
+  // Both readings visible and confident enough to be compared.
+  comparable: boolean;
+};
+
+export type DiagnosisComparison = {
+  previous_id: number;
+  previous_at: string;
+  features: FeatureComparison[];
+};
+
+// What /api/tutor returns and stores for a photo question.
+export type PhotoDiagnosisResult = {
+  id: number | null;
+  photo_id: number | null;
+  diagnosis: PhotoDiagnosis;
+  comparison: DiagnosisComparison | null;
+  issues: string[];
+};
+
+export const DIAGNOSIS_FEATURES: Array<{ key: DiagnosisFeatureKey; label: string; levels: string[] }> = [
+  { key: "cornicione_height", label: "Hauteur du cornicione", levels: ["plat", "bas", "moyen", "gonflé", "très gonflé"] },
+  { key: "leopard_spotting", label: "Léopardage", levels: ["absent", "rare", "régulier", "dense", "brûlé"] },
+  { key: "crumb_openness", label: "Alvéolage de la mie", levels: ["serrée", "peu ouverte", "régulière", "ouverte", "très ouverte"] },
+  { key: "underside_color", label: "Coloration du dessous", levels: ["pâle", "doré clair", "doré", "bien saisi", "brûlé"] },
+  { key: "tearing", label: "Déchirures", levels: ["aucune", "légère", "nette", "importante", "pâte percée"] },
+];
+
+// Below this confidence a reading is shown but not compared.
+export const MIN_COMPARABLE_CONFIDENCE = 0.5;
+
+const MAX_CAUSES = 5;
+const MAX_CONTROLS = 6;
+const FEATURE_KEYS = DIAGNOSIS_FEATURES.map((feature) => feature.key);
+const QUALITIES: PhotoDiagnosis["image_quality"][] = ["good", "limited", "unusable"];
+
+const text = (description?: string) => (description ? { type: "string", description } : { type: "string" });
+const unit = (description: string) => ({ type: "number", description: `${description} De 0 à 1.` });
+
+export const PHOTO_DIAGNOSIS_FORMAT: AIJsonSchema = {
+  name: "ernesto_photo_diagnosis",
+  description: "Diagnostic visuel structuré d'une photo de pizza.",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      summary: text("Ce que montre la photo, en une ou deux phrases."),
+      image_quality: { type: "string", enum: QUALITIES, description: "Netteté, lumière et cadrage pour ce diagnostic." },
+      features: {
+        type: "array",
+        description: "Une entrée par caractéristique, visible ou non.",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            feature: { type: "string", enum: FEATURE_KEYS },
+            visible: { type: "boolean", description: "false si la photo ne permet pas de l'observer." },
+            level: {
+              type: ["integer", "null"],
+              description: `Échelle 0 à 4 ; null si non visible. ${DIAGNOSIS_FEATURES.map(
+                (feature) => `${feature.key} : ${feature.levels.map((level, index) => `${index} ${level}`).join(", ")}`
+              ).join(" ; ")}.`,
+            },
+            confidence: unit("Certitude de la lecture."),
+            observation: text("Ce qui est réellement visible ; chaîne vide si rien."),
+          },
+          required: ["feature", "visible", "level", "confidence", "observation"],
+        },
+      },
+      causes: {
+        type: "array",
+        maxItems: MAX_CAUSES,
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            cause: text("Cause possible, formulée concrètement."),
+            plausibility: unit("Plausibilité au vu de la photo et du contexte."),
+            evidence: text("Indices visibles qui la soutiennent."),
+            features: { type: "array", items: { type: "string", enum: FEATURE_KEYS } },
+          },
+          required: ["cause", "plausibility", "evidence", "features"],
+        },
+      },
+      controls: {
+        type: "array",
+        maxItems: MAX_CONTROLS,
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            control: text("Contrôle simple à faire au poste."),
+            expected: text("Ce qu'il confirmerait ou écarterait."),
+            cause: text("Cause visée ; chaîne vide si générale."),
+          },
+          required: ["control", "expected", "cause"],
+        },
+      },
+    },
+    required: ["summary", "image_quality", "features", "causes", "controls"],
+  },
+};
+
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function clean(value: unknown, maxLength: number) {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim().slice(0, maxLength) : "";
+}
+
+function unitValue(value: unknown) {
+  const parsed = typeof value === "number" && Number.isFinite(value) ? value : 0;
+  return Math.min(1, Math.max(0, parsed));
+}
+
+function featureKeys(value: unknown) {
+  return Array.from(new Set(list(value).filter((key): key is DiagnosisFeatureKey => FEATURE_KEYS.includes(key as DiagnosisFeatureKey))));
+}
+
+export function levelLabel(feature: DiagnosisFeatureKey, level: number | null) {
+  if (level === null) return "non visible";
+  return DIAGNOSIS_FEATURES.find((item) => item.key === feature)?.levels[level] ?? String(level);
+}
+
+export function validatePhotoDiagnosis(raw: unknown): PhotoDiagnosisValidation {
+  const issues: string[] = [];
+  const diagnosis = record(raw);
+  if (!Object.keys(diagnosis).length) return { diagnosis: null, issues: ["Diagnostic illisible : objet JSON attendu."] };
+
+  const readings = new Map<DiagnosisFeatureKey, Record<string, unknown>>();
+  list(diagnosis.features).map(record).forEach((reading) => {
+    const key = reading.feature as DiagnosisFeatureKey;
+    if (!FEATURE_KEYS.includes(key)) issues.push(`Caractéristique inconnue ignorée (${clean(reading.feature, 40) || "absente"}).`);
+    else if (readings.has(key)) issues.push(`${key} en double : première lecture conservée.`);
+    else readings.set(key, reading);
+  });
+
+  // Every feature is present, in a fixed order; a missing one is "not visible".
+  const features = DIAGNOSIS_FEATURES.map(({ key, label }): DiagnosisFeature => {
+    const reading = readings.get(key);
+    if (!reading) issues.push(`${key} absent : marqué non visible.`);
+    const rawLevel = reading?.level;
+    let level = typeof rawLevel === "number" && Number.isFinite(rawLevel) ? Math.round(rawLevel) : null;
+    if (level !== null && (level < 0 || level > 4)) {
+      issues.push(`${key} : niveau ${rawLevel} hors échelle, ramené entre 0 et 4.`);
+      level = Math.min(4, Math.max(0, level));
+    }
+    const visible = reading?.visible === true && level !== null;
+    if (reading?.visible === true && level === null) issues.push(`${key} visible sans niveau : marqué non visible.`);
+    return {
+      feature: key,
+      label,
+      visible,
+      level: visible ? level : null,
+      level_label: levelLabel(key, visible ? level : null),
+      confidence: visible ? unitValue(reading?.confidence) : 0,
+      observation: clean(reading?.observation, 240),
+    };
+  });
+
+  const causes = list(diagnosis.causes)
+    .map(record)
+    .map((cause) => ({
+      cause: clean(cause.cause, 200),
+      plausibility: unitValue(cause.plausibility),
+      evidence: clean(cause.evidence, 300),
+      features: featureKeys(cause.features),
+    }))
+    .filter((cause) => cause.cause)
+    .sort((a, b) => b.plausibility - a.plausibility)
+    .slice(0, MAX_CAUSES);
+
+  const controls = list(diagnosis.controls)
+    .map(record)
+    .map((control) => ({
+      control: clean(control.control, 220),
+      expected: clean(control.expected, 220),
+      cause: clean(control.cause, 200),
+    }))
+    .filter((control) => control.control)
+    .slice(0, MAX_CONTROLS);
+
+  const quality = QUALITIES.includes(diagnosis.image_quality as PhotoDiagnosis["image_quality"])
+    ? (diagnosis.image_quality as PhotoDiagnosis["image_quality"])
+    : "limited";
+
+  return {
+    diagnosis: { summary: clean(diagnosis.summary, 400), image_quality: quality, features, causes, controls },
+    issues,
+  };
+}
+
+// Structured output should already be bare JSON; fences are tolerated for
+// providers that add them.
+export function parsePhotoDiagnosis(raw: string): PhotoDiagnosisValidation {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/```$/i, "").trim();
+  const first = cleaned.indexOf("{");
+  const last = cleaned.lastIndexOf("}");
+  if (first < 0 || last <= first) return { diagnosis: null, issues: ["Diagnostic illisible : aucun objet JSON."] };
+  try {
+    return validatePhotoDiagnosis(JSON.parse(cleaned.slice(first, last + 1)));
+  } catch {
+    return { diagnosis: null, issues: ["Diagnostic illisible : JSON invalide."] };
+  }
+}
+
+export function compareDiagnoses(
+  previous: { id: number; created_at: string; diagnosis: PhotoDiagnosis },
+  current: PhotoDiagnosis
+): DiagnosisComparison {
+  return {
+    previous_id: previous.id,
+    previous_at: previous.created_at,
+    features: DIAGNOSIS_FEATURES.map(({ key, label }) => {
+      const before = previous.diagnosis.features.find((feature) => feature.feature === key);
+      const after = current.features.find((feature) => feature.feature === key);
+      const beforeLevel = before?.visible ? before.level : null;
+      const afterLevel = after?.visible ? after.level : null;
+      const comparable =
+        beforeLevel !== null &&
+        afterLevel !== null &&
+        (before?.confidence ?? 0) >= MIN_COMPARABLE_CONFIDENCE &&
+        (after?.confidence ?? 0) >= MIN_COMPARABLE_CONFIDENCE;
+      return {
+        feature: key,
+        label,
+        before: beforeLevel,
+        after: afterLevel,
+        before_label: levelLabel(key, beforeLevel),
+        after_label: levelLabel(key, afterLevel),
+        delta: comparable ? (afterLevel as number) - (beforeLevel as number) : null,
+        comparable,
+      };
+    }),
+  };
+}
@@ -0,0 +1,107 @@
+import { randomUUID } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createLocalPhotoStore } from "./local";
+import { preparePhoto } from "./process";
+import type { PhotoBackendName, PhotoStore } from "./store";
+import { createSupabasePhotoStore } from "./supabase";
+
+export * from "./store";
+
+// Photo archive: every photo sent to Ernesto (tutor question, bake journal,
+// direct upload) is stored per user and dossier, stripped of its metadata and
+// with a thumbnail, so a later photo can be compared with any earlier one.
+
+export type PhotoSource = "tutor" | "journal" | "upload";
+
+export type ArchivedPhoto = {
+  id: number;
+  project_id: string;
+  backend: PhotoBackendName;
+  path: string;
+  thumb_path: string;
+  width: number;
+  height: number;
+  bytes: number;
+  source: PhotoSource;
+  label: string;
+  created_at: string;
+};
+
+export type PhotoWithLinks = ArchivedPhoto & { url: string | null; thumb_url: string | null };
+
+export const PHOTO_COLUMNS = "id,project_id,backend,path,thumb_path,width,height,bytes,source,label,created_at";
+export const PHOTO_LINK_SECONDS = 60 * 60;
+
+export function configuredPhotoBackend(): PhotoBackendName {
+  return (process.env.ERNESTO_PHOTO_STORAGE || "").trim().toLowerCase() === "local" ? "local" : "supabase";
+}
+
+export function getPhotoStore(name: PhotoBackendName, supabase: SupabaseClient): PhotoStore {
+  return name === "local" ? createLocalPhotoStore() : createSupabasePhotoStore(supabase);
+}
+
+function keySegment(value: string) {
+  return value.replace(/[^A-Za-z0-9_-]/g, "_").slice(0, 80) || "general";
+}
+
+// Returns the archived row and the re-encoded image, which is what should be
+// sent to the model from then on.
+export async function archivePhoto(
+  supabase: SupabaseClient,
+  input: { userId: string; projectId: string; source: PhotoSource; label?: string; body: Buffer }
+) {
+  const prepared = await preparePhoto(input.body);
+  const backend = configuredPhotoBackend();
+  const store = getPhotoStore(backend, supabase);
+  const base = `${input.userId}/${keySegment(input.projectId)}/${randomUUID()}`;
+  const paths = { path: `${base}.jpg`, thumb_path: `${base}-thumb.jpg` };
+
+  await store.put(paths.path, prepared.image, "image/jpeg");
+  await store.put(paths.thumb_path, prepared.thumbnail, "image/jpeg");
+
+  const { data, error } = await supabase
+    .from("ernesto_photos")
+    .insert({
+      user_id: input.userId,
+      project_id: input.projectId,
+      backend,
+      ...paths,
+      width: prepared.width,
+      height: prepared.height,
+      bytes: prepared.image.length,
+      source: input.source,
+      label: String(input.label || "").replace(/\s+/g, " ").trim().slice(0, 120),
+    })
+    .select(PHOTO_COLUMNS)
+    .single();
+  if (error) {
+    await store.remove([paths.path, paths.thumb_path]).catch(() => undefined);
+    throw new Error(error.message);
+  }
+  return { photo: data as ArchivedPhoto, image: prepared.image };
+}
+
+export async function photoLinks(supabase: SupabaseClient, photos: ArchivedPhoto[]): Promise<PhotoWithLinks[]> {
+  return Promise.all(
+    photos.map(async (photo) => {
+      const store = getPhotoStore(photo.backend, supabase);
+      const [url, thumbUrl] = await Promise.all([
+        store.signedUrl(photo.path, PHOTO_LINK_SECONDS).catch(() => null),
+        store.signedUrl(photo.thumb_path, PHOTO_LINK_SECONDS).catch(() => null),
+      ]);
+      return { ...photo, url, thumb_url: thumbUrl };
+    })
+  );
+}
+
+export async function photoDataUrl(supabase: SupabaseClient, photo: ArchivedPhoto) {
+  const body = await getPhotoStore(photo.backend, supabase).get(photo.path);
+  return body ? `data:image/jpeg;base64,${body.toString("base64")}` : null;
+}
+
+// Rows are deleted by the caller; this only removes the files.
+export async function removePhotoFiles(supabase: SupabaseClient, photos: ArchivedPhoto[]) {
+  for (const photo of photos) {
+    await getPhotoStore(photo.backend, supabase).remove([photo.path, photo.thumb_path]);
+  }
+}
@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { assertPhotoKey, type PhotoStore } from "./store";
+
+// Filesystem backend for self-hosted and offline setups. Files are served by
+// /api/photos/file, whose links are signed like Supabase Storage links.
+
+export function localPhotoRoot() {
+  return path.resolve(process.env.ERNESTO_PHOTO_DIR || path.join(process.cwd(), ".data", "photos"));
+}
+
+function signingSecret() {
+  const secret = process.env.ERNESTO_PHOTO_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY || "";
+  if (!secret) throw new Error("photo_secret_missing");
+  return secret;
+}
+
+function signature(key: string, expires: number) {
+  return createHmac("sha256", signingSecret()).update(`${key}:${expires}`).digest("base64url");
+}
+
+export function verifyLocalPhotoLink(key: string, expires: number, provided: string) {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+  const expected = Buffer.from(signature(key, expires));
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function localPhotoPath(key: string) {
+  return path.join(localPhotoRoot(), assertPhotoKey(key));
+}
+
+export function createLocalPhotoStore(): PhotoStore {
+  return {
+    name: "local",
+
+    async put(key, body) {
+      const file = localPhotoPath(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(localPhotoPath(key));
+      } catch {
+        return null;
+      }
+    },
+
+    async remove(keys) {
+      await Promise.all(keys.map((key) => rm(localPhotoPath(key), { force: true })));
+    },
+
+    async signedUrl(key, expiresInSeconds) {
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const params = new URLSearchParams({ key: assertPhotoKey(key), exp: String(expires), sig: signature(key, expires) });
+      return `/api/photos/file?${params}`;
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import sharp from "sharp";
+
+// Every archived photo is re-encoded: the EXIF orientation is applied to the
+// pixels, then all metadata (GPS position, device, dates) is left out, which
+// sharp does unless asked to keep it.
+
+const MAX_SIDE = 1600;
+const THUMBNAIL_SIDE = 320;
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export type PreparedPhoto = {
+  image: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+};
+
+export async function preparePhoto(input: Buffer): Promise<PreparedPhoto> {
+  try {
+    const source = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+    const { data: image, info } = await source
+      .clone()
+      .resize({ width: MAX_SIDE, height: MAX_SIDE, fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: 82, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+    const thumbnail = await source
+      .clone()
+      .resize({ width: THUMBNAIL_SIDE, height: THUMBNAIL_SIDE, fit: "cover" })
+      .jpeg({ quality: 72 })
+      .toBuffer();
+    return { image, thumbnail, width: info.width, height: info.height };
+  } catch {
+    throw new Error("unreadable_photo");
+  }
+}
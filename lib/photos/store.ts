@@ -0,0 +1,19 @@
+// Where archived photos live. Each archived row records the backend that
+// stored it, so switching ERNESTO_PHOTO_STORAGE only affects new uploads.
+export type PhotoBackendName = "supabase" | "local";
+
+export interface PhotoStore {
+  readonly name: PhotoBackendName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  remove(keys: string[]): Promise<void>;
+  // A link an <img> can load without the bearer token.
+  signedUrl(key: string, expiresInSeconds: number): Promise<string | null>;
+}
+
+// Keys are built by the archive from ids; anything else is refused so a key
+// can never leave the storage root.
+export function assertPhotoKey(key: string) {
+  if (!/^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*\.(jpg|jpeg|png|webp)$/.test(key)) throw new Error("invalid_photo_key");
+  return key;
+}
@@ -0,0 +1,32 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { assertPhotoKey, type PhotoStore } from "./store";
+
+export const PHOTO_BUCKET = "ernesto-photos";
+
+export function createSupabasePhotoStore(supabase: SupabaseClient, bucket = PHOTO_BUCKET): PhotoStore {
+  return {
+    name: "supabase",
+
+    async put(key, body, contentType) {
+      const { error } = await supabase.storage.from(bucket).upload(assertPhotoKey(key), body, { contentType, upsert: true });
+      if (error) throw new Error(error.message);
+    },
+
+    async get(key) {
+      const { data, error } = await supabase.storage.from(bucket).download(assertPhotoKey(key));
+      if (error || !data) return null;
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async remove(keys) {
+      if (!keys.length) return;
+      const { error } = await supabase.storage.from(bucket).remove(keys.map(assertPhotoKey));
+      if (error) throw new Error(error.message);
+    },
+
+    async signedUrl(key, expiresInSeconds) {
+      const { data, error } = await supabase.storage.from(bucket).createSignedUrl(assertPhotoKey(key), expiresInSeconds);
+      return error ? null : data.signedUrl;
+    },
+  };
+}
@@ -0,0 +1,213 @@
+import { createHash } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PROMPT_DEFINITIONS, PROMPT_NAMES, type PromptName } from "./templates";
+
+export * from "./templates";
+
+// Prompt registry: admins add versions of each prompt in
+// ernesto_prompt_versions. An active version with weight 30 is served to about
+// 30 % of users, the built-in template to the rest (none once the active
+// weights reach 100). A user keeps what was first drawn for a prompt, so their
+// answers and ratings compare like with like.
+
+export type PromptStatus = "draft" | "active" | "retired";
+
+export type PromptVersion = {
+  id: number;
+  name: PromptName;
+  version: number;
+  label: string;
+  body: string;
+  weight: number;
+  status: PromptStatus;
+  created_at: string;
+};
+
+export type PromptVars = Record<string, string | number | boolean | null | undefined>;
+
+// Version id per prompt, only for prompts not served from the built-in template.
+export type PromptVersionIds = Partial<Record<PromptName, number>>;
+
+export type PromptSet = {
+  versions: PromptVersionIds;
+  // "default", or e.g. "tutor.system@v3+graph.user@v2".
+  variant: string;
+  render: (name: PromptName, vars?: PromptVars) => string;
+};
+
+export const PROMPT_VERSION_COLUMNS = "id,name,version,label,body,weight,status,created_at";
+export const PROMPT_MAX_CHARS = 20_000;
+
+const TAG = /\{\{([^{}]*)\}\}/g;
+const SECTION = /\{\{([#^])([a-z_]+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE = /\{\{([a-z_]+)\}\}/g;
+
+export function isPromptName(value: unknown): value is PromptName {
+  return typeof value === "string" && (PROMPT_NAMES as string[]).includes(value);
+}
+
+function isSet(value: PromptVars[string]) {
+  return value !== undefined && value !== null && value !== false && value !== 0 && String(value).trim() !== "";
+}
+
+// Sections are resolved on the template first, then variables are inserted in
+// one pass, so a value containing {{…}} (a question, a document) stays as is.
+export function renderPrompt(body: string, vars: PromptVars = {}) {
+  let text = body;
+  for (let depth = 0; depth < 4; depth += 1) {
+    const next = text.replace(SECTION, (_, kind: string, name: string, inner: string) =>
+      (kind === "#") === isSet(vars[name]) ? inner : ""
+    );
+    if (next === text) break;
+    text = next;
+  }
+  return text
+    .replace(VARIABLE, (_, name: string) => (isSet(vars[name]) ? String(vars[name]) : ""))
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Problems that would make a template unusable; empty when it can be saved.
+export function validatePromptTemplate(name: PromptName, body: string) {
+  const definition = PROMPT_DEFINITIONS[name];
+  const issues: string[] = [];
+  if (!body.trim()) return ["Le texte du prompt est vide."];
+  if (body.length > PROMPT_MAX_CHARS) issues.push(`Texte trop long (${body.length} caractères, ${PROMPT_MAX_CHARS} au maximum).`);
+
+  const open: string[] = [];
+  const used = new Set<string>();
+  for (const match of body.matchAll(TAG)) {
+    const tag = match[1];
+    const parsed = /^([#^/]?)([a-z_]+)$/.exec(tag);
+    if (!parsed) {
+      issues.push(`Balise mal formée : {{${tag}}}.`);
+      continue;
+    }
+    const [, kind, variable] = parsed;
+    if (!definition.variables.includes(variable)) {
+      issues.push(`Variable inconnue : {{${tag}}}.`);
+      continue;
+    }
+    if (kind === "#" || kind === "^") open.push(variable);
+    else if (kind === "/") {
+      if (open[open.length - 1] !== variable) issues.push(`Section fermée sans ouverture correspondante : {{/${variable}}}.`);
+      else open.pop();
+    } else used.add(variable);
+  }
+  if (open.length) issues.push(`Section non fermée : {{#${open[open.length - 1]}}}.`);
+  if (body.replace(TAG, "").includes("{{")) issues.push("Accolades {{ sans fermeture.");
+  for (const variable of definition.required) {
+    if (!used.has(variable)) issues.push(`Variable obligatoire absente : {{${variable}}}.`);
+  }
+  return issues;
+}
+
+function defaultRender(name: PromptName, vars?: PromptVars) {
+  return renderPrompt(PROMPT_DEFINITIONS[name].body, vars);
+}
+
+export function defaultPromptSet(): PromptSet {
+  return { versions: {}, variant: "default", render: defaultRender };
+}
+
+// Built-in templates with some bodies replaced, e.g. a candidate version
+// evaluated offline (lib/eval) before it is added to the registry.
+export function customPromptSet(bodies: Partial<Record<PromptName, string>>, variant: string): PromptSet {
+  return {
+    versions: {},
+    variant,
+    render: (name, vars) => {
+      const body = bodies[name];
+      return body === undefined ? defaultRender(name, vars) : renderPrompt(body, vars);
+    },
+  };
+}
+
+// Stable draw in [0, 100) for a user and a prompt.
+function promptDraw(userId: string, name: PromptName) {
+  const hash = createHash("sha256").update(`${userId}:${name}`).digest();
+  return (hash.readUInt32BE(0) / 0x1_0000_0000) * 100;
+}
+
+// Active versions share up to 100 % of users by weight; what is left goes to
+// the built-in template (null).
+function drawVersion(userId: string, name: PromptName, candidates: PromptVersion[]) {
+  const total = candidates.reduce((sum, version) => sum + version.weight, 0);
+  const scale = total > 100 ? 100 / total : 1;
+  const draw = promptDraw(userId, name);
+  let edge = 0;
+  for (const version of candidates) {
+    edge += version.weight * scale;
+    if (draw < edge) return version;
+  }
+  return null;
+}
+
+export function promptVariant(versions: PromptVersionIds, byId: Map<number, PromptVersion>) {
+  const parts = PROMPT_NAMES.filter((name) => versions[name]).map((name) => {
+    const version = byId.get(versions[name] as number);
+    return `${name}@v${version?.version ?? versions[name]}`;
+  });
+  return parts.length ? parts.join("+") : "default";
+}
+
+// Prompts for one user's request. Any registry failure falls back to the
+// built-in templates: a question is never refused because of it.
+export async function loadPromptSet(supabase: SupabaseClient, userId: string): Promise<PromptSet> {
+  try {
+    const [versionsResult, assignmentsResult] = await Promise.all([
+      supabase
+        .from("ernesto_prompt_versions")
+        .select(PROMPT_VERSION_COLUMNS)
+        .eq("status", "active")
+        .gt("weight", 0)
+        .order("id", { ascending: true }),
+      supabase.from("ernesto_prompt_assignments").select("prompt_name,version_id").eq("user_id", userId),
+    ]);
+    const error = versionsResult.error || assignmentsResult.error;
+    if (error) throw new Error(error.message);
+
+    const active = (versionsResult.data || []) as PromptVersion[];
+    if (!active.length) return defaultPromptSet();
+    const byId = new Map(active.map((version) => [version.id, version]));
+    const assigned = new Map(
+      (assignmentsResult.data || []).map((row) => [row.prompt_name as string, row.version_id as number | null])
+    );
+
+    const versions: PromptVersionIds = {};
+    const newAssignments: Array<{ user_id: string; prompt_name: PromptName; version_id: number | null }> = [];
+    for (const name of PROMPT_NAMES) {
+      const candidates = active.filter((version) => version.name === name);
+      const previous = assigned.get(name);
+      // A drawn version is kept while it stays active, the built-in template
+      // (null) until an admin resets the prompt's assignments.
+      if (previous && byId.has(previous)) {
+        versions[name] = previous;
+        continue;
+      }
+      if (!candidates.length || previous === null) continue;
+      const drawn = drawVersion(userId, name, candidates);
+      if (drawn) versions[name] = drawn.id;
+      newAssignments.push({ user_id: userId, prompt_name: name, version_id: drawn?.id ?? null });
+    }
+    if (newAssignments.length) {
+      const { error: assignErr } = await supabase
+        .from("ernesto_prompt_assignments")
+        .upsert(newAssignments, { onConflict: "user_id,prompt_name" });
+      if (assignErr) console.warn("v14.6 prompt assignments:", assignErr.message);
+    }
+
+    return {
+      versions,
+      variant: promptVariant(versions, byId),
+      render: (name, vars) => {
+        const id = versions[name];
+        const version = id ? byId.get(id) : undefined;
+        return version ? renderPrompt(version.body, vars) : defaultRender(name, vars);
+      },
+    };
+  } catch (err) {
+    console.warn("v14.6 prompt registry:", err instanceof Error ? err.message : err);
+    return defaultPromptSet();
+  }
+}
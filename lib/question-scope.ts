@@ -0,0 +1,144 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AIJsonSchema, AIProvider } from "./ai";
+import type { PromptSet } from "./prompts";
+
+// Pre-classification of /api/tutor. Each question gets a label before any
+// retrieval or generation: technique and business questions are answered as
+// usual, the others get a template from the prompt registry instead (a refusal
+// or the food-safety answer). Every label is logged in ernesto_question_scope
+// for the admin page.
+
+export type ScopeLabel = "technique" | "business" | "out_of_scope" | "food_safety" | "prompt_injection";
+
+export const SCOPE_LABELS: ScopeLabel[] = ["technique", "business", "out_of_scope", "food_safety", "prompt_injection"];
+
+export type ScopeAction = "answer" | "refuse" | "safety";
+
+// rules: matched a known injection phrase, no model call; skipped: classifier
+// off or question sent with photos; fallback: the model call failed.
+export type ScopeSource = "rules" | "model" | "skipped" | "fallback";
+
+export type QuestionScope = {
+  label: ScopeLabel;
+  confidence: number;
+  reason: string;
+  source: ScopeSource;
+  action: ScopeAction;
+};
+
+const SCOPE_FORMAT: AIJsonSchema = {
+  name: "question_scope",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      label: { type: "string", enum: SCOPE_LABELS },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      reason: { type: "string" },
+    },
+    required: ["label", "confidence", "reason"],
+  },
+};
+
+// Phrasings that only make sense as an attempt to steer the model.
+const INJECTION_PATTERNS = [
+  /\b(ignore|ignorez|oublie|oubliez)\b.{0,30}\b((toutes )?(tes|vos) (instructions|consignes|règles)|les (instructions|consignes) (précédentes|ci-dessus|initiales))/i,
+  /\b(ignore|disregard|forget)\b.{0,30}\b(previous|prior|above|all|your) (instructions|rules|prompt)/i,
+  /\b(system prompt|prompt système|your system instructions)/i,
+  /\b(révèle|affiche|montre|répète|donne)(-moi)?\b.{0,30}\b(tes|vos) (consignes|instructions) (internes|initiales|système|complètes)/i,
+  /\b(jailbreak|developer mode|mode développeur)\b/i,
+];
+
+export function questionScopeEnabled() {
+  return (process.env.ERNESTO_SCOPE_CLASSIFIER || "").trim().toLowerCase() !== "off";
+}
+
+// Below this confidence a refusal or safety label is not acted upon: the
+// question is answered and the tutor prompt keeps its own scope rule.
+function scopeMinConfidence() {
+  const value = Number(process.env.ERNESTO_SCOPE_MIN_CONFIDENCE);
+  return Number.isFinite(value) && value >= 0 && value <= 1 ? value : 0.7;
+}
+
+export function scopeAction(label: ScopeLabel, confidence: number): ScopeAction {
+  if (confidence < scopeMinConfidence()) return "answer";
+  if (label === "out_of_scope" || label === "prompt_injection") return "refuse";
+  if (label === "food_safety") return "safety";
+  return "answer";
+}
+
+function scope(label: ScopeLabel, confidence: number, reason: string, source: ScopeSource): QuestionScope {
+  return { label, confidence, reason, source, action: scopeAction(label, confidence) };
+}
+
+export async function classifyQuestion(params: {
+  ai: AIProvider;
+  prompts: PromptSet;
+  question: string;
+  previousQuestion?: string;
+  dossier?: string;
+  imageCount: number;
+}): Promise<QuestionScope> {
+  const { ai, prompts, question } = params;
+  if (INJECTION_PATTERNS.some((pattern) => pattern.test(question))) {
+    return scope("prompt_injection", 1, "Formulation de détournement connue.", "rules");
+  }
+  // A photo is nearly always a pizza or a dough to diagnose, and its caption
+  // is often too short to classify.
+  if (!questionScopeEnabled() || params.imageCount > 0) return scope("technique", 0, "", "skipped");
+
+  try {
+    const result = await ai.structured({
+      task: "classify",
+      schema: SCOPE_FORMAT,
+      messages: [
+        { role: "system", content: prompts.render("scope.system") },
+        {
+          role: "user",
+          content: prompts.render("scope.user", {
+            dossier: params.dossier?.slice(0, 600),
+            previous_question: params.previousQuestion?.slice(0, 1200),
+            question,
+          }),
+        },
+      ],
+    });
+    const parsed = JSON.parse(result.text || "{}");
+    const label = SCOPE_LABELS.includes(parsed?.label) ? (parsed.label as ScopeLabel) : "technique";
+    const confidence = Math.max(0, Math.min(1, Number(parsed?.confidence) || 0));
+    const reason = String(parsed?.reason || "").replace(/\s+/g, " ").trim().slice(0, 300);
+    return scope(label, Number(confidence.toFixed(2)), reason, "model");
+  } catch (error) {
+    // The question is answered: the tutor prompt still refuses what is off-topic.
+    console.warn("v14.6 question scope:", error instanceof Error ? error.message : error);
+    return scope("technique", 0, "", "fallback");
+  }
+}
+
+// The templated reply for a question that is not answered; null otherwise.
+export function scopeReply(questionScope: QuestionScope, prompts: PromptSet) {
+  if (questionScope.action === "safety") return prompts.render("scope.food_safety");
+  if (questionScope.action === "refuse") {
+    return prompts.render(questionScope.label === "prompt_injection" ? "scope.injection" : "scope.refusal");
+  }
+  return null;
+}
+
+export async function recordQuestionScope(
+  supabase: SupabaseClient,
+  row: { userId: string; projectId: string | null; question: string; scope: QuestionScope; promptVariant: string }
+) {
+  const { error } = await supabase.from("ernesto_question_scope").insert({
+    user_id: row.userId,
+    project_id: row.projectId,
+    question: row.question.slice(0, 500),
+    label: row.scope.label,
+    confidence: row.scope.confidence,
+    reason: row.scope.reason || null,
+    source: row.scope.source,
+    action: row.scope.action,
+    prompt_variant: row.promptVariant,
+  });
+  if (error) console.warn("v14.6 question scope insert:", error.message);
+}
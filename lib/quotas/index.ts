@@ -0,0 +1,168 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createMemoryQuotaStore } from "./memory";
+import type { QuotaCounter, QuotaKey, QuotaStore, QuotaStoreName } from "./store";
+import { createSupabaseQuotaStore } from "./supabase";
+
+export * from "./store";
+
+// Fair-use quotas of /api/tutor: questions per minute and per day, photos per
+// day and ANALYSE graph syntheses per day, by access plan. They are consumed
+// before the first model call of a request.
+
+export type QuotaPlan = "admin" | "pro" | "trainee";
+
+// null: no limit (the counter is still kept).
+export type QuotaLimits = {
+  per_minute: number | null;
+  per_day: number | null;
+  images_per_day: number | null;
+  graphs_per_day: number | null;
+};
+
+export type QuotaUsage = { minute: number; day: number; images: number; graphs: number };
+
+export type QuotaStatus = {
+  plan: QuotaPlan;
+  limits: QuotaLimits;
+  used: QuotaUsage;
+  remaining: { [K in keyof QuotaUsage]: number | null };
+  // Next UTC midnight, when the daily counters start again.
+  resets_at: string;
+};
+
+export type QuotaRefusal = "per_minute" | "per_day" | "images_per_day";
+
+export type QuotaDecision =
+  | { ok: true; graph: boolean; status: QuotaStatus }
+  | { ok: false; reason: QuotaRefusal; limit: number; retryAfter: number; status: QuotaStatus };
+
+const DEFAULT_QUOTA_LIMITS: Record<QuotaPlan, QuotaLimits> = {
+  admin: { per_minute: null, per_day: null, images_per_day: null, graphs_per_day: null },
+  pro: { per_minute: 10, per_day: 150, images_per_day: 40, graphs_per_day: 40 },
+  trainee: { per_minute: 6, per_day: 60, images_per_day: 20, graphs_per_day: 15 },
+};
+
+const LIMIT_KEYS: Array<keyof QuotaLimits> = ["per_minute", "per_day", "images_per_day", "graphs_per_day"];
+
+// ERNESTO_QUOTAS overrides some limits, e.g. {"trainee":{"per_day":80}}.
+// A limit set to null removes it.
+export function quotaLimits(plan: QuotaPlan): QuotaLimits {
+  const base = DEFAULT_QUOTA_LIMITS[plan];
+  const raw = process.env.ERNESTO_QUOTAS;
+  if (!raw) return base;
+  try {
+    const override = (JSON.parse(raw) as Record<string, Record<string, unknown>>)?.[plan];
+    if (!override || typeof override !== "object") return base;
+    const limits = { ...base };
+    for (const key of LIMIT_KEYS) {
+      const value = override[key];
+      if (value === null) limits[key] = null;
+      else if (typeof value === "number" && Number.isInteger(value) && value >= 0) limits[key] = value;
+    }
+    return limits;
+  } catch {
+    console.warn("v14.6 quotas: ERNESTO_QUOTAS ignored (invalid JSON)");
+    return base;
+  }
+}
+
+export function configuredQuotaStore(): QuotaStoreName {
+  return (process.env.ERNESTO_QUOTA_STORE || "").trim().toLowerCase() === "memory" ? "memory" : "supabase";
+}
+
+export function getQuotaStore(name: QuotaStoreName, supabase: SupabaseClient): QuotaStore {
+  return name === "memory" ? createMemoryQuotaStore() : createSupabaseQuotaStore(supabase);
+}
+
+function quotaKeys(userId: string, now: Date): Record<QuotaCounter, QuotaKey> {
+  const minuteStart = new Date(Math.floor(now.getTime() / 60_000) * 60_000);
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const minute = { start: minuteStart.toISOString(), end: new Date(minuteStart.getTime() + 60_000).toISOString() };
+  const day = { start: dayStart.toISOString(), end: new Date(dayStart.getTime() + 86_400_000).toISOString() };
+  const key = (counter: QuotaCounter, window: { start: string; end: string }) => ({
+    userId,
+    counter,
+    windowStart: window.start,
+    windowEnd: window.end,
+  });
+  return { minute: key("minute", minute), day: key("day", day), images: key("images", day), graphs: key("graphs", day) };
+}
+
+function remaining(limit: number | null, used: number) {
+  return limit === null ? null : Math.max(0, limit - used);
+}
+
+function quotaStatus(plan: QuotaPlan, limits: QuotaLimits, used: QuotaUsage, resetsAt: string): QuotaStatus {
+  return {
+    plan,
+    limits,
+    used,
+    remaining: {
+      minute: remaining(limits.per_minute, used.minute),
+      day: remaining(limits.per_day, used.day),
+      images: remaining(limits.images_per_day, used.images),
+      graphs: remaining(limits.graphs_per_day, used.graphs),
+    },
+    resets_at: resetsAt,
+  };
+}
+
+// Takes one question (and its photos) from the user's quotas. When a counter
+// refuses, what earlier counters took is given back, so a refused request
+// costs nothing. A refused graph only drops the graph: the answer still comes.
+export async function consumeQuota(
+  supabase: SupabaseClient,
+  input: { userId: string; plan: QuotaPlan; images: number; graph: boolean },
+  now = new Date()
+): Promise<QuotaDecision> {
+  const store = getQuotaStore(configuredQuotaStore(), supabase);
+  const limits = quotaLimits(input.plan);
+  const keys = quotaKeys(input.userId, now);
+  const resetsAt = keys.day.windowEnd;
+  const steps: Array<{ counter: QuotaCounter; reason: QuotaRefusal; amount: number; limit: number | null }> = [
+    { counter: "minute", reason: "per_minute", amount: 1, limit: limits.per_minute },
+    { counter: "day", reason: "per_day", amount: 1, limit: limits.per_day },
+  ];
+  if (input.images > 0) steps.push({ counter: "images", reason: "images_per_day", amount: input.images, limit: limits.images_per_day });
+
+  const [minute, day, images, graphs] = await store.read([keys.minute, keys.day, keys.images, keys.graphs]);
+  const used: QuotaUsage = { minute, day, images, graphs };
+  const taken: typeof steps = [];
+  for (const step of steps) {
+    const result = await store.consume(keys[step.counter], step.amount, step.limit);
+    used[step.counter] = result.used;
+    if (!result.accepted) {
+      for (const previous of taken) {
+        await store.release(keys[previous.counter], previous.amount);
+        used[previous.counter] -= previous.amount;
+      }
+      const windowEnd = step.counter === "minute" ? keys.minute.windowEnd : resetsAt;
+      return {
+        ok: false,
+        reason: step.reason,
+        limit: step.limit ?? 0,
+        retryAfter: Math.max(1, Math.ceil((new Date(windowEnd).getTime() - now.getTime()) / 1000)),
+        status: quotaStatus(input.plan, limits, used, resetsAt),
+      };
+    }
+    taken.push(step);
+  }
+
+  let graph = false;
+  if (input.graph) {
+    const result = await store.consume(keys.graphs, 1, limits.graphs_per_day);
+    used.graphs = result.used;
+    graph = result.accepted;
+  }
+  return { ok: true, graph, status: quotaStatus(input.plan, limits, used, resetsAt) };
+}
+
+export function quotaMessage(reason: QuotaRefusal, limit: number, retryAfter: number) {
+  if (reason === "per_minute") {
+    return `Trop de questions en une minute (${limit} au maximum). Réessayez dans ${retryAfter} s.`;
+  }
+  if (reason === "images_per_day") {
+    return `Limite de ${limit} photos par jour atteinte. Posez la question sans photo ou réessayez demain.`;
+  }
+  return `Limite de ${limit} questions par jour atteinte. Ernesto sera de nouveau disponible demain.`;
+}
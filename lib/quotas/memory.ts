@@ -0,0 +1,40 @@
+import type { QuotaKey, QuotaStore } from "./store";
+
+// Counters of this process only: restarting the server resets them, and
+// several instances each count their own share.
+const counters = new Map<string, { used: number; expiresAt: number }>();
+
+function counterId(key: QuotaKey) {
+  return `${key.userId}:${key.counter}:${key.windowStart}`;
+}
+
+function prune(now: number) {
+  for (const [id, counter] of counters) {
+    if (counter.expiresAt <= now) counters.delete(id);
+  }
+}
+
+export function createMemoryQuotaStore(): QuotaStore {
+  return {
+    name: "memory",
+
+    async consume(key, amount, limit) {
+      prune(Date.now());
+      const id = counterId(key);
+      const used = counters.get(id)?.used ?? 0;
+      if (limit !== null && used + amount > limit) return { accepted: false, used };
+      counters.set(id, { used: used + amount, expiresAt: new Date(key.windowEnd).getTime() });
+      return { accepted: true, used: used + amount };
+    },
+
+    async release(key, amount) {
+      const counter = counters.get(counterId(key));
+      if (counter) counter.used = Math.max(0, counter.used - amount);
+    },
+
+    async read(keys) {
+      prune(Date.now());
+      return keys.map((key) => counters.get(counterId(key))?.used ?? 0);
+    },
+  };
+}
@@ -0,0 +1,23 @@
+// Where quota counters live. Supabase keeps them across instances; the memory
+// store is for local runs and single-process deployments.
+export type QuotaStoreName = "supabase" | "memory";
+
+export type QuotaCounter = "minute" | "day" | "images" | "graphs";
+
+// One counter of one user over one window (a minute or a UTC day).
+export type QuotaKey = {
+  userId: string;
+  counter: QuotaCounter;
+  windowStart: string;
+  windowEnd: string;
+};
+
+export interface QuotaStore {
+  readonly name: QuotaStoreName;
+  // Adds `amount` unless that would pass `limit` (null: no limit). Returns the
+  // count after the attempt, unchanged when refused.
+  consume(key: QuotaKey, amount: number, limit: number | null): Promise<{ accepted: boolean; used: number }>;
+  // Gives back what an accepted consume took when a later counter refused.
+  release(key: QuotaKey, amount: number): Promise<void>;
+  read(keys: QuotaKey[]): Promise<number[]>;
+}
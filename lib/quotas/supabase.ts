@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { QuotaStore } from "./store";
+
+// Counters in ernesto_quota_counters. The check and the increment happen in
+// one statement (ernesto_quota_consume), so parallel requests cannot both
+// take the last slot.
+export function createSupabaseQuotaStore(supabase: SupabaseClient): QuotaStore {
+  return {
+    name: "supabase",
+
+    async consume(key, amount, limit) {
+      const { data, error } = await supabase.rpc("ernesto_quota_consume", {
+        p_user_id: key.userId,
+        p_counter: key.counter,
+        p_window_start: key.windowStart,
+        p_amount: amount,
+        p_limit: limit,
+      });
+      if (error) throw new Error(error.message);
+      const row = Array.isArray(data) ? data[0] : data;
+      return { accepted: Boolean(row?.accepted), used: Number(row?.used || 0) };
+    },
+
+    async release(key, amount) {
+      const { error } = await supabase.rpc("ernesto_quota_release", {
+        p_user_id: key.userId,
+        p_counter: key.counter,
+        p_window_start: key.windowStart,
+        p_amount: amount,
+      });
+      if (error) throw new Error(error.message);
+    },
+
+    async read(keys) {
+      if (!keys.length) return [];
+      const { data, error } = await supabase
+        .from("ernesto_quota_counters")
+        .select("counter,window_start,used")
+        .eq("user_id", keys[0].userId)
+        .in("window_start", Array.from(new Set(keys.map((key) => key.windowStart))));
+      if (error) throw new Error(error.message);
+      return keys.map((key) => {
+        const row = (data || []).find(
+          (item) => item.counter === key.counter && new Date(item.window_start).getTime() === new Date(key.windowStart).getTime()
+        );
+        return Number(row?.used || 0);
+      });
+    },
+  };
+}
@@ -0,0 +1,359 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AIContentPart, AIJsonSchema, AIProvider } from "./ai";
+import type { PromptSet } from "./prompts";
+
+// Hybrid retrieval over the official knowledge base: pgvector similarity
+// (`match_chunks`) merged with French full-text search (`match_chunks_fts`).
+// Embeddings miss exact technical vocabulary ("W320", "biga", "frasage");
+// full-text search misses paraphrases. Both lists are merged, reranked, and
+// adjacent chunks of the same document are joined so their overlap is sent once.
+
+const CANDIDATES_PER_SOURCE = 12;
+const MIN_VECTOR_SIMILARITY = 0.2;
+const MAX_OVERLAP_CHARS = 400;
+
+const WEIGHTS = { vector: 0.55, text: 0.2, coverage: 0.25 };
+const AGREEMENT_BONUS = 0.04;
+const MAX_AGREEMENT_BONUS = 0.08;
+
+// French function words long enough to pass the length filter below.
+const STOPWORDS = new Set([
+  "pour", "avec", "dans", "mais", "leur", "leurs", "cette", "quel", "quelle", "quels", "quelles",
+  "comment", "pourquoi", "quand", "faut", "fait", "faire", "peut", "peux", "suis", "elle", "elles",
+  "nous", "vous", "plus", "moins", "tres", "trop", "sans", "sont", "avoir", "etre", "mettre",
+]);
+
+export type RetrievedChunk = {
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  similarity: number;
+  text_rank: number;
+  coverage: number;
+  score: number;
+  sources: Array<"vector" | "fts">;
+  matched_queries: number;
+  merged_chunks: number[];
+};
+
+export type RetrievalQuery = {
+  text: string;
+  embedding: number[];
+};
+
+export type RetrievalTrace = {
+  queries: Array<{
+    query: string;
+    vector_candidates: number;
+    fts_candidates: number;
+    kept: number;
+    terms: string[];
+  }>;
+  merged_candidates: number;
+  kept_after_threshold: number;
+  joined_overlaps: number;
+  errors: string[];
+};
+
+export type HybridRetrievalResult = {
+  chunks: RetrievedChunk[];
+  trace: RetrievalTrace;
+};
+
+export type CandidateRow = {
+  document_id?: unknown;
+  chunk_index?: unknown;
+  content?: unknown;
+  similarity?: unknown;
+  rank?: unknown;
+};
+
+// The two candidate searches behind hybrid retrieval. Supabase runs them in
+// Postgres; lib/eval has an in-memory stand-in for offline runs.
+export type ChunkSearch = {
+  vector(embedding: number[], count: number): Promise<{ rows: CandidateRow[]; error: string | null }>;
+  text(query: string, count: number): Promise<{ rows: CandidateRow[]; error: string | null }>;
+};
+
+export function supabaseChunkSearch(supabase: SupabaseClient): ChunkSearch {
+  return {
+    async vector(embedding, count) {
+      const { data, error } = await supabase.rpc("match_chunks", { query_embedding: embedding, match_count: count });
+      return { rows: Array.isArray(data) ? data : [], error: error?.message ?? null };
+    },
+    async text(query, count) {
+      const { data, error } = await supabase.rpc("match_chunks_fts", { query_text: query, match_count: count });
+      return { rows: Array.isArray(data) ? data : [], error: error?.message ?? null };
+    },
+  };
+}
+
+function foldText(value: string) {
+  return value.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+// Terms that should be found verbatim: identifiers with digits (W320, 65%)
+// and content words of four letters or more.
+export function queryTerms(query: string) {
+  const words = foldText(query).match(/[a-z0-9%]+/g) || [];
+  const terms = words.filter((word) => (/\d/.test(word) ? word.length >= 2 : word.length >= 4 && !STOPWORDS.has(word)));
+  return Array.from(new Set(terms)).slice(0, 12);
+}
+
+function termCoverage(content: string, terms: string[]) {
+  if (!terms.length) return 0;
+  const folded = foldText(content);
+  return terms.filter((term) => folded.includes(term)).length / terms.length;
+}
+
+function candidateKey(row: { document_id: string; chunk_index: number }) {
+  return `${row.document_id}:${row.chunk_index}`;
+}
+
+function toCandidate(row: CandidateRow) {
+  const documentId = String(row.document_id ?? "");
+  const chunkIndex = Number(row.chunk_index);
+  const content = typeof row.content === "string" ? row.content : "";
+  if (!documentId || !Number.isFinite(chunkIndex) || !content) return null;
+  return { document_id: documentId, chunk_index: chunkIndex, content };
+}
+
+// Chunks are cut with an overlap, so the end of one repeats the start of the next.
+function joinOverlapping(first: string, second: string) {
+  const max = Math.min(MAX_OVERLAP_CHARS, first.length, second.length);
+  for (let length = max; length >= 20; length -= 1) {
+    if (first.endsWith(second.slice(0, length))) return `${first}${second.slice(length)}`;
+  }
+  return `${first}\n${second}`;
+}
+
+function joinAdjacent(chunks: RetrievedChunk[]) {
+  const byDocument = new Map<string, RetrievedChunk[]>();
+  for (const chunk of chunks) {
+    const list = byDocument.get(chunk.document_id) || [];
+    list.push(chunk);
+    byDocument.set(chunk.document_id, list);
+  }
+
+  const joined: RetrievedChunk[] = [];
+  let joins = 0;
+  for (const list of byDocument.values()) {
+    list.sort((a, b) => a.chunk_index - b.chunk_index);
+    let current = list[0];
+    for (const next of list.slice(1)) {
+      const lastIndex = current.merged_chunks[current.merged_chunks.length - 1];
+      if (next.chunk_index === lastIndex + 1) {
+        joins += 1;
+        current = {
+          ...current,
+          content: joinOverlapping(current.content, next.content),
+          similarity: Math.max(current.similarity, next.similarity),
+          text_rank: Math.max(current.text_rank, next.text_rank),
+          coverage: Math.max(current.coverage, next.coverage),
+          score: Math.max(current.score, next.score),
+          sources: Array.from(new Set([...current.sources, ...next.sources])),
+          matched_queries: Math.max(current.matched_queries, next.matched_queries),
+          merged_chunks: [...current.merged_chunks, next.chunk_index],
+        };
+        continue;
+      }
+      joined.push(current);
+      current = next;
+    }
+    joined.push(current);
+  }
+
+  return { chunks: joined.sort((a, b) => b.score - a.score), joins };
+}
+
+const REWRITE_FORMAT: AIJsonSchema = {
+  name: "retrieval_queries",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      queries: {
+        type: "array",
+        minItems: 1,
+        maxItems: 3,
+        items: { type: "string" },
+      },
+      image_description: { type: "string" },
+    },
+    required: ["queries", "image_description"],
+  },
+};
+
+// A question that is short, a bare follow-up or mostly a photo carries too
+// little vocabulary for retrieval on its own.
+export function needsQueryRewrite(message: string, params: { hasHistory: boolean; imageCount: number }) {
+  const words = message.split(/\s+/).filter(Boolean).length;
+  return params.imageCount > 0 || words <= 4 || (params.hasHistory && words <= 12);
+}
+
+export async function rewriteRetrievalQueries(params: {
+  ai: AIProvider;
+  prompts: PromptSet;
+  message: string;
+  previousQuestion?: string;
+  previousAnswer?: string;
+  dossier?: string;
+  imageUrls?: string[];
+}): Promise<{ queries: string[]; imageDescription: string }> {
+  const { ai, prompts, message, previousQuestion = "", previousAnswer = "", dossier = "", imageUrls = [] } = params;
+  const context = prompts.render("retrieval.user", {
+    dossier: dossier.slice(0, 1200),
+    previous_question: previousQuestion.slice(0, 800),
+    previous_answer: previousAnswer.slice(0, 1200),
+    question: message,
+  });
+
+  const content: AIContentPart[] = [{ type: "text", text: context }];
+  imageUrls.slice(0, 2).forEach((imageUrl) => content.push({ type: "image", imageUrl }));
+
+  const result = await ai.structured({
+    task: "rewrite",
+    schema: REWRITE_FORMAT,
+    messages: [
+      { role: "system", content: prompts.render("retrieval.system") },
+      { role: "user", content },
+    ],
+  });
+
+  const parsed = JSON.parse(result.text || "{}");
+  const queries: string[] = Array.isArray(parsed?.queries)
+    ? parsed.queries.map((query: unknown) => String(query || "").replace(/\s+/g, " ").trim().slice(0, 300)).filter(Boolean)
+    : [];
+  const imageDescription = String(parsed?.image_description || "").replace(/\s+/g, " ").trim().slice(0, 400);
+  return { queries: queries.slice(0, 3), imageDescription };
+}
+
+async function retrieveForQuery(search: ChunkSearch, query: RetrievalQuery) {
+  const terms = queryTerms(query.text);
+  const errors: string[] = [];
+
+  const [vectorResult, ftsResult] = await Promise.all([
+    search.vector(query.embedding, CANDIDATES_PER_SOURCE),
+    search.text(query.text, CANDIDATES_PER_SOURCE),
+  ]);
+
+  if (vectorResult.error) {
+    console.warn("match_chunks error:", vectorResult.error);
+    errors.push("vector_unavailable");
+  }
+  if (ftsResult.error) {
+    // Older databases without the v14.6 migration keep the vector-only behaviour.
+    console.warn("match_chunks_fts error:", ftsResult.error);
+    errors.push("fts_unavailable");
+  }
+
+  const vectorRows = vectorResult.rows;
+  const ftsRows = ftsResult.rows;
+  const maxRank = Math.max(0, ...ftsRows.map((row) => Number(row.rank) || 0));
+
+  const candidates = new Map<string, RetrievedChunk>();
+  const upsert = (row: CandidateRow, source: "vector" | "fts") => {
+    const base = toCandidate(row);
+    if (!base) return;
+    const key = candidateKey(base);
+    const existing =
+      candidates.get(key) ||
+      ({
+        ...base,
+        similarity: 0,
+        text_rank: 0,
+        coverage: termCoverage(base.content, terms),
+        score: 0,
+        sources: [],
+        matched_queries: 1,
+        merged_chunks: [base.chunk_index],
+      } as RetrievedChunk);
+    if (source === "vector") existing.similarity = Math.max(existing.similarity, Number(row.similarity) || 0);
+    if (source === "fts") existing.text_rank = maxRank > 0 ? Math.max(existing.text_rank, (Number(row.rank) || 0) / maxRank) : 0;
+    if (!existing.sources.includes(source)) existing.sources.push(source);
+    candidates.set(key, existing);
+  };
+  vectorRows.forEach((row) => upsert(row, "vector"));
+  ftsRows.forEach((row) => upsert(row, "fts"));
+
+  const kept = Array.from(candidates.values())
+    .filter((chunk) => chunk.similarity >= MIN_VECTOR_SIMILARITY || chunk.sources.includes("fts"))
+    .map((chunk) => ({
+      ...chunk,
+      score: WEIGHTS.vector * chunk.similarity + WEIGHTS.text * chunk.text_rank + WEIGHTS.coverage * chunk.coverage,
+    }));
+
+  return {
+    kept,
+    errors,
+    trace: {
+      query: query.text,
+      vector_candidates: vectorRows.length,
+      fts_candidates: ftsRows.length,
+      kept: kept.length,
+      terms,
+    },
+  };
+}
+
+// Each reformulation is retrieved on its own; a chunk keeps its best score and
+// gains a small bonus for every other reformulation that also found it.
+export async function hybridRetrieve(
+  params: ({ supabase: SupabaseClient } | { search: ChunkSearch }) & {
+    queries: RetrievalQuery[];
+    limit?: number;
+  }
+): Promise<HybridRetrievalResult> {
+  const { queries, limit = 6 } = params;
+  const search = "search" in params ? params.search : supabaseChunkSearch(params.supabase);
+  const results = await Promise.all(queries.map((query) => retrieveForQuery(search, query)));
+
+  const fused = new Map<string, RetrievedChunk>();
+  for (const result of results) {
+    for (const chunk of result.kept) {
+      const key = candidateKey(chunk);
+      const existing = fused.get(key);
+      if (!existing) {
+        fused.set(key, chunk);
+        continue;
+      }
+      const best = chunk.score > existing.score ? chunk : existing;
+      fused.set(key, {
+        ...best,
+        sources: Array.from(new Set([...existing.sources, ...chunk.sources])),
+        matched_queries: existing.matched_queries + 1,
+      });
+    }
+  }
+
+  const kept = Array.from(fused.values())
+    .map((chunk) => ({
+      ...chunk,
+      score: chunk.score + Math.min(MAX_AGREEMENT_BONUS, AGREEMENT_BONUS * (chunk.matched_queries - 1)),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit * 2);
+
+  const { chunks, joins } = joinAdjacent(kept);
+
+  return {
+    chunks: chunks.slice(0, limit),
+    trace: {
+      queries: results.map((result) => result.trace),
+      merged_candidates: fused.size,
+      kept_after_threshold: kept.length,
+      joined_overlaps: joins,
+      errors: Array.from(new Set(results.flatMap((result) => result.errors))),
+    },
+  };
+}
+
+// Retrieved knowledge as it is given to the tutor model.
+export function formatRetrievedContext(chunks: RetrievedChunk[]) {
+  return chunks.length > 0
+    ? chunks
+        .map((chunk, index) => `CONNAISSANCE INTERNE ${index + 1} (pertinence=${chunk.score.toFixed(2)}):\n${chunk.content}`)
+        .join("\n\n---\n\n")
+    : "(Aucune connaissance interne pertinente disponible.)";
+}
@@ -0,0 +1,365 @@
+import type { AITool, AIToolCall } from "./ai";
+import {
+  BAKE_TREND_PARAMETERS,
+  bakeLogLine,
+  bakeTrendChart,
+  type BakeLog,
+  type BakeTrendChart,
+  type BakeTrendParameter,
+} from "./bake-journal";
+import { computeDoughFormula, parseDoughFormulaInput } from "./calculators/dough";
+import {
+  computeFoodCost,
+  foodCostCharts,
+  parseFoodCostInput,
+  withFoodCostCatalog,
+  type FoodCostCatalog,
+  type FoodCostResult,
+} from "./calculators/food-cost";
+import {
+  computeFermentationPlan,
+  fermentationTimelineChart,
+  parseFermentationInput,
+  type FermentationPlan,
+} from "./calculators/fermentation";
+import {
+  computeProductionPlan,
+  parseProductionInput,
+  productionTimelineChart,
+  type ProductionPlan,
+} from "./calculators/production";
+
+// Function tools offered to the /api/tutor model. Quantities in an answer must
+// come from these deterministic calculators, never from the model itself.
+// Schemas are strict: optional values are nullable and every key is required.
+
+const nullableNumber = (description: string) => ({ type: ["number", "null"], description });
+
+export const doughFormulaTool: AITool = {
+  name: "calculer_formule_pate",
+  description:
+    "Calcule une formule de pâte en pourcentages du boulanger : grammes de chaque farine, eau, sel, levure ou levain, huile et sucre pour un nombre de pâtons d’un poids donné, avec une marge de perte. À utiliser pour toute quantité d’ingrédients.",
+  parameters: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      flours: {
+        type: "array",
+        description: "Mélange de farines ; les pourcentages totalisent 100. Une seule farine à 100 si non précisé.",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            name: { type: "string" },
+            percent: { type: "number" },
+          },
+          required: ["name", "percent"],
+        },
+      },
+      hydration: { type: "number", description: "Hydratation totale en % de la farine totale (levain compris)." },
+      salt: { type: "number", description: "Sel en % de la farine." },
+      yeast_type: { type: "string", enum: ["fresh", "dry", "levain", "none"] },
+      yeast_percent: nullableNumber("Levure fraîche ou sèche en % de la farine ; null avec un levain."),
+      levain_percent: nullableNumber("Poids de levain en % de la farine totale ; null sans levain."),
+      levain_hydration: nullableNumber("Hydratation du levain en % ; 100 si non précisé."),
+      oil: nullableNumber("Huile en % de la farine."),
+      sugar: nullableNumber("Sucre en % de la farine."),
+      balls: { type: "integer", description: "Nombre de pâtons." },
+      ball_weight: { type: "number", description: "Poids d’un pâton en grammes." },
+      waste_percent: nullableNumber("Marge de perte en % de la pâte (cuve, pesée)."),
+    },
+    required: [
+      "flours",
+      "hydration",
+      "salt",
+      "yeast_type",
+      "yeast_percent",
+      "levain_percent",
+      "levain_hydration",
+      "oil",
+      "sugar",
+      "balls",
+      "ball_weight",
+      "waste_percent",
+    ],
+  },
+  run(args) {
+    return computeDoughFormula(parseDoughFormulaInput(args));
+  },
+};
+
+export const fermentationPlanTool: AITool = {
+  name: "calculer_temperature_fermentation",
+  description:
+    "Calcule la température de l’eau de coulage par la méthode de la température de base, puis estime les durées de pointage et d’apprêt sur un programme de températures (ambiante, froid, remise en température). À utiliser pour toute température d’eau ou durée de fermentation.",
+  parameters: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      target_dough_temp: nullableNumber("Température de pâte visée en sortie de pétrissage, en °C ; null si la température de base est donnée."),
+      base_temperature: nullableNumber("Température de base en °C si le boulanger l’utilise déjà ; sinon null."),
+      flour_temp: nullableNumber("Température de la farine en °C ; null pour la prendre égale à l’ambiante."),
+      room_temp: { type: "number", description: "Température du fournil en °C." },
+      friction_factor: nullableNumber("Échauffement dû au pétrin en °C ; null s’il n’est pas connu."),
+      levain_temp: nullableNumber("Température du levain en °C ; null sans levain."),
+      yeast_type: { type: "string", enum: ["fresh", "dry", "levain"] },
+      yeast_percent: nullableNumber("Levure fraîche ou sèche en % de la farine ; null avec un levain."),
+      levain_percent: nullableNumber("Levain en % de la farine ; null sans levain."),
+      phases: {
+        type: "array",
+        description:
+          "Programme dans l’ordre. Une seule phase au plus avec hours à null : sa durée est estimée pour terminer la fermentation.",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            label: { type: "string" },
+            kind: { type: "string", enum: ["room", "fridge", "tempering"] },
+            stage: { type: "string", enum: ["bulk", "proof"] },
+            temperature: nullableNumber("Température de la phase en °C ; null pour 4 °C au froid, l’ambiante sinon."),
+            hours: nullableNumber("Durée en heures ; null pour la phase à estimer."),
+          },
+          required: ["label", "kind", "stage", "temperature", "hours"],
+        },
+      },
+    },
+    required: [
+      "target_dough_temp",
+      "base_temperature",
+      "flour_temp",
+      "room_temp",
+      "friction_factor",
+      "levain_temp",
+      "yeast_type",
+      "yeast_percent",
+      "levain_percent",
+      "phases",
+    ],
+  },
+  run(args) {
+    return computeFermentationPlan(parseFermentationInput(args));
+  },
+};
+
+export const productionPlanTool: AITool = {
+  name: "planifier_production",
+  description:
+    "Planifie la production d’un service : nombre de pâtons, fournées selon la capacité du pétrin, horaires de pétrissage, pointage, boulage, froid, remise en température et créneaux du four, à rebours depuis l’heure du service. À utiliser pour tout planning de production ; les horaires de la réponse viennent de ce calcul.",
+  parameters: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      service_time: { type: "string", description: "Heure de début du service, HH:MM." },
+      service_hours: { type: "number", description: "Durée du service en heures." },
+      covers: { type: "integer", description: "Nombre de couverts attendus." },
+      pizzas_per_cover: nullableNumber("Pizzas par couvert ; null pour 1."),
+      spare_percent: nullableNumber("Pâtons de réserve en % ; null pour 10 %."),
+      ball_weight: { type: "number", description: "Poids d’un pâton en grammes." },
+      flours: {
+        type: "array",
+        description: "Mélange de farines ; les pourcentages totalisent 100. Vide pour une seule farine.",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            name: { type: "string" },
+            percent: { type: "number" },
+          },
+          required: ["name", "percent"],
+        },
+      },
+      hydration: { type: "number", description: "Hydratation totale en % de la farine." },
+      salt: { type: "number", description: "Sel en % de la farine." },
+      yeast_type: { type: "string", enum: ["fresh", "dry", "levain", "none"] },
+      yeast_percent: nullableNumber("Levure fraîche ou sèche en % de la farine ; null avec un levain."),
+      levain_percent: nullableNumber("Levain en % de la farine ; null sans levain."),
+      waste_percent: nullableNumber("Marge de perte en % de la pâte."),
+      mixer_capacity_kg: nullableNumber("Pâte maximale par pétrissage en kg ; null pour 25 kg."),
+      kneading_minutes: nullableNumber("Durée d’un pétrissage en minutes ; null pour 20."),
+      bulk_hours: nullableNumber("Pointage à température ambiante en heures ; null pour 2."),
+      balling_seconds: nullableNumber("Secondes de boulage par pâton ; null pour 20."),
+      cold_retard_hours: { type: "number", description: "Froid des pâtons en heures (0 sans froid)." },
+      tempering_hours: { type: "number", description: "Remise en température avant cuisson, en heures." },
+      oven_capacity: { type: "integer", description: "Pizzas cuites en même temps dans le four." },
+      bake_minutes: { type: "number", description: "Durée d’une cuisson en minutes." },
+    },
+    required: [
+      "service_time",
+      "service_hours",
+      "covers",
+      "pizzas_per_cover",
+      "spare_percent",
+      "ball_weight",
+      "flours",
+      "hydration",
+      "salt",
+      "yeast_type",
+      "yeast_percent",
+      "levain_percent",
+      "waste_percent",
+      "mixer_capacity_kg",
+      "kneading_minutes",
+      "bulk_hours",
+      "balling_seconds",
+      "cold_retard_hours",
+      "tempering_hours",
+      "oven_capacity",
+      "bake_minutes",
+    ],
+  },
+  run(args) {
+    return computeProductionPlan(parseProductionInput(args));
+  },
+};
+
+const recipeLines = (description: string) => ({
+  type: "array",
+  description,
+  items: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      ingredient: { type: "string" },
+      quantity: { type: "number", description: "Grammes (ou millilitres), ou nombre de pièces pour un prix à la pièce." },
+    },
+    required: ["ingredient", "quantity"],
+  },
+});
+
+// The user's stored prices and menu items are bound into the tool, so the
+// model can name a pizza instead of copying its recipe.
+export function foodCostTool(catalog: FoodCostCatalog): AITool {
+  const stored = catalog.items.map((item) => item.name).slice(0, 20);
+  return {
+    name: "calculer_cout_pizza",
+    description: `Calcule le coût matière d’une pizza (pâte + garniture), sa marge brute au prix de vente hors TVA et la sensibilité à une variation du prix d’un ingrédient. À utiliser pour toute question de coût, de marge, de prix de vente ou de hausse de prix.${
+      stored.length ? ` Pizzas enregistrées par l’utilisateur : ${stored.join(", ")}.` : " L’utilisateur n’a pas enregistré de carte : fournir recette et prix en hypothèses explicites."
+    }`,
+    parameters: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        menu_item: { type: ["string", "null"], description: "Nom d’une pizza enregistrée ; null pour une recette fournie ici." },
+        sale_price: nullableNumber("Prix de vente TTC en euros ; null pour le prix enregistré."),
+        vat_rate: nullableNumber("TVA en % ; null pour 10 % ou la valeur enregistrée."),
+        ball_weight: nullableNumber("Poids du pâton en grammes ; null pour la valeur enregistrée."),
+        dough: recipeLines("Recette de pâte pour une fournée (ex. farine 1000, eau 650, sel 28) ; vide pour la recette enregistrée."),
+        toppings: recipeLines("Garniture d’une pizza ; vide pour la garniture enregistrée."),
+        prices: {
+          type: "array",
+          description: "Prix à ajouter ou remplacer ; vide pour les prix enregistrés.",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              name: { type: "string" },
+              unit: { type: "string", enum: ["kg", "l", "piece"] },
+              price: { type: "number", description: "Euros HT par kg, litre ou pièce." },
+            },
+            required: ["name", "unit", "price"],
+          },
+        },
+        price_changes: {
+          type: "array",
+          description: "Variations de prix à tester, ex. farine +10 ; vide pour +10 % sur chaque ingrédient.",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              ingredient: { type: "string" },
+              percent: { type: "number" },
+            },
+            required: ["ingredient", "percent"],
+          },
+        },
+      },
+      required: ["menu_item", "sale_price", "vat_rate", "ball_weight", "dough", "toppings", "prices", "price_changes"],
+    },
+    run(args) {
+      return computeFoodCost(parseFoodCostInput(withFoodCostCatalog(args, catalog)));
+    },
+  };
+}
+
+// The dossier's journal is bound into the tool like the food cost catalog; the
+// model filters it instead of receiving every entry in the prompt.
+export function bakeJournalTool(entries: BakeLog[]): AITool {
+  return {
+    name: "consulter_journal_cuisson",
+    description: `Consulte le journal de cuisson du dossier (${entries.length} entrée(s)) : paramètres de pâte, températures, durées, réglages du four, note de 1 à 5 et résultat observé de chaque cuisson saisie par l’utilisateur. Peut tracer la note en fonction d’un paramètre. À utiliser pour relier une correction à ses résultats réels ou dégager une tendance entre essais.`,
+    parameters: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        since: { type: ["string", "null"], description: "Date de début AAAA-MM-JJ ; null pour tout le journal." },
+        min_rating: { type: ["integer", "null"], description: "Note minimale de 1 à 5 ; null sans filtre." },
+        max_rating: { type: ["integer", "null"], description: "Note maximale de 1 à 5 ; null sans filtre." },
+        trend: {
+          type: ["string", "null"],
+          enum: [...BAKE_TREND_PARAMETERS.map((item) => item.key), null],
+          description: "Paramètre à mettre en regard de la note dans un nuage de points ; null sans graphique.",
+        },
+        limit: { type: ["integer", "null"], description: "Nombre maximal d’entrées, les plus récentes d’abord ; null pour 20." },
+      },
+      required: ["since", "min_rating", "max_rating", "trend", "limit"],
+    },
+    run(args) {
+      const filters = (args && typeof args === "object" ? args : {}) as Record<string, unknown>;
+      const since = typeof filters.since === "string" && filters.since ? filters.since.slice(0, 10) : "";
+      const minRating = Number(filters.min_rating) || 1;
+      const maxRating = Number(filters.max_rating) || 5;
+      const limit = Math.min(50, Math.max(1, Number(filters.limit) || 20));
+      const matching = entries.filter(
+        (entry) => entry.baked_at.slice(0, 10) >= since && entry.rating >= minRating && entry.rating <= maxRating
+      );
+      const trend = BAKE_TREND_PARAMETERS.some((item) => item.key === filters.trend)
+        ? bakeTrendChart(matching, filters.trend as BakeTrendParameter)
+        : null;
+      return {
+        count: matching.length,
+        entries: matching.slice(0, limit).map((entry) => ({ id: entry.id, summary: bakeLogLine(entry) })),
+        chart: trend,
+        notes: filters.trend && !trend ? ["Moins de deux cuissons renseignent ce paramètre : pas de tendance tracée."] : [],
+      };
+    },
+  };
+}
+
+export type TutorToolContext = {
+  foodCost?: FoodCostCatalog;
+  bakeLogs?: BakeLog[];
+};
+
+export function tutorTools(context: TutorToolContext = {}): AITool[] {
+  return [
+    doughFormulaTool,
+    fermentationPlanTool,
+    productionPlanTool,
+    foodCostTool(context.foodCost ?? { prices: [], items: [] }),
+    ...(context.bakeLogs?.length ? [bakeJournalTool(context.bakeLogs)] : []),
+  ];
+}
+
+// Charts derived from successful tool calls, in the format of the graph panel.
+// They come from the calculators, so they are shown in every mode.
+export type ToolChart = {
+  type: "bar" | "table" | "timeline" | "scatter";
+  title: string;
+  description: string;
+  data: unknown;
+};
+
+export function toolCharts(toolCalls: AIToolCall[]): ToolChart[] {
+  return toolCalls
+    .filter((call) => !call.error && call.output)
+    .flatMap((call): ToolChart[] => {
+      if (call.name === fermentationPlanTool.name) return [fermentationTimelineChart(call.output as FermentationPlan)];
+      if (call.name === productionPlanTool.name) return [productionTimelineChart(call.output as ProductionPlan)];
+      if (call.name === "calculer_cout_pizza") return foodCostCharts(call.output as FoodCostResult);
+      if (call.name === "consulter_journal_cuisson") {
+        const chart = (call.output as { chart: BakeTrendChart | null }).chart;
+        return chart ? [chart] : [];
+      }
+      return [];
+    });
+}
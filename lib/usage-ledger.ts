@@ -0,0 +1,191 @@
+import { randomUUID } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getAIProvider, modelFor, type AIProvider, type AITask, type AIUsage } from "./ai";
+
+// Usage ledger: every model call made for a request (answer, rewrite, graph,
+// embeddings…) is written to ernesto_usage_ledger with its tokens, latency and
+// estimated cost. Routes use the provider returned by createUsageLedger instead
+// of getAIProvider() and flush the ledger before they respond.
+
+export type UsageOperation = "chat" | "stream" | "structured" | "embed";
+
+export type UsageLedgerRow = {
+  request_id: string;
+  user_id: string | null;
+  project_id: string | null;
+  route: string;
+  task: AITask;
+  operation: UsageOperation;
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  estimated_cost_usd: number | null;
+  error: string | null;
+};
+
+export type UsageTotals = {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+export type UsageLedger = {
+  requestId: string;
+  provider: AIProvider;
+  totals(): UsageTotals;
+  flush(): Promise<void>;
+};
+
+// USD per million tokens, [input, output], from the public OpenAI price list.
+// ERNESTO_MODEL_PRICES overrides or extends it, e.g. {"gpt-4.1-mini":[0.4,1.6]}.
+const DEFAULT_MODEL_PRICES: Record<string, [number, number]> = {
+  "gpt-4.1": [2, 8],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "gpt-4.1-nano": [0.1, 0.4],
+  "gpt-4o": [2.5, 10],
+  "gpt-4o-mini": [0.15, 0.6],
+  "text-embedding-3-small": [0.02, 0],
+  "text-embedding-3-large": [0.13, 0],
+};
+
+function modelPrices(): Record<string, [number, number]> {
+  const raw = process.env.ERNESTO_MODEL_PRICES;
+  if (!raw) return DEFAULT_MODEL_PRICES;
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const overrides = Object.entries(parsed).filter(
+      (entry): entry is [string, [number, number]] =>
+        Array.isArray(entry[1]) && entry[1].length === 2 && entry[1].every((value) => typeof value === "number" && value >= 0)
+    );
+    return { ...DEFAULT_MODEL_PRICES, ...Object.fromEntries(overrides) };
+  } catch {
+    console.warn("v14.6 usage ledger: ERNESTO_MODEL_PRICES ignored (invalid JSON)");
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+// Dated snapshots ("gpt-4.1-mini-2025-04-14") use the price of the longest
+// matching name. Local calls cost nothing; unknown models stay unpriced.
+export function estimateCost(model: string, usage: AIUsage): number | null {
+  if (model.startsWith("local:")) return 0;
+  const prices = modelPrices();
+  const name = Object.keys(prices)
+    .filter((key) => model === key || model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!name) return null;
+  const [input, output] = prices[name];
+  return Number(((usage.inputTokens * input + usage.outputTokens * output) / 1_000_000).toFixed(6));
+}
+
+export function createUsageLedger(
+  supabase: SupabaseClient,
+  context: { route: string; userId: string | null; projectId?: string | null },
+  base: AIProvider = getAIProvider()
+): UsageLedger {
+  const requestId = randomUUID();
+  const rows: UsageLedgerRow[] = [];
+  const writes: Promise<void>[] = [];
+
+  function record(
+    task: AITask,
+    operation: UsageOperation,
+    started: number,
+    result: { model: string; provider: string; usage: AIUsage } | null,
+    error: unknown
+  ) {
+    const usage = result?.usage ?? { inputTokens: 0, outputTokens: 0 };
+    const model = result?.model ?? modelFor(task);
+    const row: UsageLedgerRow = {
+      request_id: requestId,
+      user_id: context.userId,
+      project_id: context.projectId || null,
+      route: context.route,
+      task,
+      operation,
+      provider: result?.provider ?? base.name,
+      model,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      latency_ms: Date.now() - started,
+      estimated_cost_usd: estimateCost(model, usage),
+      error: error ? (error instanceof Error ? error.message : String(error)).slice(0, 300) : null,
+    };
+    rows.push(row);
+    // A failed write is logged and never fails the request.
+    writes.push(
+      Promise.resolve(supabase.from("ernesto_usage_ledger").insert(row)).then(
+        ({ error: insertError }) => {
+          if (insertError) console.warn("v14.6 usage ledger:", insertError.message);
+        },
+        (insertError: unknown) => console.warn("v14.6 usage ledger:", insertError)
+      )
+    );
+  }
+
+  async function metered<T extends { model: string; provider: string; usage: AIUsage }>(
+    task: AITask,
+    operation: UsageOperation,
+    call: () => Promise<T>
+  ) {
+    const started = Date.now();
+    try {
+      const result = await call();
+      record(task, operation, started, result, null);
+      return result;
+    } catch (error) {
+      record(task, operation, started, null, error);
+      throw error;
+    }
+  }
+
+  const provider: AIProvider = {
+    name: base.name,
+    chat: (request) => metered(request.task, "chat", () => base.chat(request)),
+    chatStream: (request, onDelta) => metered(request.task, "stream", () => base.chatStream(request, onDelta)),
+    structured: (request) => metered(request.task, "structured", () => base.structured(request)),
+    embed: (input, task = "embedding") => metered(task, "embed", () => base.embed(input, task)),
+  };
+
+  return {
+    requestId,
+    provider,
+    totals: () =>
+      rows.reduce(
+        (total, row) => ({
+          calls: total.calls + 1,
+          inputTokens: total.inputTokens + row.input_tokens,
+          outputTokens: total.outputTokens + row.output_tokens,
+          costUsd: total.costUsd + (row.estimated_cost_usd ?? 0),
+        }),
+        { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+      ),
+    async flush() {
+      await Promise.all(writes.splice(0));
+    },
+  };
+}
+
+// Today's totals (UTC) for one user, per route and overall, read from the
+// daily view.
+export async function dailyUsage(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("ernesto_usage_daily")
+    .select("route,requests,calls,cost_usd")
+    .eq("user_id", userId)
+    .eq("day", new Date().toISOString().slice(0, 10));
+  if (error) {
+    console.warn("v14.6 usage ledger daily:", error.message);
+    return null;
+  }
+  const routes: Record<string, { requests: number; calls: number; costUsd: number }> = {};
+  let costUsd = 0;
+  for (const row of data || []) {
+    const route = { requests: Number(row.requests || 0), calls: Number(row.calls || 0), costUsd: Number(row.cost_usd || 0) };
+    routes[row.route] = route;
+    costUsd += route.costUsd;
+  }
+  return { routes, costUsd };
+}
@@ -0,0 +1,191 @@
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import fs from "node:fs";
+import path from "node:path";
+import { createClient } from "@supabase/supabase-js";
+import { createAIProvider, type AIProviderName } from "../lib/ai";
+import { customPromptSet, defaultPromptSet, isPromptName, type PromptName } from "../lib/prompts";
+import { supabaseChunkSearch } from "../lib/retrieval";
+import {
+  compareRuns,
+  createLocalChunkSearch,
+  createTutorPipeline,
+  formatComparison,
+  formatRunSummary,
+  parseDataset,
+  runEval,
+  type EvalCase,
+  type EvalDocument,
+  type EvalRun,
+} from "../lib/eval";
+
+// Offline evaluation of the tutor answers.
+//
+//   run      --dataset eval/datasets/reference.json --model local|openai
+//            --knowledge local|supabase --prompt tutor.system=fichier.txt
+//            --only id1,id2 --label nom --out eval/runs/x.json
+//   compare  base.json candidat.json [--out rapport.md]
+//   seed     --dataset eval/datasets/reference.json --limit 50
+
+const DEFAULT_DATASET = "eval/datasets/reference.json";
+const DEFAULT_KNOWLEDGE = "eval/fixtures/knowledge.json";
+
+function parseArgs(argv: string[]) {
+  const positional: string[] = [];
+  const options: Record<string, string[]> = {};
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg.startsWith("--")) {
+      const key = arg.slice(2);
+      const value = argv[index + 1] && !argv[index + 1].startsWith("--") ? argv[++index] : "true";
+      (options[key] ||= []).push(value);
+    } else {
+      positional.push(arg);
+    }
+  }
+  const option = (key: string, fallback = "") => options[key]?.[options[key].length - 1] ?? fallback;
+  return { positional, options, option };
+}
+
+function readJson(file: string): unknown {
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+function writeFile(file: string, content: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+function serviceSupabase() {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error("Missing env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY");
+  return createClient(url, key);
+}
+
+// --prompt tutor.system=candidate.txt, repeatable; the variant names the files.
+function promptOverrides(values: string[]) {
+  const bodies: Partial<Record<PromptName, string>> = {};
+  const parts: string[] = [];
+  for (const value of values) {
+    const [name, file] = value.split("=");
+    if (!isPromptName(name) || !file) throw new Error(`--prompt invalide : ${value} (attendu nom=fichier)`);
+    bodies[name] = fs.readFileSync(file, "utf8");
+    parts.push(`${name}@${path.basename(file)}`);
+  }
+  return parts.length ? customPromptSet(bodies, parts.sort().join("+")) : defaultPromptSet();
+}
+
+async function run(args: ReturnType<typeof parseArgs>) {
+  const dataset = parseDataset(readJson(args.option("dataset", DEFAULT_DATASET)));
+  const modelProvider: AIProviderName = args.option("model", "local") === "openai" ? "openai" : "local";
+  if (modelProvider === "openai" && !process.env.OPENAI_API_KEY) throw new Error("Missing OPENAI_API_KEY");
+  const knowledge = args.option("knowledge", "local") === "supabase" ? "supabase" : "local";
+  const ai = createAIProvider(modelProvider);
+  const search =
+    knowledge === "supabase"
+      ? supabaseChunkSearch(serviceSupabase())
+      : await createLocalChunkSearch(readJson(args.option("fixtures", DEFAULT_KNOWLEDGE)) as EvalDocument[], ai);
+  const prompts = promptOverrides(args.options.prompt ?? []);
+  const only = args.option("only").split(",").map((id) => id.trim()).filter(Boolean);
+
+  const result = await runEval({
+    dataset,
+    pipeline: createTutorPipeline({ ai, search, prompts }),
+    config: {
+      model_provider: modelProvider,
+      knowledge,
+      prompt_variant: prompts.variant,
+      ...(args.option("label") ? { label: args.option("label") } : {}),
+    },
+    only,
+    onCase: (item, index, total) => {
+      const status = item.error ? `erreur : ${item.error}` : item.score?.passed ? "réussi" : "échoué";
+      console.log(`[${index + 1}/${total}] ${item.id} — ${status}`);
+    },
+  });
+
+  const out = args.option("out", `eval/runs/${result.started_at.replace(/[:.]/g, "-")}.json`);
+  writeFile(out, JSON.stringify(result, null, 2) + "\n");
+  console.log(`\n${formatRunSummary(result)}\n\n✅ Run enregistré : ${out}`);
+}
+
+function compare(args: ReturnType<typeof parseArgs>) {
+  const [baseFile, candidateFile] = args.positional;
+  if (!baseFile || !candidateFile) throw new Error("Usage : compare base.json candidat.json [--out rapport.md]");
+  const report = formatComparison(compareRuns(readJson(baseFile) as EvalRun, readJson(candidateFile) as EvalRun));
+  const out = args.option("out");
+  if (out) {
+    writeFile(out, report);
+    console.log(`✅ Rapport enregistré : ${out}`);
+  } else {
+    console.log(report);
+  }
+}
+
+// Negatively rated questions become draft cases; they join runs once someone
+// has written their key points and removed `draft`.
+async function seed(args: ReturnType<typeof parseArgs>) {
+  const file = args.option("dataset", DEFAULT_DATASET);
+  const dataset = parseDataset(readJson(file));
+  const limit = Math.max(1, Math.min(500, Number(args.option("limit", "50")) || 50));
+  const { data, error } = await serviceSupabase()
+    .from("ernesto_answer_feedback")
+    .select("id,question,mode,reason,created_at")
+    .eq("rating", -1)
+    .not("question", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+
+  const known = new Set(dataset.cases.map((item) => item.question.trim().toLowerCase()));
+  const origins = new Set(dataset.cases.map((item) => item.origin).filter(Boolean));
+  const added: EvalCase[] = [];
+  for (const row of data ?? []) {
+    const question = String(row.question || "").trim();
+    const origin = `feedback:${row.id}`;
+    if (!question || origins.has(origin) || known.has(question.toLowerCase())) continue;
+    known.add(question.toLowerCase());
+    added.push({
+      id: `feedback-${row.id}`,
+      source: "feedback",
+      category: row.reason ? `retour:${row.reason}` : "retour",
+      question,
+      mode: row.mode === "ANALYSE" ? "ANALYSE" : "ACTION",
+      key_points: [],
+      forbidden: [],
+      expected_passages: [],
+      draft: true,
+      origin,
+    });
+  }
+
+  if (!added.length) {
+    console.log("Aucune nouvelle question mal notée.");
+    return;
+  }
+  const next = {
+    ...dataset,
+    version: dataset.version + 1,
+    updated_at: new Date().toISOString().slice(0, 10),
+    cases: [...dataset.cases, ...added],
+  };
+  writeFile(file, JSON.stringify(next, null, 2) + "\n");
+  console.log(`✅ ${added.length} cas brouillons ajoutés, ${next.name} v${next.version}`);
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const args = parseArgs(rest);
+  if (command === "run") return run(args);
+  if (command === "compare") return compare(args);
+  if (command === "seed") return seed(args);
+  console.error("Usage : eval.ts run | compare | seed (voir docs/ERNESTO_V14_6.md)");
+  process.exit(1);
+}
+
+main().catch((e) => {
+  console.error("❌ Eval failed:", e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -5,19 +5,20 @@ import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
 import { execFileSync } from "node:child_process";
-import OpenAI from "openai";
 import { createClient } from "@supabase/supabase-js";
+import { aiConfigurationError, getAIProvider } from "../lib/ai";
 
 const SUPABASE_URL = process.env.SUPABASE_URL!;
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY!;
 
-if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !OPENAI_API_KEY) {
-  throw new Error("Missing env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, OPENAI_API_KEY");
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  throw new Error("Missing env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY");
 }
+const aiConfigError = aiConfigurationError();
+if (aiConfigError) throw new Error(aiConfigError);
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+const ai = getAIProvider();
 
 type ChunkRow = {
   document_id: number;
@@ -48,11 +49,8 @@ function pdfToTextFile(pdfPath: string) {
 }
 
 async function embed(text: string) {
-  const r = await openai.embeddings.create({
-    model: "text-embedding-3-small",
-    input: text,
-  });
-  return r.data[0].embedding;
+  const r = await ai.embed([text]);
+  return r.embeddings[0];
 }
 
 // Inserimento batch per non fare 1000 insert singoli
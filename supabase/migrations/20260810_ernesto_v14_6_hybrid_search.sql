@@ -0,0 +1,38 @@
+-- Ernesto v14.6 — French full-text search alongside pgvector retrieval
+
+alter table public.document_chunks
+  add column if not exists content_fts tsvector
+  generated always as (to_tsvector('french', coalesce(content, ''))) stored;
+
+create index if not exists document_chunks_content_fts_idx
+  on public.document_chunks using gin (content_fts);
+
+-- Terms are OR-ed: a question rarely repeats every word of the passage that
+-- answers it, and the application reranks the candidates afterwards.
+create or replace function public.match_chunks_fts(query_text text, match_count integer)
+returns table (
+  document_id bigint,
+  chunk_index integer,
+  content text,
+  rank real
+)
+language sql
+stable
+set search_path = pg_catalog, public
+as $$
+  with query as (
+    select nullif(replace(plainto_tsquery('french', query_text)::text, '&', '|'), '')::tsquery as q
+  )
+  select
+    c.document_id,
+    c.chunk_index,
+    c.content,
+    ts_rank_cd(c.content_fts, query.q) as rank
+  from public.document_chunks c, query
+  where query.q is not null
+    and c.content_fts @@ query.q
+  order by rank desc
+  limit greatest(1, least(match_count, 50));
+$$;
+
+grant execute on function public.match_chunks_fts(text, integer) to authenticated, service_role;
@@ -0,0 +1,30 @@
+-- Ernesto v14.6 — internal citation map per answer, reviewed by EPPPN admins only
+
+create table if not exists public.ernesto_answer_citations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  project_id text,
+  mode text check (mode in ('ACTION', 'ANALYSE')),
+  question text not null,
+  answer_excerpt text not null,
+  passages jsonb not null default '[]'::jsonb,
+  sections jsonb not null default '[]'::jsonb,
+  unsupported_figures integer not null default 0 check (unsupported_figures >= 0),
+  model text,
+  created_at timestamptz not null default now(),
+  check (jsonb_typeof(passages) = 'array'),
+  check (jsonb_typeof(sections) = 'array')
+);
+
+create index if not exists ernesto_answer_citations_created_idx
+  on public.ernesto_answer_citations (created_at desc);
+
+create index if not exists ernesto_answer_citations_user_id_idx
+  on public.ernesto_answer_citations (user_id);
+
+-- No policy for authenticated users: citations are written by /api/tutor and
+-- read by /api/admin/citations, both with the service role.
+alter table public.ernesto_answer_citations enable row level security;
+
+revoke all on public.ernesto_answer_citations from anon, authenticated;
+grant all on public.ernesto_answer_citations to service_role;
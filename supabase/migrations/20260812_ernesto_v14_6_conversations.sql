@@ -0,0 +1,90 @@
+-- Ernesto v14.6 — server-side conversation log, written by /api/tutor
+
+create table if not exists public.ernesto_conversations (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  project_id text not null,
+  title text not null default 'Dossier général',
+  objective text not null default '',
+  color text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, project_id)
+);
+
+create index if not exists ernesto_conversations_user_updated_idx
+  on public.ernesto_conversations (user_id, updated_at desc);
+
+create table if not exists public.ernesto_messages (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null,
+  project_id text not null,
+  client_message_id text not null,
+  role text not null check (role in ('user', 'ernesto')),
+  text text not null,
+  mode text check (mode is null or mode in ('ACTION', 'ANALYSE')),
+  presentation text check (presentation is null or presentation in ('text', 'flowchart')),
+  flowchart jsonb,
+  graph jsonb,
+  rag jsonb,
+  images jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  foreign key (user_id, project_id)
+    references public.ernesto_conversations (user_id, project_id) on delete cascade,
+  unique (user_id, project_id, client_message_id),
+  check (jsonb_typeof(images) = 'array')
+);
+
+create index if not exists ernesto_messages_conversation_created_idx
+  on public.ernesto_messages (user_id, project_id, created_at, id);
+
+alter table public.ernesto_conversations enable row level security;
+alter table public.ernesto_messages enable row level security;
+
+drop policy if exists "conversations select own" on public.ernesto_conversations;
+create policy "conversations select own"
+  on public.ernesto_conversations for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "conversations insert own" on public.ernesto_conversations;
+create policy "conversations insert own"
+  on public.ernesto_conversations for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "conversations update own" on public.ernesto_conversations;
+create policy "conversations update own"
+  on public.ernesto_conversations for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "conversations delete own" on public.ernesto_conversations;
+create policy "conversations delete own"
+  on public.ernesto_conversations for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "messages select own" on public.ernesto_messages;
+create policy "messages select own"
+  on public.ernesto_messages for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "messages insert own" on public.ernesto_messages;
+create policy "messages insert own"
+  on public.ernesto_messages for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "messages delete own" on public.ernesto_messages;
+create policy "messages delete own"
+  on public.ernesto_messages for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select, insert, update, delete on public.ernesto_conversations to authenticated;
+grant select, insert, delete on public.ernesto_messages to authenticated;
+grant all on public.ernesto_conversations to service_role;
+grant all on public.ernesto_messages to service_role;
+grant usage, select on sequence public.ernesto_messages_id_seq to authenticated, service_role;
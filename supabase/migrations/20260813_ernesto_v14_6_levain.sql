@@ -0,0 +1,96 @@
+-- Ernesto v14.6 — levain starters, feeding log and refresh schedule
+
+create table if not exists public.ernesto_levain_starters (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null default 'Mon levain',
+  hydration numeric not null default 100 check (hydration between 40 and 200),
+  flour text not null default '',
+  storage_temp numeric not null default 4 check (storage_temp between -2 and 35),
+  notes text not null default '',
+  schedule jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (schedule is null or jsonb_typeof(schedule) = 'object')
+);
+
+create index if not exists ernesto_levain_starters_user_updated_idx
+  on public.ernesto_levain_starters (user_id, updated_at desc);
+
+-- Feedings and observations share one log so the tutor reads a single timeline.
+create table if not exists public.ernesto_levain_logs (
+  id bigint generated by default as identity primary key,
+  starter_id bigint not null references public.ernesto_levain_starters(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  kind text not null check (kind in ('feeding', 'observation')),
+  logged_at timestamptz not null default now(),
+  seed_g numeric check (seed_g is null or seed_g > 0),
+  flour_g numeric check (flour_g is null or flour_g > 0),
+  water_g numeric check (water_g is null or water_g >= 0),
+  temperature numeric check (temperature is null or temperature between -2 and 40),
+  rise_percent numeric check (rise_percent is null or rise_percent between 0 and 500),
+  hours_to_peak numeric check (hours_to_peak is null or hours_to_peak between 0 and 72),
+  smell text not null default '',
+  acidity text check (acidity is null or acidity in ('faible', 'moyenne', 'forte')),
+  note text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ernesto_levain_logs_starter_logged_idx
+  on public.ernesto_levain_logs (starter_id, logged_at desc);
+
+create index if not exists ernesto_levain_logs_user_logged_idx
+  on public.ernesto_levain_logs (user_id, logged_at desc);
+
+alter table public.ernesto_levain_starters enable row level security;
+alter table public.ernesto_levain_logs enable row level security;
+
+drop policy if exists "levain starters select own" on public.ernesto_levain_starters;
+create policy "levain starters select own"
+  on public.ernesto_levain_starters for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "levain starters insert own" on public.ernesto_levain_starters;
+create policy "levain starters insert own"
+  on public.ernesto_levain_starters for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "levain starters update own" on public.ernesto_levain_starters;
+create policy "levain starters update own"
+  on public.ernesto_levain_starters for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "levain starters delete own" on public.ernesto_levain_starters;
+create policy "levain starters delete own"
+  on public.ernesto_levain_starters for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "levain logs select own" on public.ernesto_levain_logs;
+create policy "levain logs select own"
+  on public.ernesto_levain_logs for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "levain logs insert own" on public.ernesto_levain_logs;
+create policy "levain logs insert own"
+  on public.ernesto_levain_logs for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "levain logs delete own" on public.ernesto_levain_logs;
+create policy "levain logs delete own"
+  on public.ernesto_levain_logs for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select, insert, update, delete on public.ernesto_levain_starters to authenticated;
+grant select, insert, delete on public.ernesto_levain_logs to authenticated;
+grant all on public.ernesto_levain_starters to service_role;
+grant all on public.ernesto_levain_logs to service_role;
+grant usage, select on sequence public.ernesto_levain_starters_id_seq to authenticated, service_role;
+grant usage, select on sequence public.ernesto_levain_logs_id_seq to authenticated, service_role;
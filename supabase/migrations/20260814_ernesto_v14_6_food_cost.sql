@@ -0,0 +1,88 @@
+-- Ernesto v14.6 — ingredient prices and menu items for food costing
+
+create table if not exists public.ernesto_ingredient_prices (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  unit text not null default 'kg' check (unit in ('kg', 'l', 'piece')),
+  price numeric not null check (price >= 0),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, name)
+);
+
+-- Dough and toppings are [{ "ingredient": "...", "quantity": 0 }] lists: grams
+-- (or millilitres) for kg and l prices, a count for piece prices. The dough
+-- list is a batch; its cost is spread per gram over the ball weight.
+create table if not exists public.ernesto_menu_items (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  sale_price numeric not null check (sale_price > 0),
+  vat_rate numeric not null default 10 check (vat_rate between 0 and 30),
+  ball_weight numeric not null check (ball_weight > 0),
+  dough jsonb not null default '[]'::jsonb,
+  toppings jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name),
+  check (jsonb_typeof(dough) = 'array'),
+  check (jsonb_typeof(toppings) = 'array')
+);
+
+alter table public.ernesto_ingredient_prices enable row level security;
+alter table public.ernesto_menu_items enable row level security;
+
+drop policy if exists "ingredient prices select own" on public.ernesto_ingredient_prices;
+create policy "ingredient prices select own"
+  on public.ernesto_ingredient_prices for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "ingredient prices insert own" on public.ernesto_ingredient_prices;
+create policy "ingredient prices insert own"
+  on public.ernesto_ingredient_prices for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "ingredient prices update own" on public.ernesto_ingredient_prices;
+create policy "ingredient prices update own"
+  on public.ernesto_ingredient_prices for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "ingredient prices delete own" on public.ernesto_ingredient_prices;
+create policy "ingredient prices delete own"
+  on public.ernesto_ingredient_prices for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "menu items select own" on public.ernesto_menu_items;
+create policy "menu items select own"
+  on public.ernesto_menu_items for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "menu items insert own" on public.ernesto_menu_items;
+create policy "menu items insert own"
+  on public.ernesto_menu_items for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "menu items update own" on public.ernesto_menu_items;
+create policy "menu items update own"
+  on public.ernesto_menu_items for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "menu items delete own" on public.ernesto_menu_items;
+create policy "menu items delete own"
+  on public.ernesto_menu_items for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select, insert, update, delete on public.ernesto_ingredient_prices to authenticated;
+grant select, insert, update, delete on public.ernesto_menu_items to authenticated;
+grant all on public.ernesto_ingredient_prices to service_role;
+grant all on public.ernesto_menu_items to service_role;
+grant usage, select on sequence public.ernesto_menu_items_id_seq to authenticated, service_role;
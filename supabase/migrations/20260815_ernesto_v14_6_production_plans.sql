@@ -0,0 +1,50 @@
+-- Ernesto v14.6 — saved production plans for a service
+
+-- `input` is what the planner was given, `plan` what it returned, including
+-- the steps as the user edited them afterwards.
+create table if not exists public.ernesto_production_plans (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text not null,
+  service_date date,
+  input jsonb not null,
+  plan jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (jsonb_typeof(input) = 'object'),
+  check (jsonb_typeof(plan) = 'object')
+);
+
+create index if not exists ernesto_production_plans_user_idx
+  on public.ernesto_production_plans (user_id, updated_at desc);
+
+alter table public.ernesto_production_plans enable row level security;
+
+drop policy if exists "production plans select own" on public.ernesto_production_plans;
+create policy "production plans select own"
+  on public.ernesto_production_plans for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "production plans insert own" on public.ernesto_production_plans;
+create policy "production plans insert own"
+  on public.ernesto_production_plans for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "production plans update own" on public.ernesto_production_plans;
+create policy "production plans update own"
+  on public.ernesto_production_plans for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "production plans delete own" on public.ernesto_production_plans;
+create policy "production plans delete own"
+  on public.ernesto_production_plans for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select, insert, update, delete on public.ernesto_production_plans to authenticated;
+grant all on public.ernesto_production_plans to service_role;
+grant usage, select on sequence public.ernesto_production_plans_id_seq to authenticated, service_role;
@@ -0,0 +1,22 @@
+-- Ernesto v14.6 — per-node progress for branching action plans
+
+-- `path` is the list of { node, status } answers given, loops included;
+-- `node_statuses` keeps the latest status of each node and `current_node`
+-- where the user stands. `statuses` stays for the v14.5 linear plans.
+alter table public.ernesto_action_plan_progress
+  add column if not exists current_node text,
+  add column if not exists path jsonb not null default '[]'::jsonb,
+  add column if not exists node_statuses jsonb not null default '{}'::jsonb;
+
+-- A decision tree has up to 14 nodes, and a loop can be answered "no" many times.
+alter table public.ernesto_action_plan_progress
+  drop constraint if exists ernesto_action_plan_progress_step_count_check,
+  drop constraint if exists ernesto_action_plan_progress_completed_count_check,
+  drop constraint if exists ernesto_action_plan_progress_retry_count_check;
+
+alter table public.ernesto_action_plan_progress
+  add constraint ernesto_action_plan_progress_step_count_check check (step_count between 0 and 40),
+  add constraint ernesto_action_plan_progress_completed_count_check check (completed_count between 0 and 40),
+  add constraint ernesto_action_plan_progress_retry_count_check check (retry_count >= 0),
+  add constraint ernesto_action_plan_progress_path_check check (jsonb_typeof(path) = 'array'),
+  add constraint ernesto_action_plan_progress_node_statuses_check check (jsonb_typeof(node_statuses) = 'object');
@@ -0,0 +1,16 @@
+-- Ernesto v14.6 — plans revised during a guided run
+
+-- `plan` is the current plan once Ernesto has rewritten a branch (null while
+-- the plan of the message still applies); `revisions` lists each rewrite with
+-- the control answered "no", the observation and the plan it replaced.
+alter table public.ernesto_action_plan_progress
+  add column if not exists plan jsonb,
+  add column if not exists revisions jsonb not null default '[]'::jsonb;
+
+alter table public.ernesto_action_plan_progress
+  drop constraint if exists ernesto_action_plan_progress_plan_check,
+  drop constraint if exists ernesto_action_plan_progress_revisions_check;
+
+alter table public.ernesto_action_plan_progress
+  add constraint ernesto_action_plan_progress_plan_check check (plan is null or jsonb_typeof(plan) = 'object'),
+  add constraint ernesto_action_plan_progress_revisions_check check (jsonb_typeof(revisions) = 'array');
@@ -0,0 +1,61 @@
+-- Ernesto v14.6 — bake journal linked to dossiers
+
+create table if not exists public.ernesto_bake_logs (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  project_id text not null,
+  baked_at timestamptz not null default now(),
+  label text not null default '',
+  flour text not null default '',
+  hydration numeric check (hydration is null or hydration between 40 and 120),
+  salt numeric check (salt is null or salt between 0 and 6),
+  yeast_type text check (yeast_type is null or yeast_type in ('fresh', 'dry', 'levain', 'none')),
+  yeast_percent numeric check (yeast_percent is null or yeast_percent between 0 and 40),
+  ball_weight numeric check (ball_weight is null or ball_weight between 50 and 3000),
+  room_temp numeric check (room_temp is null or room_temp between -5 and 45),
+  dough_temp numeric check (dough_temp is null or dough_temp between 0 and 40),
+  bulk_hours numeric check (bulk_hours is null or bulk_hours between 0 and 96),
+  cold_hours numeric check (cold_hours is null or cold_hours between 0 and 168),
+  proof_hours numeric check (proof_hours is null or proof_hours between 0 and 96),
+  oven_type text not null default '',
+  oven_temp numeric check (oven_temp is null or oven_temp between 100 and 550),
+  bake_seconds numeric check (bake_seconds is null or bake_seconds between 20 and 7200),
+  rating smallint not null check (rating between 1 and 5),
+  outcome text not null default '',
+  note text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ernesto_bake_logs_user_project_baked_idx
+  on public.ernesto_bake_logs (user_id, project_id, baked_at desc);
+
+alter table public.ernesto_bake_logs enable row level security;
+
+drop policy if exists "bake logs select own" on public.ernesto_bake_logs;
+create policy "bake logs select own"
+  on public.ernesto_bake_logs for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "bake logs insert own" on public.ernesto_bake_logs;
+create policy "bake logs insert own"
+  on public.ernesto_bake_logs for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "bake logs update own" on public.ernesto_bake_logs;
+create policy "bake logs update own"
+  on public.ernesto_bake_logs for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "bake logs delete own" on public.ernesto_bake_logs;
+create policy "bake logs delete own"
+  on public.ernesto_bake_logs for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select, insert, update, delete on public.ernesto_bake_logs to authenticated;
+grant all on public.ernesto_bake_logs to service_role;
+grant usage, select on sequence public.ernesto_bake_logs_id_seq to authenticated, service_role;
@@ -0,0 +1,61 @@
+-- Ernesto v14.6 — photo archive per user and dossier
+
+create table if not exists public.ernesto_photos (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  project_id text not null,
+  -- Where the files live: the ernesto-photos bucket or ERNESTO_PHOTO_DIR.
+  backend text not null default 'supabase' check (backend in ('supabase', 'local')),
+  path text not null,
+  thumb_path text not null,
+  width integer not null check (width > 0),
+  height integer not null check (height > 0),
+  bytes integer not null check (bytes > 0),
+  source text not null default 'upload' check (source in ('tutor', 'journal', 'upload')),
+  label text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ernesto_photos_user_project_created_idx
+  on public.ernesto_photos (user_id, project_id, created_at desc);
+
+alter table public.ernesto_photos enable row level security;
+
+drop policy if exists "photos select own" on public.ernesto_photos;
+create policy "photos select own"
+  on public.ernesto_photos for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "photos insert own" on public.ernesto_photos;
+create policy "photos insert own"
+  on public.ernesto_photos for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "photos update own" on public.ernesto_photos;
+create policy "photos update own"
+  on public.ernesto_photos for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "photos delete own" on public.ernesto_photos;
+create policy "photos delete own"
+  on public.ernesto_photos for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select, insert, update, delete on public.ernesto_photos to authenticated;
+grant all on public.ernesto_photos to service_role;
+grant usage, select on sequence public.ernesto_photos_id_seq to authenticated, service_role;
+
+-- Archived files are re-encoded JPEG (full size and thumbnail).
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('ernesto-photos', 'ernesto-photos', false, 2097152, array['image/jpeg'])
+on conflict (id) do nothing;
+
+-- Journal photos are archived; a bake points at its before and after photos.
+alter table public.ernesto_bake_logs
+  add column if not exists photo_before_id bigint references public.ernesto_photos(id) on delete set null,
+  add column if not exists photo_after_id bigint references public.ernesto_photos(id) on delete set null;
@@ -0,0 +1,48 @@
+-- Ernesto v14.6 — structured photo diagnoses per dossier
+
+create table if not exists public.ernesto_photo_diagnoses (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  project_id text not null,
+  photo_id bigint references public.ernesto_photos(id) on delete set null,
+  -- client_message_id of the answer the diagnosis was shown with.
+  message_id text,
+  diagnosis jsonb not null check (jsonb_typeof(diagnosis) = 'object'),
+  comparison jsonb check (comparison is null or jsonb_typeof(comparison) = 'object'),
+  model text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ernesto_photo_diagnoses_user_project_created_idx
+  on public.ernesto_photo_diagnoses (user_id, project_id, created_at desc);
+
+create index if not exists ernesto_photo_diagnoses_photo_idx
+  on public.ernesto_photo_diagnoses (photo_id);
+
+alter table public.ernesto_photo_diagnoses enable row level security;
+
+drop policy if exists "photo diagnoses select own" on public.ernesto_photo_diagnoses;
+create policy "photo diagnoses select own"
+  on public.ernesto_photo_diagnoses for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "photo diagnoses insert own" on public.ernesto_photo_diagnoses;
+create policy "photo diagnoses insert own"
+  on public.ernesto_photo_diagnoses for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "photo diagnoses delete own" on public.ernesto_photo_diagnoses;
+create policy "photo diagnoses delete own"
+  on public.ernesto_photo_diagnoses for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select, insert, delete on public.ernesto_photo_diagnoses to authenticated;
+grant all on public.ernesto_photo_diagnoses to service_role;
+grant usage, select on sequence public.ernesto_photo_diagnoses_id_seq to authenticated, service_role;
+
+-- The diagnosis panel is restored with the answer it belongs to.
+alter table public.ernesto_messages
+  add column if not exists diagnosis jsonb;
@@ -0,0 +1,62 @@
+-- Ernesto v14.6 — usage ledger: one row per model call
+
+create table if not exists public.ernesto_usage_ledger (
+  id bigint generated by default as identity primary key,
+  -- Shared by every call made while serving one HTTP request.
+  request_id uuid not null,
+  user_id uuid references auth.users(id) on delete cascade,
+  project_id text,
+  route text not null,
+  task text not null,
+  operation text not null check (operation in ('chat', 'stream', 'structured', 'embed')),
+  provider text not null,
+  model text not null,
+  input_tokens integer not null default 0 check (input_tokens >= 0),
+  output_tokens integer not null default 0 check (output_tokens >= 0),
+  latency_ms integer not null default 0 check (latency_ms >= 0),
+  -- Null when the model has no known price.
+  estimated_cost_usd numeric(12, 6),
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ernesto_usage_ledger_user_created_idx
+  on public.ernesto_usage_ledger (user_id, created_at desc);
+
+create index if not exists ernesto_usage_ledger_created_idx
+  on public.ernesto_usage_ledger (created_at desc);
+
+create index if not exists ernesto_usage_ledger_request_idx
+  on public.ernesto_usage_ledger (request_id);
+
+alter table public.ernesto_usage_ledger enable row level security;
+
+drop policy if exists "usage ledger select own" on public.ernesto_usage_ledger;
+create policy "usage ledger select own"
+  on public.ernesto_usage_ledger for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select on public.ernesto_usage_ledger to authenticated;
+grant all on public.ernesto_usage_ledger to service_role;
+grant usage, select on sequence public.ernesto_usage_ledger_id_seq to service_role;
+
+-- Totals per user, UTC day and route, read by /api/tutor (today's usage) and
+-- /api/admin/stats (last 30 days).
+create or replace view public.ernesto_usage_daily
+  with (security_invoker = true) as
+select
+  user_id,
+  (created_at at time zone 'utc')::date as day,
+  route,
+  count(distinct request_id) as requests,
+  count(*) as calls,
+  coalesce(sum(input_tokens), 0) as input_tokens,
+  coalesce(sum(output_tokens), 0) as output_tokens,
+  coalesce(sum(estimated_cost_usd), 0) as cost_usd,
+  round(avg(latency_ms)) as avg_latency_ms,
+  count(*) filter (where error is not null) as errors
+from public.ernesto_usage_ledger
+group by user_id, (created_at at time zone 'utc')::date, route;
+
+grant select on public.ernesto_usage_daily to authenticated, service_role;
@@ -0,0 +1,93 @@
+-- Ernesto v14.6 — fair-use quota counters of /api/tutor
+
+create table if not exists public.ernesto_quota_counters (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  counter text not null check (counter in ('minute', 'day', 'images', 'graphs')),
+  -- Start of the minute or of the UTC day the counter covers.
+  window_start timestamptz not null,
+  used integer not null default 0 check (used >= 0),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, counter, window_start)
+);
+
+create index if not exists ernesto_quota_counters_window_idx
+  on public.ernesto_quota_counters (window_start);
+
+alter table public.ernesto_quota_counters enable row level security;
+
+drop policy if exists "quota counters select own" on public.ernesto_quota_counters;
+create policy "quota counters select own"
+  on public.ernesto_quota_counters for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select on public.ernesto_quota_counters to authenticated;
+grant all on public.ernesto_quota_counters to service_role;
+
+-- Adds p_amount unless the counter would pass p_limit (null: no limit). The
+-- conditional update locks the row, so two parallel requests cannot both take
+-- the last slot. Windows older than two days are dropped on the way.
+create or replace function public.ernesto_quota_consume(
+  p_user_id uuid,
+  p_counter text,
+  p_window_start timestamptz,
+  p_amount integer,
+  p_limit integer
+)
+returns table (accepted boolean, used integer)
+language plpgsql
+set search_path = pg_catalog, public
+as $$
+declare
+  v_used integer;
+begin
+  delete from public.ernesto_quota_counters c
+  where c.user_id = p_user_id
+    and c.window_start < p_window_start - interval '2 days';
+
+  insert into public.ernesto_quota_counters (user_id, counter, window_start, used)
+  values (p_user_id, p_counter, p_window_start, 0)
+  on conflict (user_id, counter, window_start) do nothing;
+
+  update public.ernesto_quota_counters c
+  set used = c.used + p_amount, updated_at = now()
+  where c.user_id = p_user_id
+    and c.counter = p_counter
+    and c.window_start = p_window_start
+    and (p_limit is null or c.used + p_amount <= p_limit)
+  returning c.used into v_used;
+
+  if found then
+    return query select true, v_used;
+  else
+    return query
+      select false, c.used
+      from public.ernesto_quota_counters c
+      where c.user_id = p_user_id
+        and c.counter = p_counter
+        and c.window_start = p_window_start;
+  end if;
+end;
+$$;
+
+create or replace function public.ernesto_quota_release(
+  p_user_id uuid,
+  p_counter text,
+  p_window_start timestamptz,
+  p_amount integer
+)
+returns void
+language sql
+set search_path = pg_catalog, public
+as $$
+  update public.ernesto_quota_counters c
+  set used = greatest(0, c.used - p_amount), updated_at = now()
+  where c.user_id = p_user_id
+    and c.counter = p_counter
+    and c.window_start = p_window_start;
+$$;
+
+revoke execute on function public.ernesto_quota_consume(uuid, text, timestamptz, integer, integer) from public, anon, authenticated;
+revoke execute on function public.ernesto_quota_release(uuid, text, timestamptz, integer) from public, anon, authenticated;
+grant execute on function public.ernesto_quota_consume(uuid, text, timestamptz, integer, integer) to service_role;
+grant execute on function public.ernesto_quota_release(uuid, text, timestamptz, integer) to service_role;
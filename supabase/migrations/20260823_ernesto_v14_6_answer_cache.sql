@@ -0,0 +1,97 @@
+-- Ernesto v14.6 — shared answer cache of /api/tutor
+-- Uses pgvector, already required by document_chunks.
+
+create table if not exists public.ernesto_answer_cache (
+  id bigint generated by default as identity primary key,
+  -- sha256 of the normalized question, mode, presentation and kb_version.
+  cache_key text not null unique,
+  question text not null,
+  normalized_question text not null,
+  mode text not null check (mode in ('ANALYSE', 'ACTION')),
+  presentation text not null check (presentation in ('text', 'flowchart')),
+  kb_version text not null,
+  -- Null when the question was rewritten before retrieval.
+  embedding vector(1536),
+  answer_text text not null,
+  flowchart jsonb,
+  graph jsonb,
+  graph_issues jsonb not null default '[]'::jsonb,
+  tools jsonb not null default '[]'::jsonb,
+  rag jsonb,
+  source_mention boolean not null default false,
+  hits integer not null default 0,
+  last_hit_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ernesto_answer_cache_scope_idx
+  on public.ernesto_answer_cache (kb_version, mode, presentation, created_at desc);
+
+-- Shared between users: only the server reads and writes it.
+alter table public.ernesto_answer_cache enable row level security;
+
+grant all on public.ernesto_answer_cache to service_role;
+grant usage, select on sequence public.ernesto_answer_cache_id_seq to service_role;
+
+-- Closest cached answer of the same scope, if similar enough. The table stays
+-- small (one row per distinct question), so an exact scan is enough.
+create or replace function public.match_answer_cache(
+  query_embedding vector(1536),
+  p_mode text,
+  p_presentation text,
+  p_kb_version text,
+  p_since timestamptz,
+  min_similarity double precision
+)
+returns table (
+  id bigint,
+  answer_text text,
+  flowchart jsonb,
+  graph jsonb,
+  graph_issues jsonb,
+  tools jsonb,
+  rag jsonb,
+  source_mention boolean,
+  created_at timestamptz,
+  similarity double precision
+)
+language sql
+stable
+set search_path = pg_catalog, public, extensions
+as $$
+  select
+    c.id,
+    c.answer_text,
+    c.flowchart,
+    c.graph,
+    c.graph_issues,
+    c.tools,
+    c.rag,
+    c.source_mention,
+    c.created_at,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from public.ernesto_answer_cache c
+  where c.embedding is not null
+    and c.mode = p_mode
+    and c.presentation = p_presentation
+    and c.kb_version = p_kb_version
+    and c.created_at >= p_since
+    and 1 - (c.embedding <=> query_embedding) >= min_similarity
+  order by c.embedding <=> query_embedding
+  limit 1;
+$$;
+
+create or replace function public.ernesto_answer_cache_hit(p_id bigint)
+returns void
+language sql
+set search_path = pg_catalog, public
+as $$
+  update public.ernesto_answer_cache
+  set hits = hits + 1, last_hit_at = now()
+  where id = p_id;
+$$;
+
+revoke execute on function public.match_answer_cache(vector, text, text, text, timestamptz, double precision) from public, anon, authenticated;
+revoke execute on function public.ernesto_answer_cache_hit(bigint) from public, anon, authenticated;
+grant execute on function public.match_answer_cache(vector, text, text, text, timestamptz, double precision) to service_role;
+grant execute on function public.ernesto_answer_cache_hit(bigint) to service_role;
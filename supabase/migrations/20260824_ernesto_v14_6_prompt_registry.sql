@@ -0,0 +1,138 @@
+-- Ernesto v14.6 — prompt registry and per-user prompt variants
+
+create table if not exists public.ernesto_prompt_versions (
+  id bigint generated by default as identity primary key,
+  -- One of the names of lib/prompts/templates.ts, e.g. 'tutor.system'.
+  name text not null,
+  version integer not null check (version > 0),
+  label text not null default '',
+  body text not null check (char_length(body) between 1 and 20000),
+  -- Share of users (in %) served this version while it is active.
+  weight integer not null default 0 check (weight between 0 and 100),
+  status text not null default 'draft' check (status in ('draft', 'active', 'retired')),
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (name, version)
+);
+
+create index if not exists ernesto_prompt_versions_active_idx
+  on public.ernesto_prompt_versions (status, name);
+
+-- Version drawn for each user and prompt; null: the built-in template.
+create table if not exists public.ernesto_prompt_assignments (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  prompt_name text not null,
+  version_id bigint references public.ernesto_prompt_versions(id) on delete cascade,
+  assigned_at timestamptz not null default now(),
+  primary key (user_id, prompt_name)
+);
+
+-- Prompts are only read and written by the server.
+alter table public.ernesto_prompt_versions enable row level security;
+alter table public.ernesto_prompt_assignments enable row level security;
+
+grant all on public.ernesto_prompt_versions to service_role;
+grant all on public.ernesto_prompt_assignments to service_role;
+grant usage, select on sequence public.ernesto_prompt_versions_id_seq to service_role;
+
+-- Versions an answer was written with ({"tutor.system": 12}, empty for the
+-- built-in templates) and the matching variant label.
+alter table public.ernesto_messages
+  add column if not exists prompt_versions jsonb,
+  add column if not exists prompt_variant text;
+
+alter table public.ernesto_answer_feedback
+  add column if not exists prompt_versions jsonb,
+  add column if not exists prompt_variant text;
+
+-- An answer written with another prompt is not shared across variants.
+alter table public.ernesto_answer_cache
+  add column if not exists prompt_variant text not null default 'default';
+
+drop index if exists public.ernesto_answer_cache_scope_idx;
+create index if not exists ernesto_answer_cache_scope_idx
+  on public.ernesto_answer_cache (kb_version, prompt_variant, mode, presentation, created_at desc);
+
+drop function if exists public.match_answer_cache(vector, text, text, text, timestamptz, double precision);
+
+create or replace function public.match_answer_cache(
+  query_embedding vector(1536),
+  p_mode text,
+  p_presentation text,
+  p_kb_version text,
+  p_prompt_variant text,
+  p_since timestamptz,
+  min_similarity double precision
+)
+returns table (
+  id bigint,
+  answer_text text,
+  flowchart jsonb,
+  graph jsonb,
+  graph_issues jsonb,
+  tools jsonb,
+  rag jsonb,
+  source_mention boolean,
+  created_at timestamptz,
+  similarity double precision
+)
+language sql
+stable
+set search_path = pg_catalog, public, extensions
+as $$
+  select
+    c.id,
+    c.answer_text,
+    c.flowchart,
+    c.graph,
+    c.graph_issues,
+    c.tools,
+    c.rag,
+    c.source_mention,
+    c.created_at,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from public.ernesto_answer_cache c
+  where c.embedding is not null
+    and c.mode = p_mode
+    and c.presentation = p_presentation
+    and c.kb_version = p_kb_version
+    and c.prompt_variant = p_prompt_variant
+    and c.created_at >= p_since
+    and 1 - (c.embedding <=> query_embedding) >= min_similarity
+  order by c.embedding <=> query_embedding
+  limit 1;
+$$;
+
+revoke execute on function public.match_answer_cache(vector, text, text, text, text, timestamptz, double precision) from public, anon, authenticated;
+grant execute on function public.match_answer_cache(vector, text, text, text, text, timestamptz, double precision) to service_role;
+
+-- Answers and ratings per prompt variant, read by /api/admin/prompts.
+create or replace view public.ernesto_prompt_performance
+  with (security_invoker = true) as
+with answers as (
+  select prompt_variant, count(*) as answers, min(created_at) as first_answer_at, max(created_at) as last_answer_at
+  from public.ernesto_messages
+  where role = 'ernesto' and prompt_variant is not null
+  group by prompt_variant
+),
+ratings as (
+  select
+    prompt_variant,
+    count(*) filter (where rating = 1) as useful,
+    count(*) filter (where rating = -1) as not_useful
+  from public.ernesto_answer_feedback
+  where prompt_variant is not null
+  group by prompt_variant
+)
+select
+  coalesce(a.prompt_variant, r.prompt_variant) as prompt_variant,
+  coalesce(a.answers, 0) as answers,
+  coalesce(r.useful, 0) as useful,
+  coalesce(r.not_useful, 0) as not_useful,
+  a.first_answer_at,
+  a.last_answer_at
+from answers a
+full join ratings r on r.prompt_variant = a.prompt_variant;
+
+grant select on public.ernesto_prompt_performance to service_role;
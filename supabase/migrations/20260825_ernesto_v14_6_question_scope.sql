@@ -0,0 +1,49 @@
+-- Ernesto v14.6 — question scope: label given to each tutor question before
+-- retrieval, and whether it was answered, refused or sent the food-safety template
+
+create table if not exists public.ernesto_question_scope (
+  id bigint generated by default as identity primary key,
+  user_id uuid references auth.users(id) on delete cascade,
+  project_id text,
+  question text not null,
+  label text not null
+    check (label in ('technique', 'business', 'out_of_scope', 'food_safety', 'prompt_injection')),
+  confidence numeric(3, 2) not null default 0 check (confidence between 0 and 1),
+  reason text,
+  source text not null check (source in ('rules', 'model', 'skipped', 'fallback')),
+  action text not null check (action in ('answer', 'refuse', 'safety')),
+  prompt_variant text not null default 'default',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ernesto_question_scope_created_idx
+  on public.ernesto_question_scope (created_at desc);
+
+create index if not exists ernesto_question_scope_user_created_idx
+  on public.ernesto_question_scope (user_id, created_at desc);
+
+alter table public.ernesto_question_scope enable row level security;
+
+drop policy if exists "question scope select own" on public.ernesto_question_scope;
+create policy "question scope select own"
+  on public.ernesto_question_scope for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+grant select on public.ernesto_question_scope to authenticated;
+grant all on public.ernesto_question_scope to service_role;
+grant usage, select on sequence public.ernesto_question_scope_id_seq to service_role;
+
+-- Questions per UTC day, label and action, read by /api/admin/stats.
+create or replace view public.ernesto_question_scope_daily
+  with (security_invoker = true) as
+select
+  (created_at at time zone 'utc')::date as day,
+  label,
+  action,
+  count(*) as questions,
+  round(avg(confidence), 2) as avg_confidence
+from public.ernesto_question_scope
+group by (created_at at time zone 'utc')::date, label, action;
+
+grant select on public.ernesto_question_scope_daily to service_role;
@@ -0,0 +1,9 @@
+-- Ernesto v14.6 — tie each citation map to the answer it audits
+
+-- The map goes with its answer: deleting the message or its conversation
+-- deletes the map.
+alter table public.ernesto_answer_citations
+  add column if not exists message_id bigint references public.ernesto_messages(id) on delete cascade;
+
+create index if not exists ernesto_answer_citations_message_id_idx
+  on public.ernesto_answer_citations (message_id);